@@ -608,4 +608,66 @@ module holdemgame::poker_events {
     ) {
         event::emit(FeeRecipientUpdated { table_addr, old_recipient, new_recipient });
     }
+
+    // ============================================
+    // TEST HELPERS
+    // ============================================
+    // Expected events for comparing against event::emitted_events
+
+    #[test_only]
+    public fun hand_started_for_test(table_addr: address, hand_number: u64, dealer_seat: u64, player_seats: vector<u64>): HandStarted {
+        HandStarted { table_addr, hand_number, dealer_seat, player_seats }
+    }
+
+    #[test_only]
+    public fun commit_submitted_for_test(table_addr: address, hand_number: u64, player: address): CommitSubmitted {
+        CommitSubmitted { table_addr, hand_number, player }
+    }
+
+    #[test_only]
+    public fun reveal_submitted_for_test(table_addr: address, hand_number: u64, player: address): RevealSubmitted {
+        RevealSubmitted { table_addr, hand_number, player }
+    }
+
+    #[test_only]
+    public fun cards_dealt_for_test(table_addr: address, hand_number: u64): CardsDealt {
+        CardsDealt { table_addr, hand_number }
+    }
+
+    #[test_only]
+    public fun phase_changed_for_test(table_addr: address, hand_number: u64, old_phase: u8, new_phase: u8): PhaseChanged {
+        PhaseChanged { table_addr, hand_number, old_phase, new_phase }
+    }
+
+    #[test_only]
+    public fun antes_posted_for_test(table_addr: address, hand_number: u64, total_ante: u64): AntesPosted {
+        AntesPosted { table_addr, hand_number, total_ante }
+    }
+
+    #[test_only]
+    public fun blinds_posted_for_test(
+        table_addr: address,
+        hand_number: u64,
+        sb_seat: u64,
+        sb_amount: u64,
+        bb_seat: u64,
+        bb_amount: u64,
+    ): BlindsPosted {
+        BlindsPosted { table_addr, hand_number, sb_seat, sb_amount, bb_seat, bb_amount }
+    }
+
+    #[test_only]
+    public fun player_folded_for_test(table_addr: address, hand_number: u64, seat_idx: u64, player: address): PlayerFolded {
+        PlayerFolded { table_addr, hand_number, seat_idx, player }
+    }
+
+    #[test_only]
+    public fun fold_win_for_test(table_addr: address, hand_number: u64, winner_seat: u64, winner: address, amount: u64): FoldWin {
+        FoldWin { table_addr, hand_number, winner_seat, winner, amount }
+    }
+
+    #[test_only]
+    public fun hand_ended_for_test(table_addr: address, hand_number: u64, total_pot: u64, total_fees: u64): HandEnded {
+        HandEnded { table_addr, hand_number, total_pot, total_fees }
+    }
 }
@@ -389,6 +389,8 @@ module holdemgame::texas_holdem {
         // Remove the TableRef from admin's address so they can create a new table
         let TableRef { table_address: _ } = move_from<TableRef>(admin_addr);
         
+        poker_events::emit_table_closed(table_addr, admin_addr);
+        
         // Move out and destroy the table
         let Table {
             config: _,
@@ -446,6 +448,8 @@ module holdemgame::texas_holdem {
         
         table.config.small_blind = small_blind;
         table.config.big_blind = big_blind;
+        
+        poker_events::emit_table_config_updated(table_addr, 0, small_blind, big_blind);
     }
 
     /// Update ante amount (admin only, between hands)
@@ -456,6 +460,8 @@ module holdemgame::texas_holdem {
         assert!(option::is_none(&table.game), E_GAME_IN_PROGRESS);
         
         table.config.ante = ante;
+        
+        poker_events::emit_table_config_updated(table_addr, 1, ante, 0);
     }
 
     /// Toggle straddle enabled (admin only, between hands)
@@ -466,6 +472,8 @@ module holdemgame::texas_holdem {
         assert!(option::is_none(&table.game), E_GAME_IN_PROGRESS);
         
         table.config.straddle_enabled = enabled;
+        
+        poker_events::emit_table_config_updated(table_addr, 2, if (enabled) { 1 } else { 0 }, 0);
     }
 
     /// Update buy-in limits (admin only, between hands)
@@ -481,6 +489,8 @@ module holdemgame::texas_holdem {
         
         table.config.min_buy_in = min_buy_in;
         table.config.max_buy_in = max_buy_in;
+        
+        poker_events::emit_table_config_updated(table_addr, 3, min_buy_in, max_buy_in);
     }
 
     /// Kick a player from the table (admin only, between hands)
@@ -789,14 +799,22 @@ module holdemgame::texas_holdem {
         // Check not already committed  
         assert!(vector::is_empty(vector::borrow(&game.commits, hand_idx)), E_ALREADY_COMMITTED);
         
+        let hand_number = table.hand_number;
+        
         // Now mutate
         let game_mut = option::borrow_mut(&mut table.game);
         *vector::borrow_mut(&mut game_mut.commits, hand_idx) = commit_hash;
         
-        if (all_committed_internal(game_mut)) {
+        let all_committed = all_committed_internal(game_mut);
+        if (all_committed) {
             game_mut.phase = PHASE_REVEAL;
             game_mut.reveal_deadline = timestamp::now_seconds() + COMMIT_REVEAL_TIMEOUT_SECS;
         };
+        
+        poker_events::emit_commit_submitted(table_addr, hand_number, player_addr);
+        if (all_committed) {
+            poker_events::emit_phase_changed(table_addr, hand_number, PHASE_COMMIT, PHASE_REVEAL);
+        };
     }
 
     public entry fun reveal_secret(
@@ -829,6 +847,7 @@ module holdemgame::texas_holdem {
         let stored_commit = *vector::borrow(&game.commits, hand_idx);
         assert!(computed_hash == stored_commit, E_INVALID_SECRET);
         
+        let hand_number = table.hand_number;
         let all_revealed_flag: bool;
         {
             let game_mut = option::borrow_mut(&mut table.game);
@@ -836,19 +855,27 @@ module holdemgame::texas_holdem {
             all_revealed_flag = all_revealed_internal(game_mut);
         };
         
+        poker_events::emit_reveal_submitted(table_addr, hand_number, player_addr);
+        
         if (all_revealed_flag) {
             let game_mut = option::borrow_mut(&mut table.game);
             shuffle_deck_internal(game_mut);
             deal_hole_cards_internal(game_mut);
+            poker_events::emit_cards_dealt(table_addr, hand_number);
             
             // Post antes first (if configured)
             let ante = table.config.ante;
-            post_antes_internal(game_mut, &mut table.seats, ante);
+            let total_ante = post_antes_internal(game_mut, &mut table.seats, ante);
+            if (total_ante > 0) {
+                poker_events::emit_antes_posted(table_addr, hand_number, total_ante);
+            };
             
             // Then post blinds
             let bb_amount = table.config.big_blind;
             let sb_amount = table.config.small_blind;
-            post_blinds_internal(game_mut, &mut table.seats, sb_amount, bb_amount);
+            let (sb_seat, sb_posted, bb_seat, bb_posted) =
+                post_blinds_internal(game_mut, &mut table.seats, sb_amount, bb_amount);
+            poker_events::emit_blinds_posted(table_addr, hand_number, sb_seat, sb_posted, bb_seat, bb_posted);
             
             // Update next_bb_seat - tracks who should have BB next hand (for dead button)
             let bb_hand_idx = get_big_blind_hand_idx_internal(game_mut);
@@ -865,6 +892,8 @@ module holdemgame::texas_holdem {
                 game_mut.action_on = (bb_hand_idx + 1) % num_players;
             };
             game_mut.action_deadline = timestamp::now_seconds() + ACTION_TIMEOUT_SECS;
+            
+            poker_events::emit_phase_changed(table_addr, hand_number, PHASE_REVEAL, PHASE_PREFLOP);
         };
     }
 
@@ -882,10 +911,13 @@ module holdemgame::texas_holdem {
         check_action_allowed_internal(game, &table.seats, player_addr);
         let hand_idx = find_player_hand_idx(&game.players_in_hand, &table.seats, player_addr);
         
+        let seat_idx = *vector::borrow(&game.players_in_hand, hand_idx);
+        
         let game_mut = option::borrow_mut(&mut table.game);
         *vector::borrow_mut(&mut game_mut.player_status, hand_idx) = STATUS_FOLDED;
         *vector::borrow_mut(&mut game_mut.has_acted_mask, hand_idx) = true;
         
+        poker_events::emit_player_folded(table_addr, table.hand_number, seat_idx, player_addr);
         advance_action_internal(table, table_addr);
     }
 
@@ -899,6 +931,8 @@ module holdemgame::texas_holdem {
         check_action_allowed_internal(game, &table.seats, player_addr);
         let hand_idx = find_player_hand_idx(&game.players_in_hand, &table.seats, player_addr);
         
+        let seat_idx = *vector::borrow(&game.players_in_hand, hand_idx);
+        
         let call_amount = pot_manager::get_call_amount(&game.pot_state, hand_idx);
         assert!(call_amount == 0, E_INVALID_ACTION);
         
@@ -906,6 +940,7 @@ module holdemgame::texas_holdem {
         let game_mut = option::borrow_mut(&mut table.game);
         *vector::borrow_mut(&mut game_mut.has_acted_mask, hand_idx) = true;
         
+        poker_events::emit_player_checked(table_addr, table.hand_number, seat_idx, player_addr);
         advance_action_internal(table, table_addr);
     }
 
@@ -935,6 +970,7 @@ module holdemgame::texas_holdem {
             };
         };
         
+        poker_events::emit_player_called(table_addr, table.hand_number, seat_idx, player_addr, actual_amount);
         advance_action_internal(table, table_addr);
     }
 
@@ -998,6 +1034,7 @@ module holdemgame::texas_holdem {
             };
         };
         
+        poker_events::emit_player_raised(table_addr, table.hand_number, seat_idx, player_addr, total_bet);
         advance_action_internal(table, table_addr);
     }
 
@@ -1042,6 +1079,7 @@ module holdemgame::texas_holdem {
             };
         };
         
+        poker_events::emit_player_went_all_in(table_addr, table.hand_number, seat_idx, player_addr, all_in_amount);
         advance_action_internal(table, table_addr);
     }
 
@@ -1100,6 +1138,8 @@ module holdemgame::texas_holdem {
             
             game_mut.action_deadline = timestamp::now_seconds() + ACTION_TIMEOUT_SECS;
         };
+        
+        poker_events::emit_straddle_posted(table_addr, table.hand_number, seat_idx, player_addr, straddle_amount);
     }
 
     /// Handle timeouts for commit/reveal/action phases
@@ -1113,6 +1153,7 @@ module holdemgame::texas_holdem {
         assert!(option::is_some(&table.game), E_NO_GAME);
         
         let now = timestamp::now_seconds();
+        let hand_number = table.hand_number;
         let game = option::borrow(&table.game);
         let phase = game.phase;
         
@@ -1137,12 +1178,14 @@ module holdemgame::texas_holdem {
                     };
                     
                     seat.is_sitting_out = true;
+                    poker_events::emit_timeout_triggered(table_addr, hand_number, phase, seat_idx, penalty);
                     penalized = penalized + 1;
                 };
                 i = i + 1;
             };
             // Abort the hand (can't continue without all entropy)
             table.game = option::none();
+            poker_events::emit_hand_aborted(table_addr, hand_number, 0); // 0 = commit_timeout
             
         } else if (phase == PHASE_REVEAL) {
             // Check reveal timeout
@@ -1164,22 +1207,26 @@ module holdemgame::texas_holdem {
                     };
                     
                     seat.is_sitting_out = true;
+                    poker_events::emit_timeout_triggered(table_addr, hand_number, phase, seat_idx, penalty);
                 };
                 i = i + 1;
             };
             // Abort the hand
             table.game = option::none();
+            poker_events::emit_hand_aborted(table_addr, hand_number, 1); // 1 = reveal_timeout
             
         } else if (phase >= PHASE_PREFLOP && phase <= PHASE_RIVER) {
             // Check action timeout
             assert!(now > game.action_deadline, E_NO_TIMEOUT);
             // Auto-fold the player who timed out
             let action_on = game.action_on;
+            let seat_idx = *vector::borrow(&game.players_in_hand, action_on);
             {
                 let game_mut = option::borrow_mut(&mut table.game);
                 *vector::borrow_mut(&mut game_mut.player_status, action_on) = STATUS_FOLDED;
                 *vector::borrow_mut(&mut game_mut.has_acted_mask, action_on) = true;
             };
+            poker_events::emit_timeout_triggered(table_addr, hand_number, phase, seat_idx, 0);
             advance_action_internal(table, table_addr);
         };
     }
@@ -1218,6 +1265,7 @@ module holdemgame::texas_holdem {
 
     fun advance_phase_internal(table: &mut Table, table_addr: address) acquires FeeConfig {
         let bb = table.config.big_blind;
+        let hand_number = table.hand_number;
         let game_mut = option::borrow_mut(&mut table.game);
         game_mut.last_aggressor = option::none();
         
@@ -1245,8 +1293,10 @@ module holdemgame::texas_holdem {
         // If 0 or 1 ACTIVE players remain, runout remaining cards and go to showdown
         // (no more betting possible when all-in or only one player can act)
         if (active_count <= 1) {
-            run_all_in_runout_internal(game_mut);
+            let old_phase = game_mut.phase;
+            let runout = run_all_in_runout_internal(game_mut);
             game_mut.phase = PHASE_SHOWDOWN;
+            emit_runout_internal(table_addr, hand_number, old_phase, runout);
             run_showdown_internal(table, table_addr);
             return
         };
@@ -1268,38 +1318,56 @@ module holdemgame::texas_holdem {
             game_mut.action_on = (game_mut.action_on + 1) % num_players;
             if (game_mut.action_on == start) {
                 // No active players - run out remaining community cards before showdown
-                run_all_in_runout_internal(game_mut);
+                let old_phase = game_mut.phase;
+                let runout = run_all_in_runout_internal(game_mut);
                 game_mut.phase = PHASE_SHOWDOWN;
+                emit_runout_internal(table_addr, hand_number, old_phase, runout);
                 run_showdown_internal(table, table_addr);
                 return
             };
         };
         
         let game_mut = option::borrow_mut(&mut table.game);
-        if (game_mut.phase == PHASE_PREFLOP) {
-            deal_community_cards_internal(game_mut, 3);
+        let old_phase = game_mut.phase;
+        let dealt = if (old_phase == PHASE_PREFLOP) {
             game_mut.phase = PHASE_FLOP;
-        } else if (game_mut.phase == PHASE_FLOP) {
-            deal_community_cards_internal(game_mut, 1);
+            deal_community_cards_internal(game_mut, 3)
+        } else if (old_phase == PHASE_FLOP) {
             game_mut.phase = PHASE_TURN;
-        } else if (game_mut.phase == PHASE_TURN) {
-            deal_community_cards_internal(game_mut, 1);
+            deal_community_cards_internal(game_mut, 1)
+        } else if (old_phase == PHASE_TURN) {
             game_mut.phase = PHASE_RIVER;
+            deal_community_cards_internal(game_mut, 1)
         } else {
             game_mut.phase = PHASE_SHOWDOWN;
+            poker_events::emit_phase_changed(table_addr, hand_number, old_phase, PHASE_SHOWDOWN);
             run_showdown_internal(table, table_addr);
             return
         };
+        let new_phase = game_mut.phase;
+        poker_events::emit_phase_changed(table_addr, hand_number, old_phase, new_phase);
+        poker_events::emit_community_cards_dealt(table_addr, hand_number, new_phase, dealt);
         
         game_mut.action_deadline = timestamp::now_seconds() + ACTION_TIMEOUT_SECS;
     }
 
-    /// Deal remaining community cards when all players are all-in
-    fun run_all_in_runout_internal(game: &mut Game) {
+    /// Deal remaining community cards when all players are all-in.
+    /// Returns the cards dealt (empty if the board was already complete).
+    fun run_all_in_runout_internal(game: &mut Game): vector<u8> {
         let community_len = vector::length(&game.community_cards);
         if (community_len < 5) {
             let remaining = 5 - community_len;
-            deal_community_cards_internal(game, remaining);
+            deal_community_cards_internal(game, remaining)
+        } else {
+            vector::empty<u8>()
+        }
+    }
+
+    /// Emit the phase change to showdown plus any runout cards
+    fun emit_runout_internal(table_addr: address, hand_number: u64, old_phase: u8, runout: vector<u8>) {
+        poker_events::emit_phase_changed(table_addr, hand_number, old_phase, PHASE_SHOWDOWN);
+        if (!vector::is_empty(&runout)) {
+            poker_events::emit_community_cards_dealt(table_addr, hand_number, PHASE_SHOWDOWN, runout);
         };
     }
 
@@ -1413,6 +1481,23 @@ module holdemgame::texas_holdem {
             table.total_fees_collected = table.total_fees_collected + fee_to_collect;
         };
         
+        poker_events::emit_showdown_started(table_addr, hand_number, community_cards);
+        let w = 0u64;
+        while (w < vector::length(&winner_seats)) {
+            // Fee is taken once per hand, attribute it to the first award
+            let fee_deducted = if (w == 0) { fee_to_collect } else { 0 };
+            poker_events::emit_pot_awarded(
+                table_addr,
+                hand_number,
+                *vector::borrow(&winner_seats, w),
+                *vector::borrow(&winner_players, w),
+                *vector::borrow(&winner_amounts, w),
+                fee_deducted,
+            );
+            w = w + 1;
+        };
+        poker_events::emit_hand_ended(table_addr, hand_number, total_pot, fee_to_collect);
+        
         // Emit comprehensive hand result event
         poker_events::emit_hand_result(
             table_addr,
@@ -1485,6 +1570,9 @@ module holdemgame::texas_holdem {
             table.total_fees_collected = table.total_fees_collected + fee_to_collect;
         };
         
+        poker_events::emit_fold_win(table_addr, hand_number, seat_idx, winner_player, net_amount);
+        poker_events::emit_hand_ended(table_addr, hand_number, total, fee_to_collect);
+        
         // Emit hand result event for fold win
         // For fold wins, showdown arrays are empty (cards not revealed)
         poker_events::emit_hand_result(
@@ -1629,26 +1717,36 @@ module holdemgame::texas_holdem {
     }
 
     fun shuffle_deck_internal(game: &mut Game) {
+        // Block height provides additional entropy not directly controllable by players
+        game.deck = shuffled_deck(
+            &game.secrets,
+            game.commit_deadline,
+            game.reveal_deadline,
+            block::get_current_block_height()
+        );
+        game.deck_index = 0;
+    }
+
+    /// Fisher-Yates shuffle seeded by every secret in hand order, then both deadlines and the block height
+    fun shuffled_deck(
+        secrets: &vector<vector<u8>>,
+        commit_deadline: u64,
+        reveal_deadline: u64,
+        block_height: u64
+    ): vector<u8> {
         // Build seed from all player secrets
         let seed = vector::empty<u8>();
         let i = 0u64;
-        while (i < vector::length(&game.secrets)) {
-            vector::append(&mut seed, *vector::borrow(&game.secrets, i));
+        while (i < vector::length(secrets)) {
+            vector::append(&mut seed, *vector::borrow(secrets, i));
             i = i + 1;
         };
         
         // MEDIUM-4 Fix: Use fixed deadlines + block height for unbiased entropy
         // Deadlines are fixed when phases end, not player-controlled
-        let deadline_bytes = bcs::to_bytes(&game.commit_deadline);
-        vector::append(&mut seed, deadline_bytes);
-        
-        let reveal_deadline_bytes = bcs::to_bytes(&game.reveal_deadline);
-        vector::append(&mut seed, reveal_deadline_bytes);
-        
-        // Block height provides additional entropy not directly controllable by players
-        let block_height = block::get_current_block_height();
-        let block_bytes = bcs::to_bytes(&block_height);
-        vector::append(&mut seed, block_bytes);
+        vector::append(&mut seed, bcs::to_bytes(&commit_deadline));
+        vector::append(&mut seed, bcs::to_bytes(&reveal_deadline));
+        vector::append(&mut seed, bcs::to_bytes(&block_height));
         
         let seed_hash = hash::sha3_256(seed);
         
@@ -1675,8 +1773,17 @@ module holdemgame::texas_holdem {
             vector::swap(&mut deck, n, j);
         };
         
-        game.deck = deck;
-        game.deck_index = 0;
+        deck
+    }
+
+    #[test_only]
+    public fun shuffled_deck_for_test(
+        secrets: vector<vector<u8>>,
+        commit_deadline: u64,
+        reveal_deadline: u64,
+        block_height: u64
+    ): vector<u8> {
+        shuffled_deck(&secrets, commit_deadline, reveal_deadline, block_height)
     }
 
     /// Generate per-player card encryption key from their secret and seat index
@@ -1730,16 +1837,22 @@ module holdemgame::texas_holdem {
         };
     }
 
-    fun deal_community_cards_internal(game: &mut Game, count: u64) {
+    /// Deal `count` community cards from the deck. Returns the cards dealt.
+    fun deal_community_cards_internal(game: &mut Game, count: u64): vector<u8> {
+        let dealt = vector::empty<u8>();
         let i = 0u64;
         while (i < count) {
-            vector::push_back(&mut game.community_cards, *vector::borrow(&game.deck, game.deck_index));
+            let card = *vector::borrow(&game.deck, game.deck_index);
+            vector::push_back(&mut game.community_cards, card);
+            vector::push_back(&mut dealt, card);
             game.deck_index = game.deck_index + 1;
             i = i + 1;
         };
+        dealt
     }
 
-    fun post_blinds_internal(game: &mut Game, seats: &mut vector<Option<Seat>>, sb: u64, bb: u64) {
+    /// Post small and big blinds. Returns (sb_seat, sb_amount, bb_seat, bb_amount) as actually posted.
+    fun post_blinds_internal(game: &mut Game, seats: &mut vector<Option<Seat>>, sb: u64, bb: u64): (u64, u64, u64, u64) {
         let _num_players = vector::length(&game.players_in_hand);
         let sb_hand_idx = get_small_blind_hand_idx_internal(game);
         let bb_hand_idx = get_big_blind_hand_idx_internal(game);
@@ -1770,12 +1883,15 @@ module holdemgame::texas_holdem {
         pot_manager::add_bet(&mut game.pot_state, bb_hand_idx, bb_amount);
         
         game.min_raise = bb;
+        
+        (sb_seat_idx, sb_amount, bb_seat_idx, bb_amount)
     }
 
-    /// Post antes from all players (called before blinds)
-    fun post_antes_internal(game: &mut Game, seats: &mut vector<Option<Seat>>, ante: u64) {
-        if (ante == 0) { return };
+    /// Post antes from all players (called before blinds). Returns the total posted.
+    fun post_antes_internal(game: &mut Game, seats: &mut vector<Option<Seat>>, ante: u64): u64 {
+        if (ante == 0) { return 0 };
         
+        let total = 0u64;
         let num_players = vector::length(&game.players_in_hand);
         let i = 0u64;
         while (i < num_players) {
@@ -1790,8 +1906,10 @@ module holdemgame::texas_holdem {
                 seat.chip_count = seat.chip_count - ante_amount;
             };
             pot_manager::add_bet(&mut game.pot_state, i, ante_amount);
+            total = total + ante_amount;
             i = i + 1;
         };
+        total
     }
 
     fun get_dealer_hand_idx_internal(game: &Game): u64 {
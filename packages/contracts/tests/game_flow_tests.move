@@ -6,8 +6,15 @@
 #[test_only]
 module holdemgame::game_flow_tests {
     use std::signer;
+    use std::vector;
+    use cedra_std::hash;
+    use cedra_framework::account;
+    use cedra_framework::block;
+    use cedra_framework::event;
+    use cedra_framework::timestamp;
     use holdemgame::texas_holdem;
     use holdemgame::chips;
+    use holdemgame::poker_events::{Self, AntesPosted, BlindsPosted, CardsDealt, CommitSubmitted, HandStarted, PhaseChanged, RevealSubmitted};
 
     // Helper to setup a game environment and return table Object address
     fun setup_table(admin: &signer): address {
@@ -110,22 +117,141 @@ module holdemgame::game_flow_tests {
         texas_holdem::join_table(p2, table_addr, 0, 200);
     }
 
-    // Note: Tests for start_hand, betting, and timeout require the Cedra
-    // framework's timestamp module to be initialized, which cannot be done
-    // in Move unit tests. Those tests must be performed on-chain via CLI
-    // or integration tests.
+    // Note: start_hand, commit/reveal and betting read the chain clock and
+    // block height, so those tests initialize the framework's timestamp and
+    // block modules first (see init_framework).
     //
     // Covered by unit tests:
     // - Table creation and configuration
     // - Join/leave table mechanics
     // - Buy-in validation (min/max)
     // - Seat management
+    // - Event stream through commit/reveal into preflop
     //
     // Require on-chain testing:
-    // - start_hand (uses timestamp)
-    // - Betting rounds (requires game state)
-    // - Timeout handling (uses timestamp)
-    // - Commit/reveal flow
+    // - Timeout handling (needs the clock moved past a deadline)
+    // - Full betting rounds and showdown
+
+    // ============================================
+    // EVENT STREAM TESTS
+    // ============================================
+    // event::emitted_events returns one type at a time, in emission order,
+    // so the order across types is pinned call by call: every type the
+    // frontend reducer depends on is checked after each entry function.
+
+    const PHASE_COMMIT: u8 = 1;
+    const PHASE_REVEAL: u8 = 2;
+    const PHASE_PREFLOP: u8 = 3;
+
+    // The hand flow reads the chain clock and block height
+    fun init_framework(framework: &signer) {
+        account::create_account_for_test(signer::address_of(framework));
+        timestamp::set_time_has_started_for_testing(framework);
+        block::initialize_for_test(framework, 1);
+    }
+
+    // Seat p1 at 0 and p2 at 1 on a 5/10 table with the given ante
+    fun setup_heads_up(admin: &signer, p1: &signer, p2: &signer, ante: u64): address {
+        chips::init_for_test(admin);
+        texas_holdem::create_table(admin, 5, 10, 50, 1000, ante, false);
+        let table_addr = texas_holdem::get_table_address(signer::address_of(admin));
+
+        chips::mint_test_chips(signer::address_of(p1), 500);
+        chips::mint_test_chips(signer::address_of(p2), 500);
+        texas_holdem::join_table(p1, table_addr, 0, 200);
+        texas_holdem::join_table(p2, table_addr, 1, 200);
+        table_addr
+    }
+
+    #[test(framework = @cedra_framework, admin = @holdemgame, p1 = @0xAAA, p2 = @0xBBB)]
+    fun test_hand_events_through_preflop(framework: &signer, admin: &signer, p1: &signer, p2: &signer) {
+        init_framework(framework);
+        let table_addr = setup_heads_up(admin, p1, p2, 0);
+        let p1_addr = signer::address_of(p1);
+        let p2_addr = signer::address_of(p2);
+        let secret1 = b"player-one-secret-0001";
+        let secret2 = b"player-two-secret-0002";
+
+        // Dealer button moves from seat 0 to seat 1
+        texas_holdem::start_hand(admin, table_addr);
+        assert!(event::emitted_events<HandStarted>() == vector[
+            poker_events::hand_started_for_test(table_addr, 1, 1, vector[0, 1]),
+        ], 1);
+        assert!(event::emitted_events<PhaseChanged>() == vector[], 2);
+
+        texas_holdem::submit_commit(p1, table_addr, hash::sha3_256(secret1));
+        assert!(event::emitted_events<CommitSubmitted>() == vector[
+            poker_events::commit_submitted_for_test(table_addr, 1, p1_addr),
+        ], 3);
+        assert!(event::emitted_events<PhaseChanged>() == vector[], 4);
+
+        // The last commit opens the reveal window
+        texas_holdem::submit_commit(p2, table_addr, hash::sha3_256(secret2));
+        assert!(event::emitted_events<CommitSubmitted>() == vector[
+            poker_events::commit_submitted_for_test(table_addr, 1, p1_addr),
+            poker_events::commit_submitted_for_test(table_addr, 1, p2_addr),
+        ], 5);
+        assert!(event::emitted_events<PhaseChanged>() == vector[
+            poker_events::phase_changed_for_test(table_addr, 1, PHASE_COMMIT, PHASE_REVEAL),
+        ], 6);
+
+        // Nothing is dealt or posted until every secret is in
+        texas_holdem::reveal_secret(p1, table_addr, secret1);
+        assert!(event::emitted_events<RevealSubmitted>() == vector[
+            poker_events::reveal_submitted_for_test(table_addr, 1, p1_addr),
+        ], 7);
+        assert!(event::emitted_events<CardsDealt>() == vector[], 8);
+        assert!(event::emitted_events<BlindsPosted>() == vector[], 9);
+        assert!(vector::length(&event::emitted_events<PhaseChanged>()) == 1, 10);
+
+        // The last reveal deals, posts the blinds and moves to preflop.
+        // Heads-up the dealer (seat 1) posts the small blind.
+        texas_holdem::reveal_secret(p2, table_addr, secret2);
+        assert!(event::emitted_events<RevealSubmitted>() == vector[
+            poker_events::reveal_submitted_for_test(table_addr, 1, p1_addr),
+            poker_events::reveal_submitted_for_test(table_addr, 1, p2_addr),
+        ], 11);
+        assert!(event::emitted_events<CardsDealt>() == vector[
+            poker_events::cards_dealt_for_test(table_addr, 1),
+        ], 12);
+        assert!(event::emitted_events<AntesPosted>() == vector[], 13);
+        assert!(event::emitted_events<BlindsPosted>() == vector[
+            poker_events::blinds_posted_for_test(table_addr, 1, 1, 5, 0, 10),
+        ], 14);
+        assert!(event::emitted_events<PhaseChanged>() == vector[
+            poker_events::phase_changed_for_test(table_addr, 1, PHASE_COMMIT, PHASE_REVEAL),
+            poker_events::phase_changed_for_test(table_addr, 1, PHASE_REVEAL, PHASE_PREFLOP),
+        ], 15);
+        assert!(texas_holdem::get_game_phase(table_addr) == PHASE_PREFLOP, 16);
+    }
+
+    #[test(framework = @cedra_framework, admin = @holdemgame, p1 = @0xAAA, p2 = @0xBBB)]
+    fun test_antes_posted_with_blinds_before_preflop(framework: &signer, admin: &signer, p1: &signer, p2: &signer) {
+        init_framework(framework);
+        let table_addr = setup_heads_up(admin, p1, p2, 2);
+        let secret1 = b"player-one-secret-0001";
+        let secret2 = b"player-two-secret-0002";
+
+        texas_holdem::start_hand(admin, table_addr);
+        texas_holdem::submit_commit(p1, table_addr, hash::sha3_256(secret1));
+        texas_holdem::submit_commit(p2, table_addr, hash::sha3_256(secret2));
+        texas_holdem::reveal_secret(p1, table_addr, secret1);
+        assert!(event::emitted_events<AntesPosted>() == vector[], 1);
+        assert!(event::emitted_events<BlindsPosted>() == vector[], 2);
+        assert!(vector::length(&event::emitted_events<PhaseChanged>()) == 1, 3);
+
+        texas_holdem::reveal_secret(p2, table_addr, secret2);
+        assert!(event::emitted_events<AntesPosted>() == vector[
+            poker_events::antes_posted_for_test(table_addr, 1, 4),
+        ], 4);
+        assert!(event::emitted_events<BlindsPosted>() == vector[
+            poker_events::blinds_posted_for_test(table_addr, 1, 1, 5, 0, 10),
+        ], 5);
+        assert!(event::emitted_events<PhaseChanged>() == vector[
+            poker_events::phase_changed_for_test(table_addr, 1, PHASE_COMMIT, PHASE_REVEAL),
+            poker_events::phase_changed_for_test(table_addr, 1, PHASE_REVEAL, PHASE_PREFLOP),
+        ], 6);
+    }
 
     // ============================================
     // PAUSED TABLE TESTS
@@ -163,5 +289,21 @@ module holdemgame::game_flow_tests {
         assert!(seat_player == player_addr, 1);
         assert!(seat_chips == 200, 2);
     }
-}
 
+    #[test]
+    fun test_shuffled_deck_vector() {
+        // Same vector as shuffleDeck in frontend/src/client/fairness.test.ts
+        // Three 32-byte secrets: all 0x01, all 0x02, all 0x03
+        let secrets = vector[
+            x"0101010101010101010101010101010101010101010101010101010101010101",
+            x"0202020202020202020202020202020202020202020202020202020202020202",
+            x"0303030303030303030303030303030303030303030303030303030303030303",
+        ];
+
+        let deck = texas_holdem::shuffled_deck_for_test(secrets, 1700000000, 1700000060, 12345);
+        assert!(deck == vector[
+            34, 6, 0, 1, 28, 24, 29, 27, 7, 51, 22, 50, 43, 17, 9, 21, 5, 2, 49, 46, 36, 23, 31, 14, 37, 10,
+            35, 40, 4, 15, 41, 32, 11, 12, 47, 18, 13, 25, 16, 39, 26, 48, 20, 19, 33, 30, 44, 42, 3, 8, 45, 38,
+        ], 1);
+    }
+}
@@ -6,8 +6,14 @@
 #[test_only]
 module holdemgame::player_actions_tests {
     use std::signer;
+    use cedra_std::hash;
+    use cedra_framework::account;
+    use cedra_framework::block;
+    use cedra_framework::event;
+    use cedra_framework::timestamp;
     use holdemgame::texas_holdem;
     use holdemgame::chips;
+    use holdemgame::poker_events::{Self, FoldWin, HandEnded, PlayerFolded};
 
     // Helper to setup a table with players and return table Object address
     fun setup_table_with_players(admin: &signer, p1: &signer, p2: &signer): address {
@@ -221,4 +227,47 @@ module holdemgame::player_actions_tests {
         let missed = texas_holdem::get_missed_blinds(table_addr);
         assert!(*std::vector::borrow(&missed, 0) == 0, 3);
     }
+
+    // ============================================
+    // ACTION EVENTS
+    // ============================================
+
+    // The hand flow reads the chain clock and block height
+    fun init_framework(framework: &signer) {
+        account::create_account_for_test(signer::address_of(framework));
+        timestamp::set_time_has_started_for_testing(framework);
+        block::initialize_for_test(framework, 1);
+    }
+
+    #[test(framework = @cedra_framework, admin = @holdemgame, p1 = @0xAAA, p2 = @0xBBB)]
+    fun test_fold_events(framework: &signer, admin: &signer, p1: &signer, p2: &signer) {
+        init_framework(framework);
+        let table_addr = setup_table_with_players(admin, p1, p2);
+        let secret1 = b"player-one-secret-0001";
+        let secret2 = b"player-two-secret-0002";
+
+        texas_holdem::start_hand(admin, table_addr);
+        texas_holdem::submit_commit(p1, table_addr, hash::sha3_256(secret1));
+        texas_holdem::submit_commit(p2, table_addr, hash::sha3_256(secret2));
+        texas_holdem::reveal_secret(p1, table_addr, secret1);
+        texas_holdem::reveal_secret(p2, table_addr, secret2);
+        assert!(event::emitted_events<PlayerFolded>() == vector[], 1);
+        assert!(event::emitted_events<FoldWin>() == vector[], 2);
+
+        // Heads-up the small blind (dealer, seat 1) acts first preflop.
+        // The 15 chip pot is below the fee's whole-chip threshold.
+        texas_holdem::fold(p2, table_addr);
+        assert!(event::emitted_events<PlayerFolded>() == vector[
+            poker_events::player_folded_for_test(table_addr, 1, 1, signer::address_of(p2)),
+        ], 3);
+        assert!(event::emitted_events<FoldWin>() == vector[
+            poker_events::fold_win_for_test(table_addr, 1, 0, signer::address_of(p1), 15),
+        ], 4);
+        assert!(event::emitted_events<HandEnded>() == vector[
+            poker_events::hand_ended_for_test(table_addr, 1, 15, 0),
+        ], 5);
+
+        let (_, p1_chips, _) = texas_holdem::get_seat_info(table_addr, 0);
+        assert!(p1_chips == 205, 6); // 200 - 10 (big blind) + 15
+    }
 }
@@ -0,0 +1,143 @@
+/**
+ * Timeout keeper CLI
+ *
+ *   KEEPER_PRIVATE_KEY=0x... npm run keeper -- --tables 0xabc,0xdef
+ *
+ * Log lines are JSON, one per event, on stdout (and appended to --log-file).
+ * The signing key is only read from the environment so it never shows up in
+ * the process list or shell history.
+ */
+
+import { appendFileSync, readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { Account, AccountAddress, Cedra, Ed25519PrivateKey } from "@cedra-labs/ts-sdk";
+import { accountSigner, HoldemClient } from "../src/client";
+import { createCedraConfig, isProfileConfigured, NETWORK_PROFILES, type NetworkProfile, type NetworkProfileId } from "../src/config/networks";
+import { createTimeoutKeeper, MIN_DELAY_SECS, type KeeperLogEntry } from "./timeoutKeeper";
+
+const USAGE = `Usage: npm run keeper -- [options]
+
+Claims handle_timeout on tables stuck past a commit, reveal or action deadline.
+
+Options:
+  --tables <a,b,...>     Table addresses to watch (or KEEPER_TABLES)
+  --tables-file <path>   File with one table address per line
+  --network <profile>    devnet | testnet | mainnet | local | custom (default: testnet)
+  --fullnode <url>       Override the profile's fullnode URL
+  --contract <address>   Override the profile's contract address
+  --interval <secs>      Seconds between sweeps, at least 1 (default: 5)
+  --grace <secs>         Seconds past a deadline before claiming (default: 2)
+  --max-backoff <secs>   Cap on the per-table retry delay, at least 1 (default: 300)
+  --dry-run              Report expired deadlines without submitting
+  --log-file <path>      Also append log lines to this file
+  --help                 Show this message
+
+Environment:
+  KEEPER_PRIVATE_KEY     Ed25519 key of the account that pays for claims (not needed with --dry-run)
+`;
+
+function fail(message: string): never {
+    console.error(`${message}\n\n${USAGE}`);
+    process.exit(1);
+}
+
+function readNumber(value: string | undefined, fallback: number, name: string, min = 0): number {
+    if (value === undefined) return fallback;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < min) fail(`--${name} must be a number of at least ${min}`);
+    return parsed;
+}
+
+function readTables(list: string[], file: string | undefined): string[] {
+    const raw = [...list.flatMap((entry) => entry.split(",")), ...(file ? readFileSync(file, "utf8").split(/\r?\n/) : [])];
+    const tables = new Set<string>();
+    for (const entry of raw) {
+        const trimmed = entry.replace(/#.*/, "").trim();
+        if (!trimmed) continue;
+        try {
+            tables.add(AccountAddress.from(trimmed).toString());
+        } catch {
+            fail(`Not a table address: ${trimmed}`);
+        }
+    }
+    return [...tables];
+}
+
+function resolveProfile(id: string, fullnode: string | undefined, contract: string | undefined): NetworkProfile {
+    if (id === "offline") fail("The offline simulator only runs inside the browser app");
+    if (!(id in NETWORK_PROFILES)) fail(`Unknown network profile: ${id}`);
+    const profile: NetworkProfile = {
+        ...NETWORK_PROFILES[id as NetworkProfileId],
+        ...(fullnode ? { fullnodeUrl: fullnode } : {}),
+        ...(contract ? { contractAddress: contract } : {}),
+    };
+    if (!isProfileConfigured(profile)) fail(`Network profile "${id}" has no contract address; pass --contract`);
+    return profile;
+}
+
+function main() {
+    const { values } = parseArgs({
+        options: {
+            tables: { type: "string", multiple: true, default: [] },
+            "tables-file": { type: "string" },
+            network: { type: "string", default: "testnet" },
+            fullnode: { type: "string" },
+            contract: { type: "string" },
+            interval: { type: "string" },
+            grace: { type: "string" },
+            "max-backoff": { type: "string" },
+            "dry-run": { type: "boolean", default: false },
+            "log-file": { type: "string" },
+            help: { type: "boolean", default: false },
+        },
+    });
+
+    if (values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const tables = readTables([...values.tables, ...(process.env.KEEPER_TABLES ? [process.env.KEEPER_TABLES] : [])], values["tables-file"]);
+    if (tables.length === 0) fail("No tables to watch");
+
+    const profile = resolveProfile(values.network, values.fullnode, values.contract);
+    const cedra = new Cedra(createCedraConfig(profile));
+    const dryRun = values["dry-run"];
+
+    const privateKey = process.env.KEEPER_PRIVATE_KEY;
+    if (!privateKey && !dryRun) fail("KEEPER_PRIVATE_KEY is required unless --dry-run is set");
+    const account = privateKey ? Account.fromPrivateKey({ privateKey: new Ed25519PrivateKey(privateKey) }) : null;
+
+    const client = new HoldemClient({
+        transport: cedra,
+        signer: account ? accountSigner(cedra, account) : undefined,
+        contractAddress: profile.contractAddress,
+    });
+
+    const logFile = values["log-file"];
+    const log = (entry: KeeperLogEntry) => {
+        const line = JSON.stringify(entry, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+        console.log(line);
+        if (logFile) appendFileSync(logFile, `${line}\n`);
+    };
+
+    const keeper = createTimeoutKeeper({
+        client,
+        tables,
+        intervalSecs: readNumber(values.interval, 5, "interval", MIN_DELAY_SECS),
+        graceSecs: readNumber(values.grace, 2, "grace"),
+        maxBackoffSecs: readNumber(values["max-backoff"], 300, "max-backoff", MIN_DELAY_SECS),
+        dryRun,
+        log,
+    });
+
+    const shutdown = () => {
+        keeper.stop().then(() => process.exit(0));
+    };
+    process.once("SIGINT", shutdown);
+    process.once("SIGTERM", shutdown);
+
+    keeper.start();
+}
+
+main();
@@ -0,0 +1,268 @@
+/**
+ * Timeout keeper
+ *
+ * Sweeps a list of tables and calls handle_timeout on any whose commit,
+ * reveal or action deadline has passed on the chain's clock, so a hand never
+ * sits frozen because the player it is waiting on walked away. Failed claims
+ * back off per table; in dry-run mode nothing is submitted and the keeper
+ * only reports what it would have claimed. Every claim and every penalty it
+ * causes is written to the structured log.
+ */
+
+import { GAME_PHASES, PHASE_NAMES } from "../src/config/contracts";
+import { formatTransactionError, type HoldemClient } from "../src/client";
+import type { GamePhase } from "../src/types";
+
+export type KeeperEvent =
+    | "started"
+    | "stopped"
+    | "expired"
+    | "dry-run"
+    | "claimed"
+    | "penalty"
+    | "hand-aborted"
+    | "claim-failed"
+    | "read-failed"
+    | "backoff";
+
+/** One line of the structured log */
+export interface KeeperLogEntry {
+    /** ISO timestamp */
+    time: string;
+    level: "info" | "warn" | "error";
+    event: KeeperEvent;
+    table?: string;
+    [field: string]: unknown;
+}
+
+export type KeeperLogger = (entry: KeeperLogEntry) => void;
+
+export interface TimeoutKeeperOptions {
+    /** Needs a signer unless dryRun is set */
+    client: HoldemClient;
+    tables: string[];
+    /** Seconds between sweeps */
+    intervalSecs: number;
+    /** Seconds past a deadline before claiming, to absorb ledger lag */
+    graceSecs: number;
+    /** Cap on the per-table backoff after failures, in seconds */
+    maxBackoffSecs: number;
+    /** Report expired deadlines without submitting anything */
+    dryRun: boolean;
+    log: KeeperLogger;
+}
+
+export interface TimeoutKeeper {
+    start: () => void;
+    /** Stop sweeping; resolves once the sweep in progress has finished */
+    stop: () => Promise<void>;
+    /** Check every table once */
+    sweep: () => Promise<void>;
+}
+
+/** A deadline the table is stuck behind */
+export interface ExpiredWindow {
+    handNumber: number;
+    phase: GamePhase;
+    /** Unix seconds */
+    deadline: number;
+    /** Seats handle_timeout will penalise (commit/reveal) or fold (betting) */
+    seats: { seatIdx: number; player: string | null; chips: number }[];
+}
+
+/** Floor for the sweep interval and the backoff, so a zero can never spin on the fullnode */
+export const MIN_DELAY_SECS = 1;
+
+interface Backoff {
+    failures: number;
+    /** Unix milliseconds before which the table is skipped */
+    until: number;
+}
+
+const isBetting = (phase: GamePhase) => phase >= GAME_PHASES.PREFLOP && phase <= GAME_PHASES.RIVER;
+
+/**
+ * The deadline a table is stuck behind, if it passed more than graceSecs ago
+ */
+export async function findExpiredWindow(client: HoldemClient, tableAddress: string, chainNow: number, graceSecs = 0): Promise<ExpiredWindow | null> {
+    const phase = await client.getGamePhase(tableAddress);
+    let deadline: number;
+    let seatIndices: number[];
+
+    if (phase === GAME_PHASES.COMMIT || phase === GAME_PHASES.REVEAL) {
+        const isCommit = phase === GAME_PHASES.COMMIT;
+        const [windowDeadline, submitted, playersInHand] = await Promise.all([
+            isCommit ? client.getCommitDeadline(tableAddress) : client.getRevealDeadline(tableAddress),
+            isCommit ? client.getCommitStatus(tableAddress) : client.getRevealStatus(tableAddress),
+            client.getPlayersInHand(tableAddress),
+        ]);
+        deadline = windowDeadline;
+        seatIndices = playersInHand.filter((_, handIdx) => !submitted[handIdx]);
+    } else if (isBetting(phase)) {
+        const actionOn = await client.getActionOn(tableAddress);
+        deadline = actionOn.deadline;
+        seatIndices = [actionOn.seatIndex];
+    } else {
+        return null;
+    }
+
+    // handle_timeout needs the chain strictly past the deadline
+    if (deadline <= 0 || chainNow <= deadline + graceSecs) return null;
+
+    const [state, seats] = await Promise.all([
+        client.getTableState(tableAddress),
+        Promise.all(seatIndices.map((seatIdx) => client.getSeatInfo(tableAddress, seatIdx))),
+    ]);
+    return {
+        handNumber: state.handNumber,
+        phase,
+        deadline,
+        seats: seatIndices.map((seatIdx, i) => ({ seatIdx, player: seats[i]?.player ?? null, chips: seats[i]?.chips ?? 0 })),
+    };
+}
+
+export function createTimeoutKeeper({ client, tables, intervalSecs, graceSecs, maxBackoffSecs, dryRun, log }: TimeoutKeeperOptions): TimeoutKeeper {
+    const backoff = new Map<string, Backoff>();
+    let penaltyPercent: number | null = null;
+    let running = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let current: Promise<void> | null = null;
+
+    const emit = (level: KeeperLogEntry["level"], event: KeeperEvent, fields: Omit<KeeperLogEntry, "time" | "level" | "event"> = {}) =>
+        log({ time: new Date().toISOString(), level, event, ...fields });
+
+    const fail = (table: string, event: KeeperEvent, err: unknown) => {
+        const failures = (backoff.get(table)?.failures ?? 0) + 1;
+        const delaySecs = Math.min(Math.max(intervalSecs, MIN_DELAY_SECS) * 2 ** failures, Math.max(maxBackoffSecs, MIN_DELAY_SECS));
+        backoff.set(table, { failures, until: Date.now() + delaySecs * 1000 });
+        emit(event === "claim-failed" ? "error" : "warn", event, { table, error: formatTransactionError(err, String(err)) });
+        emit("info", "backoff", { table, failures, retryInSecs: delaySecs });
+    };
+
+    // Commit/reveal timeouts cost a share of the stack; betting timeouts only fold
+    const expectedPenalties = (expired: ExpiredWindow) => {
+        const betting = isBetting(expired.phase);
+        return expired.seats.map((seat) => ({
+            seat: seat.seatIdx,
+            player: seat.player,
+            penalty: betting || penaltyPercent === null ? 0 : Math.floor((seat.chips * penaltyPercent) / 100),
+            folded: betting,
+            satOut: !betting,
+        }));
+    };
+
+    const claim = async (table: string, expired: ExpiredWindow) => {
+        const { hash, result } = await client.handleTimeout(table);
+        emit("info", "claimed", { table, hand: expired.handNumber, phase: PHASE_NAMES[expired.phase], hash, version: result.version });
+
+        const events = client.transactionEvents(result);
+        if (!events.some((event) => event.type === "TimeoutTriggered")) {
+            // Deployments published before TimeoutTriggered existed claim
+            // silently, so log what the views said the claim would cost
+            for (const penalty of expectedPenalties(expired)) {
+                emit("info", "penalty", { table, hand: expired.handNumber, phase: PHASE_NAMES[expired.phase], ...penalty, estimated: true, hash });
+            }
+        }
+        for (const event of events) {
+            if (event.type === "TimeoutTriggered") {
+                const seat = expired.seats.find((s) => s.seatIdx === event.data.seatIdx);
+                emit("info", "penalty", {
+                    table,
+                    hand: event.data.handNumber,
+                    phase: PHASE_NAMES[event.data.phase] ?? event.data.phase,
+                    seat: event.data.seatIdx,
+                    player: seat?.player ?? null,
+                    penalty: event.data.penalty,
+                    folded: isBetting(event.data.phase as GamePhase),
+                    satOut: !isBetting(event.data.phase as GamePhase),
+                    hash,
+                });
+            } else if (event.type === "HandAborted") {
+                emit("info", "hand-aborted", { table, hand: event.data.handNumber, reason: event.data.reason, hash });
+            }
+        }
+    };
+
+    const checkTable = async (table: string, chainNow: number) => {
+        const pause = backoff.get(table);
+        if (pause && Date.now() < pause.until) return;
+
+        let expired: ExpiredWindow | null;
+        try {
+            expired = await findExpiredWindow(client, table, chainNow, graceSecs);
+        } catch (err) {
+            fail(table, "read-failed", err);
+            return;
+        }
+        if (!expired) {
+            backoff.delete(table);
+            return;
+        }
+
+        const fields = {
+            table,
+            hand: expired.handNumber,
+            phase: PHASE_NAMES[expired.phase],
+            overdueSecs: Math.floor(chainNow - expired.deadline),
+            seats: expired.seats.map((seat) => seat.seatIdx),
+        };
+        if (dryRun) {
+            emit("info", "dry-run", { ...fields, penalties: expectedPenalties(expired) });
+            return;
+        }
+
+        emit("info", "expired", fields);
+        try {
+            await claim(table, expired);
+            backoff.delete(table);
+        } catch (err) {
+            fail(table, "claim-failed", err);
+        }
+    };
+
+    const sweep = async () => {
+        if (penaltyPercent === null) {
+            penaltyPercent = await client.getTimeoutPenaltyPercent().catch(() => null);
+        }
+        let chainNow: number;
+        try {
+            chainNow = await client.getLedgerTimestamp();
+        } catch (err) {
+            emit("warn", "read-failed", { error: formatTransactionError(err, String(err)) });
+            return;
+        }
+        // One at a time: a dozen tables is a handful of view calls each
+        for (const table of tables) await checkTable(table, chainNow);
+    };
+
+    const schedule = () => {
+        if (!running) return;
+        timer = setTimeout(() => {
+            current = sweep().finally(() => {
+                current = null;
+                schedule();
+            });
+        }, Math.max(intervalSecs, MIN_DELAY_SECS) * 1000);
+    };
+
+    return {
+        start: () => {
+            if (running) return;
+            running = true;
+            emit("info", "started", { tables, dryRun, intervalSecs, graceSecs, keeper: client.signer?.address ?? null });
+            current = sweep().finally(() => {
+                current = null;
+                schedule();
+            });
+        },
+        stop: async () => {
+            if (!running) return;
+            running = false;
+            if (timer) clearTimeout(timer);
+            timer = null;
+            await current;
+            emit("info", "stopped");
+        },
+        sweep,
+    };
+}
@@ -1,8 +1,11 @@
 import { BrowserRouter, Routes, Route, useLocation } from "react-router-dom";
 import { WalletProvider } from "./components/wallet-provider";
+import { PreflightProvider } from "./components/PreflightProvider";
 import { Header } from "./components/Header";
 import { Home } from "./pages/Home";
 import { Table } from "./pages/Table";
+import { HandReplay } from "./pages/HandReplay";
+import { HandVerify } from "./pages/HandVerify";
 import "./App.css";
 
 function AppShell() {
@@ -16,6 +19,8 @@ function AppShell() {
         <Routes>
           <Route path="/" element={<Home />} />
           <Route path="/table/:address" element={<Table />} />
+          <Route path="/table/:address/hand/:handNumber" element={<HandReplay />} />
+          <Route path="/table/:address/hand/:handNumber/verify" element={<HandVerify />} />
         </Routes>
       </main>
     </div>
@@ -33,9 +38,11 @@ function App() {
 
   return (
     <WalletProvider>
-      <BrowserRouter basename={baseName}>
-        <AppShell />
-      </BrowserRouter>
+      <PreflightProvider>
+        <BrowserRouter basename={baseName}>
+          <AppShell />
+        </BrowserRouter>
+      </PreflightProvider>
     </WalletProvider>
   );
 }
@@ -0,0 +1,238 @@
+/**
+ * Move abort decoding
+ *
+ * Maps abort codes from texas_holdem, chips and pot_manager to typed error
+ * classes carrying a readable message and a suggested remedy. Codes mirror
+ * the E_* constants in packages/contracts/sources.
+ */
+
+export type AbortModule = "texas_holdem" | "chips" | "pot_manager";
+
+/** Broad failure category; selects the error class */
+export type AbortKind = "permission" | "state" | "turn" | "bet" | "funds" | "seat" | "config" | "commitReveal" | "internal";
+
+interface AbortInfo {
+    constant: string;
+    kind: AbortKind;
+    message: string;
+    remedy: string;
+}
+
+// ============================================
+// ABORT CODE TABLES
+// ============================================
+
+const TEXAS_HOLDEM_ABORTS: Record<number, AbortInfo> = {
+    1: { constant: "E_NOT_ADMIN", kind: "permission", message: "Only the table admin can do this.", remedy: "Switch to the admin wallet for this table." },
+    2: { constant: "E_TABLE_EXISTS", kind: "config", message: "This wallet already has a table.", remedy: "Open your existing table, or close it before creating a new one." },
+    3: { constant: "E_TABLE_NOT_FOUND", kind: "state", message: "Table not found.", remedy: "Check the table address and the selected network." },
+    4: { constant: "E_SEAT_TAKEN", kind: "seat", message: "That seat is already taken.", remedy: "Pick another empty seat." },
+    5: { constant: "E_NOT_AT_TABLE", kind: "seat", message: "You are not seated at this table.", remedy: "Join the table first, or switch to the wallet that holds the seat." },
+    6: { constant: "E_GAME_IN_PROGRESS", kind: "state", message: "A hand is in progress.", remedy: "Wait for the current hand to finish and try again." },
+    7: { constant: "E_NO_GAME", kind: "state", message: "There is no hand in progress.", remedy: "Start a new hand first." },
+    8: { constant: "E_NOT_YOUR_TURN", kind: "turn", message: "It is not your turn to act.", remedy: "Wait until the action is on your seat." },
+    9: { constant: "E_INVALID_ACTION", kind: "state", message: "That action is not allowed right now.", remedy: "The table may be paused or you may have already acted. Refresh the table and try again." },
+    10: { constant: "E_INSUFFICIENT_CHIPS", kind: "funds", message: "Not enough chips.", remedy: "Buy more chips or lower the amount." },
+    11: { constant: "E_INVALID_RAISE", kind: "bet", message: "Invalid raise amount.", remedy: "Raise to at least the current bet plus the minimum raise, or go all-in." },
+    12: { constant: "E_NOT_ENOUGH_PLAYERS", kind: "state", message: "Not enough active players to start a hand.", remedy: "Wait for at least two players who are not sitting out." },
+    13: { constant: "E_ALREADY_COMMITTED", kind: "commitReveal", message: "You have already committed for this hand.", remedy: "Wait for the other players to commit, then reveal." },
+    15: { constant: "E_INVALID_SECRET", kind: "commitReveal", message: "Secret does not match your commitment.", remedy: "Reveal the exact secret you committed in this browser." },
+    16: { constant: "E_WRONG_PHASE", kind: "state", message: "Wrong game phase for this action.", remedy: "Refresh the table; the hand has moved on." },
+    17: { constant: "E_TABLE_FULL", kind: "seat", message: "The table is full.", remedy: "Wait for a seat to open or join another table." },
+    18: { constant: "E_BUY_IN_TOO_LOW", kind: "bet", message: "Buy-in is below the table minimum.", remedy: "Increase your buy-in to at least the minimum." },
+    19: { constant: "E_BUY_IN_TOO_HIGH", kind: "bet", message: "Buy-in is above the table maximum.", remedy: "Lower your buy-in to at most the maximum." },
+    20: { constant: "E_ALREADY_REVEALED", kind: "commitReveal", message: "You have already revealed for this hand.", remedy: "Wait for the other players to reveal." },
+    21: { constant: "E_NO_TIMEOUT", kind: "turn", message: "The deadline does not allow this.", remedy: "Timeouts can only be claimed after the deadline; commits and reveals must land before it." },
+    22: { constant: "E_STRADDLE_NOT_ALLOWED", kind: "config", message: "Straddles are disabled at this table.", remedy: "Play without a straddle." },
+    23: { constant: "E_STRADDLE_ALREADY_POSTED", kind: "bet", message: "A straddle has already been posted.", remedy: "Continue with a normal action." },
+    24: { constant: "E_NOT_UTG", kind: "turn", message: "Only the player under the gun can straddle.", remedy: "Wait for your turn and take a normal action." },
+    25: { constant: "E_INVALID_BLINDS", kind: "config", message: "Big blind must be greater than small blind.", remedy: "Adjust the blinds and try again." },
+    26: { constant: "E_INVALID_BUY_IN", kind: "config", message: "Max buy-in must be at least the min buy-in.", remedy: "Adjust the buy-in limits and try again." },
+    27: { constant: "E_ZERO_VALUE", kind: "config", message: "Values must be greater than zero.", remedy: "Enter non-zero amounts." },
+    28: { constant: "E_FEE_CONFIG_EXISTS", kind: "config", message: "Fee configuration is already initialized.", remedy: "Update the existing fee configuration instead." },
+    29: { constant: "E_FEE_CONFIG_NOT_FOUND", kind: "config", message: "Fee configuration is not initialized.", remedy: "The contract deployer must initialize fees first." },
+    30: { constant: "E_NOT_FEE_ADMIN", kind: "permission", message: "Only the fee admin can do this.", remedy: "Switch to the fee admin wallet." },
+    31: { constant: "E_INVALID_COMMIT_SIZE", kind: "commitReveal", message: "Commit hash must be exactly 32 bytes.", remedy: "Regenerate the commitment and try again." },
+    32: { constant: "E_INVALID_SECRET_SIZE", kind: "commitReveal", message: "Secret must be 16 to 32 bytes.", remedy: "Use a newly generated secret." },
+    33: { constant: "E_ALREADY_SEATED", kind: "seat", message: "This wallet is already seated at the table.", remedy: "Use your existing seat, or leave before joining again." },
+};
+
+const CHIPS_ABORTS: Record<number, AbortInfo> = {
+    1: { constant: "E_ALREADY_INITIALIZED", kind: "config", message: "Chips module is already initialized.", remedy: "No action needed." },
+    2: { constant: "E_NOT_INITIALIZED", kind: "config", message: "Chips module is not initialized.", remedy: "The contract deployer must initialize the chips module." },
+    3: { constant: "E_NOT_ADMIN", kind: "permission", message: "Only the chips admin can do this.", remedy: "Switch to the admin wallet." },
+    4: { constant: "E_INSUFFICIENT_CEDRA", kind: "funds", message: "Not enough CEDRA in your wallet.", remedy: "Top up your wallet or buy fewer chips." },
+    5: { constant: "E_INSUFFICIENT_CHIPS", kind: "funds", message: "Not enough chips.", remedy: "Lower the amount or buy more chips." },
+    6: { constant: "E_ZERO_AMOUNT", kind: "funds", message: "Amount must be greater than zero.", remedy: "Enter a positive amount." },
+    7: { constant: "E_TREASURY_INSUFFICIENT", kind: "funds", message: "The treasury cannot cover this cash out.", remedy: "Cash out a smaller amount or try again later." },
+    8: { constant: "E_NOT_EXACT_MULTIPLE", kind: "funds", message: "Amount must be a whole number of chips.", remedy: "Enter a CEDRA amount that is a multiple of 0.001." },
+};
+
+const POT_MANAGER_ABORTS: Record<number, AbortInfo> = {
+    1: { constant: "E_NO_POTS", kind: "internal", message: "No pots to distribute.", remedy: "Refresh the table; if it persists the admin can abort the hand." },
+    2: { constant: "E_INVALID_WINNERS", kind: "internal", message: "Invalid winners for a pot.", remedy: "Refresh the table; if it persists the admin can abort the hand." },
+};
+
+const ABORT_TABLES: Record<AbortModule, Record<number, AbortInfo>> = {
+    texas_holdem: TEXAS_HOLDEM_ABORTS,
+    chips: CHIPS_ABORTS,
+    pot_manager: POT_MANAGER_ABORTS,
+};
+
+// ============================================
+// ERROR CLASSES
+// ============================================
+
+/**
+ * A transaction aborted inside one of the poker modules
+ */
+export class MoveAbortError extends Error {
+    readonly module: AbortModule;
+    readonly code: number;
+    /** E_* constant name, or null for codes the decoder does not know */
+    readonly constant: string | null;
+    readonly kind: AbortKind;
+    readonly remedy: string;
+    /** Original VM / wallet message */
+    readonly raw: string;
+
+    constructor(module: AbortModule, code: number, info: AbortInfo | null, raw: string) {
+        super(info?.message ?? `Transaction aborted in ${module} with code ${code}.`);
+        this.name = "MoveAbortError";
+        this.module = module;
+        this.code = code;
+        this.constant = info?.constant ?? null;
+        this.kind = info?.kind ?? "internal";
+        this.remedy = info?.remedy ?? "Refresh the table and try again.";
+        this.raw = raw;
+    }
+}
+
+export class PermissionError extends MoveAbortError {
+    override name = "PermissionError";
+}
+
+export class GameStateError extends MoveAbortError {
+    override name = "GameStateError";
+}
+
+export class TurnError extends MoveAbortError {
+    override name = "TurnError";
+}
+
+export class InvalidBetError extends MoveAbortError {
+    override name = "InvalidBetError";
+}
+
+export class InsufficientFundsError extends MoveAbortError {
+    override name = "InsufficientFundsError";
+}
+
+export class SeatError extends MoveAbortError {
+    override name = "SeatError";
+}
+
+export class TableConfigError extends MoveAbortError {
+    override name = "TableConfigError";
+}
+
+export class CommitRevealError extends MoveAbortError {
+    override name = "CommitRevealError";
+}
+
+const ERROR_CLASSES: Record<AbortKind, typeof MoveAbortError> = {
+    permission: PermissionError,
+    state: GameStateError,
+    turn: TurnError,
+    bet: InvalidBetError,
+    funds: InsufficientFundsError,
+    seat: SeatError,
+    config: TableConfigError,
+    commitReveal: CommitRevealError,
+    internal: MoveAbortError,
+};
+
+// ============================================
+// DECODING
+// ============================================
+
+// "...::texas_holdem: E_INVALID_RAISE(0xb)", "...::texas_holdem: 11", "...::chips::cash_out code 0x7"
+const ABORT_PATTERN = /::(texas_holdem|chips|pot_manager)(?:::\w+)?:?\s*(?:(E_[A-Z_]+)|(?:(?:abort\s+)?code\s*:?\s*)?(0x[0-9a-f]+|\d+))/i;
+
+function errorText(err: unknown): string {
+    if (err instanceof Error) return err.message;
+    if (typeof err === "string") return err;
+    try {
+        return JSON.stringify(err);
+    } catch {
+        return String(err);
+    }
+}
+
+/**
+ * Look up the abort info for a module code, if known
+ */
+export function lookupAbort(module: AbortModule, code: number): AbortInfo | null {
+    return ABORT_TABLES[module][code] ?? null;
+}
+
+/**
+ * Parse a Move abort out of a VM status or wallet error message.
+ * Returns null when the text is not a poker-module abort.
+ */
+export function parseMoveAbort(err: unknown): MoveAbortError | null {
+    if (err instanceof MoveAbortError) return err;
+
+    const raw = errorText(err);
+    const match = ABORT_PATTERN.exec(raw);
+    if (!match) return null;
+
+    const module = match[1].toLowerCase() as AbortModule;
+    const table = ABORT_TABLES[module];
+    let code: number;
+    if (match[2]) {
+        const entry = Object.entries(table).find(([, info]) => info.constant === match[2].toUpperCase());
+        if (!entry) return null;
+        code = Number(entry[0]);
+    } else {
+        code = parseInt(match[3], match[3].toLowerCase().startsWith("0x") ? 16 : 10);
+    }
+
+    const info = lookupAbort(module, code);
+    const ErrorClass = info ? ERROR_CLASSES[info.kind] : MoveAbortError;
+    return new ErrorClass(module, code, info, raw);
+}
+
+// Wallet adapters throw "User has rejected the request"; EIP-1193 style wallets use code 4001
+const REJECTION_PATTERN = /rejected the request|user rejected|user denied|cancelled/i;
+
+/**
+ * Whether the player turned the request down in their wallet (or the
+ * preflight review), as opposed to the transaction failing.
+ */
+export function isUserRejection(err: unknown): boolean {
+    if (err !== null && typeof err === "object" && "code" in err && err.code === 4001) return true;
+    return REJECTION_PATTERN.test(errorText(err));
+}
+
+/**
+ * Typed error for a failed transaction: a MoveAbortError subclass when the
+ * failure is a known abort, otherwise the original error (wrapped if needed).
+ */
+export function decodeTransactionError(err: unknown): Error {
+    const abort = parseMoveAbort(err);
+    if (abort) return abort;
+    return err instanceof Error ? err : new Error(errorText(err));
+}
+
+/**
+ * User-facing text for any transaction error: message plus remedy for
+ * aborts, the raw message otherwise.
+ */
+export function formatTransactionError(err: unknown, fallback = "Transaction failed."): string {
+    const abort = parseMoveAbort(err);
+    if (abort) return `${abort.message} ${abort.remedy}`;
+    if (err instanceof Error && err.message) return err.message;
+    if (typeof err === "string" && err) return err;
+    return fallback;
+}
@@ -0,0 +1,383 @@
+/**
+ * Typed poker_events registry
+ *
+ * One entry per #[event] struct in poker_events.move: a decoder from the
+ * indexer's JSON (snake_case, u64 as strings) to a camelCase TypeScript
+ * shape, and a type guard for narrowing decoded events.
+ */
+
+import type { HandResultData } from "../types";
+import { normalizeU8Vector, parseHandResultData } from "./normalize";
+
+// ============================================
+// EVENT DATA
+// ============================================
+
+export interface TableCreatedData {
+    tableAddr: string;
+    admin: string;
+    smallBlind: number;
+    bigBlind: number;
+    minBuyIn: number;
+    maxBuyIn: number;
+    ante: number;
+    straddleEnabled: boolean;
+}
+
+export interface TableClosedData {
+    tableAddr: string;
+    admin: string;
+}
+
+export interface TableConfigUpdatedData {
+    tableAddr: string;
+    /** 0=blinds, 1=ante, 2=straddle, 3=buy_in_limits */
+    configType: number;
+    value1: number;
+    value2: number;
+}
+
+export interface SeatEventData {
+    tableAddr: string;
+    seatIdx: number;
+    player: string;
+}
+
+export interface PlayerJoinedData extends SeatEventData {
+    buyIn: number;
+}
+
+export interface PlayerLeftData extends SeatEventData {
+    chipsReturned: number;
+}
+
+export interface PlayerToppedUpData extends SeatEventData {
+    amount: number;
+    newStack: number;
+}
+
+export interface HandEventData {
+    tableAddr: string;
+    handNumber: number;
+}
+
+export interface HandStartedData extends HandEventData {
+    dealerSeat: number;
+    playerSeats: number[];
+}
+
+export interface HandPlayerData extends HandEventData {
+    player: string;
+}
+
+export interface PhaseChangedData extends HandEventData {
+    oldPhase: number;
+    newPhase: number;
+}
+
+export interface CommunityCardsDealtData extends HandEventData {
+    phase: number;
+    cards: number[];
+}
+
+export interface BlindsPostedData extends HandEventData {
+    sbSeat: number;
+    sbAmount: number;
+    bbSeat: number;
+    bbAmount: number;
+}
+
+export interface AntesPostedData extends HandEventData {
+    totalAnte: number;
+}
+
+export interface HandSeatData extends HandEventData {
+    seatIdx: number;
+    player: string;
+}
+
+export interface HandSeatAmountData extends HandSeatData {
+    amount: number;
+}
+
+export interface PlayerRaisedData extends HandSeatData {
+    raiseTo: number;
+}
+
+export interface ShowdownStartedData extends HandEventData {
+    board: number[];
+}
+
+export interface PotAwardedData extends HandEventData {
+    winnerSeat: number;
+    winner: string;
+    amount: number;
+    feeDeducted: number;
+}
+
+export interface HandEndedData extends HandEventData {
+    totalPot: number;
+    totalFees: number;
+}
+
+export interface FoldWinData extends HandEventData {
+    winnerSeat: number;
+    winner: string;
+    amount: number;
+}
+
+export interface TimeoutTriggeredData extends HandEventData {
+    phase: number;
+    seatIdx: number;
+    penalty: number;
+}
+
+export interface HandAbortedData extends HandEventData {
+    /** 0=commit_timeout, 1=reveal_timeout, 2=emergency */
+    reason: number;
+}
+
+export interface OwnershipTransferredData {
+    tableAddr: string;
+    oldAdmin: string;
+    newAdmin: string;
+}
+
+export interface FeeRecipientUpdatedData {
+    tableAddr: string;
+    oldRecipient: string;
+    newRecipient: string;
+}
+
+/** Event name -> decoded data */
+export interface PokerEventMap {
+    TableCreated: TableCreatedData;
+    TableClosed: TableClosedData;
+    TableConfigUpdated: TableConfigUpdatedData;
+    PlayerJoined: PlayerJoinedData;
+    PlayerLeft: PlayerLeftData;
+    PlayerSatOut: SeatEventData;
+    PlayerSatIn: SeatEventData;
+    PlayerToppedUp: PlayerToppedUpData;
+    PlayerKicked: PlayerLeftData;
+    HandStarted: HandStartedData;
+    CommitSubmitted: HandPlayerData;
+    RevealSubmitted: HandPlayerData;
+    CardsDealt: HandEventData;
+    PhaseChanged: PhaseChangedData;
+    CommunityCardsDealt: CommunityCardsDealtData;
+    BlindsPosted: BlindsPostedData;
+    AntesPosted: AntesPostedData;
+    StraddlePosted: HandSeatAmountData;
+    PlayerFolded: HandSeatData;
+    PlayerChecked: HandSeatData;
+    PlayerCalled: HandSeatAmountData;
+    PlayerRaised: PlayerRaisedData;
+    PlayerWentAllIn: HandSeatAmountData;
+    ShowdownStarted: ShowdownStartedData;
+    PotAwarded: PotAwardedData;
+    HandEnded: HandEndedData;
+    FoldWin: FoldWinData;
+    HandResult: HandResultData;
+    TimeoutTriggered: TimeoutTriggeredData;
+    HandAborted: HandAbortedData;
+    OwnershipTransferred: OwnershipTransferredData;
+    FeeRecipientUpdated: FeeRecipientUpdatedData;
+}
+
+export type PokerEventType = keyof PokerEventMap;
+
+/** Position of an event in the chain's event stream */
+export interface EventCursor {
+    version: bigint;
+    eventIndex: number;
+}
+
+interface TypedPokerEvent<T extends PokerEventType> extends EventCursor {
+    type: T;
+    data: PokerEventMap[T];
+}
+
+/** Discriminated union of every decoded poker event; narrow on `type` */
+export type PokerEvent = { [T in PokerEventType]: TypedPokerEvent<T> }[PokerEventType];
+
+/** Decoded poker events of the given type(s) */
+export type PokerEventOf<T extends PokerEventType> = Extract<PokerEvent, { type: T }>;
+
+/** An event as it comes off the indexer */
+export interface RawPokerEvent extends EventCursor {
+    /** Short struct name, e.g. "PlayerRaised" */
+    type: string;
+    data: Record<string, unknown>;
+}
+
+// ============================================
+// FIELD DECODERS
+// ============================================
+
+type Raw = Record<string, unknown>;
+
+function num(value: unknown): number {
+    return parseInt(String(value ?? "0"));
+}
+
+function nums(value: unknown): number[] {
+    return Array.isArray(value) ? value.map(num) : [];
+}
+
+function str(value: unknown): string {
+    return String(value ?? "");
+}
+
+function bool(value: unknown): boolean {
+    return value === true || value === "true";
+}
+
+const seatEvent = (d: Raw): SeatEventData => ({ tableAddr: str(d.table_addr), seatIdx: num(d.seat_idx), player: str(d.player) });
+const handEvent = (d: Raw): HandEventData => ({ tableAddr: str(d.table_addr), handNumber: num(d.hand_number) });
+const handSeat = (d: Raw): HandSeatData => ({ ...handEvent(d), seatIdx: num(d.seat_idx), player: str(d.player) });
+const handSeatAmount = (d: Raw): HandSeatAmountData => ({ ...handSeat(d), amount: num(d.amount) });
+const playerLeft = (d: Raw): PlayerLeftData => ({ ...seatEvent(d), chipsReturned: num(d.chips_returned) });
+const handPlayer = (d: Raw): HandPlayerData => ({ ...handEvent(d), player: str(d.player) });
+
+// ============================================
+// REGISTRY
+// ============================================
+
+export interface PokerEventDefinition<T extends PokerEventType> {
+    type: T;
+    decode: (data: Record<string, unknown>) => PokerEventMap[T];
+    is: (event: PokerEvent) => event is PokerEventOf<T>;
+}
+
+function defineEvent<T extends PokerEventType>(type: T, decode: (data: Raw) => PokerEventMap[T]): PokerEventDefinition<T> {
+    return {
+        type,
+        decode,
+        is: (event: PokerEvent): event is PokerEventOf<T> => event.type === type,
+    };
+}
+
+export const POKER_EVENTS: { [T in PokerEventType]: PokerEventDefinition<T> } = {
+    // Table lifecycle
+    TableCreated: defineEvent("TableCreated", (d) => ({
+        tableAddr: str(d.table_addr),
+        admin: str(d.admin),
+        smallBlind: num(d.small_blind),
+        bigBlind: num(d.big_blind),
+        minBuyIn: num(d.min_buy_in),
+        maxBuyIn: num(d.max_buy_in),
+        ante: num(d.ante),
+        straddleEnabled: bool(d.straddle_enabled),
+    })),
+    TableClosed: defineEvent("TableClosed", (d) => ({ tableAddr: str(d.table_addr), admin: str(d.admin) })),
+    TableConfigUpdated: defineEvent("TableConfigUpdated", (d) => ({
+        tableAddr: str(d.table_addr),
+        configType: num(d.config_type),
+        value1: num(d.value1),
+        value2: num(d.value2),
+    })),
+
+    // Players
+    PlayerJoined: defineEvent("PlayerJoined", (d) => ({ ...seatEvent(d), buyIn: num(d.buy_in) })),
+    PlayerLeft: defineEvent("PlayerLeft", playerLeft),
+    PlayerSatOut: defineEvent("PlayerSatOut", seatEvent),
+    PlayerSatIn: defineEvent("PlayerSatIn", seatEvent),
+    PlayerToppedUp: defineEvent("PlayerToppedUp", (d) => ({ ...seatEvent(d), amount: num(d.amount), newStack: num(d.new_stack) })),
+    PlayerKicked: defineEvent("PlayerKicked", playerLeft),
+
+    // Hand lifecycle
+    HandStarted: defineEvent("HandStarted", (d) => ({ ...handEvent(d), dealerSeat: num(d.dealer_seat), playerSeats: nums(d.player_seats) })),
+    CommitSubmitted: defineEvent("CommitSubmitted", handPlayer),
+    RevealSubmitted: defineEvent("RevealSubmitted", handPlayer),
+    CardsDealt: defineEvent("CardsDealt", handEvent),
+    PhaseChanged: defineEvent("PhaseChanged", (d) => ({ ...handEvent(d), oldPhase: num(d.old_phase), newPhase: num(d.new_phase) })),
+    CommunityCardsDealt: defineEvent("CommunityCardsDealt", (d) => ({
+        ...handEvent(d),
+        phase: num(d.phase),
+        cards: normalizeU8Vector(d.cards),
+    })),
+
+    // Betting
+    BlindsPosted: defineEvent("BlindsPosted", (d) => ({
+        ...handEvent(d),
+        sbSeat: num(d.sb_seat),
+        sbAmount: num(d.sb_amount),
+        bbSeat: num(d.bb_seat),
+        bbAmount: num(d.bb_amount),
+    })),
+    AntesPosted: defineEvent("AntesPosted", (d) => ({ ...handEvent(d), totalAnte: num(d.total_ante) })),
+    StraddlePosted: defineEvent("StraddlePosted", handSeatAmount),
+    PlayerFolded: defineEvent("PlayerFolded", handSeat),
+    PlayerChecked: defineEvent("PlayerChecked", handSeat),
+    PlayerCalled: defineEvent("PlayerCalled", handSeatAmount),
+    PlayerRaised: defineEvent("PlayerRaised", (d) => ({ ...handSeat(d), raiseTo: num(d.raise_to) })),
+    PlayerWentAllIn: defineEvent("PlayerWentAllIn", handSeatAmount),
+
+    // Results
+    ShowdownStarted: defineEvent("ShowdownStarted", (d) => ({ ...handEvent(d), board: normalizeU8Vector(d.board) })),
+    PotAwarded: defineEvent("PotAwarded", (d) => ({
+        ...handEvent(d),
+        winnerSeat: num(d.winner_seat),
+        winner: str(d.winner),
+        amount: num(d.amount),
+        feeDeducted: num(d.fee_deducted),
+    })),
+    HandEnded: defineEvent("HandEnded", (d) => ({ ...handEvent(d), totalPot: num(d.total_pot), totalFees: num(d.total_fees) })),
+    FoldWin: defineEvent("FoldWin", (d) => ({
+        ...handEvent(d),
+        winnerSeat: num(d.winner_seat),
+        winner: str(d.winner),
+        amount: num(d.amount),
+    })),
+    HandResult: defineEvent("HandResult", (d) => parseHandResultData(d, str(d.table_addr))),
+
+    // Timeouts and aborts
+    TimeoutTriggered: defineEvent("TimeoutTriggered", (d) => ({
+        ...handEvent(d),
+        phase: num(d.phase),
+        seatIdx: num(d.seat_idx),
+        penalty: num(d.penalty),
+    })),
+    HandAborted: defineEvent("HandAborted", (d) => ({ ...handEvent(d), reason: num(d.reason) })),
+
+    // Admin
+    OwnershipTransferred: defineEvent("OwnershipTransferred", (d) => ({
+        tableAddr: str(d.table_addr),
+        oldAdmin: str(d.old_admin),
+        newAdmin: str(d.new_admin),
+    })),
+    FeeRecipientUpdated: defineEvent("FeeRecipientUpdated", (d) => ({
+        tableAddr: str(d.table_addr),
+        oldRecipient: str(d.old_recipient),
+        newRecipient: str(d.new_recipient),
+    })),
+};
+
+export const POKER_EVENT_TYPES = Object.keys(POKER_EVENTS) as PokerEventType[];
+
+export function isPokerEventType(type: string): type is PokerEventType {
+    // Own keys only: "constructor" or "toString" must not pass
+    return Object.hasOwn(POKER_EVENTS, type);
+}
+
+/**
+ * Narrow a decoded event to one type
+ */
+export function isPokerEvent<T extends PokerEventType>(event: PokerEvent, type: T): event is PokerEventOf<T> {
+    return event.type === type;
+}
+
+/**
+ * Decode an indexer event; null for struct names this client does not know
+ */
+export function decodePokerEvent(raw: RawPokerEvent): PokerEvent | null {
+    if (!isPokerEventType(raw.type)) return null;
+    const definition = POKER_EVENTS[raw.type] as PokerEventDefinition<PokerEventType>;
+    return {
+        type: raw.type,
+        version: raw.version,
+        eventIndex: raw.eventIndex,
+        data: definition.decode(raw.data),
+    } as PokerEvent;
+}
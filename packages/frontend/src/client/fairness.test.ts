@@ -0,0 +1,19 @@
+/**
+ * The shuffle vector from test_shuffled_deck_vector in
+ * contracts/tests/game_flow_tests.move, so the port fails here whenever it
+ * stops dealing the deck the contract deals.
+ */
+
+import { describe, expect, it } from "vitest";
+import { shuffleDeck } from "./fairness";
+
+describe("shuffleDeck", () => {
+    it("test_shuffled_deck_vector", () => {
+        const secrets = [1, 2, 3].map((byte) => new Array<number>(32).fill(byte));
+
+        expect(shuffleDeck(secrets, 1700000000, 1700000060, 12345)).toEqual([
+            34, 6, 0, 1, 28, 24, 29, 27, 7, 51, 22, 50, 43, 17, 9, 21, 5, 2, 49, 46, 36, 23, 31, 14, 37, 10,
+            35, 40, 4, 15, 41, 32, 11, 12, 47, 18, 13, 25, 16, 39, 26, 48, 20, 19, 33, 30, 44, 42, 3, 8, 45, 38,
+        ]);
+    });
+});
@@ -0,0 +1,217 @@
+/**
+ * Provable-fairness verification
+ *
+ * Recomputes a hand's deck exactly as shuffle_deck_internal does and checks
+ * what the table dealt against it. The shuffle seed is every revealed secret
+ * in hand order, followed by the BCS u64 commit deadline, reveal deadline and
+ * the height of the block that completed the reveals. Every secret is also
+ * checked against the commit hash its player posted before anyone revealed,
+ * so no player could have picked a secret after seeing the others.
+ */
+
+import { sha3_256 } from "@noble/hashes/sha3";
+
+// ============================================
+// INPUT MODEL
+// ============================================
+
+export interface FairnessParticipant {
+    seatIdx: number;
+    player: string | null;
+    /** sha3_256 commitment from submit_commit; null if it was never posted or could not be read */
+    commitHash: number[] | null;
+    /** Secret from reveal_secret; null if it was never revealed or could not be read */
+    secret: number[] | null;
+    commitVersion: bigint | null;
+    revealVersion: bigint | null;
+}
+
+/** Everything the shuffle depended on, as read back from chain */
+export interface HandFairnessData {
+    tableAddr: string;
+    handNumber: number;
+    /** Seats dealt into the hand, in hand order (the order secrets enter the seed) */
+    participants: FairnessParticipant[];
+    /** Unix seconds; null when they could not be recovered */
+    commitDeadline: number | null;
+    revealDeadline: number | null;
+    /** Block of the transaction that completed the reveals and shuffled */
+    blockHeight: bigint | null;
+    /** Version of that transaction; null if the hand never reached the shuffle */
+    dealVersion: bigint | null;
+    /** Community cards in the order they were dealt */
+    board: number[];
+    /** Hole cards turned over at showdown */
+    shownHoleCards: { seatIdx: number; cards: number[] }[];
+}
+
+// ============================================
+// REPORT MODEL
+// ============================================
+
+export type FairnessCheckKind = "commit" | "board" | "showdown";
+
+export interface FairnessCheck {
+    kind: FairnessCheckKind;
+    /** Seat the check is about; null for the board */
+    seatIdx: number | null;
+    passed: boolean;
+    /** Cards the recomputed deck puts here (board and showdown checks) */
+    expected: number[] | null;
+    /** Cards the table actually dealt or showed */
+    actual: number[] | null;
+}
+
+export type FairnessVerdict = "verified" | "failed" | "incomplete";
+
+export interface FairnessReport {
+    /** failed if any check failed; incomplete if the deck could not be rebuilt */
+    verdict: FairnessVerdict;
+    /** Why the deck could not be rebuilt; null when it was */
+    incompleteReason: string | null;
+    /** The recomputed deck, top card first */
+    deck: number[] | null;
+    /** Hole cards the deck dealt every seat, in hand order */
+    dealtHoleCards: { seatIdx: number; cards: number[] }[];
+    checks: FairnessCheck[];
+}
+
+// ============================================
+// SHUFFLE
+// ============================================
+
+const DECK_SIZE = 52;
+const BOARD_SIZE = 5;
+
+function u64Bytes(value: number | bigint): Uint8Array {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigUint64(0, BigInt(value), true);
+    return bytes;
+}
+
+function sameBytes(a: ArrayLike<number>, b: ArrayLike<number>): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+    return true;
+}
+
+/**
+ * The deck shuffle_deck_internal produces for these inputs.
+ * Secrets must be in hand order.
+ */
+export function shuffleDeck(
+    secrets: (Uint8Array | number[])[],
+    commitDeadline: number,
+    revealDeadline: number,
+    blockHeight: number | bigint
+): number[] {
+    const parts = [...secrets, u64Bytes(commitDeadline), u64Bytes(revealDeadline), u64Bytes(blockHeight)];
+    const seed = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        seed.set(part, offset);
+        offset += part.length;
+    }
+
+    const deck = Array.from({ length: DECK_SIZE }, (_, card) => card);
+    let hashState = sha3_256(seed);
+    for (let n = DECK_SIZE; n > 1; ) {
+        hashState = sha3_256(hashState);
+        // First 8 bytes of the hash, big-endian
+        let rand = 0n;
+        for (let b = 0; b < 8; b++) rand = (rand << 8n) | BigInt(hashState[b]);
+        const j = Number(rand % BigInt(n));
+        n -= 1;
+        [deck[n], deck[j]] = [deck[j], deck[n]];
+    }
+    return deck;
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+function missingInputs(data: HandFairnessData): string | null {
+    if (data.dealVersion === null) return "The hand ended before the cards were shuffled, so there is no deck to check.";
+    const unreadable = data.participants.filter((participant) => participant.secret === null);
+    if (unreadable.length > 0) {
+        return `The revealed secret for seat ${unreadable.map((participant) => participant.seatIdx + 1).join(", ")} could not be read.`;
+    }
+    if (data.commitDeadline === null || data.revealDeadline === null || data.blockHeight === null) {
+        return "The shuffle deadlines or block height could not be read.";
+    }
+    return null;
+}
+
+/**
+ * Check a hand's commitments and dealt cards against the recomputed deck
+ */
+export function verifyHandFairness(data: HandFairnessData): FairnessReport {
+    const checks: FairnessCheck[] = [];
+
+    // A commitment can be checked whenever both halves are on chain, shuffled or not
+    for (const participant of data.participants) {
+        if (participant.commitHash === null || participant.secret === null) continue;
+        checks.push({
+            kind: "commit",
+            seatIdx: participant.seatIdx,
+            passed: sameBytes(sha3_256(Uint8Array.from(participant.secret)), participant.commitHash),
+            expected: null,
+            actual: null,
+        });
+    }
+
+    const incompleteReason = missingInputs(data);
+    if (incompleteReason !== null) {
+        return {
+            verdict: checks.some((check) => !check.passed) ? "failed" : "incomplete",
+            incompleteReason,
+            deck: null,
+            dealtHoleCards: [],
+            checks,
+        };
+    }
+
+    const deck = shuffleDeck(
+        data.participants.map((participant) => participant.secret ?? []),
+        data.commitDeadline ?? 0,
+        data.revealDeadline ?? 0,
+        data.blockHeight ?? 0n
+    );
+
+    // Hole cards go out two at a time in hand order, then the board follows
+    const dealtHoleCards = data.participants.map((participant, p) => ({
+        seatIdx: participant.seatIdx,
+        cards: deck.slice(p * 2, p * 2 + 2),
+    }));
+    const boardStart = data.participants.length * 2;
+
+    if (data.board.length > 0) {
+        const expected = deck.slice(boardStart, boardStart + data.board.length);
+        checks.push({ kind: "board", seatIdx: null, passed: sameBytes(expected, data.board), expected, actual: data.board });
+    }
+
+    for (const shown of data.shownHoleCards) {
+        const expected = dealtHoleCards.find((dealt) => dealt.seatIdx === shown.seatIdx)?.cards ?? [];
+        checks.push({ kind: "showdown", seatIdx: shown.seatIdx, passed: sameBytes(expected, shown.cards), expected, actual: shown.cards });
+    }
+
+    return {
+        verdict: checks.every((check) => check.passed) ? "verified" : "failed",
+        incompleteReason: null,
+        deck,
+        dealtHoleCards,
+        checks,
+    };
+}
+
+/**
+ * Rabbit hunt: the community cards still in the deck when a hand ended
+ * before the river. Null unless the deck rebuilds and checks out.
+ */
+export function rabbitHunt(data: HandFairnessData): number[] | null {
+    const report = verifyHandFairness(data);
+    if (report.verdict !== "verified" || !report.deck) return null;
+    const boardStart = data.participants.length * 2;
+    return report.deck.slice(boardStart + data.board.length, boardStart + BOARD_SIZE);
+}
@@ -0,0 +1,483 @@
+/**
+ * Hand history reconstruction
+ *
+ * Replays a table's poker_events stream and rebuilds one HandHistory per hand:
+ * who sat where with what stack, forced bets, every street's actions with
+ * amounts, the board, showdown hole cards, pot awards, fees and timeouts.
+ *
+ * Events carry bet deltas but no stacks, so starting stacks are tracked from
+ * PlayerJoined/PlayerToppedUp forward. Replays that start mid-table (or use
+ * only one hand's events) take stacks from a seed read off the views, and
+ * leave stacks they never saw as null without one.
+ */
+
+import { GAME_PHASES } from "../config/contracts";
+import type { GamePhase } from "../types";
+import type { PokerEvent } from "./events";
+
+// ============================================
+// HISTORY MODEL
+// ============================================
+
+/** Betting streets, as GAME_PHASES values (PREFLOP..RIVER) */
+export type HandStreetPhase = 3 | 4 | 5 | 6;
+
+export interface HandHistorySeat {
+    seatIdx: number;
+    /** Null until an event names the player sitting here */
+    player: string | null;
+    /** Chips behind when the hand started; null when the replay never saw them */
+    startingStack: number | null;
+    /** Total chips put into the pot this hand */
+    invested: number;
+    /** Net chips awarded to this seat (after fees) */
+    won: number;
+    /** Hole cards, only for seats that reached showdown */
+    holeCards: number[] | null;
+    /** hand_eval hand type at showdown */
+    handType: number | null;
+}
+
+export type HandPostKind = "ante" | "smallBlind" | "bigBlind" | "straddle";
+
+export interface HandPost {
+    kind: HandPostKind;
+    seatIdx: number;
+    amount: number;
+}
+
+export type HandActionKind = "fold" | "check" | "call" | "raise" | "allIn" | "timeoutFold";
+
+export interface HandAction {
+    kind: HandActionKind;
+    seatIdx: number;
+    player: string | null;
+    /** Chips this action put in */
+    amount: number;
+    /** The seat's total bet on this street after the action */
+    streetTotal: number;
+    /** The action left the seat with no chips behind (null when the stack is unknown) */
+    allIn: boolean | null;
+}
+
+export interface HandStreet {
+    phase: HandStreetPhase;
+    /** Community cards dealt for this street (runouts included) */
+    cards: number[];
+    /** Chips in the pot when this street began (forced bets included preflop) */
+    potAtStart: number;
+    actions: HandAction[];
+}
+
+export interface HandAward {
+    seatIdx: number;
+    player: string;
+    /** Net of fees */
+    amount: number;
+    /** Fee taken from this award (the contract books the whole hand fee on the first) */
+    fee: number;
+}
+
+export interface HandTimeout {
+    phase: GamePhase;
+    seatIdx: number;
+    player: string | null;
+    penalty: number;
+}
+
+/** Table state for a replay that does not start at TableCreated */
+export interface HandReplaySeed {
+    stakes: HandHistory["stakes"];
+    /** Occupied seats and their stacks */
+    seats: { seatIdx: number; player: string; stack: number }[];
+}
+
+/** 0=commit_timeout, 1=reveal_timeout, 2=emergency (matches HandAborted.reason) */
+export type HandAbortReason = 0 | 1 | 2;
+
+export type HandOutcome = "showdown" | "foldWin" | "aborted";
+
+export interface HandHistory {
+    tableAddr: string;
+    handNumber: number;
+    dealerSeat: number;
+    /** Blinds and ante in force when the hand started; null if the replay never saw the config */
+    stakes: { smallBlind: number; bigBlind: number; ante: number } | null;
+    /** Seats dealt into the hand, in hand order */
+    seats: HandHistorySeat[];
+    posts: HandPost[];
+    streets: HandStreet[];
+    board: number[];
+    awards: HandAward[];
+    timeouts: HandTimeout[];
+    totalPot: number | null;
+    totalFees: number | null;
+    /** Null while the hand is still in progress */
+    outcome: HandOutcome | null;
+    abortReason: HandAbortReason | null;
+    /** Unix seconds from the HandResult event; null for aborted or unfinished hands */
+    endedAt: number | null;
+    /** Transaction versions of the first and last events of the hand */
+    startVersion: bigint;
+    endVersion: bigint;
+}
+
+// ============================================
+// REPLAY STATE
+// ============================================
+
+interface TableSeat {
+    player: string | null;
+    stack: number | null;
+}
+
+interface ReplayState {
+    stakes: HandHistory["stakes"];
+    seats: Map<number, TableSeat>;
+    hand: HandHistory | null;
+    /** Current street bet per seat, as the contract's pot_manager tracks it */
+    streetBets: Map<number, number>;
+    hands: HandHistory[];
+}
+
+/** Board positions per street: 3 flop cards, then turn and river */
+function streetForBoardIndex(index: number): HandStreetPhase {
+    if (index < 3) return GAME_PHASES.FLOP;
+    return index === 3 ? GAME_PHASES.TURN : GAME_PHASES.RIVER;
+}
+
+function isStreetPhase(phase: number): phase is HandStreetPhase {
+    return phase >= GAME_PHASES.PREFLOP && phase <= GAME_PHASES.RIVER;
+}
+
+function tableSeat(state: ReplayState, seatIdx: number): TableSeat {
+    let seat = state.seats.get(seatIdx);
+    if (!seat) {
+        seat = { player: null, stack: null };
+        state.seats.set(seatIdx, seat);
+    }
+    return seat;
+}
+
+function handSeat(hand: HandHistory, seatIdx: number): HandHistorySeat | undefined {
+    return hand.seats.find((seat) => seat.seatIdx === seatIdx);
+}
+
+/** Learn a player's address from any event that names them */
+function notePlayer(state: ReplayState, seatIdx: number, player: string) {
+    tableSeat(state, seatIdx).player = player;
+    const seat = state.hand && handSeat(state.hand, seatIdx);
+    if (seat) seat.player = player;
+}
+
+function street(hand: HandHistory, phase: HandStreetPhase): HandStreet {
+    let entry = hand.streets.find((s) => s.phase === phase);
+    if (!entry) {
+        const potAtStart = hand.seats.reduce((sum, seat) => sum + seat.invested, 0);
+        entry = { phase, cards: [], potAtStart, actions: [] };
+        hand.streets.push(entry);
+        hand.streets.sort((a, b) => a.phase - b.phase);
+    }
+    return entry;
+}
+
+/** Move chips from a seat's stack into the pot */
+function invest(state: ReplayState, seatIdx: number, amount: number) {
+    const hand = state.hand;
+    if (!hand) return;
+    const seat = handSeat(hand, seatIdx);
+    if (seat) seat.invested += amount;
+    state.streetBets.set(seatIdx, (state.streetBets.get(seatIdx) ?? 0) + amount);
+
+    const stack = tableSeat(state, seatIdx);
+    if (stack.stack !== null) stack.stack = Math.max(0, stack.stack - amount);
+}
+
+function recordAction(state: ReplayState, kind: HandActionKind, seatIdx: number, amount: number, allIn?: boolean) {
+    const hand = state.hand;
+    if (!hand) return;
+    const phase = currentStreet(state);
+    const stack = tableSeat(state, seatIdx).stack;
+    street(hand, phase).actions.push({
+        kind,
+        seatIdx,
+        player: handSeat(hand, seatIdx)?.player ?? tableSeat(state, seatIdx).player,
+        amount,
+        streetTotal: state.streetBets.get(seatIdx) ?? 0,
+        allIn: allIn ?? (stack === null ? null : stack === 0 && amount > 0),
+    });
+}
+
+// Street the hand is on: the last betting street opened, preflop before that
+function currentStreet(state: ReplayState): HandStreetPhase {
+    const streets = state.hand?.streets ?? [];
+    return streets.length > 0 ? streets[streets.length - 1].phase : GAME_PHASES.PREFLOP;
+}
+
+function closeHand(state: ReplayState) {
+    if (state.hand) state.hands.push(state.hand);
+    state.hand = null;
+    state.streetBets.clear();
+}
+
+// ============================================
+// REDUCER
+// ============================================
+
+function applyEvent(state: ReplayState, event: PokerEvent) {
+    const hand = state.hand;
+
+    // Hand-scoped events from a hand we did not see start are ignored
+    if (event.type !== "HandStarted" && "handNumber" in event.data) {
+        if (!hand || event.data.handNumber !== hand.handNumber) return;
+        hand.endVersion = event.version;
+    }
+
+    switch (event.type) {
+        // Table config and seating
+        case "TableCreated": {
+            const { smallBlind, bigBlind, ante } = event.data;
+            state.stakes = { smallBlind, bigBlind, ante };
+            return;
+        }
+        case "TableConfigUpdated": {
+            const { configType, value1, value2 } = event.data;
+            if (!state.stakes) return;
+            if (configType === 0) state.stakes = { ...state.stakes, smallBlind: value1, bigBlind: value2 };
+            else if (configType === 1) state.stakes = { ...state.stakes, ante: value1 };
+            return;
+        }
+        case "PlayerJoined":
+            state.seats.set(event.data.seatIdx, { player: event.data.player, stack: event.data.buyIn });
+            return;
+        case "PlayerToppedUp":
+            state.seats.set(event.data.seatIdx, { player: event.data.player, stack: event.data.newStack });
+            return;
+        case "PlayerLeft":
+        case "PlayerKicked":
+            state.seats.delete(event.data.seatIdx);
+            return;
+
+        // Hand lifecycle
+        case "HandStarted": {
+            // A hand that never reached an end event still gets reported
+            closeHand(state);
+            const { tableAddr, handNumber, dealerSeat, playerSeats } = event.data;
+            state.hand = {
+                tableAddr,
+                handNumber,
+                dealerSeat,
+                stakes: state.stakes,
+                seats: playerSeats.map((seatIdx) => {
+                    const seat = tableSeat(state, seatIdx);
+                    return {
+                        seatIdx,
+                        player: seat.player,
+                        startingStack: seat.stack,
+                        invested: 0,
+                        won: 0,
+                        holeCards: null,
+                        handType: null,
+                    };
+                }),
+                posts: [],
+                streets: [],
+                board: [],
+                awards: [],
+                timeouts: [],
+                totalPot: null,
+                totalFees: null,
+                outcome: null,
+                abortReason: null,
+                endedAt: null,
+                startVersion: event.version,
+                endVersion: event.version,
+            };
+            return;
+        }
+        case "PhaseChanged": {
+            const { newPhase } = event.data;
+            // pot_manager collects the street's bets when a betting street ends;
+            // antes and blinds are posted before the move into preflop and stay live
+            if (newPhase > GAME_PHASES.PREFLOP) state.streetBets.clear();
+            if (hand && isStreetPhase(newPhase)) street(hand, newPhase);
+            return;
+        }
+        case "CommunityCardsDealt": {
+            if (!hand) return;
+            for (const card of event.data.cards) {
+                street(hand, streetForBoardIndex(hand.board.length)).cards.push(card);
+                hand.board.push(card);
+            }
+            return;
+        }
+
+        // Forced bets
+        case "AntesPosted": {
+            if (!hand) return;
+            const { totalAnte } = event.data;
+            const share = Math.floor(totalAnte / hand.seats.length);
+            for (const seat of hand.seats) {
+                // Short stacks post what they have; otherwise everyone posts the configured ante
+                const stack = tableSeat(state, seat.seatIdx).stack;
+                const ante = hand.stakes ? hand.stakes.ante : share;
+                const amount = stack === null ? ante : Math.min(stack, ante);
+                invest(state, seat.seatIdx, amount);
+                hand.posts.push({ kind: "ante", seatIdx: seat.seatIdx, amount });
+            }
+            return;
+        }
+        case "BlindsPosted": {
+            if (!hand) return;
+            const { sbSeat, sbAmount, bbSeat, bbAmount } = event.data;
+            invest(state, sbSeat, sbAmount);
+            invest(state, bbSeat, bbAmount);
+            hand.posts.push({ kind: "smallBlind", seatIdx: sbSeat, amount: sbAmount });
+            hand.posts.push({ kind: "bigBlind", seatIdx: bbSeat, amount: bbAmount });
+            return;
+        }
+        case "StraddlePosted": {
+            if (!hand) return;
+            const { seatIdx, player, amount } = event.data;
+            notePlayer(state, seatIdx, player);
+            invest(state, seatIdx, amount);
+            hand.posts.push({ kind: "straddle", seatIdx, amount });
+            return;
+        }
+
+        // Player actions
+        case "PlayerFolded":
+            notePlayer(state, event.data.seatIdx, event.data.player);
+            recordAction(state, "fold", event.data.seatIdx, 0, false);
+            return;
+        case "PlayerChecked":
+            notePlayer(state, event.data.seatIdx, event.data.player);
+            recordAction(state, "check", event.data.seatIdx, 0, false);
+            return;
+        case "PlayerCalled": {
+            const { seatIdx, player, amount } = event.data;
+            notePlayer(state, seatIdx, player);
+            invest(state, seatIdx, amount);
+            recordAction(state, "call", seatIdx, amount);
+            return;
+        }
+        case "PlayerRaised": {
+            // raise_to is the seat's street total, not the chips added
+            const { seatIdx, player, raiseTo } = event.data;
+            notePlayer(state, seatIdx, player);
+            const added = Math.max(0, raiseTo - (state.streetBets.get(seatIdx) ?? 0));
+            invest(state, seatIdx, added);
+            recordAction(state, "raise", seatIdx, added);
+            return;
+        }
+        case "PlayerWentAllIn": {
+            const { seatIdx, player, amount } = event.data;
+            notePlayer(state, seatIdx, player);
+            const seat = hand && handSeat(hand, seatIdx);
+            // An all-in reveals a stack the replay had not seen
+            if (seat && seat.startingStack === null) seat.startingStack = seat.invested + amount;
+            invest(state, seatIdx, amount);
+            tableSeat(state, seatIdx).stack = 0;
+            recordAction(state, "allIn", seatIdx, amount, true);
+            return;
+        }
+
+        // Results
+        case "ShowdownStarted":
+            if (hand && hand.board.length === 0) hand.board = [...event.data.board];
+            return;
+        case "PotAwarded": {
+            if (!hand) return;
+            const { winnerSeat, winner, amount, feeDeducted } = event.data;
+            notePlayer(state, winnerSeat, winner);
+            hand.awards.push({ seatIdx: winnerSeat, player: winner, amount, fee: feeDeducted });
+            const seat = handSeat(hand, winnerSeat);
+            if (seat) seat.won += amount;
+            const stack = tableSeat(state, winnerSeat);
+            if (stack.stack !== null) stack.stack += amount;
+            hand.outcome = "showdown";
+            return;
+        }
+        case "FoldWin": {
+            if (!hand) return;
+            const { winnerSeat, winner, amount } = event.data;
+            notePlayer(state, winnerSeat, winner);
+            // FoldWin has no fee field; HandEnded carries it
+            hand.awards.push({ seatIdx: winnerSeat, player: winner, amount, fee: 0 });
+            const seat = handSeat(hand, winnerSeat);
+            if (seat) seat.won += amount;
+            const stack = tableSeat(state, winnerSeat);
+            if (stack.stack !== null) stack.stack += amount;
+            hand.outcome = "foldWin";
+            return;
+        }
+        case "HandEnded": {
+            if (!hand) return;
+            hand.totalPot = event.data.totalPot;
+            hand.totalFees = event.data.totalFees;
+            const [first] = hand.awards;
+            if (hand.outcome === "foldWin" && first) first.fee = event.data.totalFees;
+            return;
+        }
+        case "HandResult": {
+            if (!hand) return;
+            const result = event.data;
+            result.showdownSeats.forEach((seatIdx, i) => {
+                const seat = handSeat(hand, seatIdx);
+                if (!seat) return;
+                seat.player = result.showdownPlayers[i] ?? seat.player;
+                seat.holeCards = result.showdownHoleCards[i] ?? null;
+                seat.handType = result.showdownHandTypes[i] ?? null;
+            });
+            if (result.communityCards.length > hand.board.length) hand.board = [...result.communityCards];
+            hand.endedAt = result.timestamp;
+            closeHand(state);
+            return;
+        }
+
+        // Timeouts and aborts
+        case "TimeoutTriggered": {
+            if (!hand) return;
+            const { phase, seatIdx, penalty } = event.data;
+            const stack = tableSeat(state, seatIdx);
+            if (stack.stack !== null) stack.stack = Math.max(0, stack.stack - penalty);
+            hand.timeouts.push({ phase: phase as GamePhase, seatIdx, player: stack.player, penalty });
+            // A betting-round timeout folds the seat
+            if (isStreetPhase(phase)) recordAction(state, "timeoutFold", seatIdx, 0, false);
+            return;
+        }
+        case "HandAborted": {
+            if (!hand) return;
+            hand.outcome = "aborted";
+            hand.abortReason = event.data.reason as HandAbortReason;
+            // Emergency aborts refund everything invested
+            for (const seat of hand.seats) {
+                const stack = tableSeat(state, seat.seatIdx);
+                if (stack.stack !== null) stack.stack += seat.invested;
+            }
+            closeHand(state);
+            return;
+        }
+    }
+}
+
+/**
+ * Rebuild hand histories from decoded events, oldest first. For accurate
+ * starting stacks, pass the table's stream from TableCreated onwards, or a
+ * seed taken just before the first event.
+ * A trailing hand without an end event is returned with outcome null.
+ */
+export function replayHandHistories(events: readonly PokerEvent[], seed?: HandReplaySeed): HandHistory[] {
+    const state: ReplayState = {
+        stakes: seed?.stakes ?? null,
+        seats: new Map<number, TableSeat>(seed?.seats.map(({ seatIdx, player, stack }) => [seatIdx, { player, stack }])),
+        hand: null,
+        streetBets: new Map(),
+        hands: [],
+    };
+    for (const event of events) {
+        applyEvent(state, event);
+    }
+    closeHand(state);
+    return state.hands;
+}
@@ -0,0 +1,998 @@
+/**
+ * Framework-agnostic client for the Texas Hold'em contracts
+ *
+ * Wraps every texas_holdem and chips entry/view function with typed methods.
+ * Chain access goes through a pluggable transport (any Cedra SDK instance)
+ * and transactions through a pluggable signer (browser wallet, local account,
+ * or anything else that can sign and submit an entry function payload).
+ * Usable from React, Node scripts and bots alike.
+ */
+
+import { AccountAddress, isUserTransactionResponse } from "@cedra-labs/ts-sdk";
+import type { Account, Cedra, CommittedTransactionResponse, EntryFunctionPayloadResponse, MoveValue } from "@cedra-labs/ts-sdk";
+import { COMMIT_TIMEOUT_SECS, CONTRACT_ADDRESS, REVEAL_TIMEOUT_SECS } from "../config/contracts";
+import type { ActionState, GamePhase, GameState, HandResultData, PlayerStatus, SeatInfo, TableConfig, TableState } from "../types";
+import { decodeTransactionError } from "./errors";
+import type { FairnessParticipant, HandFairnessData } from "./fairness";
+import { decodePokerEvent, POKER_EVENTS, type EventCursor, type PokerEvent, type PokerEventOf, type PokerEventType } from "./events";
+import { replayHandHistories, type HandHistory, type HandReplaySeed } from "./handHistory";
+import { summarizeSimulation, type SimulationResult } from "./simulation";
+import { normalizeBoolVector, normalizeNestedU8Vectors, normalizeU8Vector } from "./normalize";
+
+// Seat index the contract returns when there is no seat (MAX_PLAYERS)
+const NO_SEAT = 5;
+
+/** Chain access the client needs. A Cedra SDK instance satisfies it. */
+export type HoldemTransport = Pick<
+    Cedra,
+    "view" | "getEvents" | "getLedgerInfo" | "waitForTransaction" | "getAccountCEDRAAmount" | "transaction" | "getTransactionByVersion" | "getBlockByVersion"
+>;
+
+export type EntryFunctionArgument = string | number | boolean | number[];
+
+export interface EntryFunctionPayload {
+    function: `${string}::${string}::${string}`;
+    functionArguments: EntryFunctionArgument[];
+}
+
+/** Signs and submits entry function payloads on behalf of one account */
+export interface HoldemSigner {
+    /** Sending account address */
+    address: string;
+    signAndSubmit: (payload: EntryFunctionPayload) => Promise<{ hash: string }>;
+}
+
+/** Lifecycle callbacks for submitted transactions (activity trackers, logging) */
+export interface TransactionObserver {
+    submitted?: (payload: EntryFunctionPayload, hash: string) => void;
+    confirmed?: (payload: EntryFunctionPayload, result: TransactionResult) => void;
+    /** hash is null when the transaction never reached the chain */
+    failed?: (payload: EntryFunctionPayload, hash: string | null, error: Error) => void;
+}
+
+export interface HoldemClientOptions {
+    transport: HoldemTransport;
+    signer?: HoldemSigner;
+    observer?: TransactionObserver;
+    /** Defaults to the deployed contract address */
+    contractAddress?: string;
+}
+
+export interface TransactionResult {
+    hash: string;
+    result: CommittedTransactionResponse;
+}
+
+export interface TableEventQuery<T extends PokerEventType> {
+    /** Only these event types; all poker_events when omitted */
+    types?: readonly T[];
+    /** Only events for this hand (events without a hand_number never match) */
+    handNumber?: number;
+    /** Only events at or after this transaction version */
+    fromVersion?: bigint;
+    /** Resume strictly after this event (from a previous page) */
+    cursor?: EventCursor | null;
+    /** Page size, default 100 */
+    limit?: number;
+    /** Default "asc" (oldest first) */
+    order?: "asc" | "desc";
+}
+
+export interface HandResultPage {
+    /** Newest first */
+    results: HandResultData[];
+    /** Pass back to fetch older results */
+    cursor: EventCursor | null;
+    hasMore: boolean;
+}
+
+export interface TableEventPage<T extends PokerEventType> {
+    events: PokerEventOf<T>[];
+    /** Position of the last event returned (or the input cursor when empty); pass back for the next page */
+    cursor: EventCursor | null;
+    /** A full page came back, so more events may follow */
+    hasMore: boolean;
+}
+
+/**
+ * Signer backed by a local SDK account, for Node scripts and bots.
+ */
+export function accountSigner(cedra: Cedra, account: Account): HoldemSigner {
+    return {
+        address: account.accountAddress.toString(),
+        signAndSubmit: async (payload) => {
+            const transaction = await cedra.transaction.build.simple({
+                sender: account.accountAddress,
+                data: payload,
+            });
+            return cedra.signAndSubmitTransaction({ signer: account, transaction });
+        },
+    };
+}
+
+/**
+ * Entry function payload; Uint8Array arguments become vector<u8>
+ */
+export function buildPayload(functionId: string, args: (string | number | boolean | Uint8Array)[]): EntryFunctionPayload {
+    return {
+        function: functionId as `${string}::${string}::${string}`,
+        // Convert Uint8Array to array of numbers for vector<u8> params
+        functionArguments: args.map((a) => (a instanceof Uint8Array ? Array.from(a) : a)),
+    };
+}
+
+function toNumber(value: MoveValue): number {
+    return parseInt(String(value));
+}
+
+function toSeat(value: MoveValue): number | null {
+    const seat = toNumber(value);
+    return seat >= NO_SEAT ? null : seat;
+}
+
+export class HoldemClient {
+    readonly transport: HoldemTransport;
+    readonly signer: HoldemSigner | null;
+    readonly observer: TransactionObserver | null;
+    readonly contractAddress: string;
+    readonly modules: { texasHoldem: string; chips: string; pokerEvents: string };
+    private chipMetadata: Promise<string> | null = null;
+    private actionEvents = false;
+
+    constructor({ transport, signer, observer, contractAddress = CONTRACT_ADDRESS }: HoldemClientOptions) {
+        this.transport = transport;
+        this.signer = signer ?? null;
+        this.observer = observer ?? null;
+        this.contractAddress = contractAddress;
+        this.modules = {
+            texasHoldem: `${contractAddress}::texas_holdem`,
+            chips: `${contractAddress}::chips`,
+            pokerEvents: `${contractAddress}::poker_events`,
+        };
+    }
+
+    /** Same transport and contract, different signer (and optionally observer) */
+    withSigner(signer: HoldemSigner | null, observer: TransactionObserver | null = this.observer): HoldemClient {
+        return new HoldemClient({
+            transport: this.transport,
+            signer: signer ?? undefined,
+            observer: observer ?? undefined,
+            contractAddress: this.contractAddress,
+        });
+    }
+
+    // ============================================
+    // TRANSPORT HELPERS
+    // ============================================
+
+    private async view(module: string, name: string, args: (string | number)[] = [], ledgerVersion?: bigint): Promise<MoveValue[]> {
+        return this.transport.view({
+            payload: {
+                function: `${module}::${name}` as `${string}::${string}::${string}`,
+                functionArguments: args.map((a) => (typeof a === "number" ? a.toString() : a)),
+            },
+            options: ledgerVersion === undefined ? undefined : { ledgerVersion },
+        });
+    }
+
+    private async holdemView(name: string, args: (string | number)[] = [], ledgerVersion?: bigint): Promise<MoveValue[]> {
+        return this.view(this.modules.texasHoldem, name, args, ledgerVersion);
+    }
+
+    private async chipsView(name: string, args: (string | number)[] = []): Promise<MoveValue[]> {
+        return this.view(this.modules.chips, name, args);
+    }
+
+    /**
+     * Sign, submit and wait for an entry function call.
+     * Uint8Array arguments are sent as vector<u8>.
+     * Move aborts are rethrown as MoveAbortError subclasses.
+     */
+    async execute(functionId: string, args: (string | number | boolean | Uint8Array)[]): Promise<TransactionResult> {
+        return this.submit(buildPayload(functionId, args));
+    }
+
+    /**
+     * Sign, submit and wait for a prebuilt payload (e.g. retrying a failed one)
+     */
+    async submit(payload: EntryFunctionPayload): Promise<TransactionResult> {
+        if (!this.signer) throw new Error("Wallet not connected");
+
+        let hash: string | null = null;
+        try {
+            const response = await this.signer.signAndSubmit(payload);
+            hash = response.hash;
+            this.observer?.submitted?.(payload, hash);
+
+            // Wait for transaction confirmation
+            const result = await this.transport.waitForTransaction({ transactionHash: hash });
+
+            const confirmed = { hash, result };
+            this.observer?.confirmed?.(payload, confirmed);
+            return confirmed;
+        } catch (err) {
+            // Surface Move aborts as typed errors
+            const error = decodeTransactionError(err);
+            this.observer?.failed?.(payload, hash, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Simulate an entry function payload against current chain state.
+     * Needs no signature; sender defaults to the signer's address.
+     */
+    async simulate(payload: EntryFunctionPayload, sender = this.signer?.address): Promise<SimulationResult> {
+        if (!sender) throw new Error("Wallet not connected");
+
+        const [transaction, chipMetadata] = await Promise.all([
+            this.transport.transaction.build.simple({ sender, data: payload }),
+            this.getCachedChipMetadata(),
+        ]);
+        const [response] = await this.transport.transaction.simulate.simple({
+            transaction,
+            options: { estimateGasUnitPrice: true, estimateMaxGasAmount: true },
+        });
+        return summarizeSimulation(response, sender, chipMetadata);
+    }
+
+    private getCachedChipMetadata(): Promise<string> {
+        if (!this.chipMetadata) {
+            this.chipMetadata = this.getChipMetadata().catch((err) => {
+                this.chipMetadata = null;
+                throw err;
+            });
+        }
+        return this.chipMetadata;
+    }
+
+    private holdemEntry(name: string, args: (string | number | boolean | Uint8Array)[]): Promise<TransactionResult> {
+        return this.execute(`${this.modules.texasHoldem}::${name}`, args);
+    }
+
+    private chipsEntry(name: string, args: (string | number | boolean | Uint8Array)[]): Promise<TransactionResult> {
+        return this.execute(`${this.modules.chips}::${name}`, args);
+    }
+
+    // ============================================
+    // TABLE VIEWS
+    // ============================================
+
+    /** As of ledgerVersion when given (the node must still hold that state), the latest otherwise */
+    async getTableConfig(tableAddress: string, ledgerVersion?: bigint): Promise<TableConfig> {
+        const [sb, bb, min, max, ante, straddle, feeBps] = await this.holdemView("get_table_config_full", [tableAddress], ledgerVersion);
+        return {
+            smallBlind: toNumber(sb),
+            bigBlind: toNumber(bb),
+            minBuyIn: toNumber(min),
+            maxBuyIn: toNumber(max),
+            ante: toNumber(ante),
+            straddleEnabled: straddle as boolean,
+            feeBasisPoints: toNumber(feeBps),
+        };
+    }
+
+    /** Blinds and buy-in limits only (get_table_config) */
+    async getTableConfigBasic(tableAddress: string): Promise<Pick<TableConfig, "smallBlind" | "bigBlind" | "minBuyIn" | "maxBuyIn">> {
+        const [sb, bb, min, max] = await this.holdemView("get_table_config", [tableAddress]);
+        return { smallBlind: toNumber(sb), bigBlind: toNumber(bb), minBuyIn: toNumber(min), maxBuyIn: toNumber(max) };
+    }
+
+    async getTableState(tableAddress: string): Promise<TableState> {
+        const [handNum, dealer, nextBb, fees] = await this.holdemView("get_table_state", [tableAddress]);
+        return {
+            handNumber: toNumber(handNum),
+            dealerSeat: toNumber(dealer),
+            nextBigBlind: toNumber(nextBb),
+            totalFeesCollected: toNumber(fees),
+        };
+    }
+
+    /** Full seat info, or null for an empty seat. As of ledgerVersion when given. */
+    async getSeatInfo(tableAddress: string, seatIndex: number, ledgerVersion?: bigint): Promise<SeatInfo | null> {
+        const [player, chips, sittingOut, bet, status] = await this.holdemView("get_seat_info_full", [tableAddress, seatIndex], ledgerVersion);
+        if (player === "0x0" || player === "") return null;
+        return {
+            player: player as string,
+            chips: toNumber(chips),
+            sittingOut: sittingOut as boolean,
+            currentBet: toNumber(bet),
+            status: toNumber(status) as PlayerStatus,
+        };
+    }
+
+    /** Player, stack and sitting-out flag only (get_seat_info), or null for an empty seat */
+    async getSeatInfoBasic(tableAddress: string, seatIndex: number): Promise<Pick<SeatInfo, "player" | "chips" | "sittingOut"> | null> {
+        const [player, chips, sittingOut] = await this.holdemView("get_seat_info", [tableAddress, seatIndex]);
+        if (player === "0x0" || player === "") return null;
+        return { player: player as string, chips: toNumber(chips), sittingOut: sittingOut as boolean };
+    }
+
+    async getAllSeats(tableAddress: string, ledgerVersion?: bigint): Promise<(SeatInfo | null)[]> {
+        return Promise.all([0, 1, 2, 3, 4].map((i) => this.getSeatInfo(tableAddress, i, ledgerVersion)));
+    }
+
+    async getSeatCount(tableAddress: string): Promise<{ occupied: number; total: number }> {
+        const [occupied, total] = await this.holdemView("get_seat_count", [tableAddress]);
+        return { occupied: toNumber(occupied), total: toNumber(total) };
+    }
+
+    /** Seat index of a player, or null if not seated */
+    async getPlayerSeat(tableAddress: string, playerAddress: string): Promise<number | null> {
+        const [seat] = await this.holdemView("get_player_seat", [tableAddress, playerAddress]);
+        return toSeat(seat);
+    }
+
+    async getAdmin(tableAddress: string): Promise<string> {
+        const [admin] = await this.holdemView("get_admin", [tableAddress]);
+        return admin as string;
+    }
+
+    /** Table address owned by an admin (via their TableRef) */
+    async getTableAddress(adminAddress: string): Promise<string> {
+        const [table] = await this.holdemView("get_table_address", [adminAddress]);
+        return table as string;
+    }
+
+    async isPaused(tableAddress: string): Promise<boolean> {
+        const [paused] = await this.holdemView("is_paused", [tableAddress]);
+        return paused as boolean;
+    }
+
+    async isTablePaused(tableAddress: string): Promise<boolean> {
+        const [paused] = await this.holdemView("is_table_paused", [tableAddress]);
+        return paused as boolean;
+    }
+
+    async isAdminOnlyStart(tableAddress: string): Promise<boolean> {
+        const [adminOnly] = await this.holdemView("is_admin_only_start", [tableAddress]);
+        return adminOnly as boolean;
+    }
+
+    async getPendingLeaves(tableAddress: string): Promise<boolean[]> {
+        const [leaves] = await this.holdemView("get_pending_leaves", [tableAddress]);
+        return normalizeBoolVector(leaves);
+    }
+
+    async getMissedBlinds(tableAddress: string): Promise<number[]> {
+        const [missed] = await this.holdemView("get_missed_blinds", [tableAddress]);
+        return normalizeU8Vector(missed);
+    }
+
+    // ============================================
+    // HAND VIEWS
+    // ============================================
+
+    async getGamePhase(tableAddress: string): Promise<GamePhase> {
+        const [phase] = await this.holdemView("get_game_phase", [tableAddress]);
+        return toNumber(phase) as GamePhase;
+    }
+
+    async getPotSize(tableAddress: string): Promise<number> {
+        const [pot] = await this.holdemView("get_pot_size", [tableAddress]);
+        return toNumber(pot);
+    }
+
+    async getCommunityCards(tableAddress: string): Promise<number[]> {
+        const [cards] = await this.holdemView("get_community_cards", [tableAddress]);
+        return normalizeU8Vector(cards);
+    }
+
+    async getActionOn(tableAddress: string): Promise<ActionState> {
+        const [seatIdx, playerAddr, deadline] = await this.holdemView("get_action_on", [tableAddress]);
+        return {
+            seatIndex: toNumber(seatIdx),
+            playerAddress: playerAddr as string,
+            deadline: toNumber(deadline),
+        };
+    }
+
+    async getActionDeadline(tableAddress: string): Promise<number> {
+        const [deadline] = await this.holdemView("get_action_deadline", [tableAddress]);
+        return toNumber(deadline);
+    }
+
+    async getCommitDeadline(tableAddress: string): Promise<number> {
+        const [deadline] = await this.holdemView("get_commit_deadline", [tableAddress]);
+        return toNumber(deadline);
+    }
+
+    async getRevealDeadline(tableAddress: string): Promise<number> {
+        const [deadline] = await this.holdemView("get_reveal_deadline", [tableAddress]);
+        return toNumber(deadline);
+    }
+
+    async getMinRaise(tableAddress: string): Promise<number> {
+        const [minRaise] = await this.holdemView("get_min_raise", [tableAddress]);
+        return toNumber(minRaise);
+    }
+
+    async getMaxCurrentBet(tableAddress: string): Promise<number> {
+        const [maxBet] = await this.holdemView("get_max_current_bet", [tableAddress]);
+        return toNumber(maxBet);
+    }
+
+    /** Per hand index */
+    async getCurrentBets(tableAddress: string): Promise<number[]> {
+        const [bets] = await this.holdemView("get_current_bets", [tableAddress]);
+        return normalizeU8Vector(bets);
+    }
+
+    /** Per hand index, across all streets */
+    async getTotalInvested(tableAddress: string): Promise<number[]> {
+        const [invested] = await this.holdemView("get_total_invested", [tableAddress]);
+        return normalizeU8Vector(invested);
+    }
+
+    /** Amount a player must add to call, by hand index */
+    async getCallAmount(tableAddress: string, handIndex: number): Promise<number> {
+        const [amount] = await this.holdemView("get_call_amount", [tableAddress, handIndex]);
+        return toNumber(amount);
+    }
+
+    /** Seat index of the last aggressor this street, or null if none */
+    async getLastAggressor(tableAddress: string): Promise<number | null> {
+        const [seat] = await this.holdemView("get_last_aggressor", [tableAddress]);
+        return toSeat(seat);
+    }
+
+    /** Per hand index */
+    async getPlayerStatuses(tableAddress: string): Promise<PlayerStatus[]> {
+        const [statuses] = await this.holdemView("get_player_statuses", [tableAddress]);
+        return normalizeU8Vector(statuses) as PlayerStatus[];
+    }
+
+    /** Seat indices of players dealt into the current hand, in hand order */
+    async getPlayersInHand(tableAddress: string): Promise<number[]> {
+        const [players] = await this.holdemView("get_players_in_hand", [tableAddress]);
+        return normalizeU8Vector(players);
+    }
+
+    /** Encrypted hole cards per hand index */
+    async getEncryptedHoleCards(tableAddress: string): Promise<number[][]> {
+        const [cards] = await this.holdemView("get_encrypted_hole_cards", [tableAddress]);
+        return normalizeNestedU8Vectors(cards);
+    }
+
+    async getCommitStatus(tableAddress: string): Promise<boolean[]> {
+        const [status] = await this.holdemView("get_commit_status", [tableAddress]);
+        return normalizeBoolVector(status);
+    }
+
+    async getRevealStatus(tableAddress: string): Promise<boolean[]> {
+        const [status] = await this.holdemView("get_reveal_status", [tableAddress]);
+        return normalizeBoolVector(status);
+    }
+
+    async getFullGameState(tableAddress: string): Promise<GameState> {
+        const [phase, potSize, communityCards, currentBets, totalInvested, playerStatuses, minRaise, lastAggressor, actionOn] = await Promise.all([
+            this.getGamePhase(tableAddress),
+            this.getPotSize(tableAddress),
+            this.getCommunityCards(tableAddress),
+            this.getCurrentBets(tableAddress),
+            this.getTotalInvested(tableAddress),
+            this.getPlayerStatuses(tableAddress),
+            this.getMinRaise(tableAddress),
+            this.getLastAggressor(tableAddress),
+            this.getActionOn(tableAddress).catch(() => null),
+        ]);
+
+        return {
+            phase,
+            potSize,
+            communityCards,
+            currentBets,
+            totalInvested,
+            playerStatuses,
+            minRaise,
+            maxCurrentBet: Math.max(...currentBets, 0),
+            lastAggressor,
+            actionOn,
+        };
+    }
+
+    // ============================================
+    // GLOBAL VIEWS
+    // ============================================
+
+    async getTimeoutPenaltyPercent(): Promise<number> {
+        const [percent] = await this.holdemView("get_timeout_penalty_percent");
+        return toNumber(percent);
+    }
+
+    async getActionTimeoutSecs(): Promise<number> {
+        const [secs] = await this.holdemView("get_action_timeout_secs");
+        return toNumber(secs);
+    }
+
+    async getFeeCollector(): Promise<string> {
+        const [collector] = await this.holdemView("get_fee_collector");
+        return collector as string;
+    }
+
+    async getFeeAdmin(): Promise<string> {
+        const [admin] = await this.holdemView("get_fee_admin");
+        return admin as string;
+    }
+
+    async isFeeConfigInitialized(): Promise<boolean> {
+        const [initialized] = await this.holdemView("is_fee_config_initialized");
+        return initialized as boolean;
+    }
+
+    async getFeeAccumulator(tableAddress: string): Promise<number> {
+        const [accumulator] = await this.holdemView("get_fee_accumulator", [tableAddress]);
+        return toNumber(accumulator);
+    }
+
+    async getFeeBasisPoints(): Promise<number> {
+        const [bps] = await this.holdemView("get_fee_basis_points");
+        return toNumber(bps);
+    }
+
+    // ============================================
+    // CHIPS VIEWS
+    // ============================================
+
+    async getChipBalance(playerAddress: string): Promise<number> {
+        const [balance] = await this.chipsView("balance", [playerAddress]);
+        return toNumber(balance);
+    }
+
+    /** Address of the chip fungible asset metadata object */
+    async getChipMetadata(): Promise<string> {
+        const [metadata] = await this.chipsView("get_metadata");
+        return (metadata as { inner: string }).inner;
+    }
+
+    async getTreasuryBalance(): Promise<number> {
+        const [balance] = await this.chipsView("get_treasury_balance");
+        return toNumber(balance);
+    }
+
+    /** Chips per CEDRA */
+    async getExchangeRate(): Promise<number> {
+        const [rate] = await this.chipsView("get_exchange_rate");
+        return toNumber(rate);
+    }
+
+    async getTotalChipSupply(): Promise<bigint> {
+        const [supply] = await this.chipsView("get_total_chip_supply");
+        return BigInt(String(supply));
+    }
+
+    /** Native CEDRA balance in octas */
+    async getCedraBalance(accountAddress: string): Promise<number> {
+        return this.transport.getAccountCEDRAAmount({ accountAddress });
+    }
+
+    // ============================================
+    // EVENTS
+    // ============================================
+
+    async getLedgerVersion(): Promise<bigint> {
+        const info = await this.transport.getLedgerInfo();
+        return BigInt(info.ledger_version);
+    }
+
+    /** Unix seconds of the latest committed ledger, the clock deadlines are checked against */
+    async getLedgerTimestamp(): Promise<number> {
+        const info = await this.transport.getLedgerInfo();
+        return Number(info.ledger_timestamp) / 1_000_000;
+    }
+
+    /**
+     * Decoded poker_events for one table, one page at a time.
+     * Events of types this client does not know are skipped.
+     */
+    async getTableEvents<T extends PokerEventType = PokerEventType>(
+        tableAddress: string,
+        { types, handNumber, fromVersion, cursor = null, limit = 100, order = "asc" }: TableEventQuery<T> = {}
+    ): Promise<TableEventPage<T>> {
+        // u64 fields are JSON strings in indexed event data
+        const match: Record<string, string> = { table_addr: AccountAddress.from(tableAddress).toStringLong() };
+        if (handNumber !== undefined) match.hand_number = String(handNumber);
+
+        const where: Record<string, unknown> = {
+            indexed_type: types
+                ? { _in: types.map((type) => `${this.modules.pokerEvents}::${POKER_EVENTS[type].type}`) }
+                : { _like: `${this.modules.pokerEvents}::%` },
+            data: { _contains: match },
+        };
+        if (fromVersion !== undefined) {
+            where.transaction_version = { _gte: fromVersion.toString() };
+        }
+        if (cursor) {
+            // Strictly past the cursor in the requested direction
+            const past = order === "asc" ? "_gt" : "_lt";
+            where._or = [
+                { transaction_version: { [past]: cursor.version.toString() } },
+                { transaction_version: { _eq: cursor.version.toString() }, event_index: { [past]: cursor.eventIndex } },
+            ];
+        }
+
+        const rows = await this.transport.getEvents({
+            options: {
+                limit,
+                orderBy: [{ transaction_version: order }, { event_index: order }],
+                where: where as never,
+            },
+        });
+
+        const events = rows.flatMap((row) => {
+            const event = decodePokerEvent({
+                type: row.indexed_type.split("::").pop() ?? "",
+                version: BigInt(row.transaction_version),
+                eventIndex: Number(row.event_index),
+                data: row.data as Record<string, unknown>,
+            });
+            return event ? [event as PokerEventOf<T>] : [];
+        });
+
+        const last = rows[rows.length - 1];
+        return {
+            events,
+            cursor: last ? { version: BigInt(last.transaction_version), eventIndex: Number(last.event_index) } : cursor,
+            hasMore: rows.length === limit,
+        };
+    }
+
+    /**
+     * Whether the deployment emits the per-action events (phase changes,
+     * bets, commits and reveals). Packages published before them only emit
+     * table and hand lifecycle events, and any PhaseChanged from the module
+     * proves the upgrade is live. A true answer is cached.
+     */
+    async emitsActionEvents(): Promise<boolean> {
+        if (this.actionEvents) return true;
+        const rows = await this.transport.getEvents({
+            options: {
+                limit: 1,
+                where: { indexed_type: { _eq: `${this.modules.pokerEvents}::${POKER_EVENTS.PhaseChanged.type}` } } as never,
+            },
+        });
+        this.actionEvents = rows.length > 0;
+        return this.actionEvents;
+    }
+
+    /**
+     * poker_events a committed transaction emitted, in order. Read straight
+     * from the transaction, so they are there before the indexer catches up.
+     */
+    transactionEvents(result: CommittedTransactionResponse): PokerEvent[] {
+        if (!isUserTransactionResponse(result)) return [];
+        const contract = AccountAddress.from(this.contractAddress);
+        return result.events.flatMap((raw, eventIndex) => {
+            const [address, module, name] = raw.type.split("::");
+            if (module !== "poker_events" || !name || !AccountAddress.from(address).equals(contract)) return [];
+            const event = decodePokerEvent({ type: name, version: BigInt(result.version), eventIndex, data: raw.data as Record<string, unknown> });
+            return event ? [event] : [];
+        });
+    }
+
+    /**
+     * A table's HandResult events, newest first. Filtered by the indexer,
+     * so quiet tables on a busy deployment page back reliably.
+     */
+    async getHandResults(
+        tableAddress: string,
+        { cursor = null, limit = 20 }: { cursor?: EventCursor | null; limit?: number } = {}
+    ): Promise<HandResultPage> {
+        const page = await this.getTableEvents(tableAddress, { types: ["HandResult"], cursor, limit, order: "desc" });
+        return { results: page.events.map((event) => event.data), cursor: page.cursor, hasMore: page.hasMore };
+    }
+
+    /** HandResult for one hand, or null if the hand has not finished (or was aborted) */
+    async getHandResult(tableAddress: string, handNumber: number): Promise<HandResultData | null> {
+        const page = await this.getTableEvents(tableAddress, { types: ["HandResult"], handNumber, limit: 1 });
+        return page.events[0]?.data ?? null;
+    }
+
+    /** Hand histories for a table, replayed from its first event so starting stacks are known */
+    async getHandHistories(tableAddress: string): Promise<HandHistory[]> {
+        const events: PokerEvent[] = [];
+        let cursor: EventCursor | null = null;
+        let hasMore = true;
+        while (hasMore) {
+            const page: TableEventPage<PokerEventType> = await this.getTableEvents(tableAddress, { cursor, limit: 100 });
+            events.push(...page.events);
+            cursor = page.cursor;
+            hasMore = page.hasMore;
+        }
+        return replayHandHistories(events);
+    }
+
+    /**
+     * Reconstructed history of one hand, or null if it never started. Only
+     * the hand's own events are read; stacks and stakes come from the views
+     * as of its HandStarted, and stay unknown if the node has pruned that state.
+     */
+    async getHandHistory(tableAddress: string, handNumber: number): Promise<HandHistory | null> {
+        const events = await this.getHandEvents(tableAddress, handNumber);
+        const started = events.find((event) => event.type === "HandStarted");
+        if (!started) return null;
+        const seed = await this.getReplaySeed(tableAddress, started.version).catch((err) => {
+            console.warn(`Starting stacks for hand ${handNumber} are unavailable:`, err);
+            return undefined;
+        });
+        return replayHandHistories(events, seed)[0] ?? null;
+    }
+
+    /** Every event of one hand, oldest first. Table events (joins, config) carry no hand number and are left out. */
+    private async getHandEvents(tableAddress: string, handNumber: number): Promise<PokerEvent[]> {
+        const events: PokerEvent[] = [];
+        let cursor: EventCursor | null = null;
+        let hasMore = true;
+        while (hasMore) {
+            const page: TableEventPage<PokerEventType> = await this.getTableEvents(tableAddress, { handNumber, cursor, limit: 100 });
+            events.push(...page.events);
+            cursor = page.cursor;
+            hasMore = page.hasMore;
+        }
+        return events;
+    }
+
+    /** Stakes and stacks as of a version; start_hand posts nothing, so its own version gives the starting stacks */
+    private async getReplaySeed(tableAddress: string, ledgerVersion: bigint): Promise<HandReplaySeed> {
+        const [config, seats] = await Promise.all([this.getTableConfig(tableAddress, ledgerVersion), this.getAllSeats(tableAddress, ledgerVersion)]);
+        return {
+            stakes: { smallBlind: config.smallBlind, bigBlind: config.bigBlind, ante: config.ante },
+            seats: seats.flatMap((seat, seatIdx) => (seat?.player ? [{ seatIdx, player: seat.player, stack: seat.chips }] : [])),
+        };
+    }
+
+    /**
+     * Shuffle inputs and dealt cards for one hand, for verifyHandFairness.
+     * Secrets and commit hashes come from the submit_commit/reveal_secret
+     * transaction payloads; the deadlines from the timestamps of the
+     * transactions that fixed them. Null if the hand never started.
+     */
+    async getHandFairnessData(tableAddress: string, handNumber: number): Promise<HandFairnessData | null> {
+        // Seats, board and shown cards need no stacks, so the hand's events are enough
+        const events = await this.getHandEvents(tableAddress, handNumber);
+        const [hand] = replayHandHistories(events);
+        if (!hand) return null;
+
+        const started = events.find((event) => event.type === "HandStarted");
+        const commits = events.filter((event): event is PokerEventOf<"CommitSubmitted"> => event.type === "CommitSubmitted");
+        const reveals = events.filter((event): event is PokerEventOf<"RevealSubmitted"> => event.type === "RevealSubmitted");
+        const dealt = events.find((event) => event.type === "CardsDealt");
+        // The last commit fixed the reveal deadline
+        const lastCommit = commits[commits.length - 1];
+
+        const [startSeconds, lastCommitSeconds, blockHeight, commitHashes, secrets] = await Promise.all([
+            started ? this.transactionSeconds(started.version) : null,
+            lastCommit ? this.transactionSeconds(lastCommit.version) : null,
+            dealt ? this.transport.getBlockByVersion({ ledgerVersion: dealt.version }).then((block) => BigInt(block.block_height)) : null,
+            Promise.all(commits.map((event) => this.entryArgument(event.version, "submit_commit", 1))),
+            Promise.all(reveals.map((event) => this.entryArgument(event.version, "reveal_secret", 1))),
+        ]);
+
+        const samePlayer = (a: string | null, b: string) => a !== null && AccountAddress.from(a).equals(AccountAddress.from(b));
+        const participants: FairnessParticipant[] = hand.seats.map((seat) => {
+            const commit = commits.findIndex((event) => samePlayer(seat.player, event.data.player));
+            const reveal = reveals.findIndex((event) => samePlayer(seat.player, event.data.player));
+            return {
+                seatIdx: seat.seatIdx,
+                player: seat.player,
+                commitHash: commit >= 0 ? commitHashes[commit] : null,
+                secret: reveal >= 0 ? secrets[reveal] : null,
+                commitVersion: commit >= 0 ? commits[commit].version : null,
+                revealVersion: reveal >= 0 ? reveals[reveal].version : null,
+            };
+        });
+
+        return {
+            tableAddr: hand.tableAddr,
+            handNumber,
+            participants,
+            commitDeadline: startSeconds === null ? null : startSeconds + COMMIT_TIMEOUT_SECS,
+            revealDeadline: lastCommitSeconds === null ? null : lastCommitSeconds + REVEAL_TIMEOUT_SECS,
+            blockHeight,
+            dealVersion: dealt?.version ?? null,
+            board: hand.board,
+            shownHoleCards: hand.seats.flatMap((seat) => (seat.holeCards ? [{ seatIdx: seat.seatIdx, cards: seat.holeCards }] : [])),
+        };
+    }
+
+    /**
+     * The commit hash a player posted for a hand, read from their
+     * submit_commit transaction. Null if they have not committed.
+     */
+    async getCommitHash(tableAddress: string, handNumber: number, playerAddress: string): Promise<number[] | null> {
+        const page = await this.getTableEvents(tableAddress, { types: ["CommitSubmitted"], handNumber });
+        const player = AccountAddress.from(playerAddress);
+        const commit = page.events.find((event) => AccountAddress.from(event.data.player).equals(player));
+        return commit ? this.entryArgument(commit.version, "submit_commit", 1) : null;
+    }
+
+    /** Chain time of a transaction, in the whole seconds timestamp::now_seconds saw */
+    private async transactionSeconds(version: bigint): Promise<number | null> {
+        const transaction = await this.transport.getTransactionByVersion({ ledgerVersion: version });
+        return isUserTransactionResponse(transaction) ? Math.floor(Number(transaction.timestamp) / 1_000_000) : null;
+    }
+
+    /** A vector<u8> argument of a texas_holdem entry function call, or null if the transaction is something else */
+    private async entryArgument(version: bigint, name: string, index: number): Promise<number[] | null> {
+        const transaction = await this.transport.getTransactionByVersion({ ledgerVersion: version });
+        if (!isUserTransactionResponse(transaction) || transaction.payload.type !== "entry_function_payload") return null;
+        const payload = transaction.payload as EntryFunctionPayloadResponse;
+        const [address, module, fn] = payload.function.split("::");
+        const ours = AccountAddress.from(address).equals(AccountAddress.from(this.contractAddress));
+        if (!ours || module !== "texas_holdem" || fn !== name) return null;
+        return normalizeU8Vector(payload.arguments[index]);
+    }
+
+    // ============================================
+    // CHIPS ENTRY FUNCTIONS
+    // ============================================
+
+    buyChips(cedraAmount: number) {
+        return this.chipsEntry("buy_chips", [cedraAmount]);
+    }
+
+    cashOut(chipAmount: number) {
+        return this.chipsEntry("cash_out", [chipAmount]);
+    }
+
+    // ============================================
+    // TABLE MANAGEMENT
+    // ============================================
+
+    createTable(sb: number, bb: number, min: number, max: number, ante: number, straddleEnabled: boolean) {
+        return this.holdemEntry("create_table", [sb, bb, min, max, ante, straddleEnabled]);
+    }
+
+    joinTable(tableAddress: string, seatIndex: number, buyIn: number) {
+        return this.holdemEntry("join_table", [tableAddress, seatIndex, buyIn]);
+    }
+
+    leaveTable(tableAddress: string) {
+        return this.holdemEntry("leave_table", [tableAddress]);
+    }
+
+    closeTable(tableAddress: string) {
+        return this.holdemEntry("close_table", [tableAddress]);
+    }
+
+    /** Remove a stale TableRef left behind by a closed table */
+    cleanupTableRef() {
+        return this.holdemEntry("cleanup_table_ref", []);
+    }
+
+    // ============================================
+    // PLAYER CONTROLS
+    // ============================================
+
+    sitOut(tableAddress: string) {
+        return this.holdemEntry("sit_out", [tableAddress]);
+    }
+
+    sitIn(tableAddress: string) {
+        return this.holdemEntry("sit_in", [tableAddress]);
+    }
+
+    topUp(tableAddress: string, amount: number) {
+        return this.holdemEntry("top_up", [tableAddress, amount]);
+    }
+
+    leaveAfterHand(tableAddress: string) {
+        return this.holdemEntry("leave_after_hand", [tableAddress]);
+    }
+
+    cancelLeaveAfterHand(tableAddress: string) {
+        return this.holdemEntry("cancel_leave_after_hand", [tableAddress]);
+    }
+
+    // ============================================
+    // HAND LIFECYCLE
+    // ============================================
+
+    startHand(tableAddress: string) {
+        return this.holdemEntry("start_hand", [tableAddress]);
+    }
+
+    submitCommit(tableAddress: string, hash: Uint8Array) {
+        return this.holdemEntry("submit_commit", [tableAddress, hash]);
+    }
+
+    revealSecret(tableAddress: string, secret: Uint8Array) {
+        return this.holdemEntry("reveal_secret", [tableAddress, secret]);
+    }
+
+    handleTimeout(tableAddress: string) {
+        return this.holdemEntry("handle_timeout", [tableAddress]);
+    }
+
+    // ============================================
+    // PLAYER ACTIONS
+    // ============================================
+
+    fold(tableAddress: string) {
+        return this.holdemEntry("fold", [tableAddress]);
+    }
+
+    check(tableAddress: string) {
+        return this.holdemEntry("check", [tableAddress]);
+    }
+
+    call(tableAddress: string) {
+        return this.holdemEntry("call", [tableAddress]);
+    }
+
+    raiseTo(tableAddress: string, amount: number) {
+        return this.holdemEntry("raise_to", [tableAddress, amount]);
+    }
+
+    allIn(tableAddress: string) {
+        return this.holdemEntry("all_in", [tableAddress]);
+    }
+
+    straddle(tableAddress: string) {
+        return this.holdemEntry("straddle", [tableAddress]);
+    }
+
+    // ============================================
+    // ADMIN CONTROLS
+    // ============================================
+
+    pauseTable(tableAddress: string) {
+        return this.holdemEntry("pause_table", [tableAddress]);
+    }
+
+    resumeTable(tableAddress: string) {
+        return this.holdemEntry("resume_table", [tableAddress]);
+    }
+
+    kickPlayer(tableAddress: string, seatIndex: number) {
+        return this.holdemEntry("kick_player", [tableAddress, seatIndex]);
+    }
+
+    forceSitOut(tableAddress: string, seatIndex: number) {
+        return this.holdemEntry("force_sit_out", [tableAddress, seatIndex]);
+    }
+
+    toggleAdminOnlyStart(tableAddress: string, enabled: boolean) {
+        return this.holdemEntry("toggle_admin_only_start", [tableAddress, enabled]);
+    }
+
+    updateBlinds(tableAddress: string, smallBlind: number, bigBlind: number) {
+        return this.holdemEntry("update_blinds", [tableAddress, smallBlind, bigBlind]);
+    }
+
+    updateAnte(tableAddress: string, ante: number) {
+        return this.holdemEntry("update_ante", [tableAddress, ante]);
+    }
+
+    toggleStraddle(tableAddress: string, enabled: boolean) {
+        return this.holdemEntry("toggle_straddle", [tableAddress, enabled]);
+    }
+
+    updateBuyInLimits(tableAddress: string, minBuyIn: number, maxBuyIn: number) {
+        return this.holdemEntry("update_buy_in_limits", [tableAddress, minBuyIn, maxBuyIn]);
+    }
+
+    transferOwnership(tableAddress: string, newAdmin: string) {
+        return this.holdemEntry("transfer_ownership", [tableAddress, newAdmin]);
+    }
+
+    emergencyAbort(tableAddress: string) {
+        return this.holdemEntry("emergency_abort", [tableAddress]);
+    }
+
+    // ============================================
+    // FEE CONFIG (deployer / fee admin)
+    // ============================================
+
+    initFeeConfig(feeCollector: string) {
+        return this.holdemEntry("init_fee_config", [feeCollector]);
+    }
+
+    updateFeeCollector(newCollector: string) {
+        return this.holdemEntry("update_fee_collector", [newCollector]);
+    }
+
+    transferFeeAdmin(newAdmin: string) {
+        return this.holdemEntry("transfer_fee_admin", [newAdmin]);
+    }
+}
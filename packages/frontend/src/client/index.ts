@@ -0,0 +1,7 @@
+export * from "./holdemClient";
+export * from "./normalize";
+export * from "./errors";
+export * from "./simulation";
+export * from "./events";
+export * from "./handHistory";
+export * from "./fairness";
@@ -0,0 +1,119 @@
+/**
+ * Decoders for Move values returned by view functions and events
+ */
+
+import type { HandResultData } from "../types";
+
+/**
+ * Normalize a Cedra SDK response to a number array.
+ * Handles: Array, Uint8Array, hex strings, { vec: [...] } objects, or nested arrays.
+ */
+export function normalizeU8Vector(value: unknown): number[] {
+    // Already a plain array
+    if (Array.isArray(value)) {
+        return value.map((v) => {
+            if (typeof v === "string") return parseInt(v, 10);
+            if (typeof v === "number") return v;
+            return 0;
+        });
+    }
+
+    // Uint8Array (common from Cedra SDK)
+    if (value instanceof Uint8Array) {
+        return Array.from(value);
+    }
+
+    // Object with vec property (Move vector representation)
+    if (value && typeof value === "object" && "vec" in value) {
+        return normalizeU8Vector((value as { vec: unknown }).vec);
+    }
+
+    // Hex string (0x prefix)
+    if (typeof value === "string" && value.startsWith("0x")) {
+        const hex = value.slice(2);
+        const bytes: number[] = [];
+        for (let i = 0; i < hex.length; i += 2) {
+            bytes.push(parseInt(hex.slice(i, i + 2), 16));
+        }
+        return bytes;
+    }
+
+    // Plain hex string (no prefix)
+    if (typeof value === "string" && /^[0-9a-fA-F]+$/.test(value) && value.length % 2 === 0) {
+        const bytes: number[] = [];
+        for (let i = 0; i < value.length; i += 2) {
+            bytes.push(parseInt(value.slice(i, i + 2), 16));
+        }
+        return bytes;
+    }
+
+    // Debug log for unexpected formats
+    console.warn("normalizeU8Vector: unexpected format", typeof value, value);
+    return [];
+}
+
+/**
+ * Normalize nested vector (vector<vector<u8>>) to number[][].
+ * For hole cards returns array of player card arrays.
+ */
+export function normalizeNestedU8Vectors(value: unknown): number[][] {
+    // Already a plain array of arrays
+    if (Array.isArray(value)) {
+        return value.map((inner) => normalizeU8Vector(inner));
+    }
+
+    // Object with vec property
+    if (value && typeof value === "object" && "vec" in value) {
+        return normalizeNestedU8Vectors((value as { vec: unknown }).vec);
+    }
+
+    console.warn("normalizeNestedU8Vectors: unexpected format", typeof value, value);
+    return [];
+}
+
+/**
+ * Normalize vector<bool> to boolean[].
+ */
+export function normalizeBoolVector(value: unknown): boolean[] {
+    if (Array.isArray(value)) {
+        return value.map((v) => {
+            if (typeof v === "boolean") return v;
+            if (typeof v === "number") return v !== 0;
+            if (typeof v === "string") return v === "true" || v === "1";
+            return Boolean(v);
+        });
+    }
+
+    if (value instanceof Uint8Array) {
+        return Array.from(value).map((v) => v !== 0);
+    }
+
+    if (value && typeof value === "object" && "vec" in value) {
+        return normalizeBoolVector((value as { vec: unknown }).vec);
+    }
+
+    console.warn("normalizeBoolVector: unexpected format", typeof value, value);
+    return [];
+}
+
+/**
+ * Convert raw HandResult event data into the shape the showdown modal renders
+ */
+export function parseHandResultData(data: Record<string, unknown>, tableAddress: string): HandResultData {
+    return {
+        tableAddr: String(data.table_addr || tableAddress),
+        handNumber: parseInt(String(data.hand_number || "0")),
+        timestamp: parseInt(String(data.timestamp || "0")),
+        communityCards: normalizeU8Vector(data.community_cards),
+        showdownSeats: (data.showdown_seats as string[] || []).map((s: string) => parseInt(s)),
+        showdownPlayers: (data.showdown_players as string[]) || [],
+        showdownHoleCards: ((data.showdown_hole_cards as unknown[][]) || []).map((cards: unknown) => normalizeU8Vector(cards)),
+        showdownHandTypes: normalizeU8Vector(data.showdown_hand_types),
+        winnerSeats: (data.winner_seats as string[] || []).map((s: string) => parseInt(s)),
+        winnerPlayers: (data.winner_players as string[]) || [],
+        winnerAmounts: (data.winner_amounts as string[] || []).map((a: string) => parseInt(a)),
+        totalPot: parseInt(String(data.total_pot || "0")),
+        totalFees: parseInt(String(data.total_fees || "0")),
+        resultType: parseInt(String(data.result_type || "0")),
+    };
+}
@@ -0,0 +1,83 @@
+/**
+ * Transaction simulation summaries
+ *
+ * Turns a simulated UserTransactionResponse into what a player cares about
+ * before signing: will it abort, what will gas cost, and how will the
+ * sender's chip and CEDRA balances move.
+ */
+
+import { AccountAddress, CEDRA_FA, createObjectAddress } from "@cedra-labs/ts-sdk";
+import type { UserTransactionResponse } from "@cedra-labs/ts-sdk";
+import { parseMoveAbort, type MoveAbortError } from "./errors";
+
+export interface SimulationResult {
+    success: boolean;
+    vmStatus: string;
+    /** Decoded abort when the simulation failed inside a poker module */
+    abort: MoveAbortError | null;
+    gasUsed: number;
+    gasUnitPrice: number;
+    /** gasUsed * gasUnitPrice, in octas */
+    gasFee: number;
+    /** Net chip balance change for the sender */
+    chipDelta: number;
+    /** Net CEDRA balance change for the sender in octas, excluding gas */
+    cedraDelta: number;
+}
+
+interface BalanceEventData {
+    store?: string;
+    account?: string;
+    amount?: string;
+}
+
+function sameAddress(a: string | undefined, b: AccountAddress): boolean {
+    if (!a) return false;
+    try {
+        return AccountAddress.from(a).equals(b);
+    } catch {
+        return false;
+    }
+}
+
+/** Primary fungible store of an owner for a metadata object */
+function primaryStore(owner: AccountAddress, metadata: string): AccountAddress {
+    return createObjectAddress(owner, AccountAddress.from(metadata).toUint8Array());
+}
+
+/**
+ * Net deposits minus withdrawals into one store (fungible asset events)
+ * or one account (legacy coin events).
+ */
+function netFlow(response: UserTransactionResponse, store: AccountAddress, coinAccount?: AccountAddress): number {
+    let delta = 0;
+    for (const event of response.events) {
+        const data = event.data as BalanceEventData;
+        const amount = Number(data.amount ?? 0);
+        if (event.type === "0x1::fungible_asset::Deposit" && sameAddress(data.store, store)) delta += amount;
+        else if (event.type === "0x1::fungible_asset::Withdraw" && sameAddress(data.store, store)) delta -= amount;
+        else if (coinAccount && event.type === "0x1::coin::CoinDeposit" && sameAddress(data.account, coinAccount)) delta += amount;
+        else if (coinAccount && event.type === "0x1::coin::CoinWithdraw" && sameAddress(data.account, coinAccount)) delta -= amount;
+    }
+    return delta;
+}
+
+/**
+ * Summarize a simulated transaction for the given sender
+ */
+export function summarizeSimulation(response: UserTransactionResponse, sender: string, chipMetadata: string): SimulationResult {
+    const owner = AccountAddress.from(sender);
+    const gasUsed = Number(response.gas_used);
+    const gasUnitPrice = Number(response.gas_unit_price);
+
+    return {
+        success: response.success,
+        vmStatus: response.vm_status,
+        abort: response.success ? null : parseMoveAbort(response.vm_status),
+        gasUsed,
+        gasUnitPrice,
+        gasFee: gasUsed * gasUnitPrice,
+        chipDelta: netFlow(response, primaryStore(owner, chipMetadata)),
+        cedraDelta: netFlow(response, primaryStore(owner, CEDRA_FA), owner),
+    };
+}
@@ -1,8 +1,11 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useContractActions } from "../hooks/useContract";
-import { GAME_PHASES } from "../config/contracts";
-import type { GameState, SeatInfo } from "../types";
-import { Hand, X, Check, Phone, TrendingUp, Zap } from "lucide-react";
+import { formatTransactionError } from "../client";
+import { GAME_PHASES, PLAYER_STATUS } from "../config/contracts";
+import { useEquity } from "../hooks/useEquity";
+import { useSettings } from "../hooks/useSettings";
+import type { GamePhase, GameState, SeatInfo, TableConfig } from "../types";
+import { Hand, X, Check, Phone, TrendingUp, Zap, ListChecks } from "lucide-react";
 import "./ActionPanel.css";
 
 interface ActionPanelProps {
@@ -10,13 +13,161 @@ interface ActionPanelProps {
     seatIndex: number;
     gameState: GameState;
     seatInfo: SeatInfo;
+    /** All seats, for effective stacks against the opponents still in */
+    seats?: (SeatInfo | null)[];
+    config?: TableConfig | null;
+    /** Player's decrypted hole cards, for the equity readout */
+    holeCards?: number[] | null;
+    /** Current hand, so pre-actions never carry over into the next one */
+    handNumber?: number;
     onAction: () => void;
 }
 
-export function ActionPanel({ tableAddress, gameState, seatInfo, onAction }: ActionPanelProps) {
+type PreAction = "checkFold" | "check" | "call" | "callAny";
+
+interface QueuedPreAction {
+    action: PreAction;
+    handNumber: number;
+    phase: GamePhase;
+    /** Chips to call when it was queued */
+    facing: number;
+}
+
+/**
+ * Whether a queued pre-action still applies. Everything expires with the
+ * street; Check and Call X also expire once the bet facing the player moves,
+ * while Check/Fold and Call Any are meant to survive a bet.
+ */
+function isPreActionLive(queued: QueuedPreAction, handNumber: number, phase: GamePhase, facing: number): boolean {
+    if (queued.handNumber !== handNumber || queued.phase !== phase) return false;
+    return queued.action === "checkFold" || queued.action === "callAny" || queued.facing === facing;
+}
+
+/**
+ * The move a pre-action makes once the action reaches the player
+ */
+function resolvePreAction(action: PreAction, callAmount: number, chips: number): "fold" | "check" | "call" | "allIn" {
+    if (callAmount === 0) return "check";
+    if (action === "checkFold" || action === "check") return "fold";
+    // A call for more than the stack is an all-in for the stack
+    return callAmount >= chips ? "allIn" : "call";
+}
+
+function formatPercent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatRatio(value: number): string {
+    return value >= 10 ? value.toFixed(0) : value.toFixed(1);
+}
+
+interface DecisionStripProps {
+    gameState: GameState;
+    seatInfo: SeatInfo;
+    seatIndex: number;
+    seats: (SeatInfo | null)[];
+    bigBlind: number;
+    callAmount: number;
+    raiseTotal: number;
+}
+
+/**
+ * Pot odds, stack depth and bet sizing for the decision at hand
+ */
+function DecisionStrip({ gameState, seatInfo, seatIndex, seats, bigBlind, callAmount, raiseTotal }: DecisionStripProps) {
+    const pot = gameState.potSize;
+    // A call for more than the stack is an all-in for the stack
+    const callPrice = Math.min(callAmount, seatInfo.chips);
+    const requiredEquity = callPrice > 0 ? callPrice / (pot + callPrice) : 0;
+
+    // Chips behind for the biggest stack still contesting the pot
+    const opponentStacks = seats
+        .filter((seat, idx): seat is SeatInfo =>
+            idx !== seatIndex && seat !== null && (seat.status === PLAYER_STATUS.ACTIVE || seat.status === PLAYER_STATUS.ALL_IN)
+        )
+        .map((seat) => seat.chips);
+    const effectiveStack = opponentStacks.length > 0 ? Math.min(seatInfo.chips, Math.max(...opponentStacks)) : seatInfo.chips;
+    const spr = pot > 0 ? effectiveStack / pot : null;
+
+    return (
+        <div className="decision-strip">
+            <div className="decision-stat">
+                <span className="decision-label">Pot odds</span>
+                <span className="decision-value">{callPrice > 0 ? `${formatRatio(pot / callPrice)} : 1` : "Free"}</span>
+            </div>
+            <div className="decision-stat">
+                <span className="decision-label">Need</span>
+                <span className="decision-value">{callPrice > 0 ? formatPercent(requiredEquity) : "—"}</span>
+            </div>
+            <div className="decision-stat">
+                <span className="decision-label">SPR</span>
+                <span className="decision-value">{spr !== null ? formatRatio(spr) : "—"}</span>
+            </div>
+            <div className="decision-stat">
+                <span className="decision-label">Effective</span>
+                <span className="decision-value">
+                    {effectiveStack.toLocaleString()}
+                    {bigBlind > 0 && <small> ({formatRatio(effectiveStack / bigBlind)} BB)</small>}
+                </span>
+            </div>
+            {bigBlind > 0 && (
+                <div className="decision-stat">
+                    <span className="decision-label">Raise to</span>
+                    <span className="decision-value">{formatRatio(raiseTotal / bigBlind)} BB</span>
+                </div>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Win/tie odds against the opponents still in the hand, each holding a random hand
+ */
+function EquityReadout({ holeCards, gameState }: { holeCards: number[] | null; gameState: GameState }) {
+    const { settings } = useSettings();
+    const liveStatuses = gameState.playerStatuses.filter(
+        (status) => status === PLAYER_STATUS.ACTIVE || status === PLAYER_STATUS.ALL_IN
+    );
+    const opponents = Math.min(4, Math.max(1, liveStatuses.length - 1));
+    const equity = useEquity(holeCards, gameState.communityCards, opponents, settings.showEquity);
+
+    if (!settings.showEquity || !holeCards) return null;
+
+    return (
+        <div className="equity-readout" title={equity?.exact ? "Exact" : "Estimated from random runouts"}>
+            <span className="equity-label">vs {opponents} random {opponents === 1 ? "hand" : "hands"}</span>
+            {equity ? (
+                <>
+                    <span className="equity-value win">Win {formatPercent(equity.win)}</span>
+                    <span className="equity-value tie">Tie {formatPercent(equity.tie)}</span>
+                    {!equity.exact && <span className="equity-label">(estimated)</span>}
+                </>
+            ) : (
+                <span className="equity-value">Calculating...</span>
+            )}
+        </div>
+    );
+}
+
+export function ActionPanel({
+    tableAddress,
+    seatIndex,
+    gameState,
+    seatInfo,
+    seats = [],
+    config = null,
+    holeCards = null,
+    handNumber = 0,
+    onAction,
+}: ActionPanelProps) {
     const { fold, check, call, raiseTo, allIn } = useContractActions();
+    // Pre-actions fire without a click, so nobody is there to approve a review
+    const queuedActions = useContractActions({ skipPreflight: true });
     const [raiseAmount, setRaiseAmount] = useState(0); // Will be set properly once we know minRaiseTotal
     const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [queued, setQueued] = useState<QueuedPreAction | null>(null);
+    const firedRef = useRef<QueuedPreAction | null>(null);
 
     const isMyTurn = gameState.actionOn?.playerAddress?.toLowerCase() === seatInfo.player?.toLowerCase();
     const callAmount = gameState.maxCurrentBet - seatInfo.currentBet;
@@ -25,19 +176,44 @@ export function ActionPanel({ tableAddress, gameState, seatInfo, onAction }: Act
 
     // Minimum valid total bet for a raise = current max bet + minimum raise increment
     const minRaiseTotal = gameState.maxCurrentBet + gameState.minRaise;
+    const raiseTotal = raiseAmount < minRaiseTotal ? minRaiseTotal : raiseAmount;
 
     const handleAction = async (action: () => Promise<unknown>) => {
         try {
             setLoading(true);
+            setError(null);
             await action();
             onAction();
         } catch (err) {
             console.error("Action failed:", err);
+            setError(formatTransactionError(err, "Action failed."));
         } finally {
             setLoading(false);
         }
     };
 
+    const canPreAct = inBettingPhase && !isMyTurn && seatInfo.status === PLAYER_STATUS.ACTIVE;
+    const liveQueued = queued && isPreActionLive(queued, handNumber, gameState.phase, callAmount) ? queued : null;
+    // Queued but overtaken by a bet; reported until the player picks again
+    const staleQueued = queued && !liveQueued && queued.handNumber === handNumber && queued.phase === gameState.phase ? queued : null;
+
+    const togglePreAction = (action: PreAction) => {
+        setQueued(liveQueued?.action === action ? null : { action, handNumber, phase: gameState.phase, facing: callAmount });
+    };
+
+    // Fire the queued pre-action once, as soon as the action reaches this seat
+    useEffect(() => {
+        if (!isMyTurn || !liveQueued || firedRef.current === liveQueued) return;
+        firedRef.current = liveQueued;
+        const move = resolvePreAction(liveQueued.action, callAmount, seatInfo.chips);
+        const submit = queuedActions[move];
+        // One-shot: a later bet this street needs a fresh decision
+        handleAction(() => {
+            setQueued(null);
+            return submit(tableAddress);
+        });
+    });
+
     if (!inBettingPhase) {
         return (
             <div className="action-panel waiting">
@@ -48,10 +224,57 @@ export function ActionPanel({ tableAddress, gameState, seatInfo, onAction }: Act
     }
 
     if (!isMyTurn) {
+        if (!canPreAct) {
+            return (
+                <div className="action-panel waiting">
+                    <Phone size={24} />
+                    <span>Waiting for your turn...</span>
+                    <EquityReadout holeCards={holeCards} gameState={gameState} />
+                </div>
+            );
+        }
+
+        const preActions: { action: PreAction; label: string }[] =
+            callAmount === 0
+                ? [
+                      { action: "checkFold", label: "Check/Fold" },
+                      { action: "check", label: "Check" },
+                      { action: "callAny", label: "Call Any" },
+                  ]
+                : [
+                      { action: "checkFold", label: "Fold" },
+                      { action: "call", label: `Call ${Math.min(callAmount, seatInfo.chips)}` },
+                      { action: "callAny", label: "Call Any" },
+                  ];
+
         return (
-            <div className="action-panel waiting">
-                <Phone size={24} />
-                <span>Waiting for your turn...</span>
+            <div className="action-panel pre-action-panel">
+                <div className="action-info">
+                    <span className="action-label">
+                        <Phone size={14} /> Waiting for your turn...
+                    </span>
+                    <span className="action-chips">Stack: {seatInfo.chips.toLocaleString()}</span>
+                </div>
+
+                <EquityReadout holeCards={holeCards} gameState={gameState} />
+
+                <div className="pre-actions" role="group" aria-label="Act in turn">
+                    {preActions.map(({ action, label }) => (
+                        <button
+                            key={action}
+                            type="button"
+                            className={`pre-action-btn ${liveQueued?.action === action ? "selected" : ""}`}
+                            aria-pressed={liveQueued?.action === action}
+                            onClick={() => togglePreAction(action)}
+                        >
+                            <ListChecks size={14} />
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {staleQueued && <div className="pre-action-note">The bet changed, so your pre-selected action was cleared.</div>}
+                {error && <div className="action-error">{error}</div>}
             </div>
         );
     }
@@ -63,6 +286,18 @@ export function ActionPanel({ tableAddress, gameState, seatInfo, onAction }: Act
                 <span className="action-chips">Stack: {seatInfo.chips.toLocaleString()}</span>
             </div>
 
+            <DecisionStrip
+                gameState={gameState}
+                seatInfo={seatInfo}
+                seatIndex={seatIndex}
+                seats={seats}
+                bigBlind={config?.bigBlind ?? 0}
+                callAmount={callAmount}
+                raiseTotal={raiseTotal}
+            />
+
+            <EquityReadout holeCards={holeCards} gameState={gameState} />
+
             <div className="action-buttons">
                 <button
                     className="action-btn fold"
@@ -98,14 +333,14 @@ export function ActionPanel({ tableAddress, gameState, seatInfo, onAction }: Act
                         type="range"
                         min={minRaiseTotal}
                         max={seatInfo.chips + seatInfo.currentBet}
-                        value={raiseAmount < minRaiseTotal ? minRaiseTotal : raiseAmount}
+                        value={raiseTotal}
                         onChange={(e) => setRaiseAmount(Number(e.target.value))}
                         className="raise-slider"
                     />
                     <div className="raise-controls">
                         <input
                             type="number"
-                            value={raiseAmount < minRaiseTotal ? minRaiseTotal : raiseAmount}
+                            value={raiseTotal}
                             onChange={(e) => setRaiseAmount(Number(e.target.value))}
                             className="raise-input"
                             min={minRaiseTotal}
@@ -113,11 +348,11 @@ export function ActionPanel({ tableAddress, gameState, seatInfo, onAction }: Act
                         />
                         <button
                             className="action-btn raise"
-                            onClick={() => handleAction(() => raiseTo(tableAddress, raiseAmount < minRaiseTotal ? minRaiseTotal : raiseAmount))}
+                            onClick={() => handleAction(() => raiseTo(tableAddress, raiseTotal))}
                             disabled={loading || raiseAmount > seatInfo.chips + seatInfo.currentBet}
                         >
                             <TrendingUp size={18} />
-                            Raise to {raiseAmount < minRaiseTotal ? minRaiseTotal : raiseAmount}
+                            Raise to {raiseTotal}
                         </button>
                     </div>
                 </div>
@@ -131,6 +366,8 @@ export function ActionPanel({ tableAddress, gameState, seatInfo, onAction }: Act
                     All-In ({seatInfo.chips})
                 </button>
             </div>
+
+            {error && <div className="action-error">{error}</div>}
         </div>
     );
 }
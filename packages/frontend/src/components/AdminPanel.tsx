@@ -14,6 +14,7 @@ import {
     Unlock,
 } from "lucide-react";
 import { useContractActions } from "../hooks/useContract";
+import { formatTransactionError } from "../client";
 import type { SeatInfo } from "../types";
 import "./AdminPanel.css";
 
@@ -74,7 +75,7 @@ export function AdminPanel({
                 setSuccess(`${actionName} successful!`);
                 await onRefresh();
             } catch (err) {
-                setError(err instanceof Error ? err.message : "Action failed");
+                setError(formatTransactionError(err, "Action failed"));
             } finally {
                 setLoading(null);
             }
@@ -3,6 +3,7 @@ import type { FormEvent } from "react";
 import { Coins } from "lucide-react";
 import { useWallet } from "./wallet-provider";
 import { useChipsView, useContractActions } from "../hooks/useContract";
+import { formatTransactionError } from "../client";
 import "./ChipsPanel.css";
 
 const CHIPS_PER_CEDRA = 1000;
@@ -209,8 +210,7 @@ export function ChipsPanel({ balance, onBalanceRefresh }: ChipsPanelProps) {
                 window.dispatchEvent(new Event("chips:updated"));
             }
         } catch (err) {
-            const message = err instanceof Error ? err.message : "Failed to buy chips.";
-            setStatus({ type: "error", message });
+            setStatus({ type: "error", message: formatTransactionError(err, "Failed to buy chips.") });
         } finally {
             setActiveAction(null);
         }
@@ -274,8 +274,7 @@ export function ChipsPanel({ balance, onBalanceRefresh }: ChipsPanelProps) {
                 window.dispatchEvent(new Event("chips:updated"));
             }
         } catch (err) {
-            const message = err instanceof Error ? err.message : "Failed to cash out chips.";
-            setStatus({ type: "error", message });
+            setStatus({ type: "error", message: formatTransactionError(err, "Failed to cash out chips.") });
         } finally {
             setActiveAction(null);
         }
@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { FileDown, Play } from "lucide-react";
+import { useEventView } from "../hooks/useContract";
+import {
+    downloadTextFile,
+    exportFileName,
+    exportHandHistories,
+    isExportable,
+    type ExportFormat,
+    type ExportUnit,
+} from "../utils/handHistoryExport";
+import "./HandExportPanel.css";
+
+interface HandExportPanelProps {
+    tableAddress: string;
+    /** Current hand number; the default selection */
+    handNumber: number;
+}
+
+/**
+ * Download one hand or the whole table as PokerStars text or OHH JSON, or open a hand in the replayer
+ */
+export function HandExportPanel({ tableAddress, handNumber }: HandExportPanelProps) {
+    const { getHandHistory, getHandHistories } = useEventView();
+    // Follows the table's current hand until the player picks one
+    const [pickedHand, setPickedHand] = useState<number | null>(null);
+    const selectedHand = pickedHand ?? handNumber;
+    const [format, setFormat] = useState<ExportFormat>("pokerstars");
+    const [unit, setUnit] = useState<ExportUnit>("cedra");
+    const [busy, setBusy] = useState<"hand" | "table" | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleHand = async () => {
+        setError(null);
+        try {
+            setBusy("hand");
+            const hand = await getHandHistory(tableAddress, selectedHand);
+            if (!hand) {
+                setError(`Hand #${selectedHand} was not found.`);
+            } else if (!isExportable(hand)) {
+                setError(`Hand #${selectedHand} ${hand.outcome === "aborted" ? "was aborted" : "has not finished yet"}.`);
+            } else {
+                downloadTextFile(exportFileName(tableAddress, format, selectedHand), exportHandHistories([hand], format, { unit }));
+            }
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleTable = async () => {
+        setError(null);
+        try {
+            setBusy("table");
+            const hands = await getHandHistories(tableAddress);
+            if (!hands.some(isExportable)) {
+                setError("No finished hands to export yet.");
+                return;
+            }
+            downloadTextFile(exportFileName(tableAddress, format), exportHandHistories(hands, format, { unit }));
+        } catch (err) {
+            console.error("Failed to export hand histories:", err);
+            setError("Failed to load this table's hand history.");
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <section className="hand-export">
+            <div className="hand-export-header">
+                <FileDown size={18} />
+                <h3>Hand history</h3>
+            </div>
+
+            <div className="hand-export-fields">
+                <label>
+                    <span>Hand #</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={Math.max(handNumber, 1)}
+                        value={selectedHand}
+                        onChange={(e) => setPickedHand(Number(e.target.value))}
+                    />
+                </label>
+                <label>
+                    <span>Format</span>
+                    <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)}>
+                        <option value="pokerstars">PokerStars .txt</option>
+                        <option value="ohh">Open Hand History</option>
+                    </select>
+                </label>
+                <label>
+                    <span>Amounts</span>
+                    <select value={unit} onChange={(e) => setUnit(e.target.value as ExportUnit)}>
+                        <option value="cedra">CEDRA</option>
+                        <option value="chips">Chips</option>
+                    </select>
+                </label>
+            </div>
+
+            {error && <div className="hand-export-error">{error}</div>}
+
+            <div className="hand-export-actions">
+                <button
+                    type="button"
+                    className="btn btn-secondary"
+                    onClick={handleHand}
+                    disabled={busy !== null || selectedHand < 1}
+                >
+                    {busy === "hand" ? "Rebuilding..." : "Download hand"}
+                </button>
+                <button type="button" className="btn btn-secondary" onClick={handleTable} disabled={busy !== null}>
+                    {busy === "table" ? "Exporting..." : "Export all hands"}
+                </button>
+                {selectedHand >= 1 && (
+                    <Link className="btn btn-secondary hand-export-replay" to={`/table/${tableAddress}/hand/${selectedHand}`}>
+                        <Play size={14} />
+                        Replay hand #{selectedHand}
+                    </Link>
+                )}
+            </div>
+        </section>
+    );
+}
@@ -1,12 +1,17 @@
 import { useEffect, useState } from "react";
 import { WalletButton } from "./WalletButton";
 import { ChipsPanel } from "./ChipsPanel";
+import { NetworkSwitcher } from "./NetworkSwitcher";
+import { TransactionCenter } from "./TransactionCenter";
+import { SettingsMenu } from "./SettingsMenu";
+import { usePreflight } from "./PreflightProvider";
 import { Link } from "react-router-dom";
-import { Coins, Spade, X } from "lucide-react";
+import { Coins, ShieldCheck, ShieldOff, Spade, X } from "lucide-react";
 import "./Header.css";
 
 export function Header() {
     const [chipsOpen, setChipsOpen] = useState(false);
+    const preflight = usePreflight();
 
     useEffect(() => {
         if (!chipsOpen) return;
@@ -33,6 +38,17 @@ export function Header() {
             </nav>
 
             <div className="header-actions">
+                <NetworkSwitcher />
+                <button
+                    type="button"
+                    className={`preflight-toggle${preflight.enabled ? " active" : ""}`}
+                    onClick={() => preflight.setEnabled(!preflight.enabled)}
+                    aria-pressed={preflight.enabled}
+                    title={preflight.enabled ? "Transactions are simulated before signing" : "Transactions go straight to the wallet"}
+                >
+                    {preflight.enabled ? <ShieldCheck size={16} /> : <ShieldOff size={16} />}
+                    Preview
+                </button>
                 <button
                     type="button"
                     className={`chips-trigger${chipsOpen ? " active" : ""}`}
@@ -43,6 +59,8 @@ export function Header() {
                     <Coins size={16} />
                     Chips
                 </button>
+                <TransactionCenter />
+                <SettingsMenu />
                 <WalletButton />
             </div>
 
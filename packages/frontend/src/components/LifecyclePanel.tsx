@@ -1,8 +1,16 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { sha3_256 } from "@noble/hashes/sha3";
-import { Clock3, Eye, KeyRound, Loader2, Play, Shield, LogOut, Power, PowerOff } from "lucide-react";
-import { GAME_PHASES, PHASE_NAMES } from "../config/contracts";
-import { useContractActions } from "../hooks/useContract";
+import { AlarmClock, Bot, Clock3, Eye, Gavel, KeyRound, Loader2, LockKeyhole, Play, Shield, LogOut, Power, PowerOff } from "lucide-react";
+import { ACTION_TIMEOUT_SECS, COMMIT_TIMEOUT_SECS, GAME_PHASES, PHASE_NAMES, REVEAL_TIMEOUT_SECS } from "../config/contracts";
+import { useContractActions, useEventView } from "../hooks/useContract";
+import { secretVault, useSecretVault, useVaultSecret } from "../hooks/useSecretVault";
+import { useSettings } from "../hooks/useSettings";
+import { useCommitRevealAgent, type CommitRevealAgentState } from "../hooks/useCommitRevealAgent";
+import { tableTopic, useTabLeadership } from "../hooks/useTabCoordinator";
+import { useChainNow } from "../hooks/useChainClock";
+import { useWallet } from "./wallet-provider";
+import { deriveHandSecret } from "../utils/cardCrypto";
+import { formatTransactionError } from "../client";
 import type { GameState, SeatInfo, TableState } from "../types";
 import "./LifecyclePanel.css";
 
@@ -14,6 +22,9 @@ interface LifecyclePanelProps {
     tableState: TableState | null;
     playersInHand?: number[];
     commitStatus?: boolean[];
+    /** Unix seconds; 0 outside the window */
+    commitDeadline?: number;
+    revealDeadline?: number;
     pendingLeave?: boolean;
     isAdmin?: boolean;
     isAdminOnlyStart?: boolean;
@@ -21,6 +32,8 @@ interface LifecyclePanelProps {
     onRefresh: () => void | Promise<void>;
 }
 
+type LifecycleAction = "start" | "commit" | "reveal" | "restore" | "timeout" | "leave" | "sitout";
+
 function formatDeadline(deadline?: number | null) {
     if (!deadline || deadline <= 0) return null;
     try {
@@ -39,44 +52,33 @@ function hashSecretToBytes(secret: string): Uint8Array | null {
     return sha3_256(data);
 }
 
-function getSecretStorageKey(
-    tableAddress: string,
-    playerAddress: string | null | undefined,
-    handNumber: number | null | undefined
-): string | null {
-    if (!tableAddress || !playerAddress || !handNumber || handNumber <= 0) return null;
-    return `holdem_secret_${tableAddress}_${playerAddress}_${handNumber}`.toLowerCase();
+function formatCountdown(seconds: number): string {
+    const whole = Math.ceil(seconds);
+    return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
 }
 
-function loadStoredSecret(tableAddress: string, playerAddress: string | null | undefined, handNumber: number | null | undefined): string {
-    const key = getSecretStorageKey(tableAddress, playerAddress, handNumber);
-    if (!key || typeof window === "undefined") return "";
-    try {
-        // LOW-2 Fix: Use sessionStorage (cleared when tab closes) instead of localStorage
-        return sessionStorage.getItem(key) || "";
-    } catch {
-        return "";
+function agentMessage(agent: CommitRevealAgentState, enabled: boolean, elsewhere: boolean, verb: string): string | null {
+    switch (agent.step) {
+        case "submitting":
+            return `Auto-${verb}ing your cards...`;
+        case "retrying":
+            return `Attempt ${agent.attempts} failed: ${agent.error ?? "unknown error"} Retrying...`;
+        case "failed":
+            return `Auto-${verb} stopped: ${agent.error ?? "unknown error"} ${verb === "request" ? "Request" : "Accept"} manually.`;
+        case "missed":
+            return `The ${verb} window closed before your cards were ${verb}ed.`;
+        case "watching":
+            if (elsewhere) return `Your other tab at this table will ${verb} your cards automatically.`;
+            return enabled ? `Cards will be ${verb}ed automatically.` : null;
+        default:
+            return null;
     }
 }
 
-function saveSecret(
-    tableAddress: string,
-    playerAddress: string | null | undefined,
-    handNumber: number | null | undefined,
-    secret: string
-): void {
-    const key = getSecretStorageKey(tableAddress, playerAddress, handNumber);
-    if (!key || typeof window === "undefined") return;
-    try {
-        // LOW-2 Fix: Use sessionStorage (cleared when tab closes) instead of localStorage
-        if (secret) {
-            sessionStorage.setItem(key, secret);
-        } else {
-            sessionStorage.removeItem(key);
-        }
-    } catch {
-        // sessionStorage may be unavailable
-    }
+function sameBytes(a: ArrayLike<number>, b: ArrayLike<number>): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+    return true;
 }
 
 export function LifecyclePanel({
@@ -87,37 +89,63 @@ export function LifecyclePanel({
     tableState,
     playersInHand = [],
     commitStatus = [],
+    commitDeadline = 0,
+    revealDeadline = 0,
     pendingLeave = false,
     isAdmin = false,
     isAdminOnlyStart = false,
     isPaused = false,
     onRefresh,
 }: LifecyclePanelProps) {
-    const { startHand, submitCommit, revealSecret, leaveTable, leaveAfterHand, cancelLeaveAfterHand, sitOut, sitIn } = useContractActions();
+    const { startHand, submitCommit, revealSecret, handleTimeout, leaveTable, leaveAfterHand, cancelLeaveAfterHand, sitOut, sitIn } =
+        useContractActions();
+    // The agent submits unattended, so it skips the preflight review
+    const agentActions = useContractActions({ skipPreflight: true });
+    const { getCommitHash } = useEventView();
+    const { connected, signMessage } = useWallet();
+    const { settings } = useSettings();
 
     const playerAddress = playerSeat !== null ? seats[playerSeat]?.player : null;
     const handNumber = tableState?.handNumber ?? 0;
 
-    // Load secret from localStorage on mount, keyed by table + player + hand
-    const [secret, setSecretInternal] = useState(() => loadStoredSecret(tableAddress, playerAddress, handNumber));
+    // This hand's secret lives in the vault, keyed by table + player + hand
+    const vault = useSecretVault();
+    const secret = useVaultSecret(tableAddress, playerAddress, handNumber) ?? "";
+    const vaultUnlocked = vault.status === "unlocked";
     const [status, setStatus] = useState<string | null>(null);
-    const [activeAction, setActiveAction] = useState<"start" | "commit" | "reveal" | "leave" | "sitout" | null>(null);
+    const [activeAction, setActiveAction] = useState<LifecycleAction | null>(null);
 
-    // Wrapper to persist secret to localStorage
-    const setSecret = useCallback((newSecret: string) => {
-        setSecretInternal(newSecret);
-        saveSecret(tableAddress, playerAddress, handNumber, newSecret);
-    }, [tableAddress, playerAddress, handNumber]);
-
-    // Re-load secret if player/hand changes (e.g. wallet switch or new hand)
+    // Secrets of earlier hands at this table are no longer needed
     useEffect(() => {
-        const stored = loadStoredSecret(tableAddress, playerAddress, handNumber);
-        if (stored !== secret) {
-            setSecretInternal(stored);
-        }
-    }, [tableAddress, playerAddress, handNumber, secret]);
+        if (!vaultUnlocked || !tableAddress || !playerAddress || handNumber <= 0) return;
+        secretVault.prune(tableAddress, playerAddress, handNumber).catch((err) => console.warn("Failed to prune secret vault:", err));
+    }, [vaultUnlocked, tableAddress, playerAddress, handNumber]);
 
-    const deadlineText = useMemo(() => formatDeadline(gameState.actionOn?.deadline), [gameState.actionOn?.deadline]);
+    // The window the hand is waiting on: everyone's commit or reveal, or one seat's action
+    const phaseWindow = useMemo(() => {
+        switch (gameState.phase) {
+            case GAME_PHASES.COMMIT:
+                return { label: "Request window", deadline: commitDeadline, total: COMMIT_TIMEOUT_SECS };
+            case GAME_PHASES.REVEAL:
+                return { label: "Accept window", deadline: revealDeadline, total: REVEAL_TIMEOUT_SECS };
+            case GAME_PHASES.PREFLOP:
+            case GAME_PHASES.FLOP:
+            case GAME_PHASES.TURN:
+            case GAME_PHASES.RIVER:
+                return gameState.actionOn
+                    ? { label: `Seat ${gameState.actionOn.seatIndex + 1} to act`, deadline: gameState.actionOn.deadline, total: ACTION_TIMEOUT_SECS }
+                    : null;
+            default:
+                return null;
+        }
+    }, [gameState.phase, gameState.actionOn, commitDeadline, revealDeadline]);
+    const hasDeadline = !!phaseWindow && phaseWindow.deadline > 0;
+    const chainNow = useChainNow(hasDeadline);
+    const secondsLeft = hasDeadline && chainNow !== null ? phaseWindow.deadline - chainNow : null;
+    // The contract only accepts handle_timeout once the chain is strictly past the deadline
+    const timedOut = secondsLeft !== null && secondsLeft < 0;
+    const windowShare = secondsLeft !== null && phaseWindow ? secondsLeft / phaseWindow.total : 1;
+    const windowUrgency = windowShare <= 0.2 ? "critical" : windowShare <= 0.5 ? "warning" : "ok";
 
     const generateSecret = useCallback(() => {
         const randomBytes = window.crypto?.getRandomValues(new Uint8Array(16));
@@ -128,7 +156,7 @@ export function LifecyclePanel({
             : Math.random().toString(36).slice(2);
     }, []);
 
-    const runLifecycleAction = async (action: () => Promise<unknown>, actionName: "start" | "commit" | "reveal" | "leave" | "sitout") => {
+    const runLifecycleAction = async (action: () => Promise<unknown>, actionName: LifecycleAction) => {
         try {
             setActiveAction(actionName);
             setStatus(null);
@@ -137,8 +165,7 @@ export function LifecyclePanel({
             await onRefresh();
         } catch (err) {
             console.error(`Lifecycle action "${actionName}" failed:`, err);
-            const message = err instanceof Error ? err.message : "Action failed.";
-            setStatus(message);
+            setStatus(formatTransactionError(err, "Action failed."));
         } finally {
             setActiveAction(null);
         }
@@ -158,23 +185,25 @@ export function LifecyclePanel({
     const allCommitted = hasCommitStatus ? commitStatus.every(Boolean) : true;
     const canReveal = !hasCommitStatus || alreadyCommitted;
 
-    useEffect(() => {
-        if (!tableAddress || !playerAddress || handNumber <= 0) return;
-        if (gameState.phase !== GAME_PHASES.COMMIT) return;
-        if (!isActivePlayer || alreadyCommitted) return;
-        if (secret) return;
-        setSecret(generateSecret());
-    }, [
-        tableAddress,
-        playerAddress,
-        handNumber,
-        gameState.phase,
-        isActivePlayer,
-        alreadyCommitted,
-        secret,
-        generateSecret,
-        setSecret,
-    ]);
+    // Signed rather than random when the player opted in, so it can be recovered anywhere
+    const deriveSecret = async (seatIdx: number) => {
+        if (!settings.secretSalt) throw new Error("Set a secret salt in settings before deriving secrets.");
+        return deriveHandSecret(signMessage, tableAddress, handNumber, seatIdx, settings.secretSalt);
+    };
+
+    // Reuse the hand's secret if one was already saved, otherwise create and save one before committing
+    const commitWithSecret = async (submit = submitCommit) => {
+        if (!playerAddress || playerSeat === null) throw new Error("Join the table to request cards.");
+        if (!vaultUnlocked) await vault.unlock();
+        let handSecret = secretVault.secretFor(tableAddress, playerAddress, handNumber);
+        if (!handSecret) {
+            handSecret = settings.deriveSecrets ? await deriveSecret(playerSeat) : generateSecret();
+            await secretVault.save(tableAddress, playerAddress, handNumber, handSecret);
+        }
+        const hashBytes = hashSecretToBytes(handSecret);
+        if (!hashBytes) throw new Error("Unable to prepare request.");
+        await submit(tableAddress, hashBytes);
+    };
 
     // Admin can start when admin_only_start is on, otherwise any active player can start
     const canStartHand = isAdminOnlyStart ? isAdmin : isActivePlayer;
@@ -195,19 +224,15 @@ export function LifecyclePanel({
         if (!isActivePlayer) return "Sit in to start.";
         return null;
     }, [gameState.phase, isPaused, activeSeats, isAdminOnlyStart, isAdmin, isSeatedPlayer, isActivePlayer]);
-    const commitDisabled =
-        gameState.phase !== GAME_PHASES.COMMIT || !isActivePlayer || !secret || alreadyCommitted || activeAction !== null;
-    const revealDisabled =
-        gameState.phase !== GAME_PHASES.REVEAL || !isActivePlayer || !secret || !allCommitted || !canReveal || activeAction !== null;
 
     const commitHint = useMemo(() => {
         if (gameState.phase !== GAME_PHASES.COMMIT) return null;
         if (!isSeatedPlayer) return "Join the table to request cards.";
         if (!isActivePlayer) return "Sit in to request cards.";
         if (alreadyCommitted) return "Request submitted. Waiting on others.";
-        if (!secret) return "Preparing your request...";
+        if (!vaultUnlocked) return "Your wallet will ask for a signature to unlock your secret vault.";
         return null;
-    }, [gameState.phase, isSeatedPlayer, isActivePlayer, alreadyCommitted, secret]);
+    }, [gameState.phase, isSeatedPlayer, isActivePlayer, alreadyCommitted, vaultUnlocked]);
 
     const revealHint = useMemo(() => {
         if (gameState.phase !== GAME_PHASES.REVEAL) return null;
@@ -215,9 +240,83 @@ export function LifecyclePanel({
         if (!isActivePlayer) return "Sit in to accept cards.";
         if (!allCommitted) return "Waiting for all players to request cards.";
         if (!canReveal) return "Request cards before accepting.";
+        if (!vaultUnlocked) return "Unlock your secret vault to accept cards.";
         if (!secret) return "Request key missing for this hand.";
         return null;
-    }, [gameState.phase, isSeatedPlayer, isActivePlayer, allCommitted, canReveal, secret]);
+    }, [gameState.phase, isSeatedPlayer, isActivePlayer, allCommitted, canReveal, vaultUnlocked, secret]);
+
+    // Committed but the secret is not at hand: the vault is locked after a reload, or this is another device
+    const needsSecret =
+        !secret &&
+        isSeatedPlayer &&
+        playerHandIndex !== null &&
+        gameState.phase !== GAME_PHASES.WAITING &&
+        (gameState.phase !== GAME_PHASES.COMMIT || alreadyCommitted);
+    const canRecover = !vaultUnlocked || settings.deriveSecrets;
+
+    // Unlock the vault, then re-derive the secret if it still is not there, checked against the on-chain commit
+    const restoreSecret = async () => {
+        if (!playerAddress || playerSeat === null) return;
+        if (!vaultUnlocked) await vault.unlock();
+        if (secretVault.secretFor(tableAddress, playerAddress, handNumber) || !settings.deriveSecrets) return;
+
+        const derived = await deriveSecret(playerSeat);
+        const commitHash = await getCommitHash(tableAddress, handNumber, playerAddress);
+        const derivedHash = hashSecretToBytes(derived);
+        if (!commitHash || !derivedHash || !sameBytes(commitHash, derivedHash)) {
+            throw new Error("The derived secret does not match your commit for this hand. Check the salt in settings.");
+        }
+        await secretVault.save(tableAddress, playerAddress, handNumber, derived);
+    };
+
+    // Unlock or re-derive the secret first if it is not at hand, as a reload would leave it
+    const revealWithSecret = async (submit = revealSecret) => {
+        if (!playerAddress) throw new Error("Join the table to accept cards.");
+        if (!secretVault.secretFor(tableAddress, playerAddress, handNumber)) await restoreSecret();
+        const handSecret = secretVault.secretFor(tableAddress, playerAddress, handNumber);
+        if (!handSecret) throw new Error("Request key missing for this hand.");
+        await submit(tableAddress, new TextEncoder().encode(handSecret));
+    };
+
+    // With the table open in several tabs, only the one that polls it submits
+    const leadsTable = useTabLeadership(tableTopic(tableAddress));
+    const autoSubmit = settings.autoCommitReveal && isActivePlayer;
+    const agent = useCommitRevealAgent({
+        enabled: autoSubmit && leadsTable,
+        tableAddress,
+        phase: gameState.phase,
+        handNumber,
+        handIndex: playerHandIndex,
+        paused: activeAction !== null,
+        commit: () => commitWithSecret(agentActions.submitCommit),
+        reveal: () => revealWithSecret(agentActions.revealSecret),
+        onSubmitted: onRefresh,
+    });
+    const agentBusy = agent?.step === "submitting";
+
+    const commitDisabled =
+        gameState.phase !== GAME_PHASES.COMMIT || !isActivePlayer || alreadyCommitted || activeAction !== null || agentBusy;
+    const revealDisabled =
+        gameState.phase !== GAME_PHASES.REVEAL || !isActivePlayer || !secret || !allCommitted || !canReveal || activeAction !== null || agentBusy;
+
+    const renderAgentNotice = (state: CommitRevealAgentState, verb: string) => {
+        const message = agentMessage(state, autoSubmit && leadsTable, autoSubmit && !leadsTable, verb);
+        const urgent = state.urgency !== "ok" && state.secondsLeft !== null;
+        if (!message && !urgent) return null;
+        return (
+            <div className={`agent-notice ${state.urgency}`} role={urgent ? "alert" : "status"}>
+                {urgent ? <AlarmClock size={16} /> : <Bot size={16} />}
+                <div>
+                    {urgent && (
+                        <strong>
+                            {state.secondsLeft}s left to {verb} your cards, or you pay the timeout penalty and are sat out.
+                        </strong>
+                    )}
+                    {message && <span>{message}</span>}
+                </div>
+            </div>
+        );
+    };
 
     const phaseMessage = () => {
         switch (gameState.phase) {
@@ -258,10 +357,37 @@ export function LifecyclePanel({
                         {gameState.actionOn.playerAddress.slice(-4)})
                     </p>
                 )}
-                {deadlineText && (
-                    <div className="deadline">
-                        <Clock3 size={16} />
-                        <span>Deadline: {deadlineText}</span>
+                {hasDeadline && phaseWindow && (
+                    <div className={`phase-countdown ${windowUrgency}`} title={formatDeadline(phaseWindow.deadline) ?? undefined}>
+                        <div className="deadline">
+                            <Clock3 size={16} />
+                            <span>{phaseWindow.label}</span>
+                            <span className="countdown-time">
+                                {secondsLeft === null ? "--:--" : timedOut ? "Expired" : `${formatCountdown(secondsLeft)} left`}
+                            </span>
+                        </div>
+                        <div className="countdown-bar">
+                            <div
+                                className="countdown-fill"
+                                style={{ width: `${Math.max(0, Math.min(1, windowShare)) * 100}%` }}
+                            />
+                        </div>
+                    </div>
+                )}
+                {timedOut && connected && (
+                    <div className="timeout-claim">
+                        <button
+                            className="btn warning"
+                            onClick={() => runLifecycleAction(() => handleTimeout(tableAddress), "timeout")}
+                            disabled={activeAction !== null}
+                        >
+                            {activeAction === "timeout" ? <Loader2 className="spin" size={16} /> : <Gavel size={16} />} Claim Timeout
+                        </button>
+                        <small className="hint">
+                            {gameState.phase === GAME_PHASES.COMMIT || gameState.phase === GAME_PHASES.REVEAL
+                                ? "Seats that missed the window are penalised and sat out, and the hand is aborted."
+                                : "The acting seat is folded so the hand can continue."}
+                        </small>
                     </div>
                 )}
             </div>
@@ -294,24 +420,19 @@ export function LifecyclePanel({
                         <KeyRound size={18} />
                         <div>
                             <h4>Request Cards</h4>
-                            <small>We generate your request automatically for this hand.</small>
+                            <small>We generate your request automatically and keep it in your secret vault.</small>
                         </div>
                     </div>
 
                     <button
                         className="btn action"
-                        onClick={() =>
-                            runLifecycleAction(async () => {
-                                const hashBytes = hashSecretToBytes(secret);
-                                if (!hashBytes) throw new Error("Unable to prepare request.");
-                                await submitCommit(tableAddress, hashBytes);
-                            }, "commit")
-                        }
+                        onClick={() => runLifecycleAction(commitWithSecret, "commit")}
                         disabled={commitDisabled}
                     >
                         {activeAction === "commit" ? <Loader2 className="spin" size={16} /> : <Shield size={16} />} Request Cards
                     </button>
                     {commitHint && <small className="hint">{commitHint}</small>}
+                    {agent && renderAgentNotice(agent, "request")}
                 </div>
             )}
 
@@ -327,18 +448,41 @@ export function LifecyclePanel({
 
                     <button
                         className="btn action"
-                        onClick={() =>
-                            runLifecycleAction(async () => {
-                                if (!secret) throw new Error("Request key missing for this hand.");
-                                const secretBytes = new TextEncoder().encode(secret);
-                                await revealSecret(tableAddress, secretBytes);
-                            }, "reveal")
-                        }
+                        onClick={() => runLifecycleAction(revealWithSecret, "reveal")}
                         disabled={revealDisabled}
                     >
                         {activeAction === "reveal" ? <Loader2 className="spin" size={16} /> : <Eye size={16} />} Accept Cards
                     </button>
                     {revealHint && <small className="hint">{revealHint}</small>}
+                    {agent && renderAgentNotice(agent, "accept")}
+                </div>
+            )}
+
+            {needsSecret && (
+                <div className="lifecycle-card">
+                    <div className="card-header">
+                        <LockKeyhole size={18} />
+                        <div>
+                            <h4>Restore Hand Secret</h4>
+                            <small>
+                                {vaultUnlocked
+                                    ? "Your secret for this hand is not on this device."
+                                    : "Your card secret for this hand is saved encrypted on this device."}
+                            </small>
+                        </div>
+                    </div>
+                    {canRecover && (
+                        <button
+                            className="btn action"
+                            onClick={() => runLifecycleAction(restoreSecret, "restore")}
+                            disabled={activeAction !== null || vault.status === "unlocking" || vault.status === "unavailable"}
+                        >
+                            {activeAction === "restore" ? <Loader2 className="spin" size={16} /> : <LockKeyhole size={16} />}{" "}
+                            {vaultUnlocked ? "Recover with wallet" : "Unlock"}
+                        </button>
+                    )}
+                    {vault.status === "unavailable" && <small className="hint">This browser cannot open the secret vault.</small>}
+                    {!canRecover && <small className="hint">Import a vault backup from settings to restore it.</small>}
                 </div>
             )}
 
@@ -0,0 +1,33 @@
+import { Globe } from "lucide-react";
+import {
+    ACTIVE_PROFILE,
+    NETWORK_PROFILES,
+    isProfileConfigured,
+    switchNetworkProfile,
+    type NetworkProfileId,
+} from "../config/networks";
+import "./NetworkSwitcher.css";
+
+/**
+ * Header dropdown for the active network profile.
+ * Profiles without a contract address (or custom RPC URL) are disabled.
+ */
+export function NetworkSwitcher() {
+    return (
+        <label className="network-switcher" title={ACTIVE_PROFILE.contractAddress}>
+            <Globe size={14} />
+            <select
+                value={ACTIVE_PROFILE.id}
+                onChange={(event) => switchNetworkProfile(event.target.value as NetworkProfileId)}
+                aria-label="Network"
+            >
+                {Object.values(NETWORK_PROFILES).map((profile) => (
+                    <option key={profile.id} value={profile.id} disabled={!isProfileConfigured(profile)}>
+                        {profile.label}
+                        {isProfileConfigured(profile) ? "" : " (not configured)"}
+                    </option>
+                ))}
+            </select>
+        </label>
+    );
+}
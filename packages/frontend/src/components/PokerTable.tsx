@@ -1,6 +1,9 @@
 import { useMemo } from "react";
-import { decodeCard, PHASE_NAMES, STATUS_NAMES, GAME_PHASES } from "../config/contracts";
-import { decryptHoleCards, getStoredSecret, areCardsValid } from "../utils/cardCrypto";
+import { ACTION_TIMEOUT_SECS, decodeCard, PHASE_NAMES, STATUS_NAMES, GAME_PHASES, PLAYER_STATUS } from "../config/contracts";
+import { describeHand, findBestHand } from "../utils/handEval";
+import { potsFromInvestments } from "../utils/potManager";
+import { useHoleCards } from "../hooks/useHoleCards";
+import { useChainNow } from "../hooks/useChainClock";
 import type { SeatInfo, GameState } from "../types";
 import "./PokerTable.css";
 
@@ -17,6 +20,11 @@ interface PokerTableProps {
     tableAddress?: string;
     playerAddress?: string;
     handNumber?: number;
+    // Replays: face-up cards per seat index (replaces the showdown reveal), and bets sweeping into the pot
+    revealedHoleCards?: (number[] | null)[];
+    collectingBets?: boolean;
+    // Live tables count down the acting seat's deadline; replays have no clock
+    liveClock?: boolean;
 }
 
 export function PokerTable({
@@ -31,6 +39,9 @@ export function PokerTable({
     tableAddress = "",
     playerAddress = "",
     handNumber = 0,
+    revealedHoleCards,
+    collectingBets = false,
+    liveClock = false,
 }: PokerTableProps) {
     // Position seats around an oval table (visual positions)
     // Position 0 = bottom center (where the connected player should always be)
@@ -43,6 +54,15 @@ export function PokerTable({
         { right: "4%", bottom: "22%", transform: "none" },                  // 4: bottom-right
     ];
 
+    // Offsets from each visual position toward the pot, for the bet sweep animation
+    const potOffsets = [
+        { x: "0px", y: "-150px" },
+        { x: "190px", y: "-70px" },
+        { x: "170px", y: "130px" },
+        { x: "-170px", y: "130px" },
+        { x: "-190px", y: "-70px" },
+    ];
+
     // Calculate rotation offset so player's seat maps to visual position 0 (bottom center)
     // If playerSeat is null, no rotation (default view)
     const rotationOffset = playerSeat !== null ? playerSeat : 0;
@@ -56,41 +76,37 @@ export function PokerTable({
     const isActionOn = (seatIdx: number) =>
         gameState?.actionOn?.seatIndex === seatIdx;
 
-    // Decrypt player's own hole cards using stored secret
-    const decryptedPlayerCards = useMemo(() => {
-        if (playerSeat === null || !tableAddress || !playerAddress || handNumber <= 0) {
-            return null;
-        }
+    // Seconds the acting seat has left, on the chain's clock
+    const chainNow = useChainNow(liveClock && !!gameState?.actionOn);
+    const actionSecondsLeft =
+        chainNow !== null && gameState?.actionOn ? Math.max(0, gameState.actionOn.deadline - chainNow) : null;
 
-        const handIdx = playersInHand.indexOf(playerSeat);
-        if (handIdx === -1 || handIdx >= encryptedHoleCards.length) {
-            return null;
-        }
-
-        const encryptedCards = encryptedHoleCards[handIdx];
-        if (!encryptedCards || encryptedCards.length !== 2) {
-            return null;
-        }
-
-        // Retrieve the stored secret for this hand
-        const secret = getStoredSecret(tableAddress, playerAddress, handNumber);
-        if (!secret) {
-            console.log("[DEBUG] No stored secret found for decryption");
+    // Decrypt player's own hole cards using stored secret
+    const decryptedPlayerCards = useHoleCards({ playerSeat, tableAddress, playerAddress, handNumber, playersInHand, encryptedHoleCards });
+
+    // Player's made hand so far, and the five cards it uses once the flop is out
+    const bestHand = useMemo(() => {
+        if (!decryptedPlayerCards || !gameState || gameState.phase < GAME_PHASES.PREFLOP) return null;
+        try {
+            const hand = findBestHand([...decryptedPlayerCards, ...gameState.communityCards]);
+            return { name: describeHand(hand), cards: gameState.communityCards.length > 0 ? hand.cards : [] };
+        } catch {
             return null;
         }
+    }, [decryptedPlayerCards, gameState]);
 
-        // Decrypt the cards
-        const decrypted = decryptHoleCards(encryptedCards, secret, playerSeat);
+    const isBestCard = (card: number) => bestHand?.cards.includes(card) ?? false;
 
-        // Validate decryption result
-        if (areCardsValid(decrypted)) {
-            console.log("[DEBUG] Decrypted cards:", decrypted);
-            return decrypted;
-        } else {
-            console.warn("[DEBUG] Decrypted cards invalid:", decrypted);
-            return null;
-        }
-    }, [playerSeat, tableAddress, playerAddress, handNumber, playersInHand, encryptedHoleCards]);
+    // Main and side pots with the seats that can win each; only worth showing once there is more than one.
+    // A pot only one player can win is a bet nobody has matched yet, not a pot.
+    const pots = useMemo(() => {
+        if (!gameState || gameState.phase < GAME_PHASES.PREFLOP || playersInHand.length === 0) return [];
+        const invested = playersInHand.map((_, handIdx) => gameState.totalInvested[handIdx] ?? 0);
+        const nonFolded = playersInHand.map((_, handIdx) => gameState.playerStatuses[handIdx] !== PLAYER_STATUS.FOLDED);
+        return potsFromInvestments(invested, nonFolded)
+            .filter((pot) => pot.eligible.length > 1)
+            .map((pot) => ({ amount: pot.amount, seats: pot.eligible.map((handIdx) => playersInHand[handIdx]) }));
+    }, [gameState, playersInHand]);
 
     // Get hole cards for a specific seat index
     // For player's own seat, returns decrypted cards; for others, returns encrypted (displayed as backs)
@@ -100,6 +116,12 @@ export function PokerTable({
             return { cards: [], isDecrypted: false };
         }
 
+        // Cards already known (replays)
+        const revealed = revealedHoleCards?.[seatIdx];
+        if (revealed && revealed.length === 2) {
+            return { cards: revealed, isDecrypted: true };
+        }
+
         const handIdx = playersInHand.indexOf(seatIdx);
         if (handIdx === -1 || handIdx >= encryptedHoleCards.length) {
             return { cards: [], isDecrypted: false };
@@ -119,7 +141,7 @@ export function PokerTable({
     const visualPositions = [0, 1, 2, 3, 4];
 
     return (
-        <div className="poker-table-container">
+        <div className={`poker-table-container${collectingBets ? " collecting" : ""}`}>
             <div className="poker-table">
                 {/* Felt surface */}
                 <div className="felt">
@@ -131,10 +153,23 @@ export function PokerTable({
                         </div>
                     )}
 
+                    {/* Side pot breakdown */}
+                    {pots.length > 1 && (
+                        <div className="side-pots">
+                            {pots.map((pot, idx) => (
+                                <div key={idx} className="side-pot">
+                                    <span className="side-pot-label">{idx === 0 ? "Main" : `Side ${idx}`}</span>
+                                    <span className="side-pot-amount">{pot.amount.toLocaleString()}</span>
+                                    <span className="side-pot-seats">Seats {pot.seats.map((seat) => seat + 1).join(", ")}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
                     {/* Community cards */}
                     <div className="community-cards">
                         {gameState?.communityCards.map((card, idx) => (
-                            <Card key={idx} value={card} />
+                            <Card key={idx} value={card} highlighted={isBestCard(card)} />
                         ))}
                         {/* Empty card slots */}
                         {Array.from({ length: 5 - (gameState?.communityCards.length || 0) }).map((_, idx) => (
@@ -160,7 +195,11 @@ export function PokerTable({
                         <div
                             key={actualIdx}
                             className={`seat ${seat ? "occupied" : "empty"} ${isActionOn(actualIdx) ? "action-on" : ""} ${actualIdx === playerSeat ? "player-seat" : ""} ${selectedSeat === actualIdx ? "selected" : ""}`}
-                            style={seatPositions[visualPos]}
+                            style={{
+                                ...seatPositions[visualPos],
+                                ["--pot-dx" as string]: potOffsets[visualPos].x,
+                                ["--pot-dy" as string]: potOffsets[visualPos].y,
+                            }}
                             onClick={() => !seat && onSeatSelect?.(actualIdx)}
                             onKeyDown={(event) => {
                                 if (!seat && onSeatSelect && (event.key === "Enter" || event.key === " ")) {
@@ -178,11 +217,11 @@ export function PokerTable({
                                     {/* Hole cards display */}
                                     {holeCardData.cards.length === 2 && (
                                         <div className="hole-cards">
-                                            {/* Show face-up cards for own seat (if decrypted) or at showdown, otherwise show card backs */}
-                                            {(actualIdx === playerSeat && holeCardData.isDecrypted) || gameState?.phase === GAME_PHASES.SHOWDOWN ? (
+                                            {/* Show face-up cards for own seat (if decrypted), revealed replay cards or at showdown, otherwise show card backs */}
+                                            {holeCardData.isDecrypted || (!revealedHoleCards && gameState?.phase === GAME_PHASES.SHOWDOWN) ? (
                                                 <>
-                                                    <Card value={holeCardData.cards[0]} size="small" />
-                                                    <Card value={holeCardData.cards[1]} size="small" />
+                                                    <Card value={holeCardData.cards[0]} size="small" highlighted={actualIdx === playerSeat && isBestCard(holeCardData.cards[0])} />
+                                                    <Card value={holeCardData.cards[1]} size="small" highlighted={actualIdx === playerSeat && isBestCard(holeCardData.cards[1])} />
                                                 </>
                                             ) : (
                                                 <>
@@ -193,8 +232,15 @@ export function PokerTable({
                                         </div>
                                     )}
 
+                                    {actualIdx === playerSeat && bestHand && (
+                                        <div className="best-hand">{bestHand.name}</div>
+                                    )}
+
                                     <div className="player-avatar">
                                         {(seat.player ?? "").slice(2, 4).toUpperCase()}
+                                        {isActionOn(actualIdx) && actionSecondsLeft !== null && (
+                                            <CountdownRing secondsLeft={actionSecondsLeft} total={ACTION_TIMEOUT_SECS} />
+                                        )}
                                     </div>
                                     <div className="player-info">
                                         <span className="player-address">
@@ -223,7 +269,42 @@ export function PokerTable({
     );
 }
 
-function Card({ value, size = "normal", faceDown = false }: { value: number; size?: "normal" | "small"; faceDown?: boolean }) {
+function CountdownRing({ secondsLeft, total }: { secondsLeft: number; total: number }) {
+    const radius = 25;
+    const circumference = 2 * Math.PI * radius;
+    const fraction = Math.min(secondsLeft / total, 1);
+    const urgency = fraction > 0.5 ? "ok" : fraction > 0.2 ? "warning" : "critical";
+
+    return (
+        <>
+            <svg className={`action-clock ${urgency}`} viewBox="0 0 56 56" aria-hidden="true">
+                <circle className="action-clock-track" cx="28" cy="28" r={radius} />
+                <circle
+                    className="action-clock-arc"
+                    cx="28"
+                    cy="28"
+                    r={radius}
+                    strokeDasharray={circumference}
+                    strokeDashoffset={circumference * (1 - fraction)}
+                />
+            </svg>
+            <span className={`action-clock-time ${urgency}`}>{secondsLeft > 0 ? `${Math.ceil(secondsLeft)}s` : "Time"}</span>
+        </>
+    );
+}
+
+function Card({
+    value,
+    size = "normal",
+    faceDown = false,
+    highlighted = false,
+}: {
+    value: number;
+    size?: "normal" | "small";
+    faceDown?: boolean;
+    // Part of the player's current best five
+    highlighted?: boolean;
+}) {
     // Render card back
     if (faceDown) {
         return (
@@ -347,7 +428,7 @@ function Card({ value, size = "normal", faceDown = false }: { value: number; siz
     };
 
     return (
-        <div className={`poker-card ${suitColor} ${size === "small" ? "poker-card-small" : ""}`}>
+        <div className={`poker-card ${suitColor} ${size === "small" ? "poker-card-small" : ""} ${highlighted ? "poker-card-best" : ""}`}>
             {/* Top-left corner */}
             <div className="poker-card-corner poker-card-corner-tl">
                 <span className="poker-card-corner-rank">{card.rank}</span>
@@ -0,0 +1,212 @@
+/* eslint-disable react-refresh/only-export-components */
+import { createContext, useCallback, useContext, useMemo, useRef, useState } from "react";
+import type { PropsWithChildren } from "react";
+import { AlertTriangle, Loader2, ShieldCheck } from "lucide-react";
+import { formatTransactionError, type EntryFunctionPayload, type SimulationResult } from "../client";
+import "./PreflightProvider.css";
+
+const STORAGE_KEY = "holdem_preflight";
+const OCTAS_PER_CEDRA = 100_000_000;
+
+type PreflightStatus = "simulating" | "ready" | "failed" | "unavailable";
+
+interface PendingReview {
+    payload: EntryFunctionPayload;
+    status: PreflightStatus;
+    result: SimulationResult | null;
+    error: string | null;
+}
+
+interface PreflightState {
+    /** Simulate and review every transaction before the wallet prompt */
+    enabled: boolean;
+    setEnabled: (enabled: boolean) => void;
+    /**
+     * Resolves when the player approves the simulated transaction, rejects
+     * on a predicted abort or cancel. Resolves immediately when disabled.
+     */
+    review: (payload: EntryFunctionPayload, simulate: () => Promise<SimulationResult>) => Promise<void>;
+}
+
+const PreflightContext = createContext<PreflightState | null>(null);
+
+function readEnabled(): boolean {
+    if (typeof localStorage === "undefined") return true;
+    return localStorage.getItem(STORAGE_KEY) !== "off";
+}
+
+function functionLabel(payload: EntryFunctionPayload): string {
+    const name = payload.function.split("::").pop() ?? payload.function;
+    return name.replace(/_/g, " ");
+}
+
+function formatCedra(octas: number): string {
+    return (octas / OCTAS_PER_CEDRA).toLocaleString(undefined, { maximumFractionDigits: 8 });
+}
+
+function formatDelta(delta: number, format: (value: number) => string): string {
+    if (delta === 0) return "No change";
+    return `${delta > 0 ? "+" : ""}${format(delta)}`;
+}
+
+function deltaClass(delta: number): string {
+    return delta < 0 ? "negative" : delta > 0 ? "positive" : "";
+}
+
+export function PreflightProvider({ children }: PropsWithChildren) {
+    const [enabled, setEnabledState] = useState(readEnabled);
+    const [pending, setPending] = useState<PendingReview | null>(null);
+    const settleRef = useRef<{ resolve: () => void; reject: (err: Error) => void } | null>(null);
+
+    const setEnabled = useCallback((next: boolean) => {
+        localStorage.setItem(STORAGE_KEY, next ? "on" : "off");
+        setEnabledState(next);
+    }, []);
+
+    const settle = useCallback((err?: Error) => {
+        const current = settleRef.current;
+        settleRef.current = null;
+        setPending(null);
+        if (!current) return;
+        if (err) current.reject(err);
+        else current.resolve();
+    }, []);
+
+    const review = useCallback(
+        (payload: EntryFunctionPayload, simulate: () => Promise<SimulationResult>) => {
+            if (!enabled) return Promise.resolve();
+
+            // Only one review at a time; a new action supersedes the old one
+            settleRef.current?.reject(new Error("Transaction cancelled."));
+
+            return new Promise<void>((resolve, reject) => {
+                const settler = { resolve, reject };
+                settleRef.current = settler;
+                setPending({ payload, status: "simulating", result: null, error: null });
+
+                simulate()
+                    .then((result) => {
+                        if (settleRef.current !== settler) return;
+                        setPending({
+                            payload,
+                            status: result.success ? "ready" : "failed",
+                            result,
+                            error: result.success ? null : formatTransactionError(result.abort ?? result.vmStatus),
+                        });
+                    })
+                    .catch((err) => {
+                        if (settleRef.current !== settler) return;
+                        console.warn("Transaction simulation failed:", err);
+                        setPending({ payload, status: "unavailable", result: null, error: formatTransactionError(err, "Simulation unavailable.") });
+                    });
+            });
+        },
+        [enabled]
+    );
+
+    const value = useMemo(() => ({ enabled, setEnabled, review }), [enabled, setEnabled, review]);
+
+    const handleCancel = () => {
+        if (pending?.status === "failed" && pending.result) {
+            settle(pending.result.abort ?? new Error(pending.result.vmStatus));
+        } else {
+            settle(new Error("Transaction cancelled."));
+        }
+    };
+
+    const result = pending?.result;
+
+    return (
+        <PreflightContext.Provider value={value}>
+            {children}
+
+            {pending && (
+                <div className="preflight-overlay" onClick={handleCancel}>
+                    <div
+                        className="preflight-modal"
+                        role="dialog"
+                        aria-label="Transaction preview"
+                        onClick={(event) => event.stopPropagation()}
+                    >
+                        <div className="preflight-header">
+                            <ShieldCheck size={18} />
+                            <h3>Review {functionLabel(pending.payload)}</h3>
+                        </div>
+
+                        {pending.status === "simulating" && (
+                            <div className="preflight-body preflight-loading">
+                                <Loader2 size={18} />
+                                Simulating against current chain state...
+                            </div>
+                        )}
+
+                        {pending.status === "failed" && (
+                            <div className="preflight-body">
+                                <div className="preflight-alert error">
+                                    <AlertTriangle size={16} />
+                                    <span>Predicted to fail: {pending.error}</span>
+                                </div>
+                            </div>
+                        )}
+
+                        {pending.status === "unavailable" && (
+                            <div className="preflight-body">
+                                <div className="preflight-alert warning">
+                                    <AlertTriangle size={16} />
+                                    <span>Could not simulate this transaction ({pending.error}). You can still sign it.</span>
+                                </div>
+                            </div>
+                        )}
+
+                        {pending.status === "ready" && result && (
+                            <dl className="preflight-body preflight-summary">
+                                <div>
+                                    <dt>Estimated gas</dt>
+                                    <dd>
+                                        {formatCedra(result.gasFee)} CEDRA
+                                        <small>
+                                            {result.gasUsed.toLocaleString()} units @ {result.gasUnitPrice}
+                                        </small>
+                                    </dd>
+                                </div>
+                                <div>
+                                    <dt>Chips</dt>
+                                    <dd className={deltaClass(result.chipDelta)}>
+                                        {formatDelta(result.chipDelta, (value) => value.toLocaleString())}
+                                    </dd>
+                                </div>
+                                <div>
+                                    <dt>CEDRA (excl. gas)</dt>
+                                    <dd className={deltaClass(result.cedraDelta)}>
+                                        {formatDelta(result.cedraDelta, formatCedra)}
+                                    </dd>
+                                </div>
+                            </dl>
+                        )}
+
+                        <div className="preflight-actions">
+                            <label className="preflight-optout">
+                                <input type="checkbox" checked={!enabled} onChange={(event) => setEnabled(!event.target.checked)} />
+                                Skip previews
+                            </label>
+                            <button type="button" className="btn btn-secondary" onClick={handleCancel}>
+                                {pending.status === "failed" ? "Close" : "Cancel"}
+                            </button>
+                            {(pending.status === "ready" || pending.status === "unavailable") && (
+                                <button type="button" className="btn btn-primary" onClick={() => settle()}>
+                                    Sign in wallet
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </PreflightContext.Provider>
+    );
+}
+
+export function usePreflight(): PreflightState {
+    const context = useContext(PreflightContext);
+    if (!context) throw new Error("usePreflight must be used within a PreflightProvider");
+    return context;
+}
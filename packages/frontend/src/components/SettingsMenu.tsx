@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from "react";
+import { Download, LockKeyhole, Settings as SettingsIcon, Upload } from "lucide-react";
+import { useSettings } from "../hooks/useSettings";
+import { secretVault, useSecretVault } from "../hooks/useSecretVault";
+import { useWallet } from "./wallet-provider";
+import { downloadTextFile } from "../utils/handHistoryExport";
+import "./SettingsMenu.css";
+
+/**
+ * Header dropdown for table-side preferences
+ */
+export function SettingsMenu() {
+    const { settings, updateSettings } = useSettings();
+    const { connected } = useWallet();
+    const vault = useSecretVault();
+    const [open, setOpen] = useState(false);
+    const [vaultMessage, setVaultMessage] = useState<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const importRef = useRef<HTMLInputElement>(null);
+
+    const runVaultAction = async (action: () => Promise<string | null>) => {
+        try {
+            setVaultMessage(await action());
+        } catch (err) {
+            setVaultMessage(err instanceof Error ? err.message : "Secret vault action failed.");
+        }
+    };
+
+    // A fresh salt the first time the mode is switched on; it must be copied to recover elsewhere
+    const toggleDeriveSecrets = (enabled: boolean) => {
+        const salt = settings.secretSalt || Array.from(crypto.getRandomValues(new Uint8Array(8)), (b) => b.toString(16).padStart(2, "0")).join("");
+        updateSettings({ deriveSecrets: enabled, secretSalt: salt });
+    };
+
+    const handleExport = () =>
+        runVaultAction(async () => {
+            downloadTextFile(`holdem-secret-vault-${new Date().toISOString().slice(0, 10)}.json`, await secretVault.exportBackup());
+            return "Backup saved. Secrets stay encrypted to your wallet.";
+        });
+
+    const handleImport = (file: File) =>
+        runVaultAction(async () => {
+            const added = await secretVault.importBackup(await file.text());
+            return `Imported ${added} secret${added === 1 ? "" : "s"}.`;
+        });
+
+    // Close on outside click or Escape
+    useEffect(() => {
+        if (!open) return;
+
+        const handlePointerDown = (event: PointerEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) setOpen(false);
+        };
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === "Escape") setOpen(false);
+        };
+
+        window.addEventListener("pointerdown", handlePointerDown);
+        window.addEventListener("keydown", handleKeyDown);
+        return () => {
+            window.removeEventListener("pointerdown", handlePointerDown);
+            window.removeEventListener("keydown", handleKeyDown);
+        };
+    }, [open]);
+
+    return (
+        <div className="settings-menu" ref={containerRef}>
+            <button
+                type="button"
+                className={`settings-trigger${open ? " active" : ""}`}
+                onClick={() => setOpen((prev) => !prev)}
+                aria-expanded={open}
+                aria-haspopup="true"
+                aria-label="Settings"
+            >
+                <SettingsIcon size={16} />
+            </button>
+
+            {open && (
+                <div className="settings-dropdown">
+                    <label className="settings-option">
+                        <input
+                            type="checkbox"
+                            checked={settings.showEquity}
+                            onChange={(event) => updateSettings({ showEquity: event.target.checked })}
+                        />
+                        <span>
+                            Show hand equity
+                            <small>Win and tie odds against random hands</small>
+                        </span>
+                    </label>
+
+                    <label className="settings-option">
+                        <input
+                            type="checkbox"
+                            checked={settings.autoCommitReveal}
+                            onChange={(event) => updateSettings({ autoCommitReveal: event.target.checked })}
+                        />
+                        <span>
+                            Auto request and accept cards
+                            <small>Submit commit and reveal for you so a missed click never costs the timeout penalty</small>
+                        </span>
+                    </label>
+
+                    <label className="settings-option">
+                        <input
+                            type="checkbox"
+                            checked={settings.deriveSecrets}
+                            onChange={(event) => toggleDeriveSecrets(event.target.checked)}
+                        />
+                        <span>
+                            Derive secrets from wallet
+                            <small>Sign once per hand; recoverable on any device with the salt below</small>
+                        </span>
+                    </label>
+                    {settings.deriveSecrets && (
+                        <label className="settings-field">
+                            <span>Salt</span>
+                            <input
+                                type="text"
+                                value={settings.secretSalt}
+                                onChange={(event) => updateSettings({ secretSalt: event.target.value.trim() })}
+                                spellCheck={false}
+                            />
+                        </label>
+                    )}
+
+                    <div className="settings-section">
+                        <span className="settings-section-title">
+                            <LockKeyhole size={14} />
+                            Secret vault
+                            <small>{vault.status === "unlocked" ? "Unlocked" : vault.status === "unavailable" ? "Unavailable" : "Locked"}</small>
+                        </span>
+                        {connected && vault.status !== "unlocked" && vault.status !== "unavailable" && (
+                            <button
+                                type="button"
+                                className="settings-action"
+                                onClick={() =>
+                                    runVaultAction(async () => {
+                                        await vault.unlock();
+                                        return null;
+                                    })
+                                }
+                                disabled={vault.status === "unlocking"}
+                            >
+                                <LockKeyhole size={14} />
+                                {vault.status === "unlocking" ? "Waiting for signature..." : "Unlock with wallet"}
+                            </button>
+                        )}
+                        <div className="settings-actions">
+                            <button type="button" className="settings-action" onClick={handleExport} disabled={vault.status === "unavailable"}>
+                                <Download size={14} />
+                                Export backup
+                            </button>
+                            <button
+                                type="button"
+                                className="settings-action"
+                                onClick={() => importRef.current?.click()}
+                                disabled={vault.status === "unavailable"}
+                            >
+                                <Upload size={14} />
+                                Import backup
+                            </button>
+                        </div>
+                        <input
+                            ref={importRef}
+                            type="file"
+                            accept="application/json,.json"
+                            hidden
+                            onChange={(event) => {
+                                const file = event.target.files?.[0];
+                                event.target.value = "";
+                                if (file) handleImport(file);
+                            }}
+                        />
+                        {vaultMessage && <small className="settings-note">{vaultMessage}</small>}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
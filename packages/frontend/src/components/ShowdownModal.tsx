@@ -1,33 +1,28 @@
+import { Link } from "react-router-dom";
+import { useState } from "react";
+import { Rabbit } from "lucide-react";
+import { rabbitHunt } from "../client";
 import { decodeCard, HAND_RANKINGS } from "../config/contracts";
+import { useEventView } from "../hooks/useContract";
+import type { HandResultData } from "../types";
 import "./ShowdownModal.css";
 
-// Hand result data - matches the on-chain HandResult event structure
-export interface HandResultData {
-    tableAddr: string;
-    handNumber: number;
-    timestamp: number;
-    communityCards: number[];
-    // Players who reached showdown (didn't fold)
-    showdownSeats: number[];
-    showdownPlayers: string[];
-    showdownHoleCards: number[][];
-    showdownHandTypes: number[];
-    // Winners
-    winnerSeats: number[];
-    winnerPlayers: string[];
-    winnerAmounts: number[];
-    // Summary
-    totalPot: number;
-    totalFees: number;
-    resultType: number; // 0=showdown, 1=fold_win
-}
+export type { HandResultData };
 
 interface ShowdownModalProps {
     handResult: HandResultData;
     onDismiss: () => void;
 }
 
+interface RabbitHunt {
+    handNumber: number;
+    status: "loading" | "done" | "failed";
+    cards: number[];
+}
+
 export function ShowdownModal({ handResult, onDismiss }: ShowdownModalProps) {
+    const { getHandFairnessData } = useEventView();
+    const [rabbit, setRabbit] = useState<RabbitHunt | null>(null);
     const {
         communityCards,
         showdownSeats,
@@ -54,6 +49,23 @@ export function ShowdownModal({ handResult, onDismiss }: ShowdownModalProps) {
     };
 
     const isFoldWin = resultType === 1;
+    // Only a hand that ended before the river has cards left to hunt
+    const canRabbitHunt = isFoldWin && communityCards.length < 5;
+    const hunt = rabbit?.handNumber === handResult.handNumber ? rabbit : null;
+    const rabbitCards = hunt?.status === "done" ? hunt.cards : [];
+
+    const handleRabbitHunt = async () => {
+        const { tableAddr, handNumber } = handResult;
+        setRabbit({ handNumber, status: "loading", cards: [] });
+        try {
+            const data = await getHandFairnessData(tableAddr, handNumber);
+            const cards = data ? rabbitHunt(data) : null;
+            setRabbit({ handNumber, status: cards ? "done" : "failed", cards: cards ?? [] });
+        } catch (err) {
+            console.error(`Rabbit hunt failed for hand ${handNumber}:`, err);
+            setRabbit({ handNumber, status: "failed", cards: [] });
+        }
+    };
 
     return (
         <div className="showdown-overlay" onClick={onDismiss}>
@@ -83,14 +95,34 @@ export function ShowdownModal({ handResult, onDismiss }: ShowdownModalProps) {
                                 communityCards.map((cardValue, idx) => (
                                     <CardDisplay key={idx} value={cardValue} delay={idx * 0.1} />
                                 ))
-                            ) : (
+                            ) : rabbitCards.length === 0 ? (
                                 <span className="no-cards">No community cards dealt</span>
-                            )}
+                            ) : null}
+                            {/* Cards that would have come, once hunted */}
+                            {rabbitCards.map((cardValue, idx) => (
+                                <CardDisplay key={`rabbit-${idx}`} value={cardValue} delay={idx * 0.1} rabbit />
+                            ))}
                             {/* Fill empty slots */}
-                            {Array.from({ length: Math.max(0, 5 - communityCards.length) }).map((_, idx) => (
+                            {Array.from({ length: Math.max(0, 5 - communityCards.length - rabbitCards.length) }).map((_, idx) => (
                                 <div key={`empty-${idx}`} className="showdown-card-slot" />
                             ))}
                         </div>
+                        {canRabbitHunt && hunt?.status !== "done" && (
+                            <button
+                                className="btn btn-secondary showdown-rabbit"
+                                onClick={handleRabbitHunt}
+                                disabled={hunt?.status === "loading"}
+                            >
+                                <Rabbit size={16} />
+                                {hunt?.status === "loading" ? "Rebuilding deck..." : "Rabbit hunt"}
+                            </button>
+                        )}
+                        {hunt?.status === "failed" && (
+                            <p className="showdown-rabbit-note">Couldn't rebuild this hand's deck yet. Try again in a moment.</p>
+                        )}
+                        {hunt?.status === "done" && (
+                            <p className="showdown-rabbit-note">Rebuilt from the revealed secrets. Not dealt, not played.</p>
+                        )}
                     </div>
 
                     {/* Winners Section */}
@@ -175,6 +207,13 @@ export function ShowdownModal({ handResult, onDismiss }: ShowdownModalProps) {
                 </div>
 
                 <div className="showdown-footer">
+                    <Link
+                        className="btn btn-secondary showdown-replay"
+                        to={`/table/${handResult.tableAddr}/hand/${handResult.handNumber}`}
+                        onClick={onDismiss}
+                    >
+                        Replay hand
+                    </Link>
                     <button className="btn btn-primary showdown-dismiss" onClick={onDismiss}>
                         Continue
                     </button>
@@ -185,13 +224,13 @@ export function ShowdownModal({ handResult, onDismiss }: ShowdownModalProps) {
 }
 
 // Simple card display for the modal
-function CardDisplay({ value, delay = 0 }: { value: number; delay?: number }) {
+function CardDisplay({ value, delay = 0, rabbit = false }: { value: number; delay?: number; rabbit?: boolean }) {
     const card = decodeCard(value);
     const isRed = card.suit === "♥" || card.suit === "♦";
 
     return (
         <div
-            className={`showdown-card ${isRed ? "red" : "black"}`}
+            className={`showdown-card ${isRed ? "red" : "black"}${rabbit ? " rabbit" : ""}`}
             style={{ animationDelay: `${delay}s` }}
         >
             <span className="showdown-card-rank">{card.rank}</span>
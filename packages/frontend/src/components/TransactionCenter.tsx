@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Activity, CheckCircle2, ExternalLink, Loader2, RotateCcw, X, XCircle } from "lucide-react";
+import { useContractActions } from "../hooks/useContract";
+import { transactionStore, useTransactions } from "../hooks/useTransactions";
+import { explorerTxUrl } from "../config/networks";
+import type { TrackedTransaction } from "../store/transactionStore";
+import "./TransactionCenter.css";
+
+// How long a settled transaction keeps its toast
+const TOAST_MS = 6000;
+
+function shortHex(value: string): string {
+    return `${value.slice(0, 6)}...${value.slice(-4)}`;
+}
+
+function formatElapsed(tx: TrackedTransaction, now: number): string {
+    const seconds = Math.max(0, Math.round(((tx.settledAt ?? now) - tx.submittedAt) / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+function StatusIcon({ status }: { status: TrackedTransaction["status"] }) {
+    if (status === "pending") return <Loader2 size={16} className="tx-spin" />;
+    if (status === "confirmed") return <CheckCircle2 size={16} />;
+    return <XCircle size={16} />;
+}
+
+interface TransactionRowProps {
+    tx: TrackedTransaction;
+    now: number;
+    retrying?: boolean;
+    onRetry?: () => void;
+}
+
+function TransactionRow({ tx, now, retrying, onRetry }: TransactionRowProps) {
+    const explorerUrl = explorerTxUrl(tx.hash);
+
+    return (
+        <div className={`tx-row ${tx.status}`}>
+            <div className="tx-row-header">
+                <StatusIcon status={tx.status} />
+                <span className="tx-function">{tx.functionName.replace(/_/g, " ")}</span>
+                <span className="tx-elapsed">{formatElapsed(tx, now)}</span>
+            </div>
+            <div className="tx-row-meta">
+                {tx.tableAddress && <Link to={`/table/${tx.tableAddress}`}>Table {shortHex(tx.tableAddress)}</Link>}
+                {explorerUrl ? (
+                    <a href={explorerUrl} target="_blank" rel="noreferrer">
+                        {shortHex(tx.hash)} <ExternalLink size={12} />
+                    </a>
+                ) : (
+                    <span>{shortHex(tx.hash)}</span>
+                )}
+                {tx.gasUsed !== null && <span>{tx.gasUsed.toLocaleString()} gas</span>}
+            </div>
+            {tx.error && <div className="tx-error">{tx.error}</div>}
+            {onRetry && tx.status === "failed" && (
+                <button type="button" className="tx-retry" onClick={onRetry} disabled={retrying}>
+                    <RotateCcw size={14} />
+                    {retrying ? "Retrying..." : "Retry"}
+                </button>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Header button, toasts and drawer for the connected wallet's transactions
+ */
+export function TransactionCenter() {
+    const { wallet, transactions } = useTransactions();
+    const { resubmit } = useContractActions();
+    const [open, setOpen] = useState(false);
+    const [mountedAt] = useState(() => Date.now());
+    const [now, setNow] = useState(() => Date.now());
+    const [dismissed, setDismissed] = useState<string[]>([]);
+    const [retrying, setRetrying] = useState<string | null>(null);
+
+    const pendingCount = transactions.filter((tx) => tx.status === "pending").length;
+
+    // Toasts only for this session's transactions, until dismissed or stale
+    const toasts = transactions.filter(
+        (tx) =>
+            tx.submittedAt >= mountedAt &&
+            !dismissed.includes(tx.hash) &&
+            (tx.status === "pending" || (tx.settledAt !== null && now - tx.settledAt < TOAST_MS))
+    );
+
+    // Tick while anything is pending or toasting so elapsed times stay live
+    const ticking = pendingCount > 0 || toasts.length > 0 || open;
+    useEffect(() => {
+        if (!ticking) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [ticking]);
+
+    useEffect(() => {
+        if (!open) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === "Escape") {
+                setOpen(false);
+            }
+        };
+
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [open]);
+
+    const handleRetry = async (tx: TrackedTransaction) => {
+        try {
+            setRetrying(tx.hash);
+            await resubmit(tx.payload);
+        } catch (err) {
+            // Submitted retries are tracked as their own entry
+            console.warn("Retry failed:", err);
+        } finally {
+            setRetrying(null);
+        }
+    };
+
+    if (!wallet) return null;
+
+    return (
+        <>
+            <button
+                type="button"
+                className={`tx-trigger${open ? " active" : ""}`}
+                onClick={() => setOpen((prev) => !prev)}
+                aria-expanded={open}
+                aria-haspopup="dialog"
+                title="Transaction activity"
+            >
+                <Activity size={16} />
+                {pendingCount > 0 && <span className="tx-badge">{pendingCount}</span>}
+            </button>
+
+            {toasts.length > 0 && !open && (
+                <div className="tx-toasts" aria-live="polite">
+                    {toasts.map((tx) => (
+                        <div key={tx.hash} className="tx-toast">
+                            <TransactionRow tx={tx} now={now} />
+                            <button
+                                type="button"
+                                className="tx-toast-close"
+                                onClick={() => setDismissed((prev) => [...prev, tx.hash])}
+                                aria-label="Dismiss"
+                            >
+                                <X size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {open && (
+                <div className="tx-overlay" onClick={() => setOpen(false)}>
+                    <aside
+                        className="tx-drawer"
+                        role="dialog"
+                        aria-label="Transaction activity"
+                        onClick={(event) => event.stopPropagation()}
+                    >
+                        <div className="tx-drawer-header">
+                            <h3>Activity</h3>
+                            {transactions.length > 0 && (
+                                <button type="button" className="tx-clear" onClick={() => transactionStore.clear()}>
+                                    Clear
+                                </button>
+                            )}
+                            <button type="button" className="tx-drawer-close" onClick={() => setOpen(false)} aria-label="Close activity">
+                                <X size={16} />
+                            </button>
+                        </div>
+
+                        <div className="tx-list">
+                            {transactions.length === 0 && <p className="tx-empty">No transactions yet.</p>}
+                            {transactions.map((tx) => (
+                                <TransactionRow
+                                    key={tx.hash}
+                                    tx={tx}
+                                    now={now}
+                                    retrying={retrying === tx.hash}
+                                    onRetry={() => handleRetry(tx)}
+                                />
+                            ))}
+                        </div>
+                    </aside>
+                </div>
+            )}
+        </>
+    );
+}
@@ -1,6 +1,7 @@
 import { useWallet } from "./wallet-provider";
-import { Wallet, LogOut, Copy, Check, ChevronDown } from "lucide-react";
+import { Wallet, LogOut, Copy, Check, ChevronDown, UserRound } from "lucide-react";
 import { useState } from "react";
+import { LOCAL_ACCOUNTS, LOCAL_MODE } from "../simulator";
 import "./WalletButton.css";
 
 export function WalletButton() {
@@ -22,11 +23,15 @@ export function WalletButton() {
 
     // Connected state - show address with dropdown
     if (connected && account) {
+        // Local mode: name the player and offer the others to switch to
+        const localPlayer = LOCAL_ACCOUNTS.find((player) => player.address === account.address.toStringLong());
+        const otherPlayers = LOCAL_ACCOUNTS.filter((player) => player !== localPlayer);
+
         return (
             <div className="wallet-container">
                 <button className="wallet-address" onClick={() => setShowDropdown(!showDropdown)}>
                     <Wallet size={18} />
-                    <span>{truncateAddress(account.address.toString())}</span>
+                    <span>{localPlayer ? `${localPlayer.name} · ` : ""}{truncateAddress(account.address.toString())}</span>
                     <ChevronDown size={16} />
                 </button>
 
@@ -36,6 +41,19 @@ export function WalletButton() {
                             {copied ? <Check size={16} /> : <Copy size={16} />}
                             <span>{copied ? "Copied!" : "Copy Address"}</span>
                         </button>
+                        {LOCAL_MODE && otherPlayers.map((player) => (
+                            <button
+                                key={player.name}
+                                className="dropdown-item"
+                                onClick={() => {
+                                    connect(player.name);
+                                    setShowDropdown(false);
+                                }}
+                            >
+                                <UserRound size={16} />
+                                <span>Switch to {player.name}</span>
+                            </button>
+                        ))}
                         <button className="dropdown-item disconnect" onClick={disconnect}>
                             <LogOut size={16} />
                             <span>Disconnect</span>
@@ -72,7 +90,7 @@ export function WalletButton() {
                 disabled={connecting}
             >
                 <Wallet size={18} />
-                <span>{connecting ? "Connecting..." : "Connect Wallet"}</span>
+                <span>{connecting ? "Connecting..." : LOCAL_MODE ? "Choose Player" : "Connect Wallet"}</span>
                 <ChevronDown size={16} />
             </button>
 
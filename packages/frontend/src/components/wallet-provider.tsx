@@ -10,8 +10,17 @@ import {
 import type { PropsWithChildren } from "react";
 import { WalletCore } from "@cedra-labs/wallet-adapter-core";
 import type { AccountInfo, NetworkInfo } from "@cedra-labs/wallet-adapter-core";
-import { Network } from "@cedra-labs/ts-sdk";
+import { ACTIVE_PROFILE } from "../config/networks";
+import { AccountInfo as LocalAccountInfo } from "@cedra-labs/wallet-standard";
 import type { CedraWallet } from "@cedra-labs/wallet-standard";
+import { LOCAL_ACCOUNTS, LOCAL_MODE, localSimulator } from "../simulator";
+import type { EntryFunctionPayload } from "../client";
+
+/** Something connect() accepts by name: an installed wallet or a local player */
+export interface WalletOption {
+    name: string;
+    icon?: string;
+}
 
 interface WalletState {
     connected: boolean;
@@ -19,10 +28,12 @@ interface WalletState {
     account: AccountInfo | null;
     network: NetworkInfo | null;
     wallet: CedraWallet | null;
-    wallets: CedraWallet[];
+    wallets: WalletOption[];
     connect: (walletName: string) => Promise<void>;
     disconnect: () => Promise<void>;
     signAndSubmitTransaction: (payload: { data: unknown }) => Promise<{ hash: string }>;
+    /** Sign an off-chain message; resolves to the raw signature bytes */
+    signMessage: (message: string, nonce: string) => Promise<Uint8Array>;
 }
 
 const WalletContext = createContext<WalletState | null>(null);
@@ -32,13 +43,13 @@ let walletCoreInstance: WalletCore | null = null;
 function getWalletCore(): WalletCore {
     if (!walletCoreInstance) {
         walletCoreInstance = new WalletCore([], {
-            network: Network.TESTNET,
+            network: ACTIVE_PROFILE.network,
         });
     }
     return walletCoreInstance;
 }
 
-export function WalletProvider({ children }: PropsWithChildren) {
+function ExtensionWalletProvider({ children }: PropsWithChildren) {
     const [connected, setConnected] = useState(false);
     const [connecting, setConnecting] = useState(false);
     const [account, setAccount] = useState<AccountInfo | null>(null);
@@ -116,16 +127,65 @@ export function WalletProvider({ children }: PropsWithChildren) {
         return { hash: response.hash };
     }, []);
 
+    const signMessage = useCallback(async (message: string, nonce: string) => {
+        const walletCore = getWalletCore();
+        if (!walletCore.account) throw new Error("Wallet not connected");
+        const response = await walletCore.signMessage({ message, nonce });
+        return response.signature.toUint8Array();
+    }, []);
+
     return (
         <WalletContext.Provider value={{
             connected, connecting, account, network, wallet, wallets,
-            connect, disconnect, signAndSubmitTransaction
+            connect, disconnect, signAndSubmitTransaction, signMessage
         }}>
             {children}
         </WalletContext.Provider>
     );
 }
 
+/**
+ * Offline profile: the built-in local players stand in for wallets and
+ * transactions go straight to the in-memory simulator
+ */
+function LocalWalletProvider({ children }: PropsWithChildren) {
+    const [account, setAccount] = useState<AccountInfo | null>(null);
+
+    const connect = useCallback(async (playerName: string) => {
+        const local = LOCAL_ACCOUNTS.find((player) => player.name === playerName);
+        if (!local) throw new Error(`Unknown local player ${playerName}`);
+        setAccount(new LocalAccountInfo({ address: local.address, publicKey: local.account.publicKey }));
+    }, []);
+
+    const disconnect = useCallback(async () => setAccount(null), []);
+
+    const signAndSubmitTransaction = useCallback(async ({ data }: { data: unknown }) => {
+        if (!account || !localSimulator) throw new Error("Wallet not connected");
+        return { hash: localSimulator.submit(account.address.toStringLong(), data as EntryFunctionPayload).hash };
+    }, [account]);
+
+    const signMessage = useCallback(async (message: string, nonce: string) => {
+        const local = account && LOCAL_ACCOUNTS.find((player) => player.account.accountAddress.equals(account.address));
+        if (!local) throw new Error("Wallet not connected");
+        return local.account.sign(new TextEncoder().encode(`${message}\n${nonce}`)).toUint8Array();
+    }, [account]);
+
+    return (
+        <WalletContext.Provider value={{
+            connected: account !== null, connecting: false, account, network: null, wallet: null,
+            wallets: LOCAL_ACCOUNTS, connect, disconnect, signAndSubmitTransaction, signMessage
+        }}>
+            {children}
+        </WalletContext.Provider>
+    );
+}
+
+export function WalletProvider({ children }: PropsWithChildren) {
+    return LOCAL_MODE
+        ? <LocalWalletProvider>{children}</LocalWalletProvider>
+        : <ExtensionWalletProvider>{children}</ExtensionWalletProvider>;
+}
+
 export function useWallet(): WalletState {
     const context = useContext(WalletContext);
     if (!context) throw new Error("useWallet must be used within a WalletProvider");
@@ -2,8 +2,10 @@
  * Contract configuration for the Texas Hold'em game
  */
 
-// Deployed contract address on Cedra testnet (v7 profile - fresh deployment with close_table fix)
-export const CONTRACT_ADDRESS = "0xa24365cad90b74eca7f078f8c91b327c0716bcea3ed64dc9d97027b605b4fcfa";
+import { ACTIVE_PROFILE } from "./networks";
+
+// Contract address for the active network profile (see config/networks.ts)
+export const CONTRACT_ADDRESS = ACTIVE_PROFILE.contractAddress;
 
 // Module names
 export const MODULES = {
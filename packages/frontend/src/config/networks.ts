@@ -0,0 +1,129 @@
+/**
+ * Network profiles
+ *
+ * Each profile pins a Cedra network, its RPC/indexer endpoints and the
+ * contract address deployed there. The active profile comes from the UI
+ * switcher (persisted in localStorage), falling back to VITE_NETWORK.
+ * Everything chain-facing (MODULES, CedraConfig, the wallet core) derives
+ * from it, so switching profiles reloads the app. The offline profile runs
+ * against the in-browser contract simulator instead of a network.
+ */
+
+import { CedraConfig, Network } from "@cedra-labs/ts-sdk";
+
+export type NetworkProfileId = "devnet" | "testnet" | "mainnet" | "local" | "custom" | "offline";
+
+export interface NetworkProfile {
+    id: NetworkProfileId;
+    label: string;
+    network: Network;
+    /** Fullnode REST URL; undefined uses the SDK default for the network */
+    fullnodeUrl?: string;
+    /** Indexer GraphQL URL; undefined uses the SDK default for the network */
+    indexerUrl?: string;
+    /** Empty when no deployment is configured for this profile */
+    contractAddress: string;
+}
+
+// Deployed contract address on Cedra testnet (v7 profile - fresh deployment with close_table fix)
+const TESTNET_CONTRACT_ADDRESS = "0xa24365cad90b74eca7f078f8c91b327c0716bcea3ed64dc9d97027b605b4fcfa";
+
+// Deployer address the simulator publishes under in the offline profile
+const OFFLINE_CONTRACT_ADDRESS = "0x00000000000000000000000000000000000000000000000000000000000c0de5";
+
+const STORAGE_KEY = "holdem_network_profile";
+
+// import.meta.env is only defined under Vite; Node scripts fall back to defaults
+const env: Record<string, string | undefined> = import.meta.env ?? {};
+
+/** VITE_<PROFILE>_<KEY>, e.g. VITE_LOCAL_FULLNODE_URL */
+function profileEnv(id: NetworkProfileId, key: string): string | undefined {
+    return env[`VITE_${id.toUpperCase()}_${key}`] || undefined;
+}
+
+function isProfileId(value: string | null | undefined): value is NetworkProfileId {
+    return value === "devnet" || value === "testnet" || value === "mainnet" || value === "local" || value === "custom" || value === "offline";
+}
+
+// Profile selected at build time
+const ENV_PROFILE_ID: NetworkProfileId = isProfileId(env.VITE_NETWORK) ? env.VITE_NETWORK : "testnet";
+
+function buildProfile(id: NetworkProfileId, label: string, network: Network, defaults: Partial<NetworkProfile> = {}): NetworkProfile {
+    return {
+        id,
+        label,
+        network,
+        fullnodeUrl: profileEnv(id, "FULLNODE_URL") ?? defaults.fullnodeUrl,
+        indexerUrl: profileEnv(id, "INDEXER_URL") ?? defaults.indexerUrl,
+        contractAddress:
+            profileEnv(id, "CONTRACT_ADDRESS") ??
+            // Legacy VITE_CONTRACT_ADDRESS applies to the env-selected profile
+            (id === ENV_PROFILE_ID ? env.VITE_CONTRACT_ADDRESS || undefined : undefined) ??
+            defaults.contractAddress ??
+            "",
+    };
+}
+
+export const NETWORK_PROFILES: Record<NetworkProfileId, NetworkProfile> = {
+    devnet: buildProfile("devnet", "Devnet", Network.DEVNET),
+    testnet: buildProfile("testnet", "Testnet", Network.TESTNET, { contractAddress: TESTNET_CONTRACT_ADDRESS }),
+    mainnet: buildProfile("mainnet", "Mainnet", Network.MAINNET),
+    local: buildProfile("local", "Local node", Network.LOCAL, {
+        fullnodeUrl: "http://127.0.0.1:8080/v1",
+        indexerUrl: "http://127.0.0.1:8090/v1/graphql",
+    }),
+    custom: buildProfile("custom", "Custom RPC", Network.CUSTOM),
+    offline: buildProfile("offline", "Offline simulator", Network.LOCAL, { contractAddress: OFFLINE_CONTRACT_ADDRESS }),
+};
+
+/** A profile is usable once it knows its contract (and, for custom, its fullnode) */
+export function isProfileConfigured(profile: NetworkProfile): boolean {
+    if (!profile.contractAddress) return false;
+    return profile.network !== Network.CUSTOM || !!profile.fullnodeUrl;
+}
+
+function readStoredProfileId(): NetworkProfileId | null {
+    if (typeof localStorage === "undefined") return null;
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return isProfileId(stored) ? stored : null;
+}
+
+function resolveActiveProfile(): NetworkProfile {
+    const storedId = readStoredProfileId();
+    if (storedId && isProfileConfigured(NETWORK_PROFILES[storedId])) {
+        return NETWORK_PROFILES[storedId];
+    }
+    return NETWORK_PROFILES[ENV_PROFILE_ID];
+}
+
+export const ACTIVE_PROFILE: NetworkProfile = resolveActiveProfile();
+
+/**
+ * Persist a profile choice and reload so every singleton picks it up
+ */
+export function switchNetworkProfile(id: NetworkProfileId) {
+    if (id === ACTIVE_PROFILE.id) return;
+    localStorage.setItem(STORAGE_KEY, id);
+    window.location.reload();
+}
+
+/**
+ * SDK config for a profile
+ */
+export function createCedraConfig(profile: NetworkProfile = ACTIVE_PROFILE): CedraConfig {
+    return new CedraConfig({
+        network: profile.network,
+        fullnode: profile.fullnodeUrl,
+        indexer: profile.indexerUrl,
+    });
+}
+
+/**
+ * Block explorer link for a transaction; null for local and custom networks
+ */
+export function explorerTxUrl(hash: string, profile: NetworkProfile = ACTIVE_PROFILE): string | null {
+    if (profile.network !== Network.DEVNET && profile.network !== Network.TESTNET && profile.network !== Network.MAINNET) {
+        return null;
+    }
+    return `https://cedrascan.com/txn/${hash}?network=${profile.network}`;
+}
@@ -0,0 +1,49 @@
+/**
+ * React bindings for the chain clock
+ */
+
+import { useEffect, useState } from "react";
+import { holdemClient } from "./useContract";
+import { createChainClock } from "../store/chainClock";
+
+// Re-measure the offset this often while anything is counting down
+const RESYNC_MS = 60000;
+// Countdown refresh rate
+const TICK_MS = 250;
+
+const chainClock = createChainClock({ getLedgerTimestamp: () => holdemClient.getLedgerTimestamp() });
+
+// Mounted countdowns; the clock only polls while there is at least one
+let activeClocks = 0;
+let resyncTimer: ReturnType<typeof setInterval> | null = null;
+
+function syncClock() {
+    chainClock.sync().catch((err) => console.warn("Failed to read the chain clock:", err));
+}
+
+/**
+ * Chain time in Unix seconds, ticking while `active`; null while inactive
+ */
+export function useChainNow(active = true): number | null {
+    const [now, setNow] = useState(() => chainClock.now());
+
+    useEffect(() => {
+        if (!active) return;
+        if (activeClocks++ === 0) {
+            syncClock();
+            resyncTimer = setInterval(syncClock, RESYNC_MS);
+        }
+        const tick = setInterval(() => setNow(chainClock.now()), TICK_MS);
+        return () => {
+            clearInterval(tick);
+            if (--activeClocks === 0 && resyncTimer) {
+                clearInterval(resyncTimer);
+                resyncTimer = null;
+            }
+        };
+    }, [active]);
+
+    return active ? now : null;
+}
+
+export { chainClock };
@@ -0,0 +1,173 @@
+/**
+ * Commit/reveal agent
+ *
+ * Watches the commit and reveal windows for the player's seat and, when
+ * enabled, submits the commit and the reveal on its own. Missing either
+ * window costs the timeout penalty and a forced sit-out, so the deadline
+ * is tracked (and warned about) even when the agent is switched off.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { useTableView } from "./useContract";
+import { chainClock, useChainNow } from "./useChainClock";
+import { GAME_PHASES } from "../config/contracts";
+import { formatTransactionError, isUserRejection, parseMoveAbort } from "../client";
+import type { GamePhase } from "../types";
+
+const POLL_INTERVAL_MS = 3000;
+const RETRY_BASE_MS = 2000;
+const MAX_ATTEMPTS = 4;
+/** Seconds left in the window before the warning turns urgent */
+const WARNING_SECS = 45;
+const CRITICAL_SECS = 15;
+
+export type AgentStep = "watching" | "submitting" | "retrying" | "done" | "failed" | "missed";
+export type DeadlineUrgency = "ok" | "warning" | "critical";
+
+export interface CommitRevealAgentOptions {
+    /** Submit automatically; when off the window is only watched */
+    enabled: boolean;
+    tableAddress: string;
+    phase: GamePhase;
+    handNumber: number;
+    /** The player's index in the hand, or null when not dealt in */
+    handIndex: number | null;
+    /** Hold off while a manual action is in flight */
+    paused: boolean;
+    commit: () => Promise<void>;
+    reveal: () => Promise<void>;
+    onSubmitted: () => void | Promise<void>;
+}
+
+export interface CommitRevealAgentState {
+    step: AgentStep;
+    /** Failed submissions so far in this window */
+    attempts: number;
+    error: string | null;
+    /** Seconds until the window closes; null outside a window or before the first poll */
+    secondsLeft: number | null;
+    /** Only raised while the player still has to act */
+    urgency: DeadlineUrgency;
+}
+
+interface WindowState {
+    key: string;
+    step: AgentStep;
+    attempts: number;
+    error: string | null;
+    deadline: number | null;
+}
+
+// Aborts are the contract saying no and rejections are the player saying no;
+// only RPC and network failures are worth another try
+function isTransient(err: unknown): boolean {
+    return parseMoveAbort(err) === null && !isUserRejection(err);
+}
+
+export function useCommitRevealAgent(options: CommitRevealAgentOptions): CommitRevealAgentState | null {
+    const { getCommitStatus, getRevealStatus, getCommitDeadline, getRevealDeadline } = useTableView();
+    const { enabled, tableAddress, phase, handNumber, handIndex } = options;
+
+    // Latest callbacks and pause flag, read by the polling loop without restarting it
+    const optionsRef = useRef(options);
+    useEffect(() => {
+        optionsRef.current = options;
+    });
+
+    const inWindow = phase === GAME_PHASES.COMMIT || phase === GAME_PHASES.REVEAL;
+    const key = inWindow && handIndex !== null ? `${tableAddress}:${handNumber}:${phase}:${handIndex}` : null;
+    const [windowState, setWindowState] = useState<WindowState | null>(null);
+    const now = useChainNow(key !== null);
+
+    // Toggling the agent restarts the loop, which also re-arms it after a failure
+    useEffect(() => {
+        if (!key || handIndex === null) return;
+        let cancelled = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let attempts = 0;
+        const isCommit = phase === GAME_PHASES.COMMIT;
+
+        const update = (patch: Partial<WindowState>) =>
+            setWindowState((prev) => ({
+                ...(prev?.key === key ? prev : { key, step: "watching", attempts: 0, error: null, deadline: null }),
+                ...patch,
+            }));
+        const schedule = (delay: number) => {
+            if (!cancelled) timer = setTimeout(tick, delay);
+        };
+
+        const tick = async () => {
+            let acted: boolean;
+            let deadline: number;
+            try {
+                const [statuses, windowDeadline] = await Promise.all([
+                    isCommit ? getCommitStatus(tableAddress) : getRevealStatus(tableAddress),
+                    isCommit ? getCommitDeadline(tableAddress) : getRevealDeadline(tableAddress),
+                ]);
+                acted = Boolean(statuses[handIndex]);
+                deadline = windowDeadline;
+            } catch (err) {
+                console.warn("Commit/reveal agent failed to read the window:", err);
+                schedule(POLL_INTERVAL_MS);
+                return;
+            }
+            if (cancelled) return;
+
+            if (acted) {
+                update({ step: "done", error: null, deadline });
+                return;
+            }
+            // The contract only times the seat out once the clock is past the deadline
+            if (deadline > 0 && deadline < chainClock.now()) {
+                update({ step: "missed", deadline });
+                return;
+            }
+
+            const current = optionsRef.current;
+            if (!current.enabled || current.paused) {
+                update({ step: "watching", deadline });
+                schedule(POLL_INTERVAL_MS);
+                return;
+            }
+
+            update({ step: "submitting", deadline });
+            try {
+                await (isCommit ? current.commit() : current.reveal());
+                if (cancelled) return;
+                attempts = 0;
+                update({ step: "watching", attempts, error: null });
+                await current.onSubmitted();
+                schedule(POLL_INTERVAL_MS);
+            } catch (err) {
+                if (cancelled) return;
+                attempts += 1;
+                console.warn(`Commit/reveal agent ${isCommit ? "commit" : "reveal"} attempt ${attempts} failed:`, err);
+                const error = isUserRejection(err)
+                    ? "You rejected the request in your wallet."
+                    : formatTransactionError(err, isCommit ? "Request failed." : "Accept failed.");
+                if (isTransient(err) && attempts < MAX_ATTEMPTS) {
+                    update({ step: "retrying", attempts, error });
+                    schedule(RETRY_BASE_MS * 2 ** (attempts - 1));
+                } else {
+                    update({ step: "failed", attempts, error });
+                }
+            }
+        };
+
+        schedule(0);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [key, enabled, phase, handIndex, tableAddress, getCommitStatus, getRevealStatus, getCommitDeadline, getRevealDeadline]);
+
+    if (!key) return null;
+    const current = windowState?.key === key ? windowState : null;
+    const step = current?.step ?? "watching";
+    const secondsLeft = current?.deadline && now !== null ? Math.max(0, Math.ceil(current.deadline - now)) : null;
+    const pending = step !== "done" && step !== "missed";
+    const urgency: DeadlineUrgency =
+        !pending || secondsLeft === null ? "ok" : secondsLeft <= CRITICAL_SECS ? "critical" : secondsLeft <= WARNING_SECS ? "warning" : "ok";
+
+    return { step, attempts: current?.attempts ?? 0, error: current?.error ?? null, secondsLeft, urgency };
+}
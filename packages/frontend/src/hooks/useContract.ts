@@ -1,480 +1,87 @@
 /**
  * Contract interaction hooks for Texas Hold'em
- * Uses Cedra Labs SDK for blockchain interaction
+ * Thin React wrappers around HoldemClient
  */
 
 import { useWallet } from "../components/wallet-provider";
-import { Cedra, CedraConfig, Network } from "@cedra-labs/ts-sdk";
-import { useCallback } from "react";
-import { MODULES } from "../config/contracts";
-import type { TableConfig, SeatInfo, GameState, ActionState, TableState } from "../types";
-
-// Configure Cedra client for testnet
-const config = new CedraConfig({
-    network: Network.TESTNET,
+import { usePreflight } from "../components/PreflightProvider";
+import { Cedra } from "@cedra-labs/ts-sdk";
+import { useCallback, useMemo } from "react";
+import {
+    HoldemClient,
+    type EntryFunctionPayload,
+    type EventCursor,
+    type HoldemSigner,
+    type HoldemTransport,
+    type PokerEventType,
+    type TableEventQuery,
+} from "../client";
+import { ACTIVE_PROFILE, createCedraConfig } from "../config/networks";
+import { createTransactionStore } from "../store/transactionStore";
+import { tabCoordinator } from "./useTabCoordinator";
+import { createSimulatorTransport, localSimulator } from "../simulator";
+
+// Configure Cedra client for the active network profile; the offline profile never touches the network
+const transport: HoldemTransport = localSimulator ? createSimulatorTransport(localSimulator) : new Cedra(createCedraConfig());
+
+// Activity tracker for everything the connected wallet submits
+const transactionStore = createTransactionStore({
+    namespace: ACTIVE_PROFILE.id,
+    waitForTransaction: (hash) => transport.waitForTransaction({ transactionHash: hash }),
+    tabs: tabCoordinator,
 });
 
-const cedra = new Cedra(config);
+// Read-only client shared by all view hooks
+const holdemClient = new HoldemClient({ transport, observer: transactionStore.observer });
 
 /**
- * Normalize a Cedra SDK response to a number array.
- * Handles: Array, Uint8Array, hex strings, { vec: [...] } objects, or nested arrays.
+ * Wrap a view so UI callers get a fallback value instead of an exception
  */
-function normalizeU8Vector(value: unknown): number[] {
-    // Already a plain array
-    if (Array.isArray(value)) {
-        return value.map((v) => {
-            if (typeof v === "string") return parseInt(v, 10);
-            if (typeof v === "number") return v;
-            return 0;
-        });
-    }
-
-    // Uint8Array (common from Cedra SDK)
-    if (value instanceof Uint8Array) {
-        return Array.from(value);
-    }
-
-    // Object with vec property (Move vector representation)
-    if (value && typeof value === "object" && "vec" in value) {
-        return normalizeU8Vector((value as { vec: unknown }).vec);
-    }
-
-    // Hex string (0x prefix)
-    if (typeof value === "string" && value.startsWith("0x")) {
-        const hex = value.slice(2);
-        const bytes: number[] = [];
-        for (let i = 0; i < hex.length; i += 2) {
-            bytes.push(parseInt(hex.slice(i, i + 2), 16));
-        }
-        return bytes;
-    }
-
-    // Plain hex string (no prefix)
-    if (typeof value === "string" && /^[0-9a-fA-F]+$/.test(value) && value.length % 2 === 0) {
-        const bytes: number[] = [];
-        for (let i = 0; i < value.length; i += 2) {
-            bytes.push(parseInt(value.slice(i, i + 2), 16));
+function orDefault<A extends unknown[], T>(view: (...args: A) => Promise<T>, fallback: T, label?: string) {
+    return async (...args: A): Promise<T> => {
+        try {
+            return await view(...args);
+        } catch (e) {
+            if (label) console.warn(`Failed to ${label}:`, e);
+            return fallback;
         }
-        return bytes;
-    }
-
-    // Debug log for unexpected formats
-    console.warn("normalizeU8Vector: unexpected format", typeof value, value);
-    return [];
-}
-
-/**
- * Normalize nested vector (vector<vector<u8>>) to number[][].
- * For hole cards returns array of player card arrays.
- */
-function normalizeNestedU8Vectors(value: unknown): number[][] {
-    // Already a plain array of arrays
-    if (Array.isArray(value)) {
-        return value.map((inner) => normalizeU8Vector(inner));
-    }
-
-    // Object with vec property
-    if (value && typeof value === "object" && "vec" in value) {
-        return normalizeNestedU8Vectors((value as { vec: unknown }).vec);
-    }
-
-    console.warn("normalizeNestedU8Vectors: unexpected format", typeof value, value);
-    return [];
+    };
 }
 
-/**
- * Normalize vector<bool> to boolean[].
- */
-function normalizeBoolVector(value: unknown): boolean[] {
-    if (Array.isArray(value)) {
-        return value.map((v) => {
-            if (typeof v === "boolean") return v;
-            if (typeof v === "number") return v !== 0;
-            if (typeof v === "string") return v === "true" || v === "1";
-            return Boolean(v);
-        });
-    }
-
-    if (value instanceof Uint8Array) {
-        return Array.from(value).map((v) => v !== 0);
-    }
-
-    if (value && typeof value === "object" && "vec" in value) {
-        return normalizeBoolVector((value as { vec: unknown }).vec);
-    }
-
-    console.warn("normalizeBoolVector: unexpected format", typeof value, value);
-    return [];
-}
+const tableView = {
+    getTableConfig: (tableAddress: string) => holdemClient.getTableConfig(tableAddress),
+    getTableState: (tableAddress: string) => holdemClient.getTableState(tableAddress),
+    getSeatInfo: orDefault((tableAddress: string, seatIndex: number) => holdemClient.getSeatInfo(tableAddress, seatIndex), null),
+    getAllSeats: (tableAddress: string) =>
+        Promise.all([0, 1, 2, 3, 4].map((i) => tableView.getSeatInfo(tableAddress, i))),
+    getGamePhase: (tableAddress: string) => holdemClient.getGamePhase(tableAddress),
+    getPotSize: (tableAddress: string) => holdemClient.getPotSize(tableAddress),
+    getCommunityCards: orDefault((tableAddress: string) => holdemClient.getCommunityCards(tableAddress), [], "get community cards"),
+    getActionOn: orDefault((tableAddress: string) => holdemClient.getActionOn(tableAddress), null),
+    getCurrentBets: orDefault((tableAddress: string) => holdemClient.getCurrentBets(tableAddress), [], "get current bets"),
+    getPlayerStatuses: orDefault((tableAddress: string) => holdemClient.getPlayerStatuses(tableAddress), [], "get player statuses"),
+    getMinRaise: (tableAddress: string) => holdemClient.getMinRaise(tableAddress),
+    getLastAggressor: orDefault((tableAddress: string) => holdemClient.getLastAggressor(tableAddress), null),
+    getCallAmount: (tableAddress: string, handIndex: number) => holdemClient.getCallAmount(tableAddress, handIndex),
+    getFullGameState: (tableAddress: string) => holdemClient.getFullGameState(tableAddress),
+    isPaused: orDefault((tableAddress: string) => holdemClient.isPaused(tableAddress), false),
+    isAdminOnlyStart: orDefault((tableAddress: string) => holdemClient.isAdminOnlyStart(tableAddress), false),
+    getAdmin: orDefault((tableAddress: string) => holdemClient.getAdmin(tableAddress), ""),
+    getPendingLeaves: orDefault((tableAddress: string) => holdemClient.getPendingLeaves(tableAddress), [false, false, false, false, false]),
+    getSeatCount: orDefault((tableAddress: string) => holdemClient.getSeatCount(tableAddress), { occupied: 0, total: 5 }),
+    getEncryptedHoleCards: orDefault((tableAddress: string) => holdemClient.getEncryptedHoleCards(tableAddress), [], "get encrypted hole cards"),
+    getPlayersInHand: orDefault((tableAddress: string) => holdemClient.getPlayersInHand(tableAddress), [], "get players in hand"),
+    getCommitStatus: orDefault((tableAddress: string) => holdemClient.getCommitStatus(tableAddress), [], "get commit status"),
+    getRevealStatus: orDefault((tableAddress: string) => holdemClient.getRevealStatus(tableAddress), [], "get reveal status"),
+    getCommitDeadline: orDefault((tableAddress: string) => holdemClient.getCommitDeadline(tableAddress), 0),
+    getRevealDeadline: orDefault((tableAddress: string) => holdemClient.getRevealDeadline(tableAddress), 0),
+};
 
 /**
  * Hook for reading table data from the contract
  */
 export function useTableView() {
-    const getTableConfig = useCallback(async (tableAddress: string): Promise<TableConfig> => {
-        const result = await cedra.view({
-            payload: {
-                function: `${MODULES.TEXAS_HOLDEM}::get_table_config_full`,
-                functionArguments: [tableAddress],
-            },
-        });
-
-        const [sb, bb, min, max, ante, straddle, feeBps] = result as [string, string, string, string, string, boolean, string];
-
-        return {
-            smallBlind: parseInt(sb),
-            bigBlind: parseInt(bb),
-            minBuyIn: parseInt(min),
-            maxBuyIn: parseInt(max),
-            ante: parseInt(ante),
-            straddleEnabled: straddle,
-            feeBasisPoints: parseInt(feeBps),
-        };
-    }, []);
-
-    const getTableState = useCallback(async (tableAddress: string): Promise<TableState> => {
-        const result = await cedra.view({
-            payload: {
-                function: `${MODULES.TEXAS_HOLDEM}::get_table_state`,
-                functionArguments: [tableAddress],
-            },
-        });
-
-        const [handNum, dealer, nextBb, fees] = result as [string, string, string, string];
-
-        return {
-            handNumber: parseInt(handNum),
-            dealerSeat: parseInt(dealer),
-            nextBigBlind: parseInt(nextBb),
-            totalFeesCollected: parseInt(fees),
-        };
-    }, []);
-
-    const getSeatInfo = useCallback(async (tableAddress: string, seatIndex: number): Promise<SeatInfo | null> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_seat_info_full`,
-                    functionArguments: [tableAddress, seatIndex.toString()],
-                },
-            });
-
-            const [player, chips, sittingOut, bet, status] = result as [string, string, boolean, string, string];
-
-            if (player === "0x0" || player === "") {
-                return null;
-            }
-
-            return {
-                player,
-                chips: parseInt(chips),
-                sittingOut,
-                currentBet: parseInt(bet),
-                status: parseInt(status) as 0 | 1 | 2 | 3,
-            };
-        } catch {
-            return null;
-        }
-    }, []);
-
-    const getAllSeats = useCallback(async (tableAddress: string): Promise<(SeatInfo | null)[]> => {
-        const seats: (SeatInfo | null)[] = [];
-        for (let i = 0; i < 5; i++) {
-            const seat = await getSeatInfo(tableAddress, i);
-            seats.push(seat);
-        }
-        return seats;
-    }, [getSeatInfo]);
-
-    const getGamePhase = useCallback(async (tableAddress: string): Promise<number> => {
-        const result = await cedra.view({
-            payload: {
-                function: `${MODULES.TEXAS_HOLDEM}::get_game_phase`,
-                functionArguments: [tableAddress],
-            },
-        });
-        return parseInt(result[0] as string);
-    }, []);
-
-    const getPotSize = useCallback(async (tableAddress: string): Promise<number> => {
-        const result = await cedra.view({
-            payload: {
-                function: `${MODULES.TEXAS_HOLDEM}::get_pot_size`,
-                functionArguments: [tableAddress],
-            },
-        });
-        return parseInt(result[0] as string);
-    }, []);
-
-    const getCommunityCards = useCallback(async (tableAddress: string): Promise<number[]> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_community_cards`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            // Debug log to trace the raw response
-            console.log("[DEBUG] getCommunityCards raw result:", result[0]);
-            return normalizeU8Vector(result[0]);
-        } catch (e) {
-            console.warn("Failed to get community cards:", e);
-            return [];
-        }
-    }, []);
-
-    const getActionOn = useCallback(async (tableAddress: string): Promise<ActionState | null> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_action_on`,
-                    functionArguments: [tableAddress],
-                },
-            });
-
-            const [seatIdx, playerAddr, deadline] = result as [string, string, string];
-
-            return {
-                seatIndex: parseInt(seatIdx),
-                playerAddress: playerAddr,
-                deadline: parseInt(deadline),
-            };
-        } catch {
-            return null;
-        }
-    }, []);
-
-    const getCurrentBets = useCallback(async (tableAddress: string): Promise<number[]> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_current_bets`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            return normalizeU8Vector(result[0]);
-        } catch (e) {
-            console.warn("Failed to get current bets:", e);
-            return [];
-        }
-    }, []);
-
-    const getPlayerStatuses = useCallback(async (tableAddress: string): Promise<number[]> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_player_statuses`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            return normalizeU8Vector(result[0]);
-        } catch (e) {
-            console.warn("Failed to get player statuses:", e);
-            return [];
-        }
-    }, []);
-
-    const getMinRaise = useCallback(async (tableAddress: string): Promise<number> => {
-        const result = await cedra.view({
-            payload: {
-                function: `${MODULES.TEXAS_HOLDEM}::get_min_raise`,
-                functionArguments: [tableAddress],
-            },
-        });
-        return parseInt(result[0] as string);
-    }, []);
-
-    const getCallAmount = useCallback(async (tableAddress: string, seatIndex: number): Promise<number> => {
-        const result = await cedra.view({
-            payload: {
-                function: `${MODULES.TEXAS_HOLDEM}::get_call_amount`,
-                functionArguments: [tableAddress, seatIndex.toString()],
-            },
-        });
-        return parseInt(result[0] as string);
-    }, []);
-
-    const getFullGameState = useCallback(async (tableAddress: string): Promise<GameState> => {
-        const [phase, potSize, communityCards, currentBets, statuses, minRaise, actionOn] = await Promise.all([
-            getGamePhase(tableAddress),
-            getPotSize(tableAddress),
-            getCommunityCards(tableAddress),
-            getCurrentBets(tableAddress),
-            getPlayerStatuses(tableAddress),
-            getMinRaise(tableAddress),
-            getActionOn(tableAddress),
-        ]);
-
-        // Get max current bet from current bets
-        const maxCurrentBet = Math.max(...currentBets, 0);
-
-        return {
-            phase: phase as 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7,
-            potSize,
-            communityCards,
-            currentBets,
-            totalInvested: currentBets, // Simplified for now
-            playerStatuses: statuses as (0 | 1 | 2 | 3)[],
-            minRaise,
-            maxCurrentBet,
-            lastAggressor: 0, // Would need another call
-            actionOn,
-        };
-    }, [getGamePhase, getPotSize, getCommunityCards, getCurrentBets, getPlayerStatuses, getMinRaise, getActionOn]);
-
-    const isPaused = useCallback(async (tableAddress: string): Promise<boolean> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::is_paused`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            return result[0] as boolean;
-        } catch {
-            return false;
-        }
-    }, []);
-
-    const isAdminOnlyStart = useCallback(async (tableAddress: string): Promise<boolean> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::is_admin_only_start`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            return result[0] as boolean;
-        } catch {
-            return false;
-        }
-    }, []);
-
-    const getAdmin = useCallback(async (tableAddress: string): Promise<string> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_admin`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            return result[0] as string;
-        } catch {
-            return "";
-        }
-    }, []);
-
-    const getPendingLeaves = useCallback(async (tableAddress: string): Promise<boolean[]> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_pending_leaves`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            const leaves = result[0];
-            // Handle different response formats
-            if (Array.isArray(leaves)) {
-                return leaves.map((v) => Boolean(v));
-            }
-            if (leaves && typeof leaves === "object" && "vec" in leaves) {
-                const vec = (leaves as { vec: unknown[] }).vec;
-                return Array.isArray(vec) ? vec.map((v) => Boolean(v)) : [false, false, false, false, false];
-            }
-            return [false, false, false, false, false];
-        } catch {
-            return [false, false, false, false, false];
-        }
-    }, []);
-
-    const getSeatCount = useCallback(async (tableAddress: string): Promise<{ occupied: number; total: number }> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_seat_count`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            const [occupied, total] = result as [string, string];
-            return { occupied: parseInt(occupied), total: parseInt(total) };
-        } catch {
-            return { occupied: 0, total: 5 };
-        }
-    }, []);
-
-    const getEncryptedHoleCards = useCallback(async (tableAddress: string): Promise<number[][]> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_encrypted_hole_cards`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            // Debug log to trace the raw response
-            console.log("[DEBUG] getEncryptedHoleCards raw result:", result[0]);
-            return normalizeNestedU8Vectors(result[0]);
-        } catch (e) {
-            console.warn("Failed to get encrypted hole cards:", e);
-            return [];
-        }
-    }, []);
-
-    const getPlayersInHand = useCallback(async (tableAddress: string): Promise<number[]> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_players_in_hand`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            // Debug log to trace the raw response
-            console.log("[DEBUG] getPlayersInHand raw result:", result[0]);
-            return normalizeU8Vector(result[0]);
-        } catch (e) {
-            console.warn("Failed to get players in hand:", e);
-            return [];
-        }
-    }, []);
-
-    const getCommitStatus = useCallback(async (tableAddress: string): Promise<boolean[]> => {
-        try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.TEXAS_HOLDEM}::get_commit_status`,
-                    functionArguments: [tableAddress],
-                },
-            });
-            return normalizeBoolVector(result[0]);
-        } catch (e) {
-            console.warn("Failed to get commit status:", e);
-            return [];
-        }
-    }, []);
-
-    return {
-        getTableConfig,
-        getTableState,
-        getSeatInfo,
-        getAllSeats,
-        getGamePhase,
-        getPotSize,
-        getCommunityCards,
-        getActionOn,
-        getCurrentBets,
-        getPlayerStatuses,
-        getMinRaise,
-        getCallAmount,
-        getFullGameState,
-        isPaused,
-        isAdminOnlyStart,
-        getAdmin,
-        getPendingLeaves,
-        getSeatCount,
-        getEncryptedHoleCards,
-        getPlayersInHand,
-        getCommitStatus,
-    };
+    return tableView;
 }
 
 /**
@@ -488,34 +95,20 @@ export function useChipsView() {
         if (!addr) return 0;
 
         try {
-            const result = await cedra.view({
-                payload: {
-                    function: `${MODULES.CHIPS}::balance`,
-                    functionArguments: [addr],
-                },
-            });
-            return parseInt(result[0] as string);
+            return await holdemClient.getChipBalance(addr);
         } catch {
             return 0;
         }
     }, [account?.address]);
 
-    const getTreasuryBalance = useCallback(async (): Promise<number> => {
-        const result = await cedra.view({
-            payload: {
-                function: `${MODULES.CHIPS}::get_treasury_balance`,
-                functionArguments: [],
-            },
-        });
-        return parseInt(result[0] as string);
-    }, []);
+    const getTreasuryBalance = useCallback(() => holdemClient.getTreasuryBalance(), []);
 
     const getCedraBalance = useCallback(async (address?: string): Promise<number> => {
         const addr = address || account?.address?.toString();
         if (!addr) return 0;
 
         try {
-            return await cedra.getAccountCEDRAAmount({ accountAddress: addr });
+            return await holdemClient.getCedraBalance(addr);
         } catch {
             return 0;
         }
@@ -534,289 +127,165 @@ export function useEventView() {
      */
     const getHandResultEvents = useCallback(async (tableAddress: string, limit: number = 1) => {
         try {
-            // Event type format: contract_address::module::EventName
-            // Events are stored at the contract/module address, not the table address
-            const eventType = `${MODULES.POKER_EVENTS}::HandResult`;
-
-            console.log("DEBUG: Fetching events for type:", eventType, "table:", tableAddress);
-
-            // Use the Cedra SDK to fetch events filtered by event type
-            const events = await cedra.getEvents({
-                options: {
-                    limit: limit * 10, // Fetch more and filter client-side for the specific table
-                    orderBy: [{ transaction_version: "desc" }],
-                    where: {
-                        indexed_type: { _eq: eventType }
-                    }
-                }
-            });
-
-            console.log("DEBUG: Raw events fetched:", events.length, events);
-
-            // Filter events for this specific table and transform to our interface
-            const tableEvents = events
-                .filter((event: { data: Record<string, unknown> }) => {
-                    const eventTableAddr = String(event.data.table_addr || "").toLowerCase();
-                    return eventTableAddr === tableAddress.toLowerCase();
-                })
-                .slice(0, limit)
-                .map((event: { data: Record<string, unknown>; transaction_version?: string }) => ({
-                    tableAddr: String(event.data.table_addr || tableAddress),
-                    handNumber: parseInt(String(event.data.hand_number || "0")),
-                    timestamp: parseInt(String(event.data.timestamp || "0")),
-                    communityCards: normalizeU8Vector(event.data.community_cards),
-                    showdownSeats: (event.data.showdown_seats as string[] || []).map((s: string) => parseInt(s)),
-                    showdownPlayers: (event.data.showdown_players as string[]) || [],
-                    showdownHoleCards: ((event.data.showdown_hole_cards as unknown[][]) || []).map((cards: unknown) => normalizeU8Vector(cards)),
-                    showdownHandTypes: normalizeU8Vector(event.data.showdown_hand_types),
-                    winnerSeats: (event.data.winner_seats as string[] || []).map((s: string) => parseInt(s)),
-                    winnerPlayers: (event.data.winner_players as string[]) || [],
-                    winnerAmounts: (event.data.winner_amounts as string[] || []).map((a: string) => parseInt(a)),
-                    totalPot: parseInt(String(event.data.total_pot || "0")),
-                    totalFees: parseInt(String(event.data.total_fees || "0")),
-                    resultType: parseInt(String(event.data.result_type || "0")),
-                }));
-
-            console.log("DEBUG: Filtered table events:", tableEvents);
-            return tableEvents;
+            return (await holdemClient.getHandResults(tableAddress, { limit })).results;
         } catch (err) {
             console.error("Failed to fetch HandResult events:", err);
             return [];
         }
     }, []);
 
-    return { getHandResultEvents };
-}
-
-/**
- * Hook for executing contract transactions
- */
-export function useContractActions() {
-    const { signAndSubmitTransaction, account } = useWallet();
-
-    const executeTransaction = useCallback(
-        async (functionId: string, args: (string | number | boolean | Uint8Array)[]) => {
-            if (!account) throw new Error("Wallet not connected");
-
-            // Convert Uint8Array to array of numbers for vector<u8> params
-            const serializedArgs = args.map((a) => {
-                if (a instanceof Uint8Array) {
-                    return Array.from(a);
-                }
-                return a;
-            });
-
-            const response = await signAndSubmitTransaction({
-                data: {
-                    function: functionId as `${string}::${string}::${string}`,
-                    functionArguments: serializedArgs,
-                },
-            });
-
-            // Wait for transaction confirmation
-            const receipt = await cedra.waitForTransaction({ transactionHash: response.hash });
-
-            return { hash: response.hash, result: receipt };
-        },
-        [signAndSubmitTransaction, account]
-    );
-
-    // Chip actions
-    const buyChips = useCallback(
-        (cedraAmount: number) => executeTransaction(`${MODULES.CHIPS}::buy_chips`, [cedraAmount]),
-        [executeTransaction]
-    );
-
-    const cashOut = useCallback(
-        (chipAmount: number) => executeTransaction(`${MODULES.CHIPS}::cash_out`, [chipAmount]),
-        [executeTransaction]
-    );
-
-    // Table management
-    const createTable = useCallback(
-        (sb: number, bb: number, min: number, max: number, ante: number, straddleEnabled: boolean) =>
-            executeTransaction(`${MODULES.TEXAS_HOLDEM}::create_table`, [sb, bb, min, max, ante, straddleEnabled]),
-        [executeTransaction]
-    );
-
-    const joinTable = useCallback(
-        (tableAddress: string, seatIndex: number, buyIn: number) =>
-            executeTransaction(`${MODULES.TEXAS_HOLDEM}::join_table`, [tableAddress, seatIndex, buyIn]),
-        [executeTransaction]
-    );
-
-    const leaveTable = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::leave_table`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    // Player controls
-    const sitOut = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::sit_out`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    const sitIn = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::sit_in`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    const topUp = useCallback(
-        (tableAddress: string, amount: number) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::top_up`, [tableAddress, amount]),
-        [executeTransaction]
-    );
-
-    // Hand lifecycle
-    const startHand = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::start_hand`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    const submitCommit = useCallback(
-        (tableAddress: string, hash: Uint8Array) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::submit_commit`, [tableAddress, hash]),
-        [executeTransaction]
-    );
-
-    const revealSecret = useCallback(
-        (tableAddress: string, secret: Uint8Array) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::reveal_secret`, [tableAddress, secret]),
-        [executeTransaction]
-    );
-
-    // Player actions
-    const fold = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::fold`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    const check = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::check`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    const call = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::call`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    const raiseTo = useCallback(
-        (tableAddress: string, amount: number) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::raise_to`, [tableAddress, amount]),
-        [executeTransaction]
-    );
-
-    const allIn = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::all_in`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    const straddle = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::straddle`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    // Leave after hand controls
-    const leaveAfterHand = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::leave_after_hand`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    const cancelLeaveAfterHand = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::cancel_leave_after_hand`, [tableAddress]),
-        [executeTransaction]
-    );
-
-    // Admin controls
-    const pauseTable = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::pause_table`, [tableAddress]),
-        [executeTransaction]
+    /**
+     * Page back through a table's hand results; pass the returned cursor for older hands
+     */
+    const getHandResultPage = useCallback(
+        (tableAddress: string, cursor: EventCursor | null = null, limit?: number) =>
+            holdemClient.getHandResults(tableAddress, { cursor, limit }),
+        []
     );
 
-    const resumeTable = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::resume_table`, [tableAddress]),
-        [executeTransaction]
-    );
+    /**
+     * Result of one specific hand, or null if not found
+     */
+    const getHandResult = useCallback(async (tableAddress: string, handNumber: number) => {
+        try {
+            return await holdemClient.getHandResult(tableAddress, handNumber);
+        } catch (err) {
+            console.error(`Failed to fetch HandResult for hand ${handNumber}:`, err);
+            return null;
+        }
+    }, []);
 
-    const kickPlayer = useCallback(
-        (tableAddress: string, seatIndex: number) =>
-            executeTransaction(`${MODULES.TEXAS_HOLDEM}::kick_player`, [tableAddress, seatIndex]),
-        [executeTransaction]
+    /**
+     * Page through decoded poker events for a table
+     */
+    const getTableEvents = useCallback(
+        <T extends PokerEventType = PokerEventType>(tableAddress: string, query?: TableEventQuery<T>) =>
+            holdemClient.getTableEvents<T>(tableAddress, query),
+        []
     );
 
-    const forceSitOut = useCallback(
-        (tableAddress: string, seatIndex: number) =>
-            executeTransaction(`${MODULES.TEXAS_HOLDEM}::force_sit_out`, [tableAddress, seatIndex]),
-        [executeTransaction]
-    );
+    /**
+     * Reconstructed action-by-action history of one hand, or null if not found
+     */
+    const getHandHistory = useCallback(async (tableAddress: string, handNumber: number) => {
+        try {
+            return await holdemClient.getHandHistory(tableAddress, handNumber);
+        } catch (err) {
+            console.error(`Failed to rebuild history for hand ${handNumber}:`, err);
+            return null;
+        }
+    }, []);
 
-    const toggleAdminOnlyStart = useCallback(
-        (tableAddress: string, enabled: boolean) =>
-            executeTransaction(`${MODULES.TEXAS_HOLDEM}::toggle_admin_only_start`, [tableAddress, enabled]),
-        [executeTransaction]
-    );
+    /**
+     * Every hand history for a table, replayed from its first event
+     */
+    const getHandHistories = useCallback((tableAddress: string) => holdemClient.getHandHistories(tableAddress), []);
 
-    const updateBlinds = useCallback(
-        (tableAddress: string, smallBlind: number, bigBlind: number) =>
-            executeTransaction(`${MODULES.TEXAS_HOLDEM}::update_blinds`, [tableAddress, smallBlind, bigBlind]),
-        [executeTransaction]
+    /**
+     * Shuffle inputs and dealt cards of one hand, or null if it never started
+     */
+    const getHandFairnessData = useCallback(
+        (tableAddress: string, handNumber: number) => holdemClient.getHandFairnessData(tableAddress, handNumber),
+        []
     );
 
-    const updateBuyInLimits = useCallback(
-        (tableAddress: string, minBuyIn: number, maxBuyIn: number) =>
-            executeTransaction(`${MODULES.TEXAS_HOLDEM}::update_buy_in_limits`, [tableAddress, minBuyIn, maxBuyIn]),
-        [executeTransaction]
+    /**
+     * Commit hash a player posted for a hand, or null if they have not committed
+     */
+    const getCommitHash = useCallback(
+        (tableAddress: string, handNumber: number, playerAddress: string) => holdemClient.getCommitHash(tableAddress, handNumber, playerAddress),
+        []
     );
 
-    const closeTable = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::close_table`, [tableAddress]),
-        [executeTransaction]
-    );
+    return {
+        getHandResultEvents,
+        getHandResultPage,
+        getHandResult,
+        getHandHistory,
+        getHandHistories,
+        getHandFairnessData,
+        getCommitHash,
+        getTableEvents,
+    };
+}
 
-    const emergencyAbort = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::emergency_abort`, [tableAddress]),
-        [executeTransaction]
-    );
+export interface ContractActionsOptions {
+    /**
+     * Go straight to the wallet without the preflight review. For submissions
+     * nobody clicked (the commit/reveal agent, queued pre-actions): a review
+     * would wait on a player who may be away, and would cancel whatever
+     * review they have open.
+     */
+    skipPreflight?: boolean;
+}
 
-    const handleTimeout = useCallback(
-        (tableAddress: string) => executeTransaction(`${MODULES.TEXAS_HOLDEM}::handle_timeout`, [tableAddress]),
-        [executeTransaction]
+/**
+ * Hook for executing contract transactions
+ */
+export function useContractActions({ skipPreflight = false }: ContractActionsOptions = {}) {
+    const { signAndSubmitTransaction, account } = useWallet();
+    const { review } = usePreflight();
+
+    // Client bound to the connected wallet; without an account every action throws.
+    // Each payload is simulated and reviewed before the wallet prompt unless preflight is off or skipped.
+    const client = useMemo(() => {
+        if (!account) return holdemClient.withSigner(null);
+        const address = account.address.toString();
+        const signer: HoldemSigner = {
+            address,
+            signAndSubmit: async (payload) => {
+                if (!skipPreflight) await review(payload, () => holdemClient.simulate(payload, address));
+                return signAndSubmitTransaction({ data: payload });
+            },
+        };
+        return holdemClient.withSigner(signer);
+    }, [signAndSubmitTransaction, account, review, skipPreflight]);
+
+    return useMemo(
+        () => ({
+            // Resubmit a payload as-is (activity center retry)
+            resubmit: (payload: EntryFunctionPayload) => client.submit(payload),
+            // Chips
+            buyChips: (cedraAmount: number) => client.buyChips(cedraAmount),
+            cashOut: (chipAmount: number) => client.cashOut(chipAmount),
+            // Table management
+            createTable: (sb: number, bb: number, min: number, max: number, ante: number, straddleEnabled: boolean) =>
+                client.createTable(sb, bb, min, max, ante, straddleEnabled),
+            joinTable: (tableAddress: string, seatIndex: number, buyIn: number) => client.joinTable(tableAddress, seatIndex, buyIn),
+            leaveTable: (tableAddress: string) => client.leaveTable(tableAddress),
+            // Player controls
+            sitOut: (tableAddress: string) => client.sitOut(tableAddress),
+            sitIn: (tableAddress: string) => client.sitIn(tableAddress),
+            topUp: (tableAddress: string, amount: number) => client.topUp(tableAddress, amount),
+            leaveAfterHand: (tableAddress: string) => client.leaveAfterHand(tableAddress),
+            cancelLeaveAfterHand: (tableAddress: string) => client.cancelLeaveAfterHand(tableAddress),
+            // Hand lifecycle
+            startHand: (tableAddress: string) => client.startHand(tableAddress),
+            submitCommit: (tableAddress: string, hash: Uint8Array) => client.submitCommit(tableAddress, hash),
+            revealSecret: (tableAddress: string, secret: Uint8Array) => client.revealSecret(tableAddress, secret),
+            handleTimeout: (tableAddress: string) => client.handleTimeout(tableAddress),
+            // Player actions
+            fold: (tableAddress: string) => client.fold(tableAddress),
+            check: (tableAddress: string) => client.check(tableAddress),
+            call: (tableAddress: string) => client.call(tableAddress),
+            raiseTo: (tableAddress: string, amount: number) => client.raiseTo(tableAddress, amount),
+            allIn: (tableAddress: string) => client.allIn(tableAddress),
+            straddle: (tableAddress: string) => client.straddle(tableAddress),
+            // Admin controls
+            pauseTable: (tableAddress: string) => client.pauseTable(tableAddress),
+            resumeTable: (tableAddress: string) => client.resumeTable(tableAddress),
+            kickPlayer: (tableAddress: string, seatIndex: number) => client.kickPlayer(tableAddress, seatIndex),
+            forceSitOut: (tableAddress: string, seatIndex: number) => client.forceSitOut(tableAddress, seatIndex),
+            toggleAdminOnlyStart: (tableAddress: string, enabled: boolean) => client.toggleAdminOnlyStart(tableAddress, enabled),
+            updateBlinds: (tableAddress: string, smallBlind: number, bigBlind: number) =>
+                client.updateBlinds(tableAddress, smallBlind, bigBlind),
+            updateBuyInLimits: (tableAddress: string, minBuyIn: number, maxBuyIn: number) =>
+                client.updateBuyInLimits(tableAddress, minBuyIn, maxBuyIn),
+            closeTable: (tableAddress: string) => client.closeTable(tableAddress),
+            emergencyAbort: (tableAddress: string) => client.emergencyAbort(tableAddress),
+        }),
+        [client]
     );
-
-    return {
-        // Chips
-        buyChips,
-        cashOut,
-        // Table management
-        createTable,
-        joinTable,
-        leaveTable,
-        // Player controls
-        sitOut,
-        sitIn,
-        topUp,
-        leaveAfterHand,
-        cancelLeaveAfterHand,
-        // Hand lifecycle
-        startHand,
-        submitCommit,
-        revealSecret,
-        handleTimeout,
-        // Player actions
-        fold,
-        check,
-        call,
-        raiseTo,
-        allIn,
-        straddle,
-        // Admin controls
-        pauseTable,
-        resumeTable,
-        kickPlayer,
-        forceSitOut,
-        toggleAdminOnlyStart,
-        updateBlinds,
-        updateBuyInLimits,
-        closeTable,
-        emergencyAbort,
-    };
 }
 
-export { cedra };
+export { transport, holdemClient, transactionStore };
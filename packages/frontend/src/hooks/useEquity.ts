@@ -0,0 +1,52 @@
+/**
+ * Hand equity hook, computed in a Web Worker
+ */
+
+import { useEffect, useRef, useState } from "react";
+import type { EquityQuery, EquityResult } from "../utils/equity";
+import type { EquityRequest, EquityResponse } from "../workers/equity.worker";
+
+/**
+ * Win/tie odds for the player's hole cards against `opponents` random hands.
+ * Null while disabled, while the worker is busy, or when the spot is invalid.
+ */
+export function useEquity(holeCards: number[] | null, board: number[], opponents: number, enabled = true): EquityResult | null {
+    const workerRef = useRef<Worker | null>(null);
+    const requestIdRef = useRef(0);
+    const [answer, setAnswer] = useState<{ key: string; result: EquityResult } | null>(null);
+
+    // Serialized query: effects rerun when the cards change, not when the arrays do
+    const key = enabled && holeCards?.length === 2 && opponents > 0 ? JSON.stringify({ holeCards, board, opponents }) : null;
+
+    // One worker per mounted hook, created on first use
+    useEffect(() => {
+        return () => {
+            workerRef.current?.terminate();
+            workerRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        if (!key) return;
+
+        if (!workerRef.current) {
+            workerRef.current = new Worker(new URL("../workers/equity.worker.ts", import.meta.url), { type: "module" });
+        }
+        const worker = workerRef.current;
+        const id = ++requestIdRef.current;
+
+        const handleMessage = (event: MessageEvent<EquityResponse>) => {
+            // Only the latest request counts
+            if (event.data.id !== id) return;
+            if ("result" in event.data) setAnswer({ key, result: event.data.result });
+            else console.warn("Equity calculation failed:", event.data.error);
+        };
+        worker.addEventListener("message", handleMessage);
+        const request: EquityRequest = { id, query: JSON.parse(key) as EquityQuery };
+        worker.postMessage(request);
+
+        return () => worker.removeEventListener("message", handleMessage);
+    }, [key]);
+
+    return answer && answer.key === key ? answer.result : null;
+}
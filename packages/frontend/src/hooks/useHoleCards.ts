@@ -0,0 +1,64 @@
+/**
+ * The connected player's decrypted hole cards for the current hand
+ */
+
+import { useMemo } from "react";
+import { decryptHoleCards, areCardsValid } from "../utils/cardCrypto";
+import { useVaultSecret } from "./useSecretVault";
+
+interface HoleCardsSource {
+    playerSeat: number | null;
+    tableAddress: string;
+    playerAddress: string;
+    handNumber: number;
+    playersInHand: number[];
+    encryptedHoleCards: number[][];
+}
+
+/**
+ * Decrypts the player's two cards with the vault's secret for this hand.
+ * Null when the player is not in the hand or the secret is missing (or locked away).
+ */
+export function useHoleCards({
+    playerSeat,
+    tableAddress,
+    playerAddress,
+    handNumber,
+    playersInHand,
+    encryptedHoleCards,
+}: HoleCardsSource): number[] | null {
+    const secret = useVaultSecret(tableAddress, playerAddress, handNumber);
+
+    return useMemo(() => {
+        if (playerSeat === null || !tableAddress || !playerAddress || handNumber <= 0) {
+            return null;
+        }
+
+        const handIdx = playersInHand.indexOf(playerSeat);
+        if (handIdx === -1 || handIdx >= encryptedHoleCards.length) {
+            return null;
+        }
+
+        const encryptedCards = encryptedHoleCards[handIdx];
+        if (!encryptedCards || encryptedCards.length !== 2) {
+            return null;
+        }
+
+        if (!secret) {
+            console.log("[DEBUG] No stored secret found for decryption");
+            return null;
+        }
+
+        // Decrypt the cards
+        const decrypted = decryptHoleCards(encryptedCards, secret, playerSeat);
+
+        // Validate decryption result
+        if (areCardsValid(decrypted)) {
+            console.log("[DEBUG] Decrypted cards:", decrypted);
+            return decrypted;
+        } else {
+            console.warn("[DEBUG] Decrypted cards invalid:", decrypted);
+            return null;
+        }
+    }, [playerSeat, tableAddress, playerAddress, handNumber, playersInHand, encryptedHoleCards, secret]);
+}
@@ -0,0 +1,42 @@
+/**
+ * React bindings for the commit/reveal secret vault
+ */
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { useWallet } from "../components/wallet-provider";
+import { ACTIVE_PROFILE } from "../config/networks";
+import { tabCoordinator } from "./useTabCoordinator";
+import { createSecretVault, type VaultState } from "../store/secretVault";
+
+const secretVault = createSecretVault({ namespace: ACTIVE_PROFILE.id, tabs: tabCoordinator });
+
+/**
+ * Vault state for the connected wallet, plus an unlock that asks it to sign
+ */
+export function useSecretVault(): VaultState & { unlock: () => Promise<void> } {
+    const { account, signMessage } = useWallet();
+    const wallet = account?.address?.toString() ?? null;
+
+    useEffect(() => {
+        secretVault.setWallet(wallet);
+    }, [wallet]);
+
+    const state = useSyncExternalStore(secretVault.subscribe, secretVault.getState);
+
+    const unlock = useCallback(async () => {
+        if (!wallet) throw new Error("Connect a wallet to unlock the secret vault.");
+        await secretVault.unlock(wallet, signMessage);
+    }, [wallet, signMessage]);
+
+    return { ...state, unlock };
+}
+
+/**
+ * The stored secret for one hand, re-read whenever the vault changes
+ */
+export function useVaultSecret(tableAddress: string, player: string | null | undefined, handNumber: number): string | null {
+    useSyncExternalStore(secretVault.subscribe, secretVault.getState);
+    return player ? secretVault.secretFor(tableAddress, player, handNumber) : null;
+}
+
+export { secretVault };
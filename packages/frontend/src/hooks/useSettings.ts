@@ -0,0 +1,18 @@
+/**
+ * React bindings for the player settings store
+ */
+
+import { useSyncExternalStore } from "react";
+import { createSettingsStore, type Settings } from "../store/settingsStore";
+
+const settingsStore = createSettingsStore();
+
+/**
+ * Current settings and a setter that merges a partial update
+ */
+export function useSettings(): { settings: Settings; updateSettings: (patch: Partial<Settings>) => void } {
+    const settings = useSyncExternalStore(settingsStore.subscribe, settingsStore.getState);
+    return { settings, updateSettings: settingsStore.update };
+}
+
+export { settingsStore };
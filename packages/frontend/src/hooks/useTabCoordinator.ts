@@ -0,0 +1,27 @@
+/**
+ * React bindings for the cross-tab coordinator
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import { ACTIVE_PROFILE } from "../config/networks";
+import { createTabCoordinator } from "../store/tabCoordinator";
+import { localSimulator } from "../simulator";
+
+const tabCoordinator = createTabCoordinator({ namespace: ACTIVE_PROFILE.id, isolated: localSimulator !== null });
+
+/**
+ * Lease and channel topic for one table
+ */
+export function tableTopic(tableAddress: string): string {
+    return `table:${tableAddress.toLowerCase()}`;
+}
+
+/**
+ * Whether this tab holds the named lease
+ */
+export function useTabLeadership(name: string): boolean {
+    const isLeader = useCallback(() => tabCoordinator.isLeader(name), [name]);
+    return useSyncExternalStore(tabCoordinator.subscribe, isLeader);
+}
+
+export { tabCoordinator };
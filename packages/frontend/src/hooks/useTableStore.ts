@@ -0,0 +1,184 @@
+/**
+ * React bindings for the event-driven table store
+ */
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import { holdemClient, useTableView } from "./useContract";
+import { tabCoordinator, tableTopic } from "./useTabCoordinator";
+import { createTableStore, type TableStore, type TableStoreState } from "../store/tableStore";
+
+// What tabs sharing a table say to each other
+type TableTabMessage = { type: "state"; state: TableStoreState } | { type: "hello" } | { type: "sync" } | { type: "resync" };
+
+/**
+ * Create and run a table store for the given address.
+ * While mounted, one tab per table polls and publishes its state; the
+ * table's other tabs mirror it and pass their sync requests along.
+ */
+export function useTableStore(tableAddress: string | undefined): TableStore | null {
+    const {
+        getTableConfig,
+        getTableState,
+        getAllSeats,
+        getFullGameState,
+        getAdmin,
+        isPaused,
+        isAdminOnlyStart,
+        getPendingLeaves,
+        getEncryptedHoleCards,
+        getPlayersInHand,
+        getCommitStatus,
+        getCommitDeadline,
+        getRevealDeadline,
+        getActionOn,
+        getMinRaise,
+        getLastAggressor,
+    } = useTableView();
+
+    const store = useMemo(() => {
+        if (!tableAddress) return null;
+
+        return createTableStore(tableAddress, {
+            loadSnapshot: async (address) => {
+                const [
+                    config,
+                    state,
+                    seats,
+                    game,
+                    admin,
+                    paused,
+                    adminOnlyStart,
+                    pendingLeaves,
+                    encryptedHoleCards,
+                    playersInHand,
+                    commitStatus,
+                    commitDeadline,
+                    revealDeadline,
+                ] = await Promise.all([
+                        getTableConfig(address),
+                        getTableState(address),
+                        getAllSeats(address),
+                        getFullGameState(address),
+                        getAdmin(address),
+                        isPaused(address),
+                        isAdminOnlyStart(address),
+                        getPendingLeaves(address),
+                        getEncryptedHoleCards(address),
+                        getPlayersInHand(address),
+                        getCommitStatus(address),
+                        getCommitDeadline(address),
+                        getRevealDeadline(address),
+                    ]);
+                return {
+                    address,
+                    config,
+                    state,
+                    seats,
+                    game,
+                    admin,
+                    paused,
+                    adminOnlyStart,
+                    pendingLeaves,
+                    encryptedHoleCards,
+                    playersInHand,
+                    commitStatus,
+                    commitDeadline,
+                    revealDeadline,
+                };
+            },
+            loadActionState: async (address) => {
+                const [actionOn, minRaise, lastAggressor, commitDeadline, revealDeadline] = await Promise.all([
+                    getActionOn(address),
+                    getMinRaise(address),
+                    getLastAggressor(address),
+                    getCommitDeadline(address),
+                    getRevealDeadline(address),
+                ]);
+                return { actionOn, minRaise, lastAggressor, commitDeadline, revealDeadline };
+            },
+            loadEncryptedHoleCards: getEncryptedHoleCards,
+            loadTableState: getTableState,
+            getLedgerVersion: () => holdemClient.getLedgerVersion(),
+            hasEventStream: () => holdemClient.emitsActionEvents(),
+            fetchEvents: (address, query) => holdemClient.getTableEvents(address, query),
+        });
+    }, [
+        tableAddress,
+        getTableConfig,
+        getTableState,
+        getAllSeats,
+        getFullGameState,
+        getAdmin,
+        isPaused,
+        isAdminOnlyStart,
+        getPendingLeaves,
+        getEncryptedHoleCards,
+        getPlayersInHand,
+        getCommitStatus,
+        getCommitDeadline,
+        getRevealDeadline,
+        getActionOn,
+        getMinRaise,
+        getLastAggressor,
+    ]);
+
+    useEffect(() => {
+        if (!store || !tableAddress) return;
+        const topic = tableTopic(tableAddress);
+        const post = (message: TableTabMessage) => tabCoordinator.post(topic, message);
+        const publish = () => post({ type: "state", state: store.getState() });
+        let leading = false;
+        let unpublish: (() => void) | null = null;
+
+        const unlisten = tabCoordinator.listen(topic, (payload) => {
+            const message = payload as TableTabMessage;
+            if (!leading) {
+                if (message.type === "state") store.mirror(message.state);
+                return;
+            }
+            if (message.type === "hello") publish();
+            else if (message.type === "sync") void store.sync();
+            else if (message.type === "resync") void store.resync();
+        });
+
+        const release = tabCoordinator.acquire(topic, {
+            onLead: () => {
+                leading = true;
+                store.start();
+                unpublish = store.subscribe(publish);
+                publish();
+            },
+            // Also when a visible tab takes the lease over from this one
+            onFollow: () => {
+                leading = false;
+                unpublish?.();
+                unpublish = null;
+                store.follow((request) => post({ type: request }));
+                post({ type: "hello" });
+            },
+        });
+
+        return () => {
+            release();
+            unlisten();
+            unpublish?.();
+            store.stop();
+        };
+    }, [store, tableAddress]);
+
+    return store;
+}
+
+const EMPTY_STATE: TableStoreState = { snapshot: null, loading: true, error: null, lastHandResult: null };
+
+/**
+ * Subscribe to a slice of table store state. The selector must return a
+ * value that is referentially stable while the slice is unchanged.
+ */
+export function useTableSlice<T>(store: TableStore | null, selector: (state: TableStoreState) => T): T {
+    const subscribe = useCallback(
+        (listener: () => void) => (store ? store.subscribe(listener) : () => {}),
+        [store]
+    );
+    return useSyncExternalStore(subscribe, () => selector(store ? store.getState() : EMPTY_STATE));
+}
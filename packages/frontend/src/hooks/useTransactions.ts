@@ -0,0 +1,24 @@
+/**
+ * React bindings for the transaction activity store
+ */
+
+import { useEffect, useSyncExternalStore } from "react";
+import { useWallet } from "../components/wallet-provider";
+import { transactionStore } from "./useContract";
+import type { TransactionStoreState } from "../store/transactionStore";
+
+/**
+ * Transaction history for the connected wallet
+ */
+export function useTransactions(): TransactionStoreState {
+    const { account } = useWallet();
+    const wallet = account?.address?.toString() ?? null;
+
+    useEffect(() => {
+        transactionStore.setWallet(wallet);
+    }, [wallet]);
+
+    return useSyncExternalStore(transactionStore.subscribe, transactionStore.getState);
+}
+
+export { transactionStore };
@@ -0,0 +1,222 @@
+import { Link, useParams } from "react-router-dom";
+import { useEffect, useMemo, useState } from "react";
+import { ArrowLeft, ChevronLeft, ChevronRight, Pause, Play, RotateCcw, ShieldCheck, SkipBack, SkipForward } from "lucide-react";
+import { useEventView } from "../hooks/useContract";
+import { PokerTable } from "../components/PokerTable";
+import { buildReplayFrames } from "../utils/handReplay";
+import type { HandHistory } from "../client";
+import "./Table.css";
+import "./HandReplay.css";
+
+const SPEEDS = [
+    { label: "0.5x", ms: 2400 },
+    { label: "1x", ms: 1200 },
+    { label: "2x", ms: 600 },
+];
+
+interface LoadedHand {
+    key: string;
+    hand: HandHistory | null;
+    error: string | null;
+}
+
+/**
+ * Step-through replay of one reconstructed hand on the regular table view
+ */
+export function HandReplay() {
+    const { address = "", handNumber: handParam = "" } = useParams<{ address: string; handNumber: string }>();
+    const handNumber = Number(handParam);
+    const { getHandHistory } = useEventView();
+
+    const key = `${address}:${handNumber}`;
+    const [loaded, setLoaded] = useState<LoadedHand | null>(null);
+    const [step, setStep] = useState({ key, index: 0 });
+    const [playing, setPlaying] = useState(false);
+    const [speed, setSpeed] = useState(SPEEDS[1].ms);
+
+    useEffect(() => {
+        if (!address || !Number.isInteger(handNumber) || handNumber < 1) return;
+        let cancelled = false;
+        getHandHistory(address, handNumber)
+            .then((hand) => {
+                if (cancelled) return;
+                setLoaded({ key, hand, error: hand ? null : `Hand #${handNumber} was not found on this table.` });
+            })
+            .catch(() => {
+                if (!cancelled) setLoaded({ key, hand: null, error: "Failed to load hand history." });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [address, handNumber, key, getHandHistory]);
+
+    const hand = loaded?.key === key ? loaded.hand : null;
+    const frames = useMemo(() => (hand ? buildReplayFrames(hand) : []), [hand]);
+    const lastIndex = Math.max(0, frames.length - 1);
+    // Switching hands restarts from the first frame
+    const index = step.key === key ? Math.min(step.index, lastIndex) : 0;
+    const frame = frames[index];
+    const atEnd = index >= lastIndex;
+
+    const goTo = (next: number) => setStep({ key, index: Math.max(0, Math.min(lastIndex, next)) });
+
+    // Auto-advance while playing; stop on the last frame
+    useEffect(() => {
+        if (!playing || atEnd) return;
+        const timer = setTimeout(() => setStep({ key, index: index + 1 }), speed);
+        return () => clearTimeout(timer);
+    }, [playing, atEnd, index, key, speed]);
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.target instanceof HTMLInputElement || event.target instanceof HTMLSelectElement) return;
+            if (event.key === "ArrowRight") setStep({ key, index: Math.min(lastIndex, index + 1) });
+            else if (event.key === "ArrowLeft") setStep({ key, index: Math.max(0, index - 1) });
+            else if (event.key === " ") {
+                event.preventDefault();
+                setPlaying((prev) => !prev);
+            }
+        };
+        window.addEventListener("keydown", handleKeyDown);
+        return () => window.removeEventListener("keydown", handleKeyDown);
+    }, [index, key, lastIndex]);
+
+    const togglePlay = () => {
+        if (atEnd) goTo(0);
+        setPlaying((prev) => !prev || atEnd);
+    };
+
+    if (!Number.isInteger(handNumber) || handNumber < 1) {
+        return (
+            <div className="table-page error">
+                <p>Invalid hand number.</p>
+                <Link className="btn btn-primary" to={`/table/${address}`}>
+                    Back to table
+                </Link>
+            </div>
+        );
+    }
+
+    if (loaded?.key !== key) {
+        return (
+            <div className="table-page loading">
+                <div className="spinner" />
+                <p>Rebuilding hand #{handNumber}...</p>
+            </div>
+        );
+    }
+
+    if (!hand || !frame) {
+        return (
+            <div className="table-page error">
+                <p>{loaded.error ?? "Nothing to replay for this hand."}</p>
+                <Link className="btn btn-primary" to={`/table/${address}`}>
+                    Back to table
+                </Link>
+            </div>
+        );
+    }
+
+    return (
+        <div className="table-page replay-page">
+            <div className="replay-layout">
+                <header className="replay-header">
+                    <Link className="replay-back" to={`/table/${address}`}>
+                        <ArrowLeft size={16} />
+                        Table
+                    </Link>
+                    <div className="replay-title">
+                        <Link
+                            className={`replay-hand-nav${handNumber <= 1 ? " disabled" : ""}`}
+                            to={`/table/${address}/hand/${handNumber - 1}`}
+                            aria-label="Previous hand"
+                            aria-disabled={handNumber <= 1}
+                        >
+                            <ChevronLeft size={18} />
+                        </Link>
+                        <h2>Hand #{hand.handNumber}</h2>
+                        <Link className="replay-hand-nav" to={`/table/${address}/hand/${handNumber + 1}`} aria-label="Next hand">
+                            <ChevronRight size={18} />
+                        </Link>
+                    </div>
+                    <div className="replay-aside">
+                        <span className="replay-meta">
+                            {hand.endedAt ? new Date(hand.endedAt * 1000).toLocaleString() : hand.outcome === "aborted" ? "Aborted" : "In progress"}
+                        </span>
+                        {hand.outcome !== null && (
+                            <Link className="replay-verify" to={`/table/${address}/hand/${handNumber}/verify`}>
+                                <ShieldCheck size={14} />
+                                Verify this hand
+                            </Link>
+                        )}
+                    </div>
+                </header>
+
+                <section className="table-stage">
+                    <div className="table-stage-inner">
+                        <PokerTable
+                            seats={frame.seats}
+                            gameState={frame.game}
+                            dealerSeat={hand.dealerSeat}
+                            playerSeat={null}
+                            encryptedHoleCards={frame.holeCards}
+                            playersInHand={frame.playersInHand}
+                            revealedHoleCards={frame.revealed}
+                            collectingBets={frame.collecting}
+                        />
+                    </div>
+                </section>
+
+                <section className="replay-controls">
+                    <div className="replay-buttons">
+                        <button type="button" onClick={() => goTo(0)} disabled={index === 0} aria-label="Restart">
+                            <RotateCcw size={16} />
+                        </button>
+                        <button type="button" onClick={() => goTo(index - 1)} disabled={index === 0} aria-label="Step back">
+                            <SkipBack size={16} />
+                        </button>
+                        <button type="button" className="replay-play" onClick={togglePlay} aria-label={playing && !atEnd ? "Pause" : "Play"}>
+                            {playing && !atEnd ? <Pause size={18} /> : <Play size={18} />}
+                        </button>
+                        <button type="button" onClick={() => goTo(index + 1)} disabled={atEnd} aria-label="Step forward">
+                            <SkipForward size={16} />
+                        </button>
+                        <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} aria-label="Playback speed">
+                            {SPEEDS.map((option) => (
+                                <option key={option.ms} value={option.ms}>
+                                    {option.label}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <input
+                        className="replay-scrubber"
+                        type="range"
+                        min={0}
+                        max={lastIndex}
+                        value={index}
+                        onChange={(e) => goTo(Number(e.target.value))}
+                        aria-label="Replay position"
+                    />
+                    <div className="replay-label">
+                        <span className="replay-step">
+                            {index + 1}/{frames.length}
+                        </span>
+                        {frame.label}
+                    </div>
+                </section>
+
+                <ol className="replay-log">
+                    {frames.map((entry, i) => (
+                        <li key={i} className={i === index ? "current" : i > index ? "upcoming" : ""}>
+                            <button type="button" onClick={() => goTo(i)}>
+                                {entry.label}
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,264 @@
+import { Link, useParams } from "react-router-dom";
+import { useEffect, useMemo, useState } from "react";
+import { ArrowLeft, Check, ShieldAlert, ShieldCheck, ShieldX, X } from "lucide-react";
+import { useEventView } from "../hooks/useContract";
+import { decodeCard } from "../config/contracts";
+import { verifyHandFairness, type FairnessCheck, type FairnessParticipant, type FairnessVerdict, type HandFairnessData } from "../client";
+import "./Table.css";
+import "./HandVerify.css";
+
+interface LoadedData {
+    key: string;
+    data: HandFairnessData | null;
+    error: string | null;
+}
+
+const VERDICTS: Record<FairnessVerdict, { title: string; detail: string }> = {
+    verified: {
+        title: "Verified",
+        detail: "Every secret matches its commitment, and the recomputed deck dealt exactly the cards on this hand.",
+    },
+    failed: {
+        title: "Verification failed",
+        detail: "At least one check below does not match what the chain recorded.",
+    },
+    incomplete: {
+        title: "Could not verify",
+        detail: "Not enough of this hand is on chain to rebuild the deck.",
+    },
+};
+
+function shortHex(value: string): string {
+    return `${value.slice(0, 10)}...${value.slice(-6)}`;
+}
+
+function toHex(bytes: number[]): string {
+    return `0x${bytes.map((byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function formatDeadline(seconds: number | null): string {
+    return seconds === null ? "Unknown" : `${seconds} (${new Date(seconds * 1000).toLocaleString()})`;
+}
+
+function commitStatus(participant: FairnessParticipant, check: FairnessCheck | undefined): { label: string; passed: boolean | null } {
+    if (check) return { label: check.passed ? "Matches commit" : "Does not match commit", passed: check.passed };
+    if (participant.commitHash === null) return { label: "No commit", passed: null };
+    return { label: "Not revealed", passed: null };
+}
+
+function CardList({ cards }: { cards: number[] }) {
+    return (
+        <span className="verify-cards">
+            {cards.map((value, idx) => {
+                const card = decodeCard(value);
+                const isRed = card.suit === "♥" || card.suit === "♦";
+                return (
+                    <span key={idx} className={`verify-card ${isRed ? "red" : "black"}`}>
+                        {card.rank}
+                        {card.suit}
+                    </span>
+                );
+            })}
+        </span>
+    );
+}
+
+function CheckMark({ passed }: { passed: boolean | null }) {
+    if (passed === null) return <span className="verify-mark neutral">–</span>;
+    return <span className={`verify-mark ${passed ? "pass" : "fail"}`}>{passed ? <Check size={14} /> : <X size={14} />}</span>;
+}
+
+/**
+ * Provable-fairness check for one hand: rebuilds the deck from the revealed
+ * secrets and checks commitments, board and showdown cards against it
+ */
+export function HandVerify() {
+    const { address = "", handNumber: handParam = "" } = useParams<{ address: string; handNumber: string }>();
+    const handNumber = Number(handParam);
+    const { getHandFairnessData } = useEventView();
+
+    const key = `${address}:${handNumber}`;
+    const [loaded, setLoaded] = useState<LoadedData | null>(null);
+
+    useEffect(() => {
+        if (!address || !Number.isInteger(handNumber) || handNumber < 1) return;
+        let cancelled = false;
+        getHandFairnessData(address, handNumber)
+            .then((data) => {
+                if (cancelled) return;
+                setLoaded({ key, data, error: data ? null : `Hand #${handNumber} was not found on this table.` });
+            })
+            .catch((err) => {
+                console.error(`Failed to load fairness data for hand ${handNumber}:`, err);
+                if (!cancelled) setLoaded({ key, data: null, error: "Failed to load the hand's shuffle data." });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [address, handNumber, key, getHandFairnessData]);
+
+    const data = loaded?.key === key ? loaded.data : null;
+    const report = useMemo(() => (data ? verifyHandFairness(data) : null), [data]);
+
+    if (!Number.isInteger(handNumber) || handNumber < 1) {
+        return (
+            <div className="table-page error">
+                <p>Invalid hand number.</p>
+                <Link className="btn btn-primary" to={`/table/${address}`}>
+                    Back to table
+                </Link>
+            </div>
+        );
+    }
+
+    if (loaded?.key !== key) {
+        return (
+            <div className="table-page loading">
+                <div className="spinner" />
+                <p>Collecting the shuffle inputs for hand #{handNumber}...</p>
+            </div>
+        );
+    }
+
+    if (!data || !report) {
+        return (
+            <div className="table-page error">
+                <p>{loaded.error ?? "Nothing to verify for this hand."}</p>
+                <Link className="btn btn-primary" to={`/table/${address}`}>
+                    Back to table
+                </Link>
+            </div>
+        );
+    }
+
+    const verdict = VERDICTS[report.verdict];
+    const VerdictIcon = report.verdict === "verified" ? ShieldCheck : report.verdict === "failed" ? ShieldX : ShieldAlert;
+    const boardCheck = report.checks.find((check) => check.kind === "board");
+    const showdownChecks = report.checks.filter((check) => check.kind === "showdown");
+
+    return (
+        <div className="table-page verify-page">
+            <div className="verify-layout">
+                <header className="verify-header">
+                    <Link className="verify-back" to={`/table/${address}/hand/${handNumber}`}>
+                        <ArrowLeft size={16} />
+                        Replay
+                    </Link>
+                    <h2>Verify hand #{handNumber}</h2>
+                </header>
+
+                <section className={`verify-verdict ${report.verdict}`}>
+                    <VerdictIcon size={28} />
+                    <div>
+                        <strong>{verdict.title}</strong>
+                        <p>{report.incompleteReason ?? verdict.detail}</p>
+                    </div>
+                </section>
+
+                <section className="verify-section">
+                    <h3>Commitments</h3>
+                    <p className="verify-hint">Each player posted sha3-256(secret) before anyone revealed, so no secret could be chosen after seeing the others.</p>
+                    <table className="verify-table">
+                        <thead>
+                            <tr>
+                                <th>Seat</th>
+                                <th>Player</th>
+                                <th>Commit hash</th>
+                                <th>Revealed secret</th>
+                                <th>Check</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {data.participants.map((participant) => {
+                                const check = report.checks.find((c) => c.kind === "commit" && c.seatIdx === participant.seatIdx);
+                                const status = commitStatus(participant, check);
+                                return (
+                                    <tr key={participant.seatIdx}>
+                                        <td>{participant.seatIdx + 1}</td>
+                                        <td className="mono">{participant.player ? shortHex(participant.player) : "Unknown"}</td>
+                                        <td className="mono" title={participant.commitHash ? toHex(participant.commitHash) : undefined}>
+                                            {participant.commitHash ? shortHex(toHex(participant.commitHash)) : "—"}
+                                        </td>
+                                        <td className="mono" title={participant.secret ? toHex(participant.secret) : undefined}>
+                                            {participant.secret ? shortHex(toHex(participant.secret)) : "—"}
+                                        </td>
+                                        <td>
+                                            <CheckMark passed={status.passed} />
+                                            {status.label}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </section>
+
+                <section className="verify-section">
+                    <h3>Shuffle seed</h3>
+                    <p className="verify-hint">The secrets above in the order listed, then these values as little-endian u64s, hashed with sha3-256.</p>
+                    <dl className="verify-inputs">
+                        <dt>Commit deadline</dt>
+                        <dd className="mono">{formatDeadline(data.commitDeadline)}</dd>
+                        <dt>Reveal deadline</dt>
+                        <dd className="mono">{formatDeadline(data.revealDeadline)}</dd>
+                        <dt>Block height</dt>
+                        <dd className="mono">{data.blockHeight?.toString() ?? "Unknown"}</dd>
+                        <dt>Shuffle transaction</dt>
+                        <dd className="mono">{data.dealVersion !== null ? `version ${data.dealVersion}` : "Never shuffled"}</dd>
+                    </dl>
+                </section>
+
+                {report.deck && (
+                    <section className="verify-section">
+                        <h3>Dealt cards</h3>
+                        <table className="verify-table">
+                            <thead>
+                                <tr>
+                                    <th>Dealt to</th>
+                                    <th>From the deck</th>
+                                    <th>On the table</th>
+                                    <th>Check</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.dealtHoleCards.map((dealt) => {
+                                    const check = showdownChecks.find((c) => c.seatIdx === dealt.seatIdx);
+                                    return (
+                                        <tr key={dealt.seatIdx}>
+                                            <td>Seat {dealt.seatIdx + 1}</td>
+                                            <td>
+                                                <CardList cards={dealt.cards} />
+                                            </td>
+                                            <td>{check?.actual ? <CardList cards={check.actual} /> : <span className="text-dim">Not shown</span>}</td>
+                                            <td>
+                                                <CheckMark passed={check ? check.passed : null} />
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                <tr>
+                                    <td>Board</td>
+                                    <td>
+                                        <CardList cards={boardCheck?.expected ?? []} />
+                                    </td>
+                                    <td>{boardCheck?.actual ? <CardList cards={boardCheck.actual} /> : <span className="text-dim">No board</span>}</td>
+                                    <td>
+                                        <CheckMark passed={boardCheck ? boardCheck.passed : null} />
+                                    </td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </section>
+                )}
+
+                {report.deck && (
+                    <section className="verify-section">
+                        <h3>Full deck</h3>
+                        <p className="verify-hint">Top to bottom: two hole cards per seat in the order listed above, then the board.</p>
+                        <CardList cards={report.deck} />
+                    </section>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -3,6 +3,7 @@ import { useNavigate } from "react-router-dom";
 import { useWallet } from "../components/wallet-provider";
 import { ChipsPanel } from "../components/ChipsPanel";
 import { useContractActions } from "../hooks/useContract";
+import { formatTransactionError } from "../client";
 import { MODULES } from "../config/contracts";
 import { Plus, Users, Coins, ArrowRight } from "lucide-react";
 import "./Home.css";
@@ -184,8 +185,7 @@ function CreateTableModal({ onClose }: { onClose: () => void }) {
                 setError("Table created, but the table address was not found in the transaction events.");
             }
         } catch (err) {
-            const message = err instanceof Error ? err.message : "Failed to create table.";
-            setError(message);
+            setError(formatTransactionError(err, "Failed to create table."));
         } finally {
             setIsSubmitting(false);
         }
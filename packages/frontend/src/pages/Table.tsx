@@ -1,184 +1,106 @@
 import { useParams } from "react-router-dom";
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import type { FormEvent } from "react";
 import { Shield, X } from "lucide-react";
 import { useWallet } from "../components/wallet-provider";
-import { useChipsView, useContractActions, useTableView, useEventView } from "../hooks/useContract";
+import { useChipsView, useContractActions } from "../hooks/useContract";
+import { formatTransactionError } from "../client";
+import { useTableSlice, useTableStore } from "../hooks/useTableStore";
+import { useHoleCards } from "../hooks/useHoleCards";
 import { PokerTable } from "../components/PokerTable";
 import { ActionPanel } from "../components/ActionPanel";
 import { TableInfo } from "../components/TableInfo";
 import { LifecyclePanel } from "../components/LifecyclePanel";
 import { AdminPanel } from "../components/AdminPanel";
+import { HandExportPanel } from "../components/HandExportPanel";
 import { ShowdownModal, type HandResultData } from "../components/ShowdownModal";
-import { GAME_PHASES } from "../config/contracts";
-import type { TableConfig, TableState, SeatInfo, GameState } from "../types";
+import type { SeatInfo } from "../types";
 import "./Table.css";
 
+// Stable fallbacks so slice selectors don't return a new array on every read
+const NO_SEATS: (SeatInfo | null)[] = [];
+const NO_PENDING_LEAVES: boolean[] = [false, false, false, false, false];
+const NO_HOLE_CARDS: number[][] = [];
+const NO_PLAYERS: number[] = [];
+const NO_COMMITS: boolean[] = [];
+
 export function Table() {
     const { address } = useParams<{ address: string }>();
     const { connected, account } = useWallet();
-    const { getTableConfig, getTableState, getAllSeats, getFullGameState, getAdmin, isPaused, isAdminOnlyStart, getPendingLeaves, getEncryptedHoleCards, getPlayersInHand, getCommitStatus } = useTableView();
     const { joinTable } = useContractActions();
     const { getBalance } = useChipsView();
-    const { getHandResultEvents } = useEventView();
-
-    const [loading, setLoading] = useState(true);
-    const [error, setError] = useState<string | null>(null);
-    const [config, setConfig] = useState<TableConfig | null>(null);
-    const [tableState, setTableState] = useState<TableState | null>(null);
-    const [seats, setSeats] = useState<(SeatInfo | null)[]>([]);
-    const [gameState, setGameState] = useState<GameState | null>(null);
-    const [playerSeat, setPlayerSeat] = useState<number | null>(null);
+
+    // Table state comes from the event-driven store; each slice re-renders independently
+    const store = useTableStore(address);
+    const loading = useTableSlice(store, (s) => s.loading);
+    const error = useTableSlice(store, (s) => s.error);
+    const lastHandResult = useTableSlice(store, (s) => s.lastHandResult);
+    const config = useTableSlice(store, (s) => s.snapshot?.config ?? null);
+    const tableState = useTableSlice(store, (s) => s.snapshot?.state ?? null);
+    const seats = useTableSlice(store, (s) => s.snapshot?.seats ?? NO_SEATS);
+    const gameState = useTableSlice(store, (s) => s.snapshot?.game ?? null);
+    const adminAddress = useTableSlice(store, (s) => s.snapshot?.admin ?? "");
+    const tablePaused = useTableSlice(store, (s) => s.snapshot?.paused ?? false);
+    const adminOnlyStart = useTableSlice(store, (s) => s.snapshot?.adminOnlyStart ?? false);
+    const pendingLeaves = useTableSlice(store, (s) => s.snapshot?.pendingLeaves ?? NO_PENDING_LEAVES);
+    const encryptedHoleCards = useTableSlice(store, (s) => s.snapshot?.encryptedHoleCards ?? NO_HOLE_CARDS);
+    const playersInHand = useTableSlice(store, (s) => s.snapshot?.playersInHand ?? NO_PLAYERS);
+    const commitStatus = useTableSlice(store, (s) => s.snapshot?.commitStatus ?? NO_COMMITS);
+    const commitDeadline = useTableSlice(store, (s) => s.snapshot?.commitDeadline ?? 0);
+    const revealDeadline = useTableSlice(store, (s) => s.snapshot?.revealDeadline ?? 0);
+
     const [selectedSeat, setSelectedSeat] = useState<number | null>(null);
     const [buyIn, setBuyIn] = useState<number>(0);
     const [balance, setBalance] = useState<number>(0);
     const [joinError, setJoinError] = useState<string | null>(null);
     const [joinSuccess, setJoinSuccess] = useState<string | null>(null);
     const [joining, setJoining] = useState(false);
-    const [adminAddress, setAdminAddress] = useState<string>("");
-    const [tablePaused, setTablePaused] = useState(false);
-    const [adminOnlyStart, setAdminOnlyStart] = useState(false);
-    const [pendingLeaves, setPendingLeaves] = useState<boolean[]>([false, false, false, false, false]);
     const [adminOpen, setAdminOpen] = useState(false);
-    const [encryptedHoleCards, setEncryptedHoleCards] = useState<number[][]>([]);
-    const [playersInHand, setPlayersInHand] = useState<number[]>([]);
-    const [commitStatus, setCommitStatus] = useState<boolean[]>([]);
 
-    // Hand result data - captured when a hand ends, used for showdown modal
+    // Hand result data - captured from the HandResult event, used for showdown modal
     const [handResult, setHandResult] = useState<HandResultData | null>(null);
-    const previousPhaseRef = useRef<number | null>(null);
-    const handNumberRef = useRef<number>(0);
 
     const isAdmin = useMemo(() => {
         if (!connected || !account?.address || !adminAddress) return false;
         return adminAddress.toLowerCase() === account.address.toString().toLowerCase();
     }, [connected, account?.address, adminAddress]);
 
-    const loadTableData = async (isBackground = false) => {
-        if (!address) return;
-
-        try {
-            if (!isBackground) {
-                setLoading(true);
-                setError(null);
-            }
-
-            const [configData, stateData, seatsData, gameData, admin, paused, adminOnly, leaves, holeCardsData, playersData, commitStatusData] = await Promise.all([
-                getTableConfig(address),
-                getTableState(address),
-                getAllSeats(address),
-                getFullGameState(address),
-                getAdmin(address),
-                isPaused(address),
-                isAdminOnlyStart(address),
-                getPendingLeaves(address),
-                getEncryptedHoleCards(address),
-                getPlayersInHand(address),
-                getCommitStatus(address),
-            ]) as [Awaited<ReturnType<typeof getTableConfig>>, Awaited<ReturnType<typeof getTableState>>, Awaited<ReturnType<typeof getAllSeats>>, Awaited<ReturnType<typeof getFullGameState>>, string, boolean, boolean, boolean[], number[][], number[], boolean[]];
-
-            // Detect hand completion: phase transitions from active to WAITING
-            // Active phases are PREFLOP (3) through SHOWDOWN (7)
-            const prevPhase = previousPhaseRef.current;
-            const newPhase = gameData.phase;
-            const wasInActiveHand = prevPhase !== null && prevPhase >= GAME_PHASES.PREFLOP;
-            const handJustEnded = wasInActiveHand && newPhase === GAME_PHASES.WAITING;
-
-            // Track hand number for display
-            if (gameData.phase >= GAME_PHASES.PREFLOP && stateData.handNumber > handNumberRef.current) {
-                handNumberRef.current = stateData.handNumber;
-            }
-
-            // Debug: Log phase transition
-            console.log("DEBUG phase:", { prevPhase, newPhase, wasInActiveHand, handJustEnded, handResult: !!handResult });
-
-            // Fetch hand result events when hand ends
-            if (handJustEnded && !handResult && address) {
-                console.log("DEBUG: Hand ended, fetching HandResult events...");
-
-                // Fetch the most recent HandResult event from the blockchain
-                const events = await getHandResultEvents(address, 1);
-
-                if (events.length > 0) {
-                    const eventData = events[0];
-                    console.log("DEBUG: HandResult event found:", eventData);
-                    setHandResult(eventData);
-                } else {
-                    console.log("DEBUG: No HandResult event found, falling back to snapshot");
-                    // Fallback: Use snapshot data if no event found (shouldn't happen normally)
-                    const snapshotPot = gameState?.potSize || 0;
-                    if (snapshotPot > 0) {
-                        setHandResult({
-                            tableAddr: address,
-                            handNumber: handNumberRef.current,
-                            timestamp: Math.floor(Date.now() / 1000),
-                            communityCards: gameState?.communityCards || [],
-                            showdownSeats: [],
-                            showdownPlayers: [],
-                            showdownHoleCards: [],
-                            showdownHandTypes: [],
-                            winnerSeats: [],
-                            winnerPlayers: [],
-                            winnerAmounts: [],
-                            totalPot: snapshotPot,
-                            totalFees: 0,
-                            resultType: 0,
-                        });
-                    }
-                }
-            }
-
-            // Update the previous phase ref
-            previousPhaseRef.current = newPhase;
-
-            setConfig(configData);
-            setTableState(stateData);
-            setSeats(seatsData);
-            setGameState(gameData);
-            setAdminAddress(admin);
-            setTablePaused(paused);
-            setAdminOnlyStart(adminOnly);
-            setPendingLeaves(leaves);
-            setEncryptedHoleCards(holeCardsData);
-            setPlayersInHand(playersData);
-            setCommitStatus(commitStatusData);
-
-            // Debug: Log hole cards data
-            console.log("DEBUG hole cards:", { holeCardsData, playersData, phase: gameData.phase });
-
-            // Default to first available seat if none selected
-            const firstEmptySeat = seatsData.findIndex((s) => !s);
-            setSelectedSeat((prev) => (prev === null && firstEmptySeat >= 0 ? firstEmptySeat : prev));
-
-            // Find player's seat
-            if (account?.address) {
-                const accountAddr = account.address.toString().toLowerCase();
-                const seatIdx = seatsData.findIndex(
-                    (s) => s?.player?.toLowerCase() === accountAddr
-                );
-                setPlayerSeat(seatIdx >= 0 ? seatIdx : null);
-            }
-        } catch (err) {
-            console.error("Failed to load table:", err);
-            // Only show full page error on initial load
-            if (!isBackground) {
-                setError("Failed to load table data. Please check the address.");
-            }
-        } finally {
-            if (!isBackground) {
-                setLoading(false);
-            }
-        }
-    };
-
+    // Find player's seat
+    const playerSeat = useMemo(() => {
+        if (!account?.address) return null;
+        const accountAddr = account.address.toString().toLowerCase();
+        const seatIdx = seats.findIndex((s) => s?.player?.toLowerCase() === accountAddr);
+        return seatIdx >= 0 ? seatIdx : null;
+    }, [seats, account?.address]);
+
+    // Own hole cards, for the action panel's equity readout
+    const holeCards = useHoleCards({
+        playerSeat,
+        tableAddress: address ?? "",
+        playerAddress: account?.address?.toString() ?? "",
+        handNumber: tableState?.handNumber ?? 0,
+        playersInHand,
+        encryptedHoleCards,
+    });
+
+    const refreshTable = useCallback(async () => {
+        await store?.resync();
+    }, [store]);
+
+    const syncTable = useCallback(() => {
+        void store?.sync();
+    }, [store]);
+
+    // Show the showdown modal when a new HandResult arrives on the stream
     useEffect(() => {
-        loadTableData();
+        if (lastHandResult) setHandResult(lastHandResult);
+    }, [lastHandResult]);
 
-        // Poll for updates every 3 seconds
-        const interval = setInterval(() => loadTableData(true), 3000);
-        return () => clearInterval(interval);
-        // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [address, account?.address]);
+    // Default to first available seat if none selected
+    useEffect(() => {
+        const firstEmptySeat = seats.findIndex((s) => !s);
+        setSelectedSeat((prev) => (prev === null && firstEmptySeat >= 0 ? firstEmptySeat : prev));
+    }, [seats]);
 
     useEffect(() => {
         if (config?.minBuyIn) {
@@ -270,10 +192,9 @@ export function Table() {
             setJoining(true);
             await joinTable(address, selectedSeat, buyIn);
             setJoinSuccess("Joined table successfully!");
-            await Promise.all([loadTableData(), refreshBalance()]);
+            await Promise.all([refreshTable(), refreshBalance()]);
         } catch (err) {
-            const message = err instanceof Error ? err.message : "Failed to join the table.";
-            setJoinError(message);
+            setJoinError(formatTransactionError(err, "Failed to join the table."));
         } finally {
             setJoining(false);
         }
@@ -304,7 +225,7 @@ export function Table() {
         return (
             <div className="table-page error">
                 <p>{error}</p>
-                <button className="btn btn-primary" onClick={() => loadTableData()}>
+                <button className="btn btn-primary" onClick={refreshTable}>
                     Retry
                 </button>
             </div>
@@ -389,6 +310,10 @@ export function Table() {
                             </button>
                         </form>
                     </section>
+
+                    {tableState && tableState.handNumber > 0 && (
+                        <HandExportPanel tableAddress={address!} handNumber={tableState.handNumber} />
+                    )}
                 </aside>
 
                 <main className="table-main">
@@ -406,6 +331,7 @@ export function Table() {
                                 tableAddress={address}
                                 playerAddress={account?.address?.toString()}
                                 handNumber={tableState?.handNumber ?? 0}
+                                liveClock
                             />
                         </div>
                     </section>
@@ -417,7 +343,11 @@ export function Table() {
                                 seatIndex={playerSeat}
                                 gameState={gameState}
                                 seatInfo={seats[playerSeat]!}
-                                onAction={loadTableData}
+                                seats={seats}
+                                config={config}
+                                holeCards={holeCards}
+                                handNumber={tableState?.handNumber ?? 0}
+                                onAction={syncTable}
                             />
                         )}
 
@@ -434,7 +364,9 @@ export function Table() {
                                 isPaused={tablePaused}
                                 playersInHand={playersInHand}
                                 commitStatus={commitStatus}
-                                onRefresh={loadTableData}
+                                commitDeadline={commitDeadline}
+                                revealDeadline={revealDeadline}
+                                onRefresh={refreshTable}
                             />
                         )}
 
@@ -469,7 +401,7 @@ export function Table() {
                             bigBlind={config.bigBlind}
                             minBuyIn={config.minBuyIn}
                             maxBuyIn={config.maxBuyIn}
-                            onRefresh={loadTableData}
+                            onRefresh={refreshTable}
                         />
                     </div>
                 </div>
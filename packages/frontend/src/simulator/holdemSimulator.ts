@@ -0,0 +1,1750 @@
+/**
+ * In-memory Texas Hold'em chain
+ *
+ * TypeScript port of texas_holdem.move and the parts of chips.move the game
+ * uses, running entirely in the browser. Transactions execute atomically
+ * against a plain-object world state: an abort rolls everything back, a
+ * success commits state, events and chip/CEDRA movements under a new ledger
+ * version. Abort codes, event payloads and view return values match the
+ * contract, so the rest of the frontend cannot tell it from a real chain.
+ *
+ * Amounts are JS numbers; the simulator is meant for play-sized stacks, not
+ * u64 edge cases.
+ */
+
+import { AccountAddress, createObjectAddress } from "@cedra-labs/ts-sdk";
+import type { MoveValue } from "@cedra-labs/ts-sdk";
+import { sha3_256 } from "@noble/hashes/sha3";
+import type { EntryFunctionArgument, EntryFunctionPayload } from "../client/holdemClient";
+import { lookupAbort, type AbortModule } from "../client/errors";
+import { deriveCardKey, xorDecryptCards } from "../utils/cardCrypto";
+import { evaluateHand, type HandEvaluation } from "../utils/handEval";
+import {
+    addBet,
+    calculateDistribution,
+    collectBets,
+    createPotState,
+    getCallAmount,
+    getMaxCurrentBet,
+    getTotalPot,
+    type PotState,
+} from "../utils/potManager";
+
+// ============================================
+// CONTRACT CONSTANTS
+// ============================================
+
+// texas_holdem.move E_*
+const E = {
+    NOT_ADMIN: 1,
+    TABLE_EXISTS: 2,
+    TABLE_NOT_FOUND: 3,
+    SEAT_TAKEN: 4,
+    NOT_AT_TABLE: 5,
+    GAME_IN_PROGRESS: 6,
+    NO_GAME: 7,
+    NOT_YOUR_TURN: 8,
+    INVALID_ACTION: 9,
+    INSUFFICIENT_CHIPS: 10,
+    INVALID_RAISE: 11,
+    NOT_ENOUGH_PLAYERS: 12,
+    ALREADY_COMMITTED: 13,
+    INVALID_SECRET: 15,
+    WRONG_PHASE: 16,
+    TABLE_FULL: 17,
+    BUY_IN_TOO_LOW: 18,
+    BUY_IN_TOO_HIGH: 19,
+    ALREADY_REVEALED: 20,
+    NO_TIMEOUT: 21,
+    STRADDLE_NOT_ALLOWED: 22,
+    STRADDLE_ALREADY_POSTED: 23,
+    INVALID_BLINDS: 25,
+    INVALID_BUY_IN: 26,
+    ZERO_VALUE: 27,
+    FEE_CONFIG_EXISTS: 28,
+    FEE_CONFIG_NOT_FOUND: 29,
+    NOT_FEE_ADMIN: 30,
+    INVALID_COMMIT_SIZE: 31,
+    INVALID_SECRET_SIZE: 32,
+    ALREADY_SEATED: 33,
+} as const;
+
+// chips.move E_*
+const E_CHIPS = {
+    INSUFFICIENT_CHIPS: 5,
+    ZERO_AMOUNT: 6,
+    TREASURY_INSUFFICIENT: 7,
+    NOT_EXACT_MULTIPLE: 8,
+} as const;
+
+const PHASE_WAITING = 0;
+const PHASE_COMMIT = 1;
+const PHASE_REVEAL = 2;
+const PHASE_PREFLOP = 3;
+const PHASE_FLOP = 4;
+const PHASE_TURN = 5;
+const PHASE_RIVER = 6;
+const PHASE_SHOWDOWN = 7;
+
+const STATUS_WAITING = 0;
+const STATUS_ACTIVE = 1;
+const STATUS_FOLDED = 2;
+const STATUS_ALL_IN = 3;
+
+const MAX_PLAYERS = 5;
+const ACTION_TIMEOUT_SECS = 60;
+const COMMIT_REVEAL_TIMEOUT_SECS = 120;
+const FEE_BASIS_POINTS = 50;
+const TIMEOUT_PENALTY_PERCENT = 10;
+const COMMIT_HASH_SIZE = 32;
+const MIN_SECRET_SIZE = 16;
+const MAX_SECRET_SIZE = 32;
+
+const CHIPS_PER_CEDRA = 1000;
+const OCTAS_PER_CEDRA = 100_000_000;
+const OCTAS_PER_CHIP = 100_000;
+
+// Object address derivation schemes (cedra_framework::object)
+const OBJECT_FROM_GUID_ADDRESS_SCHEME = 0xfd;
+
+const ZERO_ADDRESS = "0x0";
+
+// ============================================
+// WORLD STATE
+// ============================================
+
+interface Seat {
+    player: string;
+    chipCount: number;
+    isSittingOut: boolean;
+}
+
+interface Game {
+    phase: number;
+    encryptedHoleCards: number[][];
+    communityCards: number[];
+    deck: number[];
+    deckIndex: number;
+    playerStatus: number[];
+    potState: PotState;
+    playersInHand: number[];
+    actionOn: number;
+    actionDeadline: number;
+    dealerPosition: number;
+    minRaise: number;
+    lastAggressor: number | null;
+    hasActedMask: boolean[];
+    straddleHandIdx: number | null;
+    straddleAmount: number;
+    commits: number[][];
+    secrets: number[][];
+    commitDeadline: number;
+    revealDeadline: number;
+}
+
+interface Table {
+    config: {
+        smallBlind: number;
+        bigBlind: number;
+        minBuyIn: number;
+        maxBuyIn: number;
+        ante: number;
+        straddleEnabled: boolean;
+    };
+    admin: string;
+    seats: (Seat | null)[];
+    game: Game | null;
+    dealerButton: number;
+    handNumber: number;
+    totalFeesCollected: number;
+    feeAccumulator: number;
+    nextBbSeat: number;
+    missedBlinds: number[];
+    isPaused: boolean;
+    pendingLeaves: boolean[];
+    adminOnlyStart: boolean;
+}
+
+/** Everything a transaction can change; cloned for rollback */
+interface World {
+    tables: Record<string, Table>;
+    /** Admin address -> table address */
+    tableRefs: Record<string, string>;
+    feeConfig: { feeCollector: string; admin: string } | null;
+    chipBalances: Record<string, number>;
+    /** Native CEDRA, in octas */
+    cedraBalances: Record<string, number>;
+    treasuryBalance: number;
+    chipSupply: number;
+    /** Objects created per account, for object address derivation */
+    objectCounts: Record<string, number>;
+}
+
+// ============================================
+// TRANSACTIONS
+// ============================================
+
+export interface SimulatedEvent {
+    /** Fully qualified event type, e.g. 0x..::poker_events::PlayerFolded */
+    type: string;
+    data: Record<string, unknown>;
+}
+
+/** One balance movement; amount is negative for withdrawals */
+export interface SimulatedTransfer {
+    owner: string;
+    asset: "chips" | "cedra";
+    amount: number;
+}
+
+export interface SimulatedTransaction {
+    hash: string;
+    version: number;
+    sender: string;
+    payload: EntryFunctionPayload;
+    success: boolean;
+    vmStatus: string;
+    /** Empty when the transaction aborted */
+    events: SimulatedEvent[];
+    transfers: SimulatedTransfer[];
+    /** Seconds */
+    timestamp: number;
+}
+
+/** A committed event, as the indexer would return it */
+export interface SimulatedEventRecord extends SimulatedEvent {
+    version: number;
+    eventIndex: number;
+}
+
+export interface HoldemSimulatorOptions {
+    contractAddress: string;
+    /** Receives table fees and timeout penalties */
+    feeCollector?: string;
+    /** Wall clock in milliseconds, default Date.now */
+    clock?: () => number;
+}
+
+/**
+ * A transaction failure with the VM status the chain would report
+ */
+export class SimulatedAbort extends Error {
+    readonly vmStatus: string;
+
+    constructor(vmStatus: string) {
+        super(vmStatus);
+        this.name = "SimulatedAbort";
+        this.vmStatus = vmStatus;
+    }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function longAddress(address: string): string {
+    return AccountAddress.from(address).toStringLong();
+}
+
+function shortAddress(address: string): string {
+    return AccountAddress.from(address).toString();
+}
+
+function u64Bytes(value: number): Uint8Array {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setBigUint64(0, BigInt(value), true);
+    return bytes;
+}
+
+function concatBytes(parts: (Uint8Array | number[])[]): Uint8Array {
+    const total = parts.reduce((sum, part) => sum + part.length, 0);
+    const result = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function toHex(bytes: Uint8Array | number[]): string {
+    return `0x${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function sameBytes(a: Uint8Array | number[], b: Uint8Array | number[]): boolean {
+    return a.length === b.length && Array.from(a).every((byte, i) => byte === b[i]);
+}
+
+function ensure(condition: boolean, vmStatus: () => string) {
+    if (!condition) throw new SimulatedAbort(vmStatus());
+}
+
+function missingData(): SimulatedAbort {
+    return new SimulatedAbort("MISSING_DATA");
+}
+
+/** vector::borrow; out-of-range indices abort like the Move stdlib */
+function at<T>(vec: T[], idx: number): T {
+    if (idx < 0 || idx >= vec.length) {
+        throw new SimulatedAbort("Move abort in 0x1::vector: EINDEX_OUT_OF_BOUNDS(0x20000): Index out of bounds");
+    }
+    return vec[idx];
+}
+
+function seatAt(seats: (Seat | null)[], idx: number): Seat {
+    const seat = at(seats, idx);
+    if (!seat) throw new SimulatedAbort("Move abort in 0x1::option: EOPTION_NOT_SET(0x40001): The option is None");
+    return seat;
+}
+
+// Entry function arguments arrive as JSON-style values from buildPayload
+
+function u64Arg(args: EntryFunctionArgument[], i: number): number {
+    const value = args[i];
+    const n = typeof value === "number" ? value : typeof value === "string" && /^\d+$/.test(value) ? Number(value) : NaN;
+    if (!Number.isSafeInteger(n) || n < 0) throw new Error(`Argument ${i} is not a u64: ${String(value)}`);
+    return n;
+}
+
+function boolArg(args: EntryFunctionArgument[], i: number): boolean {
+    const value = args[i];
+    if (typeof value === "boolean") return value;
+    if (value === "true" || value === "false") return value === "true";
+    throw new Error(`Argument ${i} is not a bool: ${String(value)}`);
+}
+
+function addressArg(args: EntryFunctionArgument[], i: number): string {
+    const value = args[i];
+    if (typeof value !== "string") throw new Error(`Argument ${i} is not an address: ${String(value)}`);
+    return longAddress(value);
+}
+
+function bytesArg(args: EntryFunctionArgument[], i: number): number[] {
+    const value = args[i];
+    if (Array.isArray(value) && value.every((b) => Number.isInteger(b) && b >= 0 && b <= 255)) return [...value];
+    if (typeof value === "string" && /^0x([0-9a-f]{2})*$/i.test(value)) {
+        return (value.slice(2).match(/../g) ?? []).map((b) => parseInt(b, 16));
+    }
+    throw new Error(`Argument ${i} is not a vector<u8>: ${String(value)}`);
+}
+
+type Entry = (sender: string, args: EntryFunctionArgument[]) => void;
+type View = (args: EntryFunctionArgument[]) => MoveValue[];
+
+// ============================================
+// SIMULATOR
+// ============================================
+
+export class HoldemSimulator {
+    readonly contractAddress: string;
+    readonly chipMetadata: string;
+    private readonly clock: () => number;
+    private world: World;
+    private version = 0;
+    private clockOffset = 0;
+    private readonly transactions = new Map<string, SimulatedTransaction>();
+    private readonly eventLog: SimulatedEventRecord[] = [];
+    // Effects of the transaction being executed
+    private pending: { events: SimulatedEvent[]; transfers: SimulatedTransfer[]; blockHeight: number } | null = null;
+
+    private readonly entries: Record<string, Record<string, Entry>>;
+    private readonly views: Record<string, Record<string, View>>;
+
+    constructor({ contractAddress, feeCollector, clock = Date.now }: HoldemSimulatorOptions) {
+        this.contractAddress = contractAddress;
+        this.clock = clock;
+        // chips::init_module creates the named object "POKER_CHIPS" under the deployer
+        this.chipMetadata = createObjectAddress(AccountAddress.from(contractAddress), "POKER_CHIPS").toStringLong();
+
+        const deployer = longAddress(contractAddress);
+        this.world = {
+            tables: {},
+            tableRefs: {},
+            // init_fee_config, as run after publishing
+            feeConfig: { feeCollector: longAddress(feeCollector ?? contractAddress), admin: deployer },
+            chipBalances: {},
+            cedraBalances: {},
+            treasuryBalance: 0,
+            chipSupply: 0,
+            objectCounts: {},
+        };
+
+        this.entries = {
+            texas_holdem: {
+                create_table: (s, a) =>
+                    this.createTable(s, u64Arg(a, 0), u64Arg(a, 1), u64Arg(a, 2), u64Arg(a, 3), u64Arg(a, 4), boolArg(a, 5)),
+                join_table: (s, a) => this.joinTable(s, addressArg(a, 0), u64Arg(a, 1), u64Arg(a, 2)),
+                leave_table: (s, a) => this.leaveTable(s, addressArg(a, 0)),
+                sit_out: (s, a) => this.sitOut(s, addressArg(a, 0)),
+                sit_in: (s, a) => this.sitIn(s, addressArg(a, 0)),
+                top_up: (s, a) => this.topUp(s, addressArg(a, 0), u64Arg(a, 1)),
+                cleanup_table_ref: (s) => this.cleanupTableRef(s),
+                close_table: (s, a) => this.closeTable(s, addressArg(a, 0)),
+                update_blinds: (s, a) => this.updateBlinds(s, addressArg(a, 0), u64Arg(a, 1), u64Arg(a, 2)),
+                update_ante: (s, a) => this.updateAnte(s, addressArg(a, 0), u64Arg(a, 1)),
+                toggle_straddle: (s, a) => this.toggleStraddle(s, addressArg(a, 0), boolArg(a, 1)),
+                update_buy_in_limits: (s, a) => this.updateBuyInLimits(s, addressArg(a, 0), u64Arg(a, 1), u64Arg(a, 2)),
+                kick_player: (s, a) => this.kickPlayer(s, addressArg(a, 0), u64Arg(a, 1)),
+                force_sit_out: (s, a) => this.forceSitOut(s, addressArg(a, 0), u64Arg(a, 1)),
+                transfer_ownership: (s, a) => this.transferOwnership(s, addressArg(a, 0), addressArg(a, 1)),
+                init_fee_config: (s, a) => this.initFeeConfig(s, addressArg(a, 0)),
+                update_fee_collector: (s, a) => this.updateFeeCollector(s, addressArg(a, 0)),
+                transfer_fee_admin: (s, a) => this.transferFeeAdmin(s, addressArg(a, 0)),
+                pause_table: (s, a) => this.setPaused(s, addressArg(a, 0), true),
+                resume_table: (s, a) => this.setPaused(s, addressArg(a, 0), false),
+                toggle_admin_only_start: (s, a) => this.toggleAdminOnlyStart(s, addressArg(a, 0), boolArg(a, 1)),
+                leave_after_hand: (s, a) => this.setPendingLeave(s, addressArg(a, 0), true),
+                cancel_leave_after_hand: (s, a) => this.setPendingLeave(s, addressArg(a, 0), false),
+                emergency_abort: (s, a) => this.emergencyAbort(s, addressArg(a, 0)),
+                start_hand: (s, a) => this.startHand(s, addressArg(a, 0)),
+                submit_commit: (s, a) => this.submitCommit(s, addressArg(a, 0), bytesArg(a, 1)),
+                reveal_secret: (s, a) => this.revealSecret(s, addressArg(a, 0), bytesArg(a, 1)),
+                fold: (s, a) => this.fold(s, addressArg(a, 0)),
+                check: (s, a) => this.check(s, addressArg(a, 0)),
+                call: (s, a) => this.call(s, addressArg(a, 0)),
+                raise_to: (s, a) => this.raiseTo(s, addressArg(a, 0), u64Arg(a, 1)),
+                all_in: (s, a) => this.allIn(s, addressArg(a, 0)),
+                straddle: (s, a) => this.straddle(s, addressArg(a, 0)),
+                handle_timeout: (_s, a) => this.handleTimeout(addressArg(a, 0)),
+            },
+            chips: {
+                buy_chips: (s, a) => this.buyChips(s, u64Arg(a, 0)),
+                cash_out: (s, a) => this.cashOut(s, u64Arg(a, 0)),
+            },
+        };
+
+        this.views = {
+            texas_holdem: this.holdemViews(),
+            chips: {
+                balance: (a) => [String(this.world.chipBalances[addressArg(a, 0)] ?? 0)],
+                get_metadata: () => [{ inner: this.chipMetadata }],
+                get_treasury_balance: () => [String(this.world.treasuryBalance)],
+                get_exchange_rate: () => [String(CHIPS_PER_CEDRA)],
+                get_total_chip_supply: () => [String(this.world.chipSupply)],
+            },
+        };
+    }
+
+    // ============================================
+    // CHAIN
+    // ============================================
+
+    /** Chain time in seconds */
+    now(): number {
+        return Math.floor(this.clock() / 1000) + this.clockOffset;
+    }
+
+    /** Move chain time forward, e.g. to reach a timeout without waiting */
+    advanceTime(seconds: number) {
+        this.clockOffset += seconds;
+    }
+
+    get ledgerVersion(): number {
+        return this.version;
+    }
+
+    /** Faucet: credit native CEDRA, in octas */
+    fund(address: string, octas: number) {
+        const owner = longAddress(address);
+        this.world.cedraBalances[owner] = (this.world.cedraBalances[owner] ?? 0) + octas;
+    }
+
+    /** chips::mint_test_chips: mint chips without paying CEDRA into the treasury */
+    mintTestChips(address: string, amount: number) {
+        const owner = longAddress(address);
+        this.world.chipBalances[owner] = (this.world.chipBalances[owner] ?? 0) + amount;
+        this.world.chipSupply += amount;
+    }
+
+    cedraBalance(address: string): number {
+        return this.world.cedraBalances[longAddress(address)] ?? 0;
+    }
+
+    /** Execute and commit an entry function call. Aborted calls are committed as failed. */
+    submit(sender: string, payload: EntryFunctionPayload): SimulatedTransaction {
+        return this.execute(sender, payload, true);
+    }
+
+    /** Execute an entry function call without committing anything */
+    simulate(sender: string, payload: EntryFunctionPayload): SimulatedTransaction {
+        return this.execute(sender, payload, false);
+    }
+
+    getTransaction(hash: string): SimulatedTransaction | null {
+        return this.transactions.get(hash) ?? null;
+    }
+
+    getTransactionByVersion(version: number): SimulatedTransaction | null {
+        for (const transaction of this.transactions.values()) {
+            if (transaction.version === version) return transaction;
+        }
+        return null;
+    }
+
+    /** Committed events, oldest first */
+    getEvents(): readonly SimulatedEventRecord[] {
+        return this.eventLog;
+    }
+
+    /** Call a view function; failures throw SimulatedAbort */
+    view(functionId: string, args: EntryFunctionArgument[]): MoveValue[] {
+        const view = this.resolve(this.views, functionId);
+        return view(args);
+    }
+
+    private resolve<T>(table: Record<string, Record<string, T>>, functionId: string): T {
+        const [address, module, name] = functionId.split("::");
+        const fn = address && AccountAddress.from(address).equals(AccountAddress.from(this.contractAddress)) ? table[module]?.[name] : undefined;
+        if (!fn) throw new Error(`Function ${functionId} does not exist on the simulator`);
+        return fn;
+    }
+
+    private execute(sender: string, payload: EntryFunctionPayload, commit: boolean): SimulatedTransaction {
+        const entry = this.resolve(this.entries, payload.function);
+        const signer = longAddress(sender);
+        const version = this.version + 1;
+        const snapshot = structuredClone(this.world);
+
+        this.pending = { events: [], transfers: [], blockHeight: version };
+        let success = true;
+        let vmStatus = "Executed successfully";
+        try {
+            entry(signer, payload.functionArguments);
+        } catch (err) {
+            if (!(err instanceof SimulatedAbort)) {
+                this.world = snapshot;
+                this.pending = null;
+                throw err;
+            }
+            success = false;
+            vmStatus = err.vmStatus;
+        }
+        const effects = this.pending;
+        this.pending = null;
+        if (!success || !commit) this.world = snapshot;
+
+        const transaction: SimulatedTransaction = {
+            hash: toHex(sha3_256(new TextEncoder().encode(`${version}:${signer}:${JSON.stringify(payload)}:${this.clock()}`))),
+            version,
+            sender: signer,
+            payload,
+            success,
+            vmStatus,
+            events: success ? effects.events : [],
+            transfers: success ? effects.transfers : [],
+            timestamp: this.now(),
+        };
+
+        if (commit) {
+            this.version = version;
+            this.transactions.set(transaction.hash, transaction);
+            transaction.events.forEach((event, eventIndex) => this.eventLog.push({ ...event, version, eventIndex }));
+        }
+        return transaction;
+    }
+
+    private abort(module: AbortModule, code: number): SimulatedAbort {
+        const info = lookupAbort(module, code);
+        const constant = info ? `${info.constant}(0x${code.toString(16)})` : `0x${code.toString(16)}`;
+        return new SimulatedAbort(`Move abort in ${this.contractAddress}::${module}: ${constant}${info ? `: ${info.message}` : ""}`);
+    }
+
+    private assert(condition: boolean, code: number) {
+        ensure(condition, () => this.abort("texas_holdem", code).vmStatus);
+    }
+
+    private emit(name: string, data: Record<string, unknown>) {
+        this.pending?.events.push({ type: `${this.contractAddress}::poker_events::${name}`, data });
+    }
+
+    // ============================================
+    // CHIPS
+    // ============================================
+
+    private moveAsset(asset: "chips" | "cedra", owner: string, amount: number) {
+        const balances = asset === "chips" ? this.world.chipBalances : this.world.cedraBalances;
+        balances[owner] = (balances[owner] ?? 0) + amount;
+        if (amount !== 0) this.pending?.transfers.push({ owner, asset, amount });
+    }
+
+    /** chips::transfer_chips */
+    private transferChips(from: string, to: string, amount: number) {
+        ensure((this.world.chipBalances[from] ?? 0) >= amount, () =>
+            "Move abort in 0x1::fungible_asset: EINSUFFICIENT_BALANCE(0x10004): Insufficient balance in the store"
+        );
+        this.moveAsset("chips", from, -amount);
+        this.moveAsset("chips", to, amount);
+    }
+
+    private buyChips(player: string, cedraAmount: number) {
+        const assertChips = (condition: boolean, code: number) => ensure(condition, () => this.abort("chips", code).vmStatus);
+        assertChips(cedraAmount > 0, E_CHIPS.ZERO_AMOUNT);
+        assertChips(cedraAmount % OCTAS_PER_CHIP === 0, E_CHIPS.NOT_EXACT_MULTIPLE);
+        const chipAmount = Math.floor((cedraAmount * CHIPS_PER_CEDRA) / OCTAS_PER_CEDRA);
+        assertChips(chipAmount > 0, E_CHIPS.ZERO_AMOUNT);
+
+        ensure((this.world.cedraBalances[player] ?? 0) >= cedraAmount, () =>
+            "Move abort in 0x1::coin: EINSUFFICIENT_BALANCE(0x10006): Not enough coins to complete transaction"
+        );
+        this.moveAsset("cedra", player, -cedraAmount);
+        this.world.treasuryBalance += cedraAmount;
+        this.moveAsset("chips", player, chipAmount);
+        this.world.chipSupply += chipAmount;
+    }
+
+    private cashOut(player: string, chipAmount: number) {
+        const assertChips = (condition: boolean, code: number) => ensure(condition, () => this.abort("chips", code).vmStatus);
+        assertChips(chipAmount > 0, E_CHIPS.ZERO_AMOUNT);
+        assertChips((this.world.chipBalances[player] ?? 0) >= chipAmount, E_CHIPS.INSUFFICIENT_CHIPS);
+        const cedraAmount = Math.floor((chipAmount * OCTAS_PER_CEDRA) / CHIPS_PER_CEDRA);
+        assertChips(this.world.treasuryBalance >= cedraAmount, E_CHIPS.TREASURY_INSUFFICIENT);
+
+        this.moveAsset("chips", player, -chipAmount);
+        this.world.chipSupply -= chipAmount;
+        this.world.treasuryBalance -= cedraAmount;
+        this.moveAsset("cedra", player, cedraAmount);
+    }
+
+    // ============================================
+    // TABLE MANAGEMENT
+    // ============================================
+
+    private table(tableAddr: string): Table {
+        const table = this.world.tables[tableAddr];
+        this.assert(table !== undefined, E.TABLE_NOT_FOUND);
+        return table;
+    }
+
+    /** object::create_object: address from the creator's next GUID */
+    private createObjectAddress(creator: string): string {
+        const creationNum = this.world.objectCounts[creator] ?? 0;
+        this.world.objectCounts[creator] = creationNum + 1;
+        const guid = concatBytes([u64Bytes(creationNum), AccountAddress.from(creator).toUint8Array()]);
+        return toHex(sha3_256(concatBytes([guid, [OBJECT_FROM_GUID_ADDRESS_SCHEME]])));
+    }
+
+    private createTable(
+        admin: string,
+        smallBlind: number,
+        bigBlind: number,
+        minBuyIn: number,
+        maxBuyIn: number,
+        ante: number,
+        straddleEnabled: boolean
+    ) {
+        this.assert(this.world.tableRefs[admin] === undefined, E.TABLE_EXISTS);
+        this.assert(smallBlind > 0, E.ZERO_VALUE);
+        this.assert(bigBlind > smallBlind, E.INVALID_BLINDS);
+        this.assert(minBuyIn > 0, E.ZERO_VALUE);
+        this.assert(maxBuyIn >= minBuyIn, E.INVALID_BUY_IN);
+
+        const tableAddr = this.createObjectAddress(admin);
+        this.world.tables[tableAddr] = {
+            config: { smallBlind, bigBlind, minBuyIn, maxBuyIn, ante, straddleEnabled },
+            admin,
+            seats: new Array<Seat | null>(MAX_PLAYERS).fill(null),
+            game: null,
+            dealerButton: 0,
+            handNumber: 0,
+            totalFeesCollected: 0,
+            feeAccumulator: 0,
+            nextBbSeat: 0,
+            missedBlinds: new Array<number>(MAX_PLAYERS).fill(0),
+            isPaused: false,
+            pendingLeaves: new Array<boolean>(MAX_PLAYERS).fill(false),
+            adminOnlyStart: false,
+        };
+        this.world.tableRefs[admin] = tableAddr;
+
+        this.emit("TableCreated", {
+            table_addr: tableAddr,
+            admin,
+            small_blind: String(smallBlind),
+            big_blind: String(bigBlind),
+            min_buy_in: String(minBuyIn),
+            max_buy_in: String(maxBuyIn),
+            ante: String(ante),
+            straddle_enabled: straddleEnabled,
+        });
+    }
+
+    private joinTable(player: string, tableAddr: string, seatIdx: number, buyIn: number) {
+        const table = this.table(tableAddr);
+        this.assert(!table.isPaused, E.INVALID_ACTION);
+        this.assert(seatIdx < MAX_PLAYERS, E.TABLE_FULL);
+        this.assert(at(table.seats, seatIdx) === null, E.SEAT_TAKEN);
+        this.assert(buyIn >= table.config.minBuyIn, E.BUY_IN_TOO_LOW);
+        this.assert(buyIn <= table.config.maxBuyIn, E.BUY_IN_TOO_HIGH);
+        this.assert(this.findPlayerSeat(table, player) >= MAX_PLAYERS, E.ALREADY_SEATED);
+        this.assert((this.world.chipBalances[player] ?? 0) >= buyIn, E.INSUFFICIENT_CHIPS);
+
+        this.transferChips(player, tableAddr, buyIn);
+        table.seats[seatIdx] = { player, chipCount: buyIn, isSittingOut: false };
+
+        this.emit("PlayerJoined", { table_addr: tableAddr, seat_idx: String(seatIdx), player, buy_in: String(buyIn) });
+    }
+
+    private leaveTable(player: string, tableAddr: string) {
+        const table = this.table(tableAddr);
+        this.assert(table.game === null, E.GAME_IN_PROGRESS);
+        const seatIdx = this.findPlayerSeat(table, player);
+        this.assert(seatIdx < MAX_PLAYERS, E.NOT_AT_TABLE);
+
+        const seat = seatAt(table.seats, seatIdx);
+        table.seats[seatIdx] = null;
+        this.transferChips(tableAddr, player, seat.chipCount);
+
+        this.emit("PlayerLeft", {
+            table_addr: tableAddr,
+            seat_idx: String(seatIdx),
+            player,
+            chips_returned: String(seat.chipCount),
+        });
+    }
+
+    private sitOut(player: string, tableAddr: string) {
+        const table = this.table(tableAddr);
+        const seatIdx = this.findPlayerSeat(table, player);
+        this.assert(seatIdx < MAX_PLAYERS, E.NOT_AT_TABLE);
+
+        seatAt(table.seats, seatIdx).isSittingOut = true;
+        // One big blind owed on return, not cumulative
+        if (table.missedBlinds[seatIdx] === 0) table.missedBlinds[seatIdx] = table.config.bigBlind;
+
+        this.emit("PlayerSatOut", { table_addr: tableAddr, seat_idx: String(seatIdx), player });
+    }
+
+    private sitIn(player: string, tableAddr: string) {
+        const table = this.table(tableAddr);
+        const seatIdx = this.findPlayerSeat(table, player);
+        this.assert(seatIdx < MAX_PLAYERS, E.NOT_AT_TABLE);
+
+        const seat = seatAt(table.seats, seatIdx);
+        const missed = table.missedBlinds[seatIdx];
+        if (missed > 0) {
+            // Dead money: leaves the stack but stays in the table's escrow
+            if (seat.chipCount >= missed) seat.chipCount -= missed;
+            table.missedBlinds[seatIdx] = 0;
+        }
+        seat.isSittingOut = false;
+
+        this.emit("PlayerSatIn", { table_addr: tableAddr, seat_idx: String(seatIdx), player });
+    }
+
+    private topUp(player: string, tableAddr: string, amount: number) {
+        const table = this.table(tableAddr);
+        this.assert(table.game === null, E.GAME_IN_PROGRESS);
+        const seatIdx = this.findPlayerSeat(table, player);
+        this.assert(seatIdx < MAX_PLAYERS, E.NOT_AT_TABLE);
+        this.assert((this.world.chipBalances[player] ?? 0) >= amount, E.INSUFFICIENT_CHIPS);
+        const seat = seatAt(table.seats, seatIdx);
+        this.assert(seat.chipCount + amount <= table.config.maxBuyIn, E.BUY_IN_TOO_HIGH);
+
+        this.transferChips(player, tableAddr, amount);
+        seat.chipCount += amount;
+
+        this.emit("PlayerToppedUp", {
+            table_addr: tableAddr,
+            seat_idx: String(seatIdx),
+            player,
+            amount: String(amount),
+            new_stack: String(seat.chipCount),
+        });
+    }
+
+    private cleanupTableRef(admin: string) {
+        const tableAddr = this.world.tableRefs[admin];
+        this.assert(tableAddr !== undefined, E.TABLE_NOT_FOUND);
+        this.assert(this.world.tables[tableAddr] === undefined, E.GAME_IN_PROGRESS);
+        delete this.world.tableRefs[admin];
+    }
+
+    private closeTable(admin: string, tableAddr: string) {
+        const table = this.table(tableAddr);
+        this.assert(table.admin === admin, E.NOT_ADMIN);
+        this.assert(table.game === null, E.GAME_IN_PROGRESS);
+        // move_from<TableRef> fails if ownership moved to an account without one
+        if (this.world.tableRefs[admin] === undefined) throw missingData();
+        delete this.world.tableRefs[admin];
+
+        this.emit("TableClosed", { table_addr: tableAddr, admin });
+        delete this.world.tables[tableAddr];
+
+        const finalFee = Math.floor(table.feeAccumulator / 10000);
+        if (finalFee > 0 && this.world.feeConfig) {
+            this.transferChips(tableAddr, this.world.feeConfig.feeCollector, finalFee);
+        }
+        for (const seat of table.seats) {
+            if (seat && seat.chipCount > 0) this.transferChips(tableAddr, seat.player, seat.chipCount);
+        }
+    }
+
+    // ============================================
+    // ADMIN CONTROLS
+    // ============================================
+
+    private adminTable(admin: string, tableAddr: string, betweenHands: boolean): Table {
+        const table = this.table(tableAddr);
+        this.assert(table.admin === admin, E.NOT_ADMIN);
+        if (betweenHands) this.assert(table.game === null, E.GAME_IN_PROGRESS);
+        return table;
+    }
+
+    private configUpdated(tableAddr: string, configType: number, value1: number, value2: number) {
+        this.emit("TableConfigUpdated", {
+            table_addr: tableAddr,
+            config_type: configType,
+            value1: String(value1),
+            value2: String(value2),
+        });
+    }
+
+    private updateBlinds(admin: string, tableAddr: string, smallBlind: number, bigBlind: number) {
+        const table = this.adminTable(admin, tableAddr, true);
+        this.assert(smallBlind > 0, E.ZERO_VALUE);
+        this.assert(bigBlind > smallBlind, E.INVALID_BLINDS);
+        table.config.smallBlind = smallBlind;
+        table.config.bigBlind = bigBlind;
+        this.configUpdated(tableAddr, 0, smallBlind, bigBlind);
+    }
+
+    private updateAnte(admin: string, tableAddr: string, ante: number) {
+        const table = this.adminTable(admin, tableAddr, true);
+        table.config.ante = ante;
+        this.configUpdated(tableAddr, 1, ante, 0);
+    }
+
+    private toggleStraddle(admin: string, tableAddr: string, enabled: boolean) {
+        const table = this.adminTable(admin, tableAddr, true);
+        table.config.straddleEnabled = enabled;
+        this.configUpdated(tableAddr, 2, enabled ? 1 : 0, 0);
+    }
+
+    private updateBuyInLimits(admin: string, tableAddr: string, minBuyIn: number, maxBuyIn: number) {
+        const table = this.adminTable(admin, tableAddr, true);
+        this.assert(minBuyIn > 0, E.ZERO_VALUE);
+        this.assert(maxBuyIn >= minBuyIn, E.INVALID_BUY_IN);
+        table.config.minBuyIn = minBuyIn;
+        table.config.maxBuyIn = maxBuyIn;
+        this.configUpdated(tableAddr, 3, minBuyIn, maxBuyIn);
+    }
+
+    private kickPlayer(admin: string, tableAddr: string, seatIdx: number) {
+        const table = this.adminTable(admin, tableAddr, true);
+        this.assert(seatIdx < MAX_PLAYERS, E.INVALID_ACTION);
+        this.assert(table.seats[seatIdx] !== null, E.NOT_AT_TABLE);
+
+        const seat = seatAt(table.seats, seatIdx);
+        table.seats[seatIdx] = null;
+        this.transferChips(tableAddr, seat.player, seat.chipCount);
+
+        this.emit("PlayerKicked", {
+            table_addr: tableAddr,
+            seat_idx: String(seatIdx),
+            player: seat.player,
+            chips_returned: String(seat.chipCount),
+        });
+    }
+
+    private forceSitOut(admin: string, tableAddr: string, seatIdx: number) {
+        const table = this.adminTable(admin, tableAddr, false);
+        this.assert(seatIdx < MAX_PLAYERS, E.INVALID_ACTION);
+        this.assert(table.seats[seatIdx] !== null, E.NOT_AT_TABLE);
+        seatAt(table.seats, seatIdx).isSittingOut = true;
+    }
+
+    private transferOwnership(admin: string, tableAddr: string, newAdmin: string) {
+        const table = this.adminTable(admin, tableAddr, false);
+        const oldAdmin = table.admin;
+        table.admin = newAdmin;
+        this.emit("OwnershipTransferred", { table_addr: tableAddr, old_admin: oldAdmin, new_admin: newAdmin });
+    }
+
+    private initFeeConfig(deployer: string, feeCollector: string) {
+        this.assert(deployer === longAddress(this.contractAddress), E.NOT_FEE_ADMIN);
+        this.assert(this.world.feeConfig === null, E.FEE_CONFIG_EXISTS);
+        this.world.feeConfig = { feeCollector, admin: deployer };
+    }
+
+    private feeConfigFor(admin: string): NonNullable<World["feeConfig"]> {
+        const config = this.world.feeConfig;
+        this.assert(config !== null, E.FEE_CONFIG_NOT_FOUND);
+        this.assert(config!.admin === admin, E.NOT_FEE_ADMIN);
+        return config!;
+    }
+
+    private updateFeeCollector(admin: string, newCollector: string) {
+        const config = this.feeConfigFor(admin);
+        const oldCollector = config.feeCollector;
+        config.feeCollector = newCollector;
+        this.emit("FeeRecipientUpdated", {
+            table_addr: longAddress(this.contractAddress),
+            old_recipient: oldCollector,
+            new_recipient: newCollector,
+        });
+    }
+
+    private transferFeeAdmin(admin: string, newAdmin: string) {
+        this.feeConfigFor(admin).admin = newAdmin;
+    }
+
+    private setPaused(admin: string, tableAddr: string, paused: boolean) {
+        this.adminTable(admin, tableAddr, false).isPaused = paused;
+    }
+
+    private toggleAdminOnlyStart(admin: string, tableAddr: string, enabled: boolean) {
+        this.adminTable(admin, tableAddr, false).adminOnlyStart = enabled;
+    }
+
+    private setPendingLeave(player: string, tableAddr: string, pending: boolean) {
+        const table = this.table(tableAddr);
+        const seatIdx = this.findPlayerSeat(table, player);
+        this.assert(seatIdx < MAX_PLAYERS, E.NOT_AT_TABLE);
+        table.pendingLeaves[seatIdx] = pending;
+    }
+
+    private emergencyAbort(admin: string, tableAddr: string) {
+        const table = this.adminTable(admin, tableAddr, false);
+        const game = table.game;
+        this.assert(game !== null, E.NO_GAME);
+
+        game!.playersInHand.forEach((seatIdx, i) => {
+            const refund = game!.potState.totalInvested[i];
+            const seat = at(table.seats, seatIdx);
+            if (refund > 0 && seat) seat.chipCount += refund;
+        });
+        table.game = null;
+
+        this.emit("HandAborted", { table_addr: tableAddr, hand_number: String(table.handNumber), reason: 2 });
+    }
+
+    // ============================================
+    // HAND LIFECYCLE
+    // ============================================
+
+    private activeGame(table: Table): Game {
+        this.assert(table.game !== null, E.NO_GAME);
+        return table.game!;
+    }
+
+    private startHand(caller: string, tableAddr: string) {
+        const table = this.table(tableAddr);
+        this.assert(table.game === null, E.GAME_IN_PROGRESS);
+        this.assert(!table.isPaused, E.INVALID_ACTION);
+        if (table.adminOnlyStart) this.assert(caller === table.admin, E.NOT_ADMIN);
+
+        const activeSeats = this.getActiveSeatIndices(table);
+        this.assert(activeSeats.length >= 2, E.NOT_ENOUGH_PLAYERS);
+
+        table.dealerButton = this.nextActiveSeat(table, table.dealerButton);
+        table.handNumber += 1;
+
+        const n = activeSeats.length;
+        table.game = {
+            phase: PHASE_COMMIT,
+            encryptedHoleCards: Array.from({ length: n }, () => []),
+            communityCards: [],
+            deck: [],
+            deckIndex: 0,
+            playerStatus: new Array<number>(n).fill(STATUS_ACTIVE),
+            potState: createPotState(n),
+            playersInHand: activeSeats,
+            actionOn: 0,
+            actionDeadline: 0,
+            dealerPosition: table.dealerButton,
+            minRaise: table.config.bigBlind,
+            lastAggressor: null,
+            hasActedMask: new Array<boolean>(n).fill(false),
+            straddleHandIdx: null,
+            straddleAmount: 0,
+            commits: Array.from({ length: n }, () => []),
+            secrets: Array.from({ length: n }, () => []),
+            commitDeadline: this.now() + COMMIT_REVEAL_TIMEOUT_SECS,
+            revealDeadline: 0,
+        };
+
+        this.emit("HandStarted", {
+            table_addr: tableAddr,
+            hand_number: String(table.handNumber),
+            dealer_seat: String(table.dealerButton),
+            player_seats: activeSeats.map(String),
+        });
+    }
+
+    private submitCommit(player: string, tableAddr: string, commitHash: number[]) {
+        const table = this.table(tableAddr);
+        this.assert(commitHash.length === COMMIT_HASH_SIZE, E.INVALID_COMMIT_SIZE);
+        const game = this.activeGame(table);
+        this.assert(game.phase === PHASE_COMMIT, E.WRONG_PHASE);
+        this.assert(this.now() <= game.commitDeadline, E.NO_TIMEOUT);
+
+        const handIdx = this.findPlayerHandIdx(game, table, player);
+        this.assert(at(game.commits, handIdx).length === 0, E.ALREADY_COMMITTED);
+
+        game.commits[handIdx] = commitHash;
+        const allCommitted = game.commits.every((commit) => commit.length > 0);
+        if (allCommitted) {
+            game.phase = PHASE_REVEAL;
+            game.revealDeadline = this.now() + COMMIT_REVEAL_TIMEOUT_SECS;
+        }
+
+        const handNumber = String(table.handNumber);
+        this.emit("CommitSubmitted", { table_addr: tableAddr, hand_number: handNumber, player });
+        if (allCommitted) {
+            this.emit("PhaseChanged", { table_addr: tableAddr, hand_number: handNumber, old_phase: PHASE_COMMIT, new_phase: PHASE_REVEAL });
+        }
+    }
+
+    private revealSecret(player: string, tableAddr: string, secret: number[]) {
+        const table = this.table(tableAddr);
+        this.assert(secret.length >= MIN_SECRET_SIZE && secret.length <= MAX_SECRET_SIZE, E.INVALID_SECRET_SIZE);
+        const game = this.activeGame(table);
+        this.assert(game.phase === PHASE_REVEAL, E.WRONG_PHASE);
+        this.assert(this.now() <= game.revealDeadline, E.NO_TIMEOUT);
+
+        const handIdx = this.findPlayerHandIdx(game, table, player);
+        this.assert(at(game.secrets, handIdx).length === 0, E.ALREADY_REVEALED);
+        this.assert(sameBytes(sha3_256(Uint8Array.from(secret)), at(game.commits, handIdx)), E.INVALID_SECRET);
+
+        game.secrets[handIdx] = secret;
+        const handNumber = String(table.handNumber);
+        this.emit("RevealSubmitted", { table_addr: tableAddr, hand_number: handNumber, player });
+        if (!game.secrets.every((s) => s.length > 0)) return;
+
+        this.shuffleDeck(game);
+        this.dealHoleCards(game);
+        this.emit("CardsDealt", { table_addr: tableAddr, hand_number: handNumber });
+
+        const totalAnte = this.postAntes(game, table.seats, table.config.ante);
+        if (totalAnte > 0) {
+            this.emit("AntesPosted", { table_addr: tableAddr, hand_number: handNumber, total_ante: String(totalAnte) });
+        }
+
+        const blinds = this.postBlinds(game, table.seats, table.config.smallBlind, table.config.bigBlind);
+        this.emit("BlindsPosted", {
+            table_addr: tableAddr,
+            hand_number: handNumber,
+            sb_seat: String(blinds.sbSeat),
+            sb_amount: String(blinds.sbAmount),
+            bb_seat: String(blinds.bbSeat),
+            bb_amount: String(blinds.bbAmount),
+        });
+
+        const n = game.playersInHand.length;
+        const bbHandIdx = this.getBigBlindHandIdx(game);
+        table.nextBbSeat = (at(game.playersInHand, bbHandIdx) + 1) % MAX_PLAYERS;
+
+        game.phase = PHASE_PREFLOP;
+        // Heads-up: dealer (SB) acts first preflop
+        game.actionOn = n === 2 ? this.getSmallBlindHandIdx(game) : (bbHandIdx + 1) % n;
+        game.actionDeadline = this.now() + ACTION_TIMEOUT_SECS;
+
+        this.emit("PhaseChanged", { table_addr: tableAddr, hand_number: handNumber, old_phase: PHASE_REVEAL, new_phase: PHASE_PREFLOP });
+    }
+
+    // ============================================
+    // PLAYER ACTIONS
+    // ============================================
+
+    /** Checks common to every betting action; returns [game, handIdx, seatIdx] */
+    private actingPlayer(table: Table, player: string): [Game, number, number] {
+        const game = this.activeGame(table);
+        this.assert(game.phase >= PHASE_PREFLOP && game.phase <= PHASE_RIVER, E.WRONG_PHASE);
+        const handIdx = this.findPlayerHandIdx(game, table, player);
+        this.assert(game.actionOn === handIdx, E.NOT_YOUR_TURN);
+        this.assert(at(game.playerStatus, handIdx) === STATUS_ACTIVE, E.INVALID_ACTION);
+        return [game, handIdx, at(game.playersInHand, handIdx)];
+    }
+
+    private actionEvent(tableAddr: string, table: Table, seatIdx: number, player: string, extra: Record<string, unknown> = {}) {
+        return { table_addr: tableAddr, hand_number: String(table.handNumber), seat_idx: String(seatIdx), player, ...extra };
+    }
+
+    private fold(player: string, tableAddr: string) {
+        const table = this.table(tableAddr);
+        const [game, handIdx, seatIdx] = this.actingPlayer(table, player);
+
+        game.playerStatus[handIdx] = STATUS_FOLDED;
+        game.hasActedMask[handIdx] = true;
+
+        this.emit("PlayerFolded", this.actionEvent(tableAddr, table, seatIdx, player));
+        this.advanceAction(table, tableAddr);
+    }
+
+    private check(player: string, tableAddr: string) {
+        const table = this.table(tableAddr);
+        const [game, handIdx, seatIdx] = this.actingPlayer(table, player);
+        this.assert(getCallAmount(game.potState, handIdx) === 0, E.INVALID_ACTION);
+
+        game.hasActedMask[handIdx] = true;
+
+        this.emit("PlayerChecked", this.actionEvent(tableAddr, table, seatIdx, player));
+        this.advanceAction(table, tableAddr);
+    }
+
+    private call(player: string, tableAddr: string) {
+        const table = this.table(tableAddr);
+        const [game, handIdx, seatIdx] = this.actingPlayer(table, player);
+        const seat = seatAt(table.seats, seatIdx);
+        const amount = Math.min(getCallAmount(game.potState, handIdx), seat.chipCount);
+
+        seat.chipCount -= amount;
+        addBet(game.potState, handIdx, amount);
+        game.hasActedMask[handIdx] = true;
+        if (seat.chipCount === 0) game.playerStatus[handIdx] = STATUS_ALL_IN;
+
+        this.emit("PlayerCalled", this.actionEvent(tableAddr, table, seatIdx, player, { amount: String(amount) }));
+        this.advanceAction(table, tableAddr);
+    }
+
+    private raiseTo(player: string, tableAddr: string, totalBet: number) {
+        const table = this.table(tableAddr);
+        const [game, handIdx, seatIdx] = this.actingPlayer(table, player);
+        const currentBet = game.potState.currentBets[handIdx];
+        const maxBet = getMaxCurrentBet(game.potState);
+        const minRaise = game.minRaise;
+
+        this.assert(totalBet >= currentBet, E.INVALID_RAISE);
+        this.assert(totalBet > maxBet, E.INVALID_RAISE);
+
+        const raiseAmount = totalBet - maxBet;
+        const seat = seatAt(table.seats, seatIdx);
+        const isAllIn = totalBet === seat.chipCount + currentBet;
+        // After a short all-in (max bet below min raise) completing to min raise is allowed
+        const isValidRaise = maxBet < minRaise ? totalBet >= minRaise || isAllIn : raiseAmount >= minRaise || isAllIn;
+        this.assert(isValidRaise, E.INVALID_RAISE);
+
+        const addAmount = totalBet - currentBet;
+        this.assert(seat.chipCount >= addAmount, E.INSUFFICIENT_CHIPS);
+
+        seat.chipCount -= addAmount;
+        addBet(game.potState, handIdx, addAmount);
+        // Only full raises reopen betting
+        if (raiseAmount >= minRaise) {
+            game.minRaise = raiseAmount;
+            game.lastAggressor = handIdx;
+            this.resetActedMaskExcept(game, handIdx);
+        } else {
+            game.hasActedMask[handIdx] = true;
+        }
+        if (seat.chipCount === 0) game.playerStatus[handIdx] = STATUS_ALL_IN;
+
+        this.emit("PlayerRaised", this.actionEvent(tableAddr, table, seatIdx, player, { raise_to: String(totalBet) }));
+        this.advanceAction(table, tableAddr);
+    }
+
+    private allIn(player: string, tableAddr: string) {
+        const table = this.table(tableAddr);
+        const [game, handIdx, seatIdx] = this.actingPlayer(table, player);
+        const seat = seatAt(table.seats, seatIdx);
+        const amount = seat.chipCount;
+        const maxBet = getMaxCurrentBet(game.potState);
+        const currentBet = game.potState.currentBets[handIdx];
+
+        seat.chipCount = 0;
+        addBet(game.potState, handIdx, amount);
+        game.playerStatus[handIdx] = STATUS_ALL_IN;
+
+        const newTotalBet = currentBet + amount;
+        if (newTotalBet > maxBet && newTotalBet - maxBet >= game.minRaise) {
+            game.lastAggressor = handIdx;
+            game.minRaise = newTotalBet - maxBet;
+            this.resetActedMaskExcept(game, handIdx);
+        } else {
+            game.hasActedMask[handIdx] = true;
+        }
+
+        this.emit("PlayerWentAllIn", this.actionEvent(tableAddr, table, seatIdx, player, { amount: String(amount) }));
+        this.advanceAction(table, tableAddr);
+    }
+
+    private straddle(player: string, tableAddr: string) {
+        const table = this.table(tableAddr);
+        const game = this.activeGame(table);
+        this.assert(table.config.straddleEnabled, E.STRADDLE_NOT_ALLOWED);
+        this.assert(game.phase === PHASE_PREFLOP, E.WRONG_PHASE);
+        this.assert(game.straddleHandIdx === null, E.STRADDLE_ALREADY_POSTED);
+
+        const handIdx = this.findPlayerHandIdx(game, table, player);
+        this.assert(game.actionOn === handIdx, E.NOT_YOUR_TURN);
+        this.assert(!at(game.hasActedMask, handIdx), E.INVALID_ACTION);
+
+        const amount = table.config.bigBlind * 2;
+        const seatIdx = at(game.playersInHand, handIdx);
+        const seat = seatAt(table.seats, seatIdx);
+        this.assert(seat.chipCount >= amount, E.INSUFFICIENT_CHIPS);
+
+        seat.chipCount -= amount;
+        addBet(game.potState, handIdx, amount);
+        game.straddleHandIdx = handIdx;
+        game.straddleAmount = amount;
+        game.minRaise = amount;
+
+        // The straddler keeps the option, so action moves on without marking them acted
+        const n = game.playersInHand.length;
+        game.actionOn = (handIdx + 1) % n;
+        while (game.playerStatus[game.actionOn] !== STATUS_ACTIVE) {
+            game.actionOn = (game.actionOn + 1) % n;
+        }
+        game.actionDeadline = this.now() + ACTION_TIMEOUT_SECS;
+
+        this.emit("StraddlePosted", this.actionEvent(tableAddr, table, seatIdx, player, { amount: String(amount) }));
+    }
+
+    private handleTimeout(tableAddr: string) {
+        const table = this.table(tableAddr);
+        const game = this.activeGame(table);
+        const now = this.now();
+        const handNumber = String(table.handNumber);
+        const phase = game.phase;
+
+        if (phase === PHASE_COMMIT || phase === PHASE_REVEAL) {
+            const isCommit = phase === PHASE_COMMIT;
+            this.assert(now > (isCommit ? game.commitDeadline : game.revealDeadline), E.NO_TIMEOUT);
+
+            const submitted = isCommit ? game.commits : game.secrets;
+            submitted.forEach((bytes, i) => {
+                if (bytes.length > 0) return;
+                const seatIdx = at(game.playersInHand, i);
+                const seat = seatAt(table.seats, seatIdx);
+                const penalty = Math.floor((seat.chipCount * TIMEOUT_PENALTY_PERCENT) / 100);
+                if (penalty > 0) {
+                    seat.chipCount -= penalty;
+                    this.transferChips(tableAddr, this.feeCollector(), penalty);
+                    table.totalFeesCollected += penalty;
+                }
+                seat.isSittingOut = true;
+                this.emit("TimeoutTriggered", {
+                    table_addr: tableAddr,
+                    hand_number: handNumber,
+                    phase,
+                    seat_idx: String(seatIdx),
+                    penalty: String(penalty),
+                });
+            });
+
+            // The deck cannot be shuffled without everyone's entropy
+            table.game = null;
+            this.emit("HandAborted", { table_addr: tableAddr, hand_number: handNumber, reason: isCommit ? 0 : 1 });
+        } else if (phase >= PHASE_PREFLOP && phase <= PHASE_RIVER) {
+            this.assert(now > game.actionDeadline, E.NO_TIMEOUT);
+            const actionOn = game.actionOn;
+            const seatIdx = at(game.playersInHand, actionOn);
+            game.playerStatus[actionOn] = STATUS_FOLDED;
+            game.hasActedMask[actionOn] = true;
+
+            this.emit("TimeoutTriggered", {
+                table_addr: tableAddr,
+                hand_number: handNumber,
+                phase,
+                seat_idx: String(seatIdx),
+                penalty: "0",
+            });
+            this.advanceAction(table, tableAddr);
+        }
+    }
+
+    // ============================================
+    // INTERNAL GAME LOGIC
+    // ============================================
+
+    private feeCollector(): string {
+        // borrow_global<FeeConfig> aborts when fees were never initialized
+        if (!this.world.feeConfig) throw missingData();
+        return this.world.feeConfig.feeCollector;
+    }
+
+    private advanceAction(table: Table, tableAddr: string) {
+        const game = table.game!;
+        if (this.countActivePlayers(game) <= 1) {
+            this.endHandFold(table, tableAddr);
+        } else if (this.isBettingComplete(game)) {
+            collectBets(game.potState, this.nonFoldedMask(game));
+            this.advancePhase(table, tableAddr);
+        } else {
+            game.actionOn = this.nextActiveHandIdx(game);
+            game.actionDeadline = this.now() + ACTION_TIMEOUT_SECS;
+        }
+    }
+
+    private advancePhase(table: Table, tableAddr: string) {
+        const game = table.game!;
+        const handNumber = String(table.handNumber);
+        game.lastAggressor = null;
+        game.minRaise = table.config.bigBlind;
+        game.hasActedMask.fill(false);
+
+        const n = game.playersInHand.length;
+        const activeCount = game.playerStatus.filter((status) => status === STATUS_ACTIVE).length;
+        if (activeCount <= 1) {
+            this.runOutToShowdown(table, tableAddr);
+            return;
+        }
+
+        // Heads-up: dealer (SB) acts first on every postflop street
+        const dealerIdx = this.getDealerHandIdx(game);
+        game.actionOn = n === 2 ? dealerIdx : (dealerIdx + 1) % n;
+        const start = game.actionOn;
+        while (at(game.playerStatus, game.actionOn) !== STATUS_ACTIVE) {
+            game.actionOn = (game.actionOn + 1) % n;
+            if (game.actionOn === start) {
+                this.runOutToShowdown(table, tableAddr);
+                return;
+            }
+        }
+
+        const oldPhase = game.phase;
+        let dealt: number[];
+        if (oldPhase === PHASE_PREFLOP) {
+            game.phase = PHASE_FLOP;
+            dealt = this.dealCommunityCards(game, 3);
+        } else if (oldPhase === PHASE_FLOP) {
+            game.phase = PHASE_TURN;
+            dealt = this.dealCommunityCards(game, 1);
+        } else if (oldPhase === PHASE_TURN) {
+            game.phase = PHASE_RIVER;
+            dealt = this.dealCommunityCards(game, 1);
+        } else {
+            game.phase = PHASE_SHOWDOWN;
+            this.emit("PhaseChanged", { table_addr: tableAddr, hand_number: handNumber, old_phase: oldPhase, new_phase: PHASE_SHOWDOWN });
+            this.runShowdown(table, tableAddr);
+            return;
+        }
+
+        this.emit("PhaseChanged", { table_addr: tableAddr, hand_number: handNumber, old_phase: oldPhase, new_phase: game.phase });
+        this.emit("CommunityCardsDealt", { table_addr: tableAddr, hand_number: handNumber, phase: game.phase, cards: toHex(dealt) });
+        game.actionDeadline = this.now() + ACTION_TIMEOUT_SECS;
+    }
+
+    /** No more betting possible: deal the rest of the board and go to showdown */
+    private runOutToShowdown(table: Table, tableAddr: string) {
+        const game = table.game!;
+        const handNumber = String(table.handNumber);
+        const oldPhase = game.phase;
+        const runout = game.communityCards.length < 5 ? this.dealCommunityCards(game, 5 - game.communityCards.length) : [];
+        game.phase = PHASE_SHOWDOWN;
+
+        this.emit("PhaseChanged", { table_addr: tableAddr, hand_number: handNumber, old_phase: oldPhase, new_phase: PHASE_SHOWDOWN });
+        if (runout.length > 0) {
+            this.emit("CommunityCardsDealt", { table_addr: tableAddr, hand_number: handNumber, phase: PHASE_SHOWDOWN, cards: toHex(runout) });
+        }
+        this.runShowdown(table, tableAddr);
+    }
+
+    /** Add a pot's fee contribution to the accumulator and take out whole chips */
+    private takeFee(table: Table, totalPot: number): number {
+        table.feeAccumulator += totalPot * FEE_BASIS_POINTS;
+        const fee = Math.floor(table.feeAccumulator / 10000);
+        table.feeAccumulator %= 10000;
+        return fee;
+    }
+
+    private runShowdown(table: Table, tableAddr: string) {
+        const game = table.game!;
+        const n = game.playersInHand.length;
+        const rankings: HandEvaluation[] = [];
+        const showdownSeats: string[] = [];
+        const showdownPlayers: string[] = [];
+        const showdownHoleCards: string[] = [];
+        const showdownHandTypes: number[] = [];
+
+        for (let i = 0; i < n; i++) {
+            const status = game.playerStatus[i];
+            const seatIdx = game.playersInHand[i];
+            if (status !== STATUS_ACTIVE && status !== STATUS_ALL_IN) {
+                rankings.push({ handType: 0, tiebreaker: 0 });
+                continue;
+            }
+            const holeCards = xorDecryptCards(game.encryptedHoleCards[i], deriveCardKey(Uint8Array.from(game.secrets[i]), seatIdx));
+            const ranking = evaluateHand([...holeCards, ...game.communityCards]);
+            rankings.push(ranking);
+            showdownSeats.push(String(seatIdx));
+            showdownPlayers.push(seatAt(table.seats, seatIdx).player);
+            showdownHoleCards.push(toHex(holeCards));
+            showdownHandTypes.push(ranking.handType);
+        }
+
+        const distributions = calculateDistribution(game.potState, rankings, this.nonFoldedMask(game), this.getDealerHandIdx(game), n);
+        const totalPot = getTotalPot(game.potState);
+        const fee = this.takeFee(table, totalPot);
+        const netPot = Math.max(0, totalPot - fee);
+
+        const winners = distributions.map(({ playerIdx, amount }) => {
+            // Each winner's share of the pot, scaled down to the net pot
+            const netAmount = totalPot > 0 ? Math.floor((amount * netPot) / totalPot) : 0;
+            const seatIdx = at(game.playersInHand, playerIdx);
+            const seat = seatAt(table.seats, seatIdx);
+            seat.chipCount += netAmount;
+            return { seatIdx, player: seat.player, amount: netAmount };
+        });
+
+        if (fee > 0) {
+            this.transferChips(tableAddr, this.feeCollector(), fee);
+            table.totalFeesCollected += fee;
+        }
+
+        const handNumber = String(table.handNumber);
+        const board = toHex(game.communityCards);
+        this.emit("ShowdownStarted", { table_addr: tableAddr, hand_number: handNumber, board });
+        winners.forEach((winner, w) => {
+            this.emit("PotAwarded", {
+                table_addr: tableAddr,
+                hand_number: handNumber,
+                winner_seat: String(winner.seatIdx),
+                winner: winner.player,
+                amount: String(winner.amount),
+                fee_deducted: String(w === 0 ? fee : 0),
+            });
+        });
+        this.emit("HandEnded", { table_addr: tableAddr, hand_number: handNumber, total_pot: String(totalPot), total_fees: String(fee) });
+        this.emit("HandResult", {
+            table_addr: tableAddr,
+            hand_number: handNumber,
+            timestamp: String(this.now()),
+            community_cards: board,
+            showdown_seats: showdownSeats,
+            showdown_players: showdownPlayers,
+            showdown_hole_cards: showdownHoleCards,
+            showdown_hand_types: toHex(showdownHandTypes),
+            winner_seats: winners.map((winner) => String(winner.seatIdx)),
+            winner_players: winners.map((winner) => winner.player),
+            winner_amounts: winners.map((winner) => String(winner.amount)),
+            total_pot: String(totalPot),
+            total_fees: String(fee),
+            result_type: 0,
+        });
+
+        this.processPendingLeaves(table, tableAddr);
+        table.game = null;
+    }
+
+    private endHandFold(table: Table, tableAddr: string) {
+        const game = table.game!;
+        collectBets(game.potState, this.nonFoldedMask(game));
+
+        const found = game.playerStatus.findIndex((status) => status !== STATUS_FOLDED);
+        const winnerHandIdx = found >= 0 ? found : 0;
+        const total = getTotalPot(game.potState);
+        const seatIdx = at(game.playersInHand, winnerHandIdx);
+        const fee = this.takeFee(table, total);
+        const netAmount = Math.max(0, total - fee);
+
+        const seat = seatAt(table.seats, seatIdx);
+        seat.chipCount += netAmount;
+
+        if (fee > 0) {
+            this.transferChips(tableAddr, this.feeCollector(), fee);
+            table.totalFeesCollected += fee;
+        }
+
+        const handNumber = String(table.handNumber);
+        this.emit("FoldWin", {
+            table_addr: tableAddr,
+            hand_number: handNumber,
+            winner_seat: String(seatIdx),
+            winner: seat.player,
+            amount: String(netAmount),
+        });
+        this.emit("HandEnded", { table_addr: tableAddr, hand_number: handNumber, total_pot: String(total), total_fees: String(fee) });
+        // Fold wins reveal no cards
+        this.emit("HandResult", {
+            table_addr: tableAddr,
+            hand_number: handNumber,
+            timestamp: String(this.now()),
+            community_cards: toHex(game.communityCards),
+            showdown_seats: [],
+            showdown_players: [],
+            showdown_hole_cards: [],
+            showdown_hand_types: "0x",
+            winner_seats: [String(seatIdx)],
+            winner_players: [seat.player],
+            winner_amounts: [String(netAmount)],
+            total_pot: String(total),
+            total_fees: String(fee),
+            result_type: 1,
+        });
+
+        this.processPendingLeaves(table, tableAddr);
+        table.game = null;
+    }
+
+    private processPendingLeaves(table: Table, tableAddr: string) {
+        for (let i = 0; i < MAX_PLAYERS; i++) {
+            const seat = table.seats[i];
+            if (!table.pendingLeaves[i] || !seat) continue;
+            table.seats[i] = null;
+            if (seat.chipCount > 0) this.transferChips(tableAddr, seat.player, seat.chipCount);
+            table.pendingLeaves[i] = false;
+            this.emit("PlayerLeft", {
+                table_addr: tableAddr,
+                seat_idx: String(i),
+                player: seat.player,
+                chips_returned: String(seat.chipCount),
+            });
+        }
+    }
+
+    private shuffleDeck(game: Game) {
+        // Secrets, the fixed deadlines and the block height seed the shuffle
+        const seed = concatBytes([
+            ...game.secrets,
+            u64Bytes(game.commitDeadline),
+            u64Bytes(game.revealDeadline),
+            u64Bytes(this.pending?.blockHeight ?? this.version),
+        ]);
+
+        const deck = Array.from({ length: 52 }, (_, card) => card);
+        let hashState = sha3_256(seed);
+        for (let n = 52; n > 1; ) {
+            hashState = sha3_256(hashState);
+            let rand = 0n;
+            for (let b = 0; b < 8; b++) rand = (rand << 8n) | BigInt(hashState[b]);
+            const j = Number(rand % BigInt(n));
+            n -= 1;
+            [deck[n], deck[j]] = [deck[j], deck[n]];
+        }
+
+        game.deck = deck;
+        game.deckIndex = 0;
+    }
+
+    private dealHoleCards(game: Game) {
+        game.playersInHand.forEach((seatIdx, p) => {
+            const cards = [at(game.deck, game.deckIndex), at(game.deck, game.deckIndex + 1)];
+            game.deckIndex += 2;
+            // XOR is symmetric, so decrypting encrypts
+            game.encryptedHoleCards[p] = xorDecryptCards(cards, deriveCardKey(Uint8Array.from(game.secrets[p]), seatIdx));
+        });
+    }
+
+    private dealCommunityCards(game: Game, count: number): number[] {
+        const dealt: number[] = [];
+        for (let i = 0; i < count; i++) {
+            const card = at(game.deck, game.deckIndex);
+            game.communityCards.push(card);
+            dealt.push(card);
+            game.deckIndex += 1;
+        }
+        return dealt;
+    }
+
+    /** Post one forced bet, capped at the stack (short stacks go all-in) */
+    private postForcedBet(game: Game, seats: (Seat | null)[], handIdx: number, amount: number): number {
+        const seat = seatAt(seats, at(game.playersInHand, handIdx));
+        let posted = amount;
+        if (seat.chipCount < posted) {
+            posted = seat.chipCount;
+            game.playerStatus[handIdx] = STATUS_ALL_IN;
+        }
+        seat.chipCount -= posted;
+        addBet(game.potState, handIdx, posted);
+        return posted;
+    }
+
+    private postAntes(game: Game, seats: (Seat | null)[], ante: number): number {
+        if (ante === 0) return 0;
+        return game.playersInHand.reduce((total, _seatIdx, i) => total + this.postForcedBet(game, seats, i, ante), 0);
+    }
+
+    private postBlinds(game: Game, seats: (Seat | null)[], sb: number, bb: number) {
+        const sbHandIdx = this.getSmallBlindHandIdx(game);
+        const bbHandIdx = this.getBigBlindHandIdx(game);
+        const sbAmount = this.postForcedBet(game, seats, sbHandIdx, sb);
+        const bbAmount = this.postForcedBet(game, seats, bbHandIdx, bb);
+        game.minRaise = bb;
+        return {
+            sbSeat: game.playersInHand[sbHandIdx],
+            sbAmount,
+            bbSeat: game.playersInHand[bbHandIdx],
+            bbAmount,
+        };
+    }
+
+    // ============================================
+    // HELPER FUNCTIONS
+    // ============================================
+
+    private findPlayerSeat(table: Table, player: string): number {
+        const idx = table.seats.findIndex((seat) => seat?.player === player);
+        return idx >= 0 ? idx : MAX_PLAYERS;
+    }
+
+    /** Hand index of a player, or the hand size when not in the hand */
+    private findPlayerHandIdx(game: Game, table: Table, player: string): number {
+        const idx = game.playersInHand.findIndex((seatIdx) => seatAt(table.seats, seatIdx).player === player);
+        return idx >= 0 ? idx : game.playersInHand.length;
+    }
+
+    private resetActedMaskExcept(game: Game, exceptIdx: number) {
+        game.hasActedMask.forEach((_, i) => {
+            if (i === exceptIdx) game.hasActedMask[i] = true;
+            else if (game.playerStatus[i] === STATUS_ACTIVE) game.hasActedMask[i] = false;
+        });
+    }
+
+    private getActiveSeatIndices(table: Table): number[] {
+        const active: number[] = [];
+        table.seats.forEach((seat, i) => {
+            if (seat && !seat.isSittingOut && seat.chipCount > 0) active.push(i);
+        });
+        return active;
+    }
+
+    private nextActiveSeat(table: Table, from: number): number {
+        for (let i = (from + 1) % MAX_PLAYERS; i !== from; i = (i + 1) % MAX_PLAYERS) {
+            const seat = table.seats[i];
+            if (seat && !seat.isSittingOut && seat.chipCount > 0) return i;
+        }
+        return from;
+    }
+
+    private getDealerHandIdx(game: Game): number {
+        const idx = game.playersInHand.indexOf(game.dealerPosition);
+        return idx >= 0 ? idx : 0;
+    }
+
+    private getSmallBlindHandIdx(game: Game): number {
+        const dealerIdx = this.getDealerHandIdx(game);
+        const n = game.playersInHand.length;
+        // Heads-up: dealer posts the small blind
+        return n === 2 ? dealerIdx : (dealerIdx + 1) % n;
+    }
+
+    private getBigBlindHandIdx(game: Game): number {
+        const dealerIdx = this.getDealerHandIdx(game);
+        const n = game.playersInHand.length;
+        return n === 2 ? (dealerIdx + 1) % n : (dealerIdx + 2) % n;
+    }
+
+    private countActivePlayers(game: Game): number {
+        return game.playerStatus.filter((status) => status === STATUS_ACTIVE || status === STATUS_ALL_IN).length;
+    }
+
+    private isBettingComplete(game: Game): boolean {
+        const maxBet = getMaxCurrentBet(game.potState);
+        return game.playerStatus.every(
+            (status, i) => status !== STATUS_ACTIVE || (game.hasActedMask[i] && game.potState.currentBets[i] >= maxBet)
+        );
+    }
+
+    private nextActiveHandIdx(game: Game): number {
+        const n = game.playerStatus.length;
+        for (let next = (game.actionOn + 1) % n; next !== game.actionOn; next = (next + 1) % n) {
+            if (game.playerStatus[next] === STATUS_ACTIVE) return next;
+        }
+        return game.actionOn;
+    }
+
+    private nonFoldedMask(game: Game): boolean[] {
+        return game.playerStatus.map((status) => status !== STATUS_FOLDED);
+    }
+
+    // ============================================
+    // VIEW FUNCTIONS
+    // ============================================
+
+    private holdemViews(): Record<string, View> {
+        // borrow_global<Table> in a view fails like a missing resource
+        const table = (args: EntryFunctionArgument[]): Table => {
+            const found = this.world.tables[addressArg(args, 0)];
+            if (!found) throw missingData();
+            return found;
+        };
+        const game = (args: EntryFunctionArgument[]): Game | null => table(args).game;
+        const u64 = (value: number) => String(value);
+        const u64s = (values: number[]) => values.map(String);
+        const feeConfig = () => {
+            if (!this.world.feeConfig) throw this.abort("texas_holdem", E.FEE_CONFIG_NOT_FOUND);
+            return this.world.feeConfig;
+        };
+
+        return {
+            get_table_config: (a) => {
+                const { smallBlind, bigBlind, minBuyIn, maxBuyIn } = table(a).config;
+                return [u64(smallBlind), u64(bigBlind), u64(minBuyIn), u64(maxBuyIn)];
+            },
+            get_table_config_full: (a) => {
+                const { smallBlind, bigBlind, minBuyIn, maxBuyIn, ante, straddleEnabled } = table(a).config;
+                return [u64(smallBlind), u64(bigBlind), u64(minBuyIn), u64(maxBuyIn), u64(ante), straddleEnabled, u64(FEE_BASIS_POINTS)];
+            },
+            get_game_phase: (a) => [game(a)?.phase ?? PHASE_WAITING],
+            get_pot_size: (a) => {
+                const g = game(a);
+                return [u64(g ? getTotalPot(g.potState) : 0)];
+            },
+            get_community_cards: (a) => [toHex(game(a)?.communityCards ?? [])],
+            get_seat_info: (a) => {
+                const seat = at(table(a).seats, u64Arg(a, 1));
+                return seat ? [shortAddress(seat.player), u64(seat.chipCount), seat.isSittingOut] : [ZERO_ADDRESS, "0", true];
+            },
+            get_seat_info_full: (a) => {
+                const t = table(a);
+                const seatIdx = u64Arg(a, 1);
+                const seat = at(t.seats, seatIdx);
+                if (!seat) return [ZERO_ADDRESS, "0", true, "0", STATUS_WAITING];
+                const handIdx = t.game ? t.game.playersInHand.indexOf(seatIdx) : -1;
+                const currentBet = handIdx >= 0 ? t.game!.potState.currentBets[handIdx] : 0;
+                const status = handIdx >= 0 ? t.game!.playerStatus[handIdx] : STATUS_WAITING;
+                return [shortAddress(seat.player), u64(seat.chipCount), seat.isSittingOut, u64(currentBet), status];
+            },
+            get_table_state: (a) => {
+                const t = table(a);
+                return [u64(t.handNumber), u64(t.dealerButton), u64(t.nextBbSeat), u64(t.totalFeesCollected)];
+            },
+            get_action_on: (a) => {
+                const t = table(a);
+                if (!t.game) return ["0", ZERO_ADDRESS, "0"];
+                const seatIdx = at(t.game.playersInHand, t.game.actionOn);
+                const seat = at(t.seats, seatIdx);
+                return [u64(seatIdx), seat ? shortAddress(seat.player) : ZERO_ADDRESS, u64(t.game.actionDeadline)];
+            },
+            get_action_deadline: (a) => [u64(game(a)?.actionDeadline ?? 0)],
+            get_min_raise: (a) => [u64(game(a)?.minRaise ?? 0)],
+            get_max_current_bet: (a) => {
+                const g = game(a);
+                return [u64(g ? getMaxCurrentBet(g.potState) : 0)];
+            },
+            get_commit_deadline: (a) => [u64(game(a)?.commitDeadline ?? 0)],
+            get_reveal_deadline: (a) => [u64(game(a)?.revealDeadline ?? 0)],
+            get_player_seat: (a) => [u64(this.findPlayerSeat(table(a), addressArg(a, 1)))],
+            get_players_in_hand: (a) => [u64s(game(a)?.playersInHand ?? [])],
+            get_encrypted_hole_cards: (a) => [(game(a)?.encryptedHoleCards ?? []).map(toHex)],
+            get_player_statuses: (a) => [toHex(game(a)?.playerStatus ?? [])],
+            get_commit_status: (a) => [(game(a)?.commits ?? []).map((commit) => commit.length > 0)],
+            get_reveal_status: (a) => [(game(a)?.secrets ?? []).map((secret) => secret.length > 0)],
+            get_current_bets: (a) => [u64s(game(a)?.potState.currentBets ?? [])],
+            get_total_invested: (a) => [u64s(game(a)?.potState.totalInvested ?? [])],
+            get_call_amount: (a) => {
+                const g = game(a);
+                return [u64(g ? getCallAmount(g.potState, u64Arg(a, 1)) : 0)];
+            },
+            get_last_aggressor: (a) => {
+                const g = game(a);
+                return [u64(g && g.lastAggressor !== null ? at(g.playersInHand, g.lastAggressor) : MAX_PLAYERS)];
+            },
+            get_timeout_penalty_percent: () => [u64(TIMEOUT_PENALTY_PERCENT)],
+            get_action_timeout_secs: () => [u64(ACTION_TIMEOUT_SECS)],
+            is_table_paused: (a) => [table(a).isPaused],
+            is_paused: (a) => [table(a).isPaused],
+            is_admin_only_start: (a) => [table(a).adminOnlyStart],
+            get_pending_leaves: (a) => [[...table(a).pendingLeaves]],
+            get_missed_blinds: (a) => [u64s(table(a).missedBlinds)],
+            get_seat_count: (a) => [u64(table(a).seats.filter((seat) => seat !== null).length), u64(MAX_PLAYERS)],
+            get_admin: (a) => [shortAddress(table(a).admin)],
+            get_fee_collector: () => [shortAddress(feeConfig().feeCollector)],
+            get_fee_admin: () => [shortAddress(feeConfig().admin)],
+            is_fee_config_initialized: () => [this.world.feeConfig !== null],
+            get_fee_accumulator: (a) => {
+                const t = this.world.tables[addressArg(a, 0)];
+                if (!t) throw this.abort("texas_holdem", E.TABLE_NOT_FOUND);
+                return [u64(t.feeAccumulator)];
+            },
+            get_fee_basis_points: () => [u64(FEE_BASIS_POINTS)],
+            get_table_address: (a) => {
+                const tableAddr = this.world.tableRefs[addressArg(a, 0)];
+                if (!tableAddr) throw this.abort("texas_holdem", E.TABLE_NOT_FOUND);
+                return [shortAddress(tableAddr)];
+            },
+        };
+    }
+}
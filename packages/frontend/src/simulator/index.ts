@@ -0,0 +1,3 @@
+export * from "./holdemSimulator";
+export * from "./transport";
+export * from "./localMode";
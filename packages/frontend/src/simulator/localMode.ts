@@ -0,0 +1,50 @@
+/**
+ * Local mode
+ *
+ * When the offline network profile is active, the app runs against one
+ * in-memory simulator per tab and plays as a handful of built-in accounts
+ * instead of a browser wallet. State lasts until the tab reloads.
+ */
+
+import { Account, Ed25519PrivateKey } from "@cedra-labs/ts-sdk";
+import { sha3_256 } from "@noble/hashes/sha3";
+import { ACTIVE_PROFILE } from "../config/networks";
+import { HoldemSimulator } from "./holdemSimulator";
+
+export interface LocalAccount {
+    name: string;
+    account: Account;
+    /** Long-form address */
+    address: string;
+}
+
+const LOCAL_PLAYER_COUNT = 5;
+// Each local player starts with 100 CEDRA and 10,000 chips
+const STARTING_OCTAS = 100 * 100_000_000;
+const STARTING_CHIPS = 10_000;
+
+export const LOCAL_MODE = ACTIVE_PROFILE.id === "offline";
+
+/** Same keys on every load, so addresses stay stable across reloads */
+function createLocalAccounts(): LocalAccount[] {
+    return Array.from({ length: LOCAL_PLAYER_COUNT }, (_, i) => {
+        const name = `Player ${i + 1}`;
+        const privateKey = new Ed25519PrivateKey(sha3_256(new TextEncoder().encode(`holdem-local-${name}`)));
+        const account = Account.fromPrivateKey({ privateKey });
+        return { name, account, address: account.accountAddress.toStringLong() };
+    });
+}
+
+export const LOCAL_ACCOUNTS: LocalAccount[] = LOCAL_MODE ? createLocalAccounts() : [];
+
+function createLocalSimulator(): HoldemSimulator {
+    const simulator = new HoldemSimulator({ contractAddress: ACTIVE_PROFILE.contractAddress });
+    for (const { address } of LOCAL_ACCOUNTS) {
+        simulator.fund(address, STARTING_OCTAS);
+        simulator.mintTestChips(address, STARTING_CHIPS);
+    }
+    return simulator;
+}
+
+/** The tab's simulator; null outside local mode */
+export const localSimulator: HoldemSimulator | null = LOCAL_MODE ? createLocalSimulator() : null;
@@ -0,0 +1,269 @@
+/**
+ * Simulator transport
+ *
+ * Serves the HoldemTransport subset of the Cedra SDK from a HoldemSimulator:
+ * views, indexer event queries (a small Hasura where/order_by evaluator),
+ * ledger info, transaction waits and lookups, CEDRA balances and transaction
+ * simulation. Every transaction is its own block, so block height is version.
+ * Transactions come back as UserTransactionResponses with the same poker and
+ * fungible asset events a fullnode would return.
+ */
+
+import { AccountAddress, CEDRA_FA, createObjectAddress, RoleType, TransactionResponseType } from "@cedra-labs/ts-sdk";
+import type { AnyNumber, Block, GetEventsResponse, LedgerInfo, MoveValue, UserTransactionResponse } from "@cedra-labs/ts-sdk";
+import type { EntryFunctionPayload, HoldemSigner, HoldemTransport } from "../client/holdemClient";
+import type { HoldemSimulator, SimulatedTransaction } from "./holdemSimulator";
+
+// Chain id the local network profile reports
+const LOCAL_CHAIN_ID = 4;
+const GAS_UNIT_PRICE = 100;
+const ZERO_HASH = `0x${"0".repeat(64)}`;
+
+type Where = Record<string, unknown>;
+type Row = GetEventsResponse[number];
+type Event = UserTransactionResponse["events"][number];
+
+// ============================================
+// EVENT QUERIES
+// ============================================
+
+function compare(a: unknown, b: unknown): number {
+    const numeric = /^-?\d+$/;
+    if (numeric.test(String(a)) && numeric.test(String(b))) {
+        const diff = BigInt(String(a)) - BigInt(String(b));
+        return diff === 0n ? 0 : diff > 0n ? 1 : -1;
+    }
+    return String(a).localeCompare(String(b));
+}
+
+/** jsonb @> : every key/element of the pattern appears in the value */
+function contains(value: unknown, pattern: unknown): boolean {
+    if (Array.isArray(pattern)) {
+        return Array.isArray(value) && pattern.every((item) => value.some((candidate) => contains(candidate, item)));
+    }
+    if (pattern !== null && typeof pattern === "object") {
+        if (value === null || typeof value !== "object") return false;
+        const record = value as Record<string, unknown>;
+        return Object.entries(pattern).every(([key, item]) => contains(record[key], item));
+    }
+    return value === pattern;
+}
+
+function like(value: unknown, pattern: string): boolean {
+    const regex = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/%/g, ".*").replace(/_/g, ".");
+    return new RegExp(`^${regex}$`).test(String(value));
+}
+
+function matchesField(value: unknown, operators: Where): boolean {
+    return Object.entries(operators).every(([op, operand]) => {
+        switch (op) {
+            case "_eq":
+                return compare(value, operand) === 0;
+            case "_neq":
+                return compare(value, operand) !== 0;
+            case "_gt":
+                return compare(value, operand) > 0;
+            case "_gte":
+                return compare(value, operand) >= 0;
+            case "_lt":
+                return compare(value, operand) < 0;
+            case "_lte":
+                return compare(value, operand) <= 0;
+            case "_in":
+                return (operand as unknown[]).some((item) => compare(value, item) === 0);
+            case "_like":
+                return like(value, String(operand));
+            case "_contains":
+                return contains(value, operand);
+            default:
+                throw new Error(`Filter ${op} is not supported by the simulator`);
+        }
+    });
+}
+
+function matches(row: Row, where: Where): boolean {
+    return Object.entries(where).every(([key, condition]) => {
+        if (key === "_and") return (condition as Where[]).every((clause) => matches(row, clause));
+        if (key === "_or") return (condition as Where[]).some((clause) => matches(row, clause));
+        if (key === "_not") return !matches(row, condition as Where);
+        return matchesField((row as Record<string, unknown>)[key], condition as Where);
+    });
+}
+
+function queryEvents(
+    simulator: HoldemSimulator,
+    { where = {}, orderBy = [], limit, offset = 0 }: { where?: Where; orderBy?: Record<string, string>[]; limit?: number; offset?: number }
+): Row[] {
+    const rows: Row[] = simulator.getEvents().map((event) => ({
+        account_address: "0x0",
+        creation_number: 0,
+        data: event.data,
+        event_index: event.eventIndex,
+        sequence_number: 0,
+        transaction_block_height: event.version,
+        transaction_version: event.version,
+        type: event.type,
+        indexed_type: event.type,
+    }));
+
+    const sorted = rows.filter((row) => matches(row, where));
+    sorted.sort((a, b) => {
+        for (const clause of orderBy) {
+            for (const [field, direction] of Object.entries(clause)) {
+                const order = compare((a as Record<string, unknown>)[field], (b as Record<string, unknown>)[field]);
+                if (order !== 0) return direction.startsWith("desc") ? -order : order;
+            }
+        }
+        return 0;
+    });
+    return sorted.slice(offset, limit === undefined ? undefined : offset + limit);
+}
+
+// ============================================
+// TRANSACTIONS
+// ============================================
+
+function balanceEvents(simulator: HoldemSimulator, transaction: SimulatedTransaction): Event[] {
+    return transaction.transfers.map(({ owner, asset, amount }) => {
+        const metadata = AccountAddress.from(asset === "chips" ? simulator.chipMetadata : CEDRA_FA);
+        const store = createObjectAddress(AccountAddress.from(owner), metadata.toUint8Array());
+        return {
+            guid: { creation_number: "0", account_address: "0x0" },
+            sequence_number: "0",
+            type: amount > 0 ? "0x1::fungible_asset::Deposit" : "0x1::fungible_asset::Withdraw",
+            data: { store: store.toStringLong(), amount: String(Math.abs(amount)) },
+        };
+    });
+}
+
+function toResponse(simulator: HoldemSimulator, transaction: SimulatedTransaction): UserTransactionResponse {
+    const pokerEvents: Event[] = transaction.events.map((event) => ({
+        guid: { creation_number: "0", account_address: "0x0" },
+        sequence_number: "0",
+        type: event.type,
+        data: event.data,
+    }));
+
+    return {
+        type: TransactionResponseType.User,
+        version: String(transaction.version),
+        hash: transaction.hash,
+        state_change_hash: ZERO_HASH,
+        event_root_hash: ZERO_HASH,
+        state_checkpoint_hash: null,
+        // The simulator does not meter gas
+        gas_used: "0",
+        success: transaction.success,
+        vm_status: transaction.vmStatus,
+        accumulator_root_hash: ZERO_HASH,
+        changes: [],
+        sender: transaction.sender,
+        sequence_number: "0",
+        max_gas_amount: "200000",
+        gas_unit_price: String(GAS_UNIT_PRICE),
+        expiration_timestamp_secs: String(transaction.timestamp + 60),
+        payload: {
+            type: "entry_function_payload",
+            function: transaction.payload.function,
+            type_arguments: [],
+            arguments: transaction.payload.functionArguments,
+        },
+        events: [...pokerEvents, ...balanceEvents(simulator, transaction)],
+        timestamp: String(transaction.timestamp * 1_000_000),
+    };
+}
+
+/** What transaction.build.simple hands to transaction.simulate.simple */
+interface SimulatorTransaction {
+    sender: string;
+    payload: EntryFunctionPayload;
+}
+
+// ============================================
+// TRANSPORT
+// ============================================
+
+/**
+ * A HoldemTransport backed by the simulator
+ */
+export function createSimulatorTransport(simulator: HoldemSimulator): HoldemTransport {
+    const transport = {
+        view: async ({ payload, options }: { payload: EntryFunctionPayload; options?: { ledgerVersion?: AnyNumber } }): Promise<MoveValue[]> => {
+            // Only the latest state is kept, like a fullnode that has pruned everything else
+            if (options?.ledgerVersion !== undefined && BigInt(options.ledgerVersion) !== BigInt(simulator.ledgerVersion)) {
+                throw new Error(`Ledger version ${options.ledgerVersion} has been pruned`);
+            }
+            return simulator.view(payload.function, payload.functionArguments);
+        },
+
+        getEvents: async ({ options = {} }: { options?: { where?: Where; orderBy?: Record<string, string>[]; limit?: number; offset?: number } } = {}) =>
+            queryEvents(simulator, options),
+
+        getLedgerInfo: async (): Promise<LedgerInfo> => ({
+            chain_id: LOCAL_CHAIN_ID,
+            epoch: "1",
+            ledger_version: String(simulator.ledgerVersion),
+            oldest_ledger_version: "0",
+            ledger_timestamp: String(simulator.now() * 1_000_000),
+            node_role: RoleType.FULL_NODE,
+            oldest_block_height: "0",
+            block_height: String(simulator.ledgerVersion),
+        }),
+
+        waitForTransaction: async ({ transactionHash }: { transactionHash: string }): Promise<UserTransactionResponse> => {
+            const transaction = simulator.getTransaction(transactionHash);
+            if (!transaction) throw new Error(`Transaction ${transactionHash} not found`);
+            if (!transaction.success) {
+                throw new Error(`Transaction ${transactionHash} failed with an error: ${transaction.vmStatus}`);
+            }
+            return toResponse(simulator, transaction);
+        },
+
+        getTransactionByVersion: async ({ ledgerVersion }: { ledgerVersion: number | bigint }): Promise<UserTransactionResponse> => {
+            const transaction = simulator.getTransactionByVersion(Number(ledgerVersion));
+            if (!transaction) throw new Error(`Transaction version ${ledgerVersion} not found`);
+            return toResponse(simulator, transaction);
+        },
+
+        getBlockByVersion: async ({ ledgerVersion }: { ledgerVersion: number | bigint }): Promise<Block> => {
+            const transaction = simulator.getTransactionByVersion(Number(ledgerVersion));
+            if (!transaction) throw new Error(`Block for version ${ledgerVersion} not found`);
+            return {
+                block_height: String(transaction.version),
+                block_hash: transaction.hash,
+                block_timestamp: String(transaction.timestamp * 1_000_000),
+                first_version: String(transaction.version),
+                last_version: String(transaction.version),
+            };
+        },
+
+        getAccountCEDRAAmount: async ({ accountAddress }: { accountAddress: string }): Promise<number> =>
+            simulator.cedraBalance(accountAddress),
+
+        transaction: {
+            build: {
+                simple: async ({ sender, data }: { sender: string; data: EntryFunctionPayload }): Promise<SimulatorTransaction> => ({
+                    sender,
+                    payload: data,
+                }),
+            },
+            simulate: {
+                simple: async ({ transaction }: { transaction: SimulatorTransaction }): Promise<UserTransactionResponse[]> => [
+                    toResponse(simulator, simulator.simulate(transaction.sender, transaction.payload)),
+                ],
+            },
+        },
+    };
+    // Each method accepts only the arguments HoldemClient passes, not the SDK's full option sets
+    return transport as unknown as HoldemTransport;
+}
+
+/**
+ * Signer that submits straight to the simulator as the given account
+ */
+export function simulatorSigner(simulator: HoldemSimulator, address: string): HoldemSigner {
+    return {
+        address,
+        signAndSubmit: async (payload) => ({ hash: simulator.submit(address, payload).hash }),
+    };
+}
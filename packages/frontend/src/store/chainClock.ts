@@ -0,0 +1,60 @@
+/**
+ * Chain clock
+ *
+ * Deadlines are Unix seconds checked against the chain's clock, not the
+ * player's, so countdowns run on local time shifted by a measured offset.
+ * The latest ledger's timestamp trails the chain by up to a block, which
+ * only ever makes the chain look behind; the largest recent offset is the
+ * best estimate.
+ */
+
+// Offsets kept for the estimate
+const MAX_SAMPLES = 5;
+
+export interface ChainClockSource {
+    /** Unix seconds of the latest ledger */
+    getLedgerTimestamp: () => Promise<number>;
+}
+
+export interface ChainClockState {
+    /** Chain time minus local time, in milliseconds */
+    offsetMs: number;
+    /** False until the first measurement lands */
+    synced: boolean;
+}
+
+export interface ChainClock {
+    getState: () => ChainClockState;
+    subscribe: (listener: () => void) => () => void;
+    /** Measure the offset again */
+    sync: () => Promise<void>;
+    /** Current chain time in Unix seconds */
+    now: () => number;
+}
+
+export function createChainClock(source: ChainClockSource): ChainClock {
+    const listeners = new Set<() => void>();
+    let state: ChainClockState = { offsetMs: 0, synced: false };
+    let samples: number[] = [];
+
+    return {
+        getState: () => state,
+
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+
+        sync: async () => {
+            const sent = Date.now();
+            const ledgerSeconds = await source.getLedgerTimestamp();
+            const received = Date.now();
+            // Assume the ledger was read halfway through the round trip
+            samples = [...samples, ledgerSeconds * 1000 - (sent + received) / 2].slice(-MAX_SAMPLES);
+            state = { offsetMs: Math.max(...samples), synced: true };
+            listeners.forEach((listener) => listener());
+        },
+
+        now: () => (Date.now() + state.offsetMs) / 1000,
+    };
+}
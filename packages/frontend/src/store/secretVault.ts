@@ -0,0 +1,417 @@
+/**
+ * Commit/reveal secret vault
+ *
+ * Keeps each hand's secret in IndexedDB, keyed by table, player and hand,
+ * so closing the tab mid-hand no longer loses the ability to reveal (and
+ * eat the timeout penalty) or to decrypt hole cards. Records are sealed
+ * with AES-GCM under a key derived from the wallet's signature of a fixed
+ * message: Ed25519 signatures are deterministic, so the same wallet always
+ * re-derives the same key and nothing secret is ever written in the clear.
+ *
+ * Records of finished hands are pruned as the table moves on; backups
+ * export and import the sealed records as JSON. Tabs share the unlocked key
+ * and tell each other when records change, so a second tab at the same table
+ * neither asks for another signature nor commits with a different secret.
+ */
+
+import { AccountAddress } from "@cedra-labs/ts-sdk";
+import type { TabCoordinator } from "./tabCoordinator";
+
+const DB_VERSION = 1;
+const STORE = "secrets";
+const BACKUP_FORMAT = "holdem-secret-vault";
+// Sealed records older than this are dropped whatever their hand
+const MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// Where secrets lived before the vault; migrated on unlock
+const LEGACY_PREFIX = "holdem_secret_";
+
+/** Signed once per session to derive the vault key. Changing it orphans every record. */
+export const VAULT_MESSAGE =
+    "Unlock your Texas Hold'em secret vault.\n\nThis signature encrypts your card secrets on this device. It does not authorize any transaction.";
+export const VAULT_NONCE = "holdem-secret-vault-v1";
+
+/** Signs VAULT_MESSAGE with the connected wallet and returns the signature bytes */
+export type VaultSigner = (message: string, nonce: string) => Promise<Uint8Array>;
+
+export type VaultStatus = "locked" | "unlocking" | "unlocked" | "unavailable";
+
+export interface VaultState {
+    status: VaultStatus;
+    /** Account whose key is loaded; null while locked */
+    account: string | null;
+    /** Decrypted secrets of that account, by record id */
+    secrets: Record<string, string>;
+    error: string | null;
+}
+
+export interface SecretVault {
+    getState: () => VaultState;
+    subscribe: (listener: () => void) => () => void;
+    /** Derive the account's key (one wallet signature) and load its secrets */
+    unlock: (account: string, sign: VaultSigner) => Promise<void>;
+    lock: () => void;
+    /** Follow the connected wallet; locks when it changes away from the unlocked account */
+    setWallet: (wallet: string | null) => void;
+    /** Secret for a hand, if the vault is unlocked for that player */
+    secretFor: (tableAddress: string, player: string, handNumber: number) => string | null;
+    /** Seal and store a hand's secret; the vault must be unlocked for the player */
+    save: (tableAddress: string, player: string, handNumber: number, secret: string) => Promise<void>;
+    /** Drop the player's records of hands before currentHand at this table, and anything stale */
+    prune: (tableAddress: string, player: string, currentHand: number) => Promise<number>;
+    /** Every sealed record as a JSON backup; secrets stay encrypted */
+    exportBackup: () => Promise<string>;
+    /** Merge a backup, returning how many records were added */
+    importBackup: (backup: string) => Promise<number>;
+}
+
+export interface SecretVaultOptions {
+    /** Database namespace, e.g. the network profile id */
+    namespace: string;
+    /** Shares the unlocked key and record changes with other tabs */
+    tabs?: TabCoordinator;
+}
+
+interface VaultRecord {
+    id: string;
+    account: string;
+    tableAddress: string;
+    handNumber: number;
+    /** Hex AES-GCM nonce and ciphertext */
+    iv: string;
+    ciphertext: string;
+    /** Milliseconds since epoch */
+    savedAt: number;
+}
+
+interface VaultBackup {
+    format: typeof BACKUP_FORMAT;
+    version: 1;
+    records: VaultRecord[];
+}
+
+// Messages on the "vault" topic
+type VaultTabMessage =
+    | { type: "key"; account: string; key: CryptoKey }
+    | { type: "key-request"; account: string }
+    | { type: "changed"; account: string };
+
+const INITIAL_STATE: VaultState = { status: "locked", account: null, secrets: {}, error: null };
+
+// ============================================
+// ENCODING
+// ============================================
+
+function normalize(address: string): string {
+    return AccountAddress.from(address).toStringLong();
+}
+
+function recordId(account: string, tableAddress: string, handNumber: number): string {
+    return `${normalize(account)}:${normalize(tableAddress)}:${handNumber}`;
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    return bytes;
+}
+
+function isRecord(value: unknown): value is VaultRecord {
+    if (!value || typeof value !== "object") return false;
+    const record = value as Record<string, unknown>;
+    return (
+        typeof record.id === "string" &&
+        typeof record.account === "string" &&
+        typeof record.tableAddress === "string" &&
+        typeof record.handNumber === "number" &&
+        typeof record.iv === "string" &&
+        typeof record.ciphertext === "string" &&
+        typeof record.savedAt === "number"
+    );
+}
+
+// ============================================
+// CRYPTO
+// ============================================
+
+async function deriveKey(account: string, signature: Uint8Array): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey("raw", Uint8Array.from(signature), "HKDF", false, ["deriveKey"]);
+    return crypto.subtle.deriveKey(
+        {
+            name: "HKDF",
+            hash: "SHA-256",
+            salt: new TextEncoder().encode(VAULT_NONCE),
+            info: new TextEncoder().encode(normalize(account)),
+        },
+        material,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+    );
+}
+
+// The record id is bound as additional data, so a sealed secret cannot be moved to another hand
+async function seal(key: CryptoKey, id: string, secret: string): Promise<{ iv: string; ciphertext: string }> {
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const additionalData = new TextEncoder().encode(id);
+    const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData }, key, new TextEncoder().encode(secret));
+    return { iv: toHex(iv), ciphertext: toHex(new Uint8Array(ciphertext)) };
+}
+
+async function open(key: CryptoKey, record: VaultRecord): Promise<string | null> {
+    try {
+        const additionalData = new TextEncoder().encode(record.id);
+        const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromHex(record.iv), additionalData }, key, fromHex(record.ciphertext));
+        return new TextDecoder().decode(plain);
+    } catch {
+        // Sealed under another key (or tampered with)
+        return null;
+    }
+}
+
+// ============================================
+// INDEXEDDB
+// ============================================
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const req = indexedDB.open(name, DB_VERSION);
+        req.onupgradeneeded = () => {
+            const store = req.result.createObjectStore(STORE, { keyPath: "id" });
+            store.createIndex("account", "account");
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+// ============================================
+// STORE
+// ============================================
+
+export function createSecretVault({ namespace, tabs }: SecretVaultOptions): SecretVault {
+    const listeners = new Set<() => void>();
+    const available = typeof indexedDB !== "undefined" && typeof crypto !== "undefined" && !!crypto.subtle;
+    let state: VaultState = available ? INITIAL_STATE : { ...INITIAL_STATE, status: "unavailable" };
+    let key: CryptoKey | null = null;
+    let database: Promise<IDBDatabase> | null = null;
+    // Connected wallet, so a key another tab shares is only taken for it
+    let wallet: string | null = null;
+
+    const setState = (next: VaultState) => {
+        state = next;
+        listeners.forEach((listener) => listener());
+    };
+
+    const db = () => {
+        database ??= openDatabase(`holdem_vault_${namespace}`);
+        return database;
+    };
+
+    const transaction = async (mode: IDBTransactionMode) => (await db()).transaction(STORE, mode).objectStore(STORE);
+
+    const accountRecords = async (account: string): Promise<VaultRecord[]> =>
+        request((await transaction("readonly")).index("account").getAll(account) as IDBRequest<VaultRecord[]>);
+
+    const put = async (record: VaultRecord) => {
+        await request((await transaction("readwrite")).put(record));
+    };
+
+    const sealAndPut = async (account: string, tableAddress: string, handNumber: number, secret: string, cryptoKey: CryptoKey) => {
+        const id = recordId(account, tableAddress, handNumber);
+        const sealed = await seal(cryptoKey, id, secret);
+        await put({ id, account, tableAddress: normalize(tableAddress), handNumber, ...sealed, savedAt: Date.now() });
+        return id;
+    };
+
+    // Move sessionStorage secrets from before the vault into it
+    const migrateLegacy = async (account: string, cryptoKey: CryptoKey): Promise<Record<string, string>> => {
+        const migrated: Record<string, string> = {};
+        if (typeof sessionStorage === "undefined") return migrated;
+        for (const storageKey of Object.keys(sessionStorage)) {
+            if (!storageKey.startsWith(LEGACY_PREFIX)) continue;
+            const [tableAddress, player, hand] = storageKey.slice(LEGACY_PREFIX.length).split("_");
+            const secret = sessionStorage.getItem(storageKey);
+            const handNumber = Number(hand);
+            if (!secret || !player || !tableAddress || !Number.isInteger(handNumber)) continue;
+            try {
+                if (normalize(player) !== account) continue;
+                migrated[await sealAndPut(account, tableAddress, handNumber, secret, cryptoKey)] = secret;
+                sessionStorage.removeItem(storageKey);
+            } catch (err) {
+                console.warn("Failed to migrate stored secret:", err);
+            }
+        }
+        return migrated;
+    };
+
+    const openAll = async (account: string, cryptoKey: CryptoKey): Promise<Record<string, string>> => {
+        const secrets: Record<string, string> = {};
+        for (const record of await accountRecords(account)) {
+            const secret = await open(cryptoKey, record);
+            if (secret !== null) secrets[record.id] = secret;
+        }
+        return secrets;
+    };
+
+    const post = (message: VaultTabMessage) => tabs?.post("vault", message);
+    const changed = (account: string) => post({ type: "changed", account });
+
+    tabs?.listen("vault", (payload) => {
+        const message = payload as VaultTabMessage;
+        const unlockedFor = key && state.account === message.account ? key : null;
+        switch (message.type) {
+            case "key-request":
+                if (unlockedFor) post({ type: "key", account: message.account, key: unlockedFor });
+                return;
+            case "key":
+                if (key || state.status === "unavailable" || wallet !== message.account) return;
+                openAll(message.account, message.key)
+                    .then((secrets) => {
+                        // Unlocked here or switched wallets in the meantime
+                        if (key || wallet !== message.account) return;
+                        key = message.key;
+                        setState({ status: "unlocked", account: message.account, secrets, error: null });
+                    })
+                    .catch((err) => console.warn("Failed to open the vault with a shared key:", err));
+                return;
+            case "changed":
+                if (!unlockedFor) return;
+                openAll(message.account, unlockedFor)
+                    .then((secrets) => {
+                        if (key === unlockedFor) setState({ ...state, secrets });
+                    })
+                    .catch((err) => console.warn("Failed to reload the secret vault:", err));
+                return;
+        }
+    });
+
+    const requireUnlocked = (player: string): CryptoKey => {
+        if (!key || state.account !== normalize(player)) throw new Error("Secret vault is locked for this account.");
+        return key;
+    };
+
+    return {
+        getState: () => state,
+
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+
+        unlock: async (account, sign) => {
+            if (state.status === "unavailable") throw new Error("This browser cannot store secrets (IndexedDB or WebCrypto missing).");
+            const owner = normalize(account);
+            setState({ ...state, status: "unlocking", error: null });
+            try {
+                const cryptoKey = await deriveKey(owner, await sign(VAULT_MESSAGE, VAULT_NONCE));
+                const secrets = await openAll(owner, cryptoKey);
+                const migrated = await migrateLegacy(owner, cryptoKey);
+                Object.assign(secrets, migrated);
+                key = cryptoKey;
+                setState({ status: "unlocked", account: owner, secrets, error: null });
+                post({ type: "key", account: owner, key: cryptoKey });
+                if (Object.keys(migrated).length > 0) changed(owner);
+            } catch (err) {
+                key = null;
+                setState({ ...INITIAL_STATE, error: err instanceof Error ? err.message : "Failed to unlock the secret vault." });
+                throw err;
+            }
+        },
+
+        lock: () => {
+            key = null;
+            if (state.status !== "unavailable") setState(INITIAL_STATE);
+        },
+
+        setWallet: (next) => {
+            const previous = wallet;
+            wallet = next === null ? null : normalize(next);
+            if (state.account !== null && wallet !== state.account) {
+                key = null;
+                setState(INITIAL_STATE);
+            }
+            // Another tab may already hold the key for this wallet
+            if (wallet !== null && wallet !== previous && !key) post({ type: "key-request", account: wallet });
+        },
+
+        secretFor: (tableAddress, player, handNumber) => {
+            if (!tableAddress || !player || handNumber <= 0 || state.account !== normalize(player)) return null;
+            return state.secrets[recordId(player, tableAddress, handNumber)] ?? null;
+        },
+
+        save: async (tableAddress, player, handNumber, secret) => {
+            const cryptoKey = requireUnlocked(player);
+            const owner = normalize(player);
+            const id = await sealAndPut(owner, tableAddress, handNumber, secret, cryptoKey);
+            setState({ ...state, secrets: { ...state.secrets, [id]: secret } });
+            changed(owner);
+        },
+
+        prune: async (tableAddress, player, currentHand) => {
+            if (state.status === "unavailable") return 0;
+            const owner = normalize(player);
+            const table = normalize(tableAddress);
+            const cutoff = Date.now() - MAX_AGE_MS;
+            const stale = (await accountRecords(owner)).filter(
+                (record) => (record.tableAddress === table && record.handNumber < currentHand) || record.savedAt < cutoff
+            );
+            if (stale.length === 0) return 0;
+
+            const store = await transaction("readwrite");
+            await Promise.all(stale.map((record) => request(store.delete(record.id))));
+            if (state.account === owner) {
+                const secrets = { ...state.secrets };
+                stale.forEach((record) => delete secrets[record.id]);
+                setState({ ...state, secrets });
+            }
+            changed(owner);
+            return stale.length;
+        },
+
+        exportBackup: async () => {
+            const records = await request((await transaction("readonly")).getAll() as IDBRequest<VaultRecord[]>);
+            const backup: VaultBackup = { format: BACKUP_FORMAT, version: 1, records };
+            return JSON.stringify(backup, null, 2);
+        },
+
+        importBackup: async (backup) => {
+            let parsed: Partial<VaultBackup>;
+            try {
+                parsed = JSON.parse(backup) as Partial<VaultBackup>;
+            } catch {
+                throw new Error("Backup file is not valid JSON.");
+            }
+            if (parsed.format !== BACKUP_FORMAT || !Array.isArray(parsed.records)) throw new Error("Not a secret vault backup.");
+
+            const store = await transaction("readonly");
+            const incoming = parsed.records.filter(isRecord);
+            const existing = new Set(await Promise.all(incoming.map((record) => request(store.getKey(record.id)))));
+            const added = incoming.filter((record) => !existing.has(record.id));
+            for (const record of added) await put(record);
+
+            // Open what belongs to the unlocked account right away
+            if (key && state.account) {
+                const secrets = { ...state.secrets };
+                for (const record of added) {
+                    if (record.account !== state.account) continue;
+                    const secret = await open(key, record);
+                    if (secret !== null) secrets[record.id] = secret;
+                }
+                setState({ ...state, secrets });
+            }
+            new Set(added.map((record) => record.account)).forEach(changed);
+            return added.length;
+        },
+    };
+}
@@ -0,0 +1,64 @@
+/**
+ * Player settings store
+ *
+ * Table-side preferences that are not tied to a wallet or network,
+ * persisted in localStorage.
+ */
+
+const STORAGE_KEY = "holdem_settings";
+
+export interface Settings {
+    /** Show win/tie odds for the player's hand in the action panel */
+    showEquity: boolean;
+    /** Submit commit and reveal automatically when their windows open */
+    autoCommitReveal: boolean;
+    /** Derive each hand's secret from a wallet signature instead of random bytes */
+    deriveSecrets: boolean;
+    /** Mixed into every derived secret; needed again to recover on another device */
+    secretSalt: string;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+    showEquity: true,
+    autoCommitReveal: false,
+    deriveSecrets: false,
+    secretSalt: "",
+};
+
+export interface SettingsStore {
+    getState: () => Settings;
+    subscribe: (listener: () => void) => () => void;
+    update: (patch: Partial<Settings>) => void;
+}
+
+function load(): Settings {
+    try {
+        const raw = typeof localStorage === "undefined" ? null : localStorage.getItem(STORAGE_KEY);
+        // Merge so settings added later pick up their defaults
+        return raw ? { ...DEFAULT_SETTINGS, ...(JSON.parse(raw) as Partial<Settings>) } : DEFAULT_SETTINGS;
+    } catch {
+        return DEFAULT_SETTINGS;
+    }
+}
+
+export function createSettingsStore(): SettingsStore {
+    const listeners = new Set<() => void>();
+    let state = load();
+
+    return {
+        getState: () => state,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        update: (patch) => {
+            state = { ...state, ...patch };
+            try {
+                localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+            } catch (err) {
+                console.warn("Failed to persist settings:", err);
+            }
+            listeners.forEach((listener) => listener());
+        },
+    };
+}
@@ -0,0 +1,225 @@
+/**
+ * Cross-tab coordinator
+ *
+ * Tabs of the same network profile talk over a BroadcastChannel. Work that
+ * only one tab should do (polling a table, submitting its commit and reveal)
+ * is leased with Web Locks: the tab holding a lease's lock leads and the rest
+ * follow, and the lock passes on by itself when the leading tab closes.
+ * Browsers throttle the timers of background tabs, so a leader that goes
+ * hidden says so and a visible follower steals the lock from it; a hidden
+ * leader with nobody visible to take over just keeps leading.
+ * Without either API every tab leads, exactly as if it were the only one.
+ */
+
+const CHANNEL_PREFIX = "holdem_tabs";
+// Topic for lease bookkeeping between coordinators
+const LEASE_TOPIC = "lease";
+// Spread out takeovers so several visible followers rarely steal at once
+const TAKEOVER_JITTER_MS = 250;
+
+export interface LeaseHandlers {
+    /** This tab now owns the lease */
+    onLead: () => void;
+    /** Another tab owns the lease; called when the lease is requested and again if another tab takes it over */
+    onFollow: () => void;
+}
+
+export interface TabCoordinator {
+    /** Random id of this tab, sent with every message */
+    readonly tabId: string;
+    /** Request a lease; the returned function releases it (or stops waiting for it) */
+    acquire: (name: string, handlers: LeaseHandlers) => () => void;
+    /** Whether this tab currently holds the lease */
+    isLeader: (name: string) => boolean;
+    /** Called whenever a lease is gained or released by this tab */
+    subscribe: (listener: () => void) => () => void;
+    /** Send a structured-cloneable payload to every other tab */
+    post: (topic: string, payload: unknown) => void;
+    /** Receive payloads other tabs post on a topic */
+    listen: (topic: string, handler: (payload: unknown, from: string) => void) => () => void;
+}
+
+export interface TabCoordinatorOptions {
+    /** Channel and lock namespace, e.g. the network profile id */
+    namespace: string;
+    /** Every tab runs its own chain (the offline simulator), so there is nothing to share */
+    isolated?: boolean;
+}
+
+interface TabMessage {
+    topic: string;
+    from: string;
+    payload: unknown;
+}
+
+type LeaseMessage =
+    /** Sent by the lease holder when it gains the lease or its visibility changes */
+    | { type: "status"; name: string; hidden: boolean }
+    /** Sent by a new follower to hear the holder's status */
+    | { type: "query"; name: string };
+
+interface Lease {
+    handlers: LeaseHandlers;
+    /** Release the held lock or withdraw the pending request */
+    cancel: () => void;
+    /** Whether the holder last reported itself hidden */
+    leaderHidden: boolean;
+    takeoverTimer: ReturnType<typeof setTimeout> | null;
+}
+
+function randomId(): string {
+    return Array.from(crypto.getRandomValues(new Uint8Array(8)), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function createTabCoordinator({ namespace, isolated = false }: TabCoordinatorOptions): TabCoordinator {
+    const tabId = randomId();
+    const channelName = `${CHANNEL_PREFIX}_${namespace}`;
+    const channel = isolated || typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel(channelName);
+    const locks = typeof navigator !== "undefined" && channel ? navigator.locks : undefined;
+
+    const leaders = new Set<string>();
+    const leases = new Map<string, Lease>();
+    const listeners = new Set<() => void>();
+    const handlers = new Map<string, Set<(payload: unknown, from: string) => void>>();
+
+    const notify = () => listeners.forEach((listener) => listener());
+    const isHidden = () => typeof document !== "undefined" && document.visibilityState === "hidden";
+
+    const post = (topic: string, payload: unknown) => {
+        if (!channel) return;
+        try {
+            channel.postMessage({ topic, from: tabId, payload } satisfies TabMessage);
+        } catch (err) {
+            console.warn(`Failed to post "${topic}" to other tabs:`, err);
+        }
+    };
+    const postLease = (message: LeaseMessage) => post(LEASE_TOPIC, message);
+
+    if (channel) {
+        channel.onmessage = (event: MessageEvent<TabMessage>) => {
+            const { topic, from, payload } = event.data;
+            handlers.get(topic)?.forEach((handler) => handler(payload, from));
+        };
+    }
+
+    // Queue for the lock, or with steal take it from the current holder right away
+    const requestLock = (name: string, lease: Lease, steal: boolean) => {
+        if (!locks) return;
+        const controller = steal ? null : new AbortController();
+        let releaseLock: (() => void) | null = null;
+        let cancelled = false;
+        lease.cancel = () => {
+            cancelled = true;
+            controller?.abort();
+            releaseLock?.();
+        };
+
+        locks
+            .request(`${channelName}:${name}`, controller ? { signal: controller.signal } : { steal: true }, () => {
+                if (cancelled) return;
+                leaders.add(name);
+                notify();
+                lease.handlers.onLead();
+                postLease({ type: "status", name, hidden: isHidden() });
+                // Hold the lock until released
+                return new Promise<void>((resolve) => {
+                    releaseLock = resolve;
+                });
+            })
+            .catch((err: unknown) => {
+                if (!(err instanceof DOMException && err.name === "AbortError")) {
+                    console.warn(`Failed to lease "${name}":`, err);
+                    return;
+                }
+                // Stolen by a visible tab: follow it and queue up again
+                if (cancelled || !leaders.delete(name)) return;
+                releaseLock?.();
+                notify();
+                lease.handlers.onFollow();
+                requestLock(name, lease, false);
+            });
+    };
+
+    // Take over from a hidden holder, unless it came back or someone else got there first
+    const scheduleTakeover = (name: string, lease: Lease) => {
+        if (lease.takeoverTimer) return;
+        lease.takeoverTimer = setTimeout(() => {
+            lease.takeoverTimer = null;
+            if (leases.get(name) !== lease || leaders.has(name) || !lease.leaderHidden || isHidden()) return;
+            lease.cancel();
+            requestLock(name, lease, true);
+        }, Math.random() * TAKEOVER_JITTER_MS);
+    };
+
+    if (locks) {
+        const leaseHandlers = new Set<(payload: unknown) => void>([
+            (payload) => {
+                const message = payload as LeaseMessage;
+                const lease = leases.get(message.name);
+                if (!lease) return;
+                if (message.type === "query") {
+                    if (leaders.has(message.name)) postLease({ type: "status", name: message.name, hidden: isHidden() });
+                    return;
+                }
+                lease.leaderHidden = message.hidden;
+                if (message.hidden && !isHidden() && !leaders.has(message.name)) scheduleTakeover(message.name, lease);
+            },
+        ]);
+        handlers.set(LEASE_TOPIC, leaseHandlers);
+
+        document.addEventListener("visibilitychange", () => {
+            for (const [name, lease] of leases) {
+                if (leaders.has(name)) postLease({ type: "status", name, hidden: isHidden() });
+                else if (!isHidden() && lease.leaderHidden) scheduleTakeover(name, lease);
+            }
+        });
+    }
+
+    return {
+        tabId,
+
+        acquire: (name, leaseHandlers) => {
+            // Alone as far as we can tell: lead straight away
+            if (!locks) {
+                leaders.add(name);
+                notify();
+                leaseHandlers.onLead();
+                return () => {
+                    if (leaders.delete(name)) notify();
+                };
+            }
+
+            const lease: Lease = { handlers: leaseHandlers, cancel: () => {}, leaderHidden: false, takeoverTimer: null };
+            leases.set(name, lease);
+            leaseHandlers.onFollow();
+            requestLock(name, lease, false);
+            postLease({ type: "query", name });
+
+            return () => {
+                if (leases.get(name) === lease) leases.delete(name);
+                if (lease.takeoverTimer) clearTimeout(lease.takeoverTimer);
+                lease.cancel();
+                if (leaders.delete(name)) notify();
+            };
+        },
+
+        isLeader: (name) => leaders.has(name),
+
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+
+        post,
+
+        listen: (topic, handler) => {
+            let topicHandlers = handlers.get(topic);
+            if (!topicHandlers) {
+                topicHandlers = new Set();
+                handlers.set(topic, topicHandlers);
+            }
+            topicHandlers.add(handler);
+            return () => topicHandlers.delete(handler);
+        },
+    };
+}
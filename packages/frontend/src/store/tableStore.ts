@@ -0,0 +1,613 @@
+/**
+ * Event-driven table state store
+ *
+ * Loads a full view snapshot once, then follows the poker_events stream for
+ * the table and applies each event to the snapshot. Fields that events do not
+ * carry (deadlines, min raise, encrypted hole cards, dealer rotation)
+ * are refreshed with targeted view calls. A full resync only happens on gaps.
+ *
+ * Deployments published before the action and phase events existed only
+ * emit the table and hand lifecycle events. Until the deployment is seen
+ * emitting them, the store re-reads the full snapshot on every poll instead.
+ */
+
+import { GAME_PHASES, PLAYER_STATUS } from "../config/contracts";
+import type { EventCursor, PokerEvent, TableEventPage } from "../client";
+import type { ActionState, GameState, HandResultData, PlayerStatus, SeatInfo, TableSnapshot, TableState } from "../types";
+
+// Poll the indexer for new events at this interval
+const EVENT_POLL_MS = 1500;
+// Re-read the full snapshot at this interval while the event stream is unavailable
+const VIEW_POLL_MS = 3000;
+// Ask again whether the deployment emits the event stream at this interval
+const STREAM_PROBE_MS = 15000;
+// Safety net for state that no event covers (pause, admin-only start, leave-after-hand)
+const SAFETY_RESYNC_MS = 30000;
+// Events per indexer page
+const EVENT_PAGE_SIZE = 100;
+// Consecutive event fetch failures before falling back to a full resync
+const MAX_FETCH_FAILURES = 3;
+
+/**
+ * Chain access the store needs. Built from the contract hooks.
+ */
+export interface TableStoreSource {
+    loadSnapshot: (tableAddress: string) => Promise<TableSnapshot>;
+    loadActionState: (tableAddress: string) => Promise<{
+        actionOn: ActionState | null;
+        minRaise: number;
+        lastAggressor: number | null;
+        commitDeadline: number;
+        revealDeadline: number;
+    }>;
+    loadEncryptedHoleCards: (tableAddress: string) => Promise<number[][]>;
+    loadTableState: (tableAddress: string) => Promise<TableState>;
+    getLedgerVersion: () => Promise<bigint>;
+    /** Whether the deployment emits the per-action events the reducer needs */
+    hasEventStream: () => Promise<boolean>;
+    /** Events for the table at or after fromVersion and past cursor, oldest first */
+    fetchEvents: (
+        tableAddress: string,
+        query: { fromVersion: bigint; cursor: EventCursor | null; limit: number }
+    ) => Promise<TableEventPage<PokerEvent["type"]>>;
+}
+
+export interface TableStoreState {
+    snapshot: TableSnapshot | null;
+    loading: boolean;
+    error: string | null;
+    /** Latest HandResult seen on the live stream (not replayed from history) */
+    lastHandResult: HandResultData | null;
+}
+
+export interface TableStore {
+    getState: () => TableStoreState;
+    subscribe: (listener: () => void) => () => void;
+    start: () => void;
+    stop: () => void;
+    /** Pull new events now (e.g. right after our own transaction) */
+    sync: () => Promise<void>;
+    /** Reload the full view snapshot */
+    resync: () => Promise<void>;
+    /** Let another tab own polling: stop, and pass sync requests to it instead */
+    follow: (forward: (request: "sync" | "resync") => void) => void;
+    /** Adopt the state published by the tab that owns polling */
+    mirror: (next: TableStoreState) => void;
+}
+
+type Refresh = "action" | "holeCards" | "tableState" | "resync";
+
+// ============================================
+// REDUCER
+// ============================================
+
+function sameAddress(a: string | null | undefined, b: string): boolean {
+    return !!a && a.toLowerCase() === b.toLowerCase();
+}
+
+function updateSeat(snapshot: TableSnapshot, seatIdx: number, update: (seat: SeatInfo) => SeatInfo | null): TableSnapshot {
+    const seat = snapshot.seats[seatIdx];
+    if (!seat) return snapshot;
+    const seats = [...snapshot.seats];
+    seats[seatIdx] = update(seat);
+    return { ...snapshot, seats };
+}
+
+function setHandStatus(snapshot: TableSnapshot, seatIdx: number, status: PlayerStatus): TableSnapshot {
+    const handIdx = snapshot.playersInHand.indexOf(seatIdx);
+    if (handIdx < 0) return snapshot;
+    const playerStatuses = [...snapshot.game.playerStatuses];
+    playerStatuses[handIdx] = status;
+    const next = updateSeat(snapshot, seatIdx, (seat) => ({ ...seat, status }));
+    return { ...next, game: { ...next.game, playerStatuses } };
+}
+
+/** Move chips from a seat's stack into its current bet */
+function addBet(snapshot: TableSnapshot, seatIdx: number, amount: number): TableSnapshot {
+    const handIdx = snapshot.playersInHand.indexOf(seatIdx);
+    if (handIdx < 0 || amount <= 0) return snapshot;
+
+    const currentBets = [...snapshot.game.currentBets];
+    currentBets[handIdx] = (currentBets[handIdx] ?? 0) + amount;
+    const totalInvested = [...snapshot.game.totalInvested];
+    totalInvested[handIdx] = (totalInvested[handIdx] ?? 0) + amount;
+
+    let next = updateSeat(snapshot, seatIdx, (seat) => ({
+        ...seat,
+        chips: Math.max(seat.chips - amount, 0),
+        currentBet: seat.currentBet + amount,
+    }));
+    next = {
+        ...next,
+        game: {
+            ...next.game,
+            potSize: next.game.potSize + amount,
+            currentBets,
+            totalInvested,
+            maxCurrentBet: Math.max(...currentBets, 0),
+        },
+    };
+    return next.seats[seatIdx]?.chips === 0 ? setHandStatus(next, seatIdx, PLAYER_STATUS.ALL_IN) : next;
+}
+
+/** Bets are swept into the pot when a new street starts */
+function clearBets(snapshot: TableSnapshot): TableSnapshot {
+    return {
+        ...snapshot,
+        seats: snapshot.seats.map((seat) => (seat && seat.currentBet > 0 ? { ...seat, currentBet: 0 } : seat)),
+        game: {
+            ...snapshot.game,
+            currentBets: snapshot.game.currentBets.map(() => 0),
+            maxCurrentBet: 0,
+            lastAggressor: null,
+        },
+    };
+}
+
+function emptyGame(): GameState {
+    return {
+        phase: GAME_PHASES.WAITING,
+        potSize: 0,
+        communityCards: [],
+        currentBets: [],
+        totalInvested: [],
+        playerStatuses: [],
+        minRaise: 0,
+        maxCurrentBet: 0,
+        lastAggressor: null,
+        actionOn: null,
+    };
+}
+
+function endHand(snapshot: TableSnapshot): TableSnapshot {
+    return {
+        ...snapshot,
+        seats: snapshot.seats.map((seat) => (seat ? { ...seat, currentBet: 0, status: PLAYER_STATUS.WAITING } : seat)),
+        game: emptyGame(),
+        encryptedHoleCards: [],
+        playersInHand: [],
+        commitStatus: [],
+        commitDeadline: 0,
+        revealDeadline: 0,
+    };
+}
+
+/**
+ * Apply one event to the snapshot. Follow-up view reads are added to `refresh`.
+ */
+function applyEvent(snapshot: TableSnapshot, event: PokerEvent, refresh: Set<Refresh>): TableSnapshot {
+    // Hand-scoped events must belong to the hand we are tracking
+    if (event.type !== "HandStarted" && "handNumber" in event.data && event.data.handNumber !== snapshot.state.handNumber) {
+        refresh.add("resync");
+        return snapshot;
+    }
+
+    switch (event.type) {
+        // Table and player events
+        case "PlayerJoined": {
+            const { seatIdx, player, buyIn } = event.data;
+            const seats = [...snapshot.seats];
+            seats[seatIdx] = {
+                player,
+                chips: buyIn,
+                sittingOut: false,
+                currentBet: 0,
+                status: PLAYER_STATUS.WAITING,
+            };
+            return { ...snapshot, seats };
+        }
+        case "PlayerLeft":
+        case "PlayerKicked":
+            return updateSeat(snapshot, event.data.seatIdx, () => null);
+        case "PlayerSatOut":
+            return updateSeat(snapshot, event.data.seatIdx, (seat) => ({ ...seat, sittingOut: true }));
+        case "PlayerSatIn":
+            return updateSeat(snapshot, event.data.seatIdx, (seat) => ({ ...seat, sittingOut: false }));
+        case "PlayerToppedUp": {
+            const { newStack } = event.data;
+            return updateSeat(snapshot, event.data.seatIdx, (seat) => ({ ...seat, chips: newStack }));
+        }
+        case "TableConfigUpdated": {
+            const { configType, value1, value2 } = event.data;
+            const config = { ...snapshot.config };
+            switch (configType) {
+                case 0:
+                    config.smallBlind = value1;
+                    config.bigBlind = value2;
+                    break;
+                case 1:
+                    config.ante = value1;
+                    break;
+                case 2:
+                    config.straddleEnabled = value1 !== 0;
+                    break;
+                case 3:
+                    config.minBuyIn = value1;
+                    config.maxBuyIn = value2;
+                    break;
+            }
+            return { ...snapshot, config };
+        }
+        case "OwnershipTransferred":
+            return { ...snapshot, admin: event.data.newAdmin };
+
+        // Hand lifecycle
+        case "HandStarted": {
+            const { handNumber, dealerSeat, playerSeats: playersInHand } = event.data;
+            if (handNumber !== snapshot.state.handNumber + 1) {
+                refresh.add("resync");
+                return snapshot;
+            }
+            // The commit deadline is not in the event
+            refresh.add("action");
+            const started = endHand(snapshot);
+            return {
+                ...started,
+                state: { ...started.state, handNumber, dealerSeat },
+                seats: started.seats.map((seat, idx) =>
+                    seat && playersInHand.includes(idx) ? { ...seat, status: PLAYER_STATUS.ACTIVE } : seat
+                ),
+                game: {
+                    ...started.game,
+                    phase: GAME_PHASES.COMMIT,
+                    currentBets: playersInHand.map(() => 0),
+                    totalInvested: playersInHand.map(() => 0),
+                    playerStatuses: playersInHand.map(() => PLAYER_STATUS.ACTIVE),
+                },
+                playersInHand,
+                commitStatus: playersInHand.map(() => false),
+            };
+        }
+        case "CommitSubmitted": {
+            const { player } = event.data;
+            const seat = snapshot.seats.findIndex((s) => sameAddress(s?.player, player));
+            const handIdx = snapshot.playersInHand.indexOf(seat);
+            if (handIdx < 0) return snapshot;
+            const commitStatus = [...snapshot.commitStatus];
+            commitStatus[handIdx] = true;
+            return { ...snapshot, commitStatus };
+        }
+        case "RevealSubmitted":
+        case "ShowdownStarted":
+        case "PlayerChecked":
+            refresh.add("action");
+            return snapshot;
+        case "CardsDealt":
+            refresh.add("holeCards");
+            return snapshot;
+        case "PhaseChanged": {
+            const phase = event.data.newPhase as GameState["phase"];
+            const next = phase > GAME_PHASES.PREFLOP ? clearBets(snapshot) : snapshot;
+            refresh.add("action");
+            return { ...next, game: { ...next.game, phase } };
+        }
+        case "CommunityCardsDealt":
+            return {
+                ...snapshot,
+                game: {
+                    ...snapshot.game,
+                    communityCards: [...snapshot.game.communityCards, ...event.data.cards],
+                },
+            };
+
+        // Betting
+        case "AntesPosted": {
+            let next = snapshot;
+            for (const seat of snapshot.playersInHand) {
+                next = addBet(next, seat, Math.min(next.seats[seat]?.chips ?? 0, snapshot.config.ante));
+            }
+            return next;
+        }
+        case "BlindsPosted": {
+            const { sbSeat, sbAmount, bbSeat, bbAmount } = event.data;
+            return addBet(addBet(snapshot, sbSeat, sbAmount), bbSeat, bbAmount);
+        }
+        case "StraddlePosted":
+        case "PlayerCalled":
+        case "PlayerWentAllIn":
+            refresh.add("action");
+            return addBet(snapshot, event.data.seatIdx, event.data.amount);
+        case "PlayerRaised": {
+            const { seatIdx, raiseTo } = event.data;
+            refresh.add("action");
+            const currentBet = snapshot.seats[seatIdx]?.currentBet ?? 0;
+            return addBet(snapshot, seatIdx, raiseTo - currentBet);
+        }
+        case "PlayerFolded":
+            refresh.add("action");
+            return setHandStatus(snapshot, event.data.seatIdx, PLAYER_STATUS.FOLDED);
+        case "TimeoutTriggered": {
+            const { phase, seatIdx, penalty } = event.data;
+            if (phase >= GAME_PHASES.PREFLOP) {
+                refresh.add("action");
+                return setHandStatus(snapshot, seatIdx, PLAYER_STATUS.FOLDED);
+            }
+            const next = updateSeat(snapshot, seatIdx, (seat) => ({
+                ...seat,
+                chips: Math.max(seat.chips - penalty, 0),
+                sittingOut: true,
+            }));
+            return { ...next, state: { ...next.state, totalFeesCollected: next.state.totalFeesCollected + penalty } };
+        }
+
+        // Results
+        case "PotAwarded":
+        case "FoldWin": {
+            const { winnerSeat, amount } = event.data;
+            return updateSeat(snapshot, winnerSeat, (seat) => ({ ...seat, chips: seat.chips + amount }));
+        }
+        case "HandResult":
+            return snapshot;
+        case "HandEnded":
+            refresh.add("tableState");
+            return endHand(snapshot);
+        case "HandAborted":
+            // Emergency aborts refund invested chips, which no event reports
+            if (event.data.reason === 2) {
+                refresh.add("resync");
+                return snapshot;
+            }
+            refresh.add("tableState");
+            return endHand(snapshot);
+
+        default:
+            // TableClosed, TableCreated, FeeRecipientUpdated
+            refresh.add("resync");
+            return snapshot;
+    }
+}
+
+// ============================================
+// STORE
+// ============================================
+
+/**
+ * Create a store for one table. Call start() to begin following the table.
+ */
+export function createTableStore(tableAddress: string, source: TableStoreSource): TableStore {
+    let state: TableStoreState = { snapshot: null, loading: true, error: null, lastHandResult: null };
+    const listeners = new Set<() => void>();
+
+    // Events before `fromVersion` are reflected in the snapshot. Events in
+    // [fromVersion, settledVersion] landed while the snapshot was being read,
+    // so they may or may not be in it and force another resync. `cursor` is
+    // the last event applied since the snapshot.
+    let fromVersion = 0n;
+    let cursor: EventCursor | null = null;
+    let settledVersion = 0n;
+    let fetchFailures = 0;
+    let running = false;
+    // Bumped on every start/stop so stale poll loops exit
+    let runId = 0;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+    let resyncTimer: ReturnType<typeof setInterval> | null = null;
+    let inflight: Promise<void> | null = null;
+    // Set while another tab owns polling
+    let forward: ((request: "sync" | "resync") => void) | null = null;
+    // A mirrored snapshot has no cursor to continue from
+    let mirrored = false;
+    // Until the deployment is known to emit the event stream, poll the views
+    let streaming = false;
+    let probedAt = 0;
+    // View polling still scans the stream for hand results, from here
+    let resultsFrom: bigint | null = null;
+    let resultsCursor: EventCursor | null = null;
+
+    const setState = (partial: Partial<TableStoreState>) => {
+        state = { ...state, ...partial };
+        listeners.forEach((listener) => listener());
+    };
+
+    const updateSnapshot = (update: (snapshot: TableSnapshot) => TableSnapshot) => {
+        if (state.snapshot) setState({ snapshot: update(state.snapshot) });
+    };
+
+    const loadSnapshot = async () => {
+        try {
+            const before = await source.getLedgerVersion();
+            const snapshot = await source.loadSnapshot(tableAddress);
+            const after = await source.getLedgerVersion();
+            fromVersion = before + 1n;
+            cursor = null;
+            settledVersion = after;
+            fetchFailures = 0;
+            setState({ snapshot, loading: false, error: null });
+        } catch (err) {
+            console.error("Failed to load table:", err);
+            // Keep showing the last good snapshot on background failures
+            setState({
+                loading: false,
+                error: state.snapshot ? state.error : "Failed to load table data. Please check the address.",
+            });
+        }
+    };
+
+    const runRefreshes = async (refresh: Set<Refresh>) => {
+        if (refresh.has("resync")) {
+            await loadSnapshot();
+            return;
+        }
+
+        const tasks: Promise<void>[] = [];
+        const inHand = state.snapshot && state.snapshot.game.phase !== GAME_PHASES.WAITING;
+        if (refresh.has("action") && inHand) {
+            tasks.push(
+                source.loadActionState(tableAddress).then(({ actionOn, minRaise, lastAggressor, commitDeadline, revealDeadline }) =>
+                    updateSnapshot((snapshot) => ({
+                        ...snapshot,
+                        commitDeadline,
+                        revealDeadline,
+                        game: { ...snapshot.game, actionOn, minRaise, lastAggressor },
+                    }))
+                )
+            );
+        }
+        if (refresh.has("holeCards")) {
+            tasks.push(
+                source.loadEncryptedHoleCards(tableAddress).then((encryptedHoleCards) =>
+                    updateSnapshot((snapshot) => ({ ...snapshot, encryptedHoleCards }))
+                )
+            );
+        }
+        if (refresh.has("tableState")) {
+            tasks.push(
+                source.loadTableState(tableAddress).then((tableState) =>
+                    updateSnapshot((snapshot) => ({ ...snapshot, state: tableState }))
+                )
+            );
+        }
+        await Promise.all(tasks);
+    };
+
+    // Every page past the cursor, so a busy table never looks like a gap
+    const drainEvents = async (from: bigint, after: EventCursor | null) => {
+        let events: PokerEvent[] = [];
+        let nextCursor = after;
+        for (;;) {
+            const page = await source.fetchEvents(tableAddress, { fromVersion: from, cursor: nextCursor, limit: EVENT_PAGE_SIZE });
+            events = events.concat(page.events);
+            nextCursor = page.cursor;
+            if (!page.hasMore) break;
+        }
+        return { events, cursor: nextCursor };
+    };
+
+    const pullEvents = async () => {
+        if (!state.snapshot) {
+            await loadSnapshot();
+            return;
+        }
+
+        let events: PokerEvent[];
+        let nextCursor: EventCursor | null;
+        try {
+            ({ events, cursor: nextCursor } = await drainEvents(fromVersion, cursor));
+            fetchFailures = 0;
+        } catch (err) {
+            console.warn("Failed to fetch table events:", err);
+            fetchFailures += 1;
+            if (fetchFailures >= MAX_FETCH_FAILURES) await loadSnapshot();
+            return;
+        }
+        if (events.length === 0) {
+            // Pages of unknown event types still move the cursor
+            cursor = nextCursor;
+            return;
+        }
+
+        const refresh = new Set<Refresh>();
+        if (events.some((event) => event.version <= settledVersion)) {
+            refresh.add("resync");
+        }
+
+        let snapshot = state.snapshot;
+        for (const event of events) {
+            if (refresh.has("resync")) break;
+            snapshot = applyEvent(snapshot, event, refresh);
+        }
+        cursor = nextCursor;
+
+        // Hand results are surfaced even when the batch forces a resync
+        const handResult = events.filter((event) => event.type === "HandResult").pop();
+        setState({
+            snapshot: refresh.has("resync") ? state.snapshot : snapshot,
+            lastHandResult: handResult ? handResult.data : state.lastHandResult,
+        });
+
+        try {
+            await runRefreshes(refresh);
+        } catch (err) {
+            console.warn("Failed to refresh table views:", err);
+        }
+    };
+
+    const pollViews = async () => {
+        let handResult: HandResultData | null = null;
+        if (resultsFrom !== null) {
+            try {
+                const { events, cursor: nextCursor } = await drainEvents(resultsFrom, resultsCursor);
+                resultsCursor = nextCursor;
+                const latest = events.filter((event) => event.type === "HandResult").pop();
+                if (latest) handResult = latest.data;
+            } catch (err) {
+                console.warn("Failed to fetch table events:", err);
+            }
+        }
+        await loadSnapshot();
+        // The first snapshot marks where the hand result scan starts
+        if (resultsFrom === null && fromVersion > 0n) resultsFrom = fromVersion;
+        if (handResult) setState({ lastHandResult: handResult });
+    };
+
+    const poll = async () => {
+        if (!streaming && Date.now() - probedAt >= STREAM_PROBE_MS) {
+            probedAt = Date.now();
+            // The last snapshot's cursor is where the stream picks up
+            streaming = await source.hasEventStream().catch(() => false);
+        }
+        await (streaming ? pullEvents() : pollViews());
+    };
+
+    // Serialize loads so a resync never races an event pull
+    const serialize = (task: () => Promise<void>) => {
+        const run = (inflight ?? Promise.resolve()).then(task);
+        inflight = run.finally(() => {
+            if (inflight === run) inflight = null;
+        });
+        return run;
+    };
+
+    const sync = async () => {
+        if (forward) forward("sync");
+        else await serialize(poll);
+    };
+    const resync = async () => {
+        if (forward) forward("resync");
+        else await serialize(loadSnapshot);
+    };
+
+    const schedulePoll = (id: number) => {
+        if (!running || id !== runId) return;
+        pollTimer = setTimeout(async () => {
+            await sync();
+            schedulePoll(id);
+        }, streaming ? EVENT_POLL_MS : VIEW_POLL_MS);
+    };
+
+    const stop = () => {
+        running = false;
+        runId += 1;
+        if (pollTimer) clearTimeout(pollTimer);
+        if (resyncTimer) clearInterval(resyncTimer);
+        pollTimer = null;
+        resyncTimer = null;
+    };
+
+    return {
+        getState: () => state,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        start: () => {
+            if (running) return;
+            running = true;
+            forward = null;
+            const id = ++runId;
+            void (state.snapshot && !mirrored ? sync() : resync()).then(() => schedulePoll(id));
+            mirrored = false;
+            resyncTimer = setInterval(() => void resync(), SAFETY_RESYNC_MS);
+        },
+        stop,
+        sync,
+        resync,
+        follow: (next) => {
+            stop();
+            forward = next;
+        },
+        mirror: (next) => {
+            mirrored = true;
+            setState(next);
+        },
+    };
+}
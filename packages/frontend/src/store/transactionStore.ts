@@ -0,0 +1,175 @@
+/**
+ * Transaction activity store
+ *
+ * Tracks every transaction the connected wallet submits through HoldemClient
+ * (via its TransactionObserver) from pending to confirmed or failed.
+ * History is persisted in localStorage per network profile and wallet, and
+ * other tabs reload it whenever it changes so pending status shows everywhere.
+ */
+
+import type { CommittedTransactionResponse } from "@cedra-labs/ts-sdk";
+import { formatTransactionError, type EntryFunctionPayload, type TransactionObserver } from "../client";
+import type { TabCoordinator } from "./tabCoordinator";
+
+// Entries kept per wallet
+const MAX_HISTORY = 50;
+const STORAGE_PREFIX = "holdem_tx_history";
+
+export type TrackedStatus = "pending" | "confirmed" | "failed";
+
+export interface TrackedTransaction {
+    hash: string;
+    payload: EntryFunctionPayload;
+    /** Entry function name, e.g. "raise_to" */
+    functionName: string;
+    /** Table the action targeted, if any */
+    tableAddress: string | null;
+    status: TrackedStatus;
+    /** Milliseconds since epoch */
+    submittedAt: number;
+    settledAt: number | null;
+    gasUsed: number | null;
+    error: string | null;
+}
+
+export interface TransactionStoreState {
+    wallet: string | null;
+    /** Newest first */
+    transactions: TrackedTransaction[];
+}
+
+export interface TransactionStoreSource {
+    /** Storage namespace, e.g. the network profile id */
+    namespace: string;
+    /** Wait for a previously submitted transaction (used for entries left pending by a reload) */
+    waitForTransaction: (hash: string) => Promise<CommittedTransactionResponse>;
+    /** Tells other tabs when the history changes */
+    tabs?: TabCoordinator;
+}
+
+export interface TransactionStore {
+    getState: () => TransactionStoreState;
+    subscribe: (listener: () => void) => () => void;
+    /** Switch to a wallet's history (null when disconnected) */
+    setWallet: (wallet: string | null) => void;
+    clear: () => void;
+    /** Plug into HoldemClient to record submissions */
+    observer: TransactionObserver;
+}
+
+function describePayload(payload: EntryFunctionPayload): { functionName: string; tableAddress: string | null } {
+    const [, module, functionName] = payload.function.split("::");
+    const [first] = payload.functionArguments;
+    // texas_holdem entry functions take the table address first (create_table excepted)
+    const tableAddress =
+        module === "texas_holdem" && functionName !== "create_table" && typeof first === "string" && first.startsWith("0x")
+            ? first
+            : null;
+    return { functionName: functionName ?? payload.function, tableAddress };
+}
+
+function gasUsedOf(result: CommittedTransactionResponse): number | null {
+    return "gas_used" in result ? Number(result.gas_used) : null;
+}
+
+export function createTransactionStore(source: TransactionStoreSource): TransactionStore {
+    const listeners = new Set<() => void>();
+    let state: TransactionStoreState = { wallet: null, transactions: [] };
+
+    const storageKey = (wallet: string) => `${STORAGE_PREFIX}:${source.namespace}:${wallet.toLowerCase()}`;
+
+    const load = (wallet: string): TrackedTransaction[] => {
+        try {
+            const raw = localStorage.getItem(storageKey(wallet));
+            return raw ? (JSON.parse(raw) as TrackedTransaction[]) : [];
+        } catch {
+            return [];
+        }
+    };
+
+    const persist = () => {
+        if (!state.wallet) return;
+        try {
+            localStorage.setItem(storageKey(state.wallet), JSON.stringify(state.transactions.slice(0, MAX_HISTORY)));
+            source.tabs?.post("transactions", state.wallet.toLowerCase());
+        } catch (err) {
+            console.warn("Failed to persist transaction history:", err);
+        }
+    };
+
+    const setState = (partial: Partial<TransactionStoreState>) => {
+        state = { ...state, ...partial };
+        listeners.forEach((listener) => listener());
+    };
+
+    const update = (hash: string, patch: Partial<TrackedTransaction>) => {
+        if (!state.transactions.some((tx) => tx.hash === hash)) return;
+        setState({ transactions: state.transactions.map((tx) => (tx.hash === hash ? { ...tx, ...patch } : tx)) });
+        persist();
+    };
+
+    const settle = (hash: string, result: CommittedTransactionResponse) => {
+        update(hash, { status: "confirmed", settledAt: Date.now(), gasUsed: gasUsedOf(result), error: null });
+    };
+
+    const fail = (hash: string, error: unknown) => {
+        update(hash, { status: "failed", settledAt: Date.now(), error: formatTransactionError(error) });
+    };
+
+    // Entries still pending from a previous session
+    const recheckPending = () => {
+        for (const tx of state.transactions) {
+            if (tx.status !== "pending") continue;
+            source
+                .waitForTransaction(tx.hash)
+                .then((result) => settle(tx.hash, result))
+                .catch((err) => fail(tx.hash, err));
+        }
+    };
+
+    // Another tab wrote this wallet's history
+    source.tabs?.listen("transactions", (wallet) => {
+        if (state.wallet && wallet === state.wallet.toLowerCase()) setState({ transactions: load(state.wallet) });
+    });
+
+    const observer: TransactionObserver = {
+        submitted: (payload, hash) => {
+            if (!state.wallet) return;
+            const entry: TrackedTransaction = {
+                hash,
+                payload,
+                ...describePayload(payload),
+                status: "pending",
+                submittedAt: Date.now(),
+                settledAt: null,
+                gasUsed: null,
+                error: null,
+            };
+            setState({ transactions: [entry, ...state.transactions].slice(0, MAX_HISTORY) });
+            persist();
+        },
+        confirmed: (_payload, { hash, result }) => settle(hash, result),
+        failed: (_payload, hash, error) => {
+            // Rejected before submission: nothing reached the chain, nothing to track
+            if (hash) fail(hash, error);
+        },
+    };
+
+    return {
+        getState: () => state,
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => listeners.delete(listener);
+        },
+        setWallet: (wallet) => {
+            if (wallet?.toLowerCase() === state.wallet?.toLowerCase()) return;
+            setState({ wallet, transactions: wallet ? load(wallet) : [] });
+            recheckPending();
+        },
+        clear: () => {
+            setState({ transactions: [] });
+            persist();
+        },
+        observer,
+    };
+}
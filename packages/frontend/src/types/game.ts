@@ -42,7 +42,8 @@ export interface GameState {
     playerStatuses: PlayerStatus[];
     minRaise: number;
     maxCurrentBet: number;
-    lastAggressor: number;
+    /** Seat index of the last aggressor this street, or null if none */
+    lastAggressor: number | null;
     actionOn: ActionState | null;
 }
 
@@ -54,6 +55,24 @@ export interface Table {
     game: GameState | null;
 }
 
+/**
+ * Full client-side view of a table, as maintained by the table store.
+ * Extends Table with the per-hand and admin fields the UI renders.
+ */
+export interface TableSnapshot extends Table {
+    game: GameState;
+    admin: string;
+    paused: boolean;
+    adminOnlyStart: boolean;
+    pendingLeaves: boolean[];
+    encryptedHoleCards: number[][];
+    playersInHand: number[];
+    commitStatus: boolean[];
+    /** Unix seconds; 0 outside the window */
+    commitDeadline: number;
+    revealDeadline: number;
+}
+
 export type GamePhase = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7;
 export type PlayerStatus = 0 | 1 | 2 | 3;
 
@@ -74,3 +93,24 @@ export interface HandResult {
     amounts: number[];
     handRanking: number;
 }
+
+// Hand result data - matches the on-chain HandResult event structure
+export interface HandResultData {
+    tableAddr: string;
+    handNumber: number;
+    timestamp: number;
+    communityCards: number[];
+    // Players who reached showdown (didn't fold)
+    showdownSeats: number[];
+    showdownPlayers: string[];
+    showdownHoleCards: number[][];
+    showdownHandTypes: number[];
+    // Winners
+    winnerSeats: number[];
+    winnerPlayers: string[];
+    winnerAmounts: number[];
+    // Summary
+    totalPot: number;
+    totalFees: number;
+    resultType: number; // 0=showdown, 1=fold_win
+}
@@ -5,6 +5,7 @@
  * The contract uses: key = SHA3-256(secret || "HOLECARDS" || BCS(seat_idx_u64))
  */
 
+import { AccountAddress } from "@cedra-labs/ts-sdk";
 import { sha3_256 } from "@noble/hashes/sha3";
 
 /**
@@ -86,7 +87,7 @@ export function xorDecryptCards(encryptedCards: number[], key: Uint8Array): numb
  * Attempt to decrypt hole cards for the current player.
  * 
  * @param encryptedCards - The encrypted hole cards from the contract
- * @param secret - The player's reveal secret (from sessionStorage)
+ * @param secret - The player's reveal secret (from the secret vault)
  * @param seatIdx - The player's seat index
  * @returns Decrypted card values, or original if decryption fails
  */
@@ -108,23 +109,42 @@ export function decryptHoleCards(
     }
 }
 
+/** Nonce signed along with every derived hand secret message */
+export const HAND_SECRET_NONCE = "holdem-hand-secret-v1";
+
 /**
- * Get the stored secret for a given table/player/hand combination.
- * This retrieves from sessionStorage where secrets are stored.
+ * Message a wallet signs to derive the secret for one seat in one hand.
+ * Changing the wording changes every derived secret.
  */
-export function getStoredSecret(
-    tableAddress: string,
-    playerAddress: string,
-    handNumber: number
-): string | null {
-    if (!tableAddress || !playerAddress || handNumber <= 0) return null;
+export function handSecretMessage(tableAddress: string, handNumber: number, seatIdx: number, salt: string): string {
+    return [
+        "Texas Hold'em hand secret",
+        `Table: ${AccountAddress.from(tableAddress).toStringLong()}`,
+        `Hand: ${handNumber}`,
+        `Seat: ${seatIdx}`,
+        `Salt: ${salt}`,
+    ].join("\n");
+}
 
-    const key = `holdem_secret_${tableAddress}_${playerAddress}_${handNumber}`.toLowerCase();
-    try {
-        return sessionStorage.getItem(key);
-    } catch {
-        return null;
-    }
+/**
+ * Derive a hand secret from the wallet's signature over handSecretMessage.
+ * Ed25519 signatures are deterministic, so the same wallet, table, hand,
+ * seat and salt always give the same secret: it can be recovered on any
+ * device instead of being stored. The result has the same shape as a
+ * random secret (32 hex characters), so hashSecretToBytes and
+ * deriveCardKey treat it exactly the same.
+ */
+export async function deriveHandSecret(
+    sign: (message: string, nonce: string) => Promise<Uint8Array>,
+    tableAddress: string,
+    handNumber: number,
+    seatIdx: number,
+    salt: string
+): Promise<string> {
+    const signature = await sign(handSecretMessage(tableAddress, handNumber, seatIdx, salt), HAND_SECRET_NONCE);
+    return Array.from(sha3_256(signature).slice(0, 16))
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
 }
 
 /**
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { calculateEquity } from "./equity";
+import { evaluateHand } from "./handEval";
+
+const RANKS = "23456789TJQKA";
+const SUITS = "cdhs";
+
+/** "Ah" -> card index (suit * 13 + rank) */
+function card(name: string): number {
+    return SUITS.indexOf(name[1]) * 13 + RANKS.indexOf(name[0]);
+}
+
+const cards = (names: string) => names.split(" ").map(card);
+
+function score(hand: number[]): number {
+    const { handType, tiebreaker } = evaluateHand(hand);
+    return handType * 2 ** 40 + tiebreaker;
+}
+
+/** Every runout and every deal of distinct opponent hands, scored one by one */
+function bruteForce(holeCards: number[], board: number[], opponents: 1 | 2) {
+    const known = [...holeCards, ...board];
+    const deck = Array.from({ length: 52 }, (_, c) => c).filter((c) => !known.includes(c));
+    let win = 0;
+    let tie = 0;
+    let equity = 0;
+    let trials = 0;
+
+    const runouts = board.length === 5 ? [[]] : deck.map((c) => [c]);
+    for (const runout of runouts) {
+        const fullBoard = [...board, ...runout];
+        const hero = score([...holeCards, ...fullBoard]);
+        const live = deck.filter((c) => !runout.includes(c));
+        const hands: { cards: number[]; score: number }[] = [];
+        for (let i = 0; i < live.length; i++) {
+            for (let j = i + 1; j < live.length; j++) {
+                hands.push({ cards: [live[i], live[j]], score: score([live[i], live[j], ...fullBoard]) });
+            }
+        }
+
+        const settle = (scores: number[]) => {
+            trials++;
+            const best = Math.max(...scores);
+            if (hero > best) {
+                win++;
+                equity++;
+            } else if (hero === best) {
+                tie++;
+                equity += 1 / (scores.filter((s) => s === best).length + 1);
+            }
+        };
+
+        for (let a = 0; a < hands.length; a++) {
+            if (opponents === 1) {
+                settle([hands[a].score]);
+                continue;
+            }
+            for (let b = a + 1; b < hands.length; b++) {
+                if (hands[b].cards.some((c) => hands[a].cards.includes(c))) continue;
+                settle([hands[a].score, hands[b].score]);
+            }
+        }
+    }
+    return { win: win / trials, tie: tie / trials, equity: equity / trials, trials };
+}
+
+describe("calculateEquity", () => {
+    const spots: { name: string; hole: string; board: string; opponents: 1 | 2 }[] = [
+        { name: "river, drawing hand", hole: "Ah Kh", board: "Qh Jh 2c 7d 9s", opponents: 1 },
+        { name: "river, drawing hand", hole: "Ah Kh", board: "Qh Jh 2c 7d 9s", opponents: 2 },
+        { name: "river, double-paired board", hole: "Ah 2c", board: "5c 5d 9h 9s Kc", opponents: 2 },
+        { name: "river, board plays for everyone", hole: "2c 3d", board: "As Ks Qs Js Ts", opponents: 2 },
+        { name: "turn, made hand", hole: "Td Tc", board: "Th 6s 2d 8c", opponents: 1 },
+    ];
+
+    for (const { name, hole, board, opponents } of spots) {
+        it(`matches brute force: ${name}, ${opponents} opponent${opponents > 1 ? "s" : ""}`, () => {
+            const exact = calculateEquity({ holeCards: cards(hole), board: cards(board), opponents });
+            const expected = bruteForce(cards(hole), cards(board), opponents);
+
+            expect(exact.exact).toBe(true);
+            expect(exact.trials).toBe(expected.trials);
+            expect(exact.win).toBeCloseTo(expected.win, 9);
+            expect(exact.tie).toBeCloseTo(expected.tie, 9);
+            expect(exact.equity).toBeCloseTo(expected.equity, 9);
+        });
+    }
+
+    it("samples preflop and flop spots", () => {
+        const result = calculateEquity({ holeCards: cards("As Ad"), board: [], opponents: 1, samples: 2000 });
+        expect(result.exact).toBe(false);
+        expect(result.trials).toBe(2000);
+    });
+});
@@ -0,0 +1,336 @@
+/**
+ * Hand equity
+ *
+ * Win and tie odds for a known hand against a number of random opponent
+ * hands, given the board so far. Turn and river spots are exact for any
+ * number of opponents: each runout is scored once per possible opponent hand
+ * and the ways to hand those out without sharing a card are counted in
+ * closed form. Preflop and flop are estimated by Monte Carlo. Hands are
+ * ranked with the contract's evaluator, so ties mean what they mean at
+ * showdown.
+ */
+
+import { evaluateHand } from "./handEval";
+
+export interface EquityQuery {
+    holeCards: number[];
+    /** Community cards dealt so far (0, 3, 4 or 5) */
+    board: number[];
+    /** Opponents holding random hands, 1 to 4 */
+    opponents: number;
+    /** Monte Carlo trials for preflop and flop spots */
+    samples?: number;
+}
+
+export interface EquityResult {
+    /** Share of outcomes won outright, 0..1 */
+    win: number;
+    /** Share of outcomes split with at least one opponent, 0..1 */
+    tie: number;
+    /** Expected share of the pot: wins plus split fractions, 0..1 */
+    equity: number;
+    /** Deals counted or sampled */
+    trials: number;
+    exact: boolean;
+}
+
+const DECK_SIZE = 52;
+const BOARD_SIZE = 5;
+const DEFAULT_SAMPLES = 20_000;
+// Fewest board cards for an exact answer: with two or more to come we sample
+const EXACT_BOARD = 4;
+
+// handType above a tiebreaker of at most five packed bytes, still exact as a double
+const TYPE_WEIGHT = 2 ** 40;
+
+function score(cards: number[]): number {
+    const { handType, tiebreaker } = evaluateHand(cards);
+    return handType * TYPE_WEIGHT + tiebreaker;
+}
+
+function choose(n: number, k: number): number {
+    let result = 1;
+    for (let i = 0; i < k; i++) result = (result * (n - i)) / (i + 1);
+    return Math.round(result);
+}
+
+/** Ways to hand `opponents` players two cards each from `cards` cards, ignoring seat order */
+function countDeals(cards: number, opponents: number): number {
+    let deals = 1;
+    for (let i = 0; i < opponents; i++) deals *= choose(cards - 2 * i, 2);
+    for (let i = 2; i <= opponents; i++) deals /= i;
+    return Math.round(deals);
+}
+
+interface Tally {
+    win: number;
+    tie: number;
+    equity: number;
+    trials: number;
+}
+
+/** Score one complete deal for the hero */
+function settle(tally: Tally, heroScore: number, opponentScores: number[]) {
+    let best = 0;
+    let tied = 0;
+    for (const opponent of opponentScores) {
+        if (opponent > best) {
+            best = opponent;
+            tied = opponent === heroScore ? 1 : 0;
+        } else if (opponent === best && opponent === heroScore) {
+            tied++;
+        }
+    }
+    tally.trials++;
+    if (heroScore > best) {
+        tally.win++;
+        tally.equity++;
+    } else if (heroScore === best) {
+        tally.tie++;
+        tally.equity += 1 / (tied + 1);
+    }
+}
+
+function forEachCombination(cards: number[], size: number, visit: (combo: number[]) => void, start = 0, combo: number[] = []) {
+    if (combo.length === size) {
+        visit(combo);
+        return;
+    }
+    for (let i = start; i <= cards.length - (size - combo.length); i++) {
+        combo.push(cards[i]);
+        forEachCombination(cards, size, visit, i + 1, combo);
+        combo.pop();
+    }
+}
+
+/**
+ * Weighted count of the sets of `size` (1 to 4) pairwise disjoint edges in a
+ * graph, each set weighing the product of its edge weights. `w` is the
+ * symmetric n×n weight matrix with a zero diagonal.
+ *
+ * Nothing is enumerated: a matching of size k is an edge plus a (k-1)-matching
+ * that avoids both its ends, and "avoids" is an inclusion-exclusion over the
+ * matchings that cover those ends, which come out of degrees and short paths.
+ *
+ * Every quantity is an integer, so doubles hold it exactly while it stays
+ * below 2^53. With at most 45 live cards (990 edges) and weights of at most 4
+ * (the most opponents that can tie), a vertex degree is at most 176, the edge
+ * total 3960, and there are at most 1.2e8 3-matchings and 2.3e10 4-matchings
+ * of weight at most 4^4. The largest term, the 4-matching sum before its
+ * division, stays under 990 · 4 · 3 · 7.8e9 ≈ 1e14 < 2^47.
+ */
+function countMatchings(w: Float64Array, n: number, size: number): number {
+    const at = (u: number, v: number) => w[u * n + v];
+
+    const degree = new Float64Array(n);
+    let squares = 0;
+    for (let u = 0; u < n; u++) {
+        for (let v = 0; v < n; v++) {
+            degree[u] += at(u, v);
+            if (u < v) squares += at(u, v) ** 2;
+        }
+    }
+    const total = degree.reduce((sum, d) => sum + d, 0) / 2;
+    if (size === 1) return total;
+
+    const m2 = (total ** 2 - degree.reduce((sum, d) => sum + d * d, 0) + squares) / 2;
+    if (size === 2) return m2;
+
+    // Neighbour degree sums, squared weights at each vertex, and two-step paths
+    const neighbourDegrees = new Float64Array(n);
+    const squaresAt = new Float64Array(n);
+    const paths2 = new Float64Array(n * n);
+    for (let u = 0; u < n; u++) {
+        for (let a = 0; a < n; a++) {
+            const ua = at(u, a);
+            if (ua === 0) continue;
+            neighbourDegrees[u] += ua * degree[a];
+            squaresAt[u] += ua * ua;
+            for (let v = 0; v < n; v++) paths2[u * n + v] += ua * at(a, v);
+        }
+    }
+
+    // 2-matchings covering u, and covering both u and v
+    const cover2 = Array.from(degree, (d, u) => d * (total - d) - neighbourDegrees[u] + squaresAt[u]);
+    const cover2Pair = (u: number, v: number) => {
+        const uv = at(u, v);
+        return uv * (total - degree[u] - degree[v] + uv) + degree[u] * degree[v] - uv * (degree[u] + degree[v]) + uv * uv - paths2[u * n + v];
+    };
+    const m2Avoiding = (u: number, v: number) => m2 - cover2[u] - cover2[v] + cover2Pair(u, v);
+
+    let m3 = 0;
+    for (let u = 0; u < n; u++) {
+        for (let v = u + 1; v < n; v++) if (at(u, v) !== 0) m3 += at(u, v) * m2Avoiding(u, v);
+    }
+    m3 /= 3;
+    if (size === 3) return m3;
+
+    const paths3 = new Float64Array(n * n);
+    for (let u = 0; u < n; u++) {
+        for (let a = 0; a < n; a++) {
+            const ua = at(u, a);
+            if (ua === 0) continue;
+            for (let v = 0; v < n; v++) paths3[u * n + v] += ua * paths2[a * n + v];
+        }
+    }
+
+    // 3-matchings covering u
+    const cover3 = new Float64Array(n);
+    for (let u = 0; u < n; u++) {
+        for (let a = 0; a < n; a++) if (at(u, a) !== 0) cover3[u] += at(u, a) * m2Avoiding(u, a);
+    }
+
+    // 3-matchings covering u and v: through the edge uv, or through edges ua
+    // and vb plus a third edge clear of all four (summed over every a, b,
+    // then the a = v, b = u and a = b terms taken back out)
+    const cover3Pair = (u: number, v: number) => {
+        const uv = at(u, v);
+        const base = total - degree[u] - degree[v] + uv;
+        const rest = (x: number) => -degree[x] + at(u, x) + at(v, x);
+        const clear = (a: number, b: number) => base + rest(a) + rest(b) + at(a, b);
+        const shared = paths2[u * n + v];
+
+        let sum =
+            base * degree[u] * degree[v] +
+            degree[v] * (-neighbourDegrees[u] + squaresAt[u] + shared) +
+            degree[u] * (-neighbourDegrees[v] + squaresAt[v] + shared) +
+            paths3[u * n + v];
+        for (let x = 0; x < n; x++) {
+            sum -= uv * at(v, x) * clear(v, x);
+            sum -= uv * at(u, x) * clear(x, u);
+            sum -= at(u, x) * at(v, x) * clear(x, x);
+        }
+        sum += uv * uv * clear(v, u);
+        return uv * m2Avoiding(u, v) + sum;
+    };
+
+    let m4 = 0;
+    for (let u = 0; u < n; u++) {
+        for (let v = u + 1; v < n; v++) {
+            if (at(u, v) !== 0) m4 += at(u, v) * (m3 - cover3[u] - cover3[v] + cover3Pair(u, v));
+        }
+    }
+    return m4 / 4;
+}
+
+/**
+ * Monomial coefficients of an integer polynomial of degree values.length - 1,
+ * from its values at 0, 1, 2, ... (Newton forward differences). Integer
+ * arithmetic throughout: the k-th difference of an integer polynomial at 0
+ * is a multiple of k!, and the falling factorials have integer coefficients.
+ */
+function coefficientsFromValues(values: number[]): number[] {
+    const coefficients: number[] = new Array(values.length).fill(0);
+    let differences = [...values];
+    // y(y-1)...(y-k+1) as monomial coefficients
+    let falling = [1];
+    let factorial = 1;
+    for (let k = 0; k < values.length; k++) {
+        if (k > 0) factorial *= k;
+        const step = differences[0] / factorial;
+        falling.forEach((f, i) => (coefficients[i] += step * f));
+        differences = differences.slice(1).map((value, i) => value - differences[i]);
+        const next: number[] = new Array(falling.length + 1).fill(0);
+        falling.forEach((f, i) => {
+            next[i + 1] += f;
+            next[i] -= f * k;
+        });
+        falling = next;
+    }
+    return coefficients;
+}
+
+function enumerate(query: EquityQuery, deck: number[], tally: Tally) {
+    const missing = BOARD_SIZE - query.board.length;
+    const { opponents } = query;
+    const n = deck.length - missing;
+    const deals = countDeals(n, opponents);
+    // The diagonal stays "ahead" so it weighs nothing
+    const outcome = new Int8Array(n * n).fill(1);
+    const weights = new Float64Array(n * n);
+
+    forEachCombination(deck, missing, (runout) => {
+        const board = [...query.board, ...runout];
+        const heroScore = score([...query.holeCards, ...board]);
+        const live = deck.filter((card) => !runout.includes(card));
+
+        // Every possible opponent hand on this board: -1 behind the hero, 0 level, 1 ahead
+        let ties = false;
+        for (let i = 0; i < n; i++) {
+            for (let j = i + 1; j < n; j++) {
+                const sign = Math.sign(score([live[i], live[j], ...board]) - heroScore);
+                outcome[i * n + j] = outcome[j * n + i] = sign;
+                if (sign === 0) ties = true;
+            }
+        }
+
+        // Deals with nobody ahead, weighing y per opponent level with the hero:
+        // a polynomial in y whose coefficients count the deals by number of ties
+        const values: number[] = [];
+        for (let y = 0; y <= (ties ? opponents : 0); y++) {
+            for (let k = 0; k < n * n; k++) weights[k] = outcome[k] < 0 ? 1 : outcome[k] === 0 ? y : 0;
+            values.push(countMatchings(weights, n, opponents));
+        }
+        const byTies = coefficientsFromValues(values);
+
+        tally.trials += deals;
+        tally.win += byTies[0];
+        tally.equity += byTies[0];
+        for (let tied = 1; tied < byTies.length; tied++) {
+            tally.tie += byTies[tied];
+            tally.equity += byTies[tied] / (tied + 1);
+        }
+    });
+}
+
+function sample(query: EquityQuery, deck: number[], tally: Tally, samples: number) {
+    const missing = BOARD_SIZE - query.board.length;
+    const needed = missing + query.opponents * 2;
+    const shuffled = [...deck];
+
+    for (let trial = 0; trial < samples; trial++) {
+        // Partial Fisher-Yates: the first `needed` cards become a random draw
+        for (let i = 0; i < needed; i++) {
+            const j = i + Math.floor(Math.random() * (shuffled.length - i));
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+        const board = [...query.board, ...shuffled.slice(0, missing)];
+        const heroScore = score([...query.holeCards, ...board]);
+        const opponentScores: number[] = [];
+        for (let o = 0; o < query.opponents; o++) {
+            const offset = missing + o * 2;
+            opponentScores.push(score([shuffled[offset], shuffled[offset + 1], ...board]));
+        }
+        settle(tally, heroScore, opponentScores);
+    }
+}
+
+/**
+ * Win/tie odds for holeCards against `opponents` random hands.
+ * Throws on an impossible query (wrong card counts, duplicates, too many opponents).
+ */
+export function calculateEquity(query: EquityQuery): EquityResult {
+    const { holeCards, board, opponents } = query;
+    const known = [...holeCards, ...board];
+    if (holeCards.length !== 2) throw new Error("Equity needs exactly 2 hole cards");
+    if (board.length > BOARD_SIZE) throw new Error("Board has more than 5 cards");
+    if (new Set(known).size !== known.length || known.some((card) => card < 0 || card >= DECK_SIZE)) {
+        throw new Error("Equity got duplicate or invalid cards");
+    }
+    if (!Number.isInteger(opponents) || opponents < 1 || opponents > 4) throw new Error("Equity needs 1 to 4 opponents");
+
+    const deck = Array.from({ length: DECK_SIZE }, (_, card) => card).filter((card) => !known.includes(card));
+    const tally: Tally = { win: 0, tie: 0, equity: 0, trials: 0 };
+    const exact = board.length >= EXACT_BOARD;
+
+    if (exact) enumerate(query, deck, tally);
+    else sample(query, deck, tally, query.samples ?? DEFAULT_SAMPLES);
+
+    return {
+        win: tally.win / tally.trials,
+        tie: tally.tie / tally.trials,
+        equity: tally.equity / tally.trials,
+        trials: tally.trials,
+        exact,
+    };
+}
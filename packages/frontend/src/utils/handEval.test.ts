@@ -0,0 +1,81 @@
+/**
+ * The vectors from contracts/tests/texas_holdem_tests.move (hand_eval_tests),
+ * so the port fails here whenever it stops agreeing with the contract.
+ */
+
+import { describe, expect, it } from "vitest";
+import { compareHands, evaluateHand } from "./handEval";
+
+// rank: 0=2, 1=3, ..., 8=10, 9=J, 10=Q, 11=K, 12=Ace
+// suit: 0=clubs(c), 1=diamonds(d), 2=hearts(h), 3=spades(s)
+function makeCard(rank: number, suit: number): number {
+    return suit * 13 + rank;
+}
+
+describe("evaluateHand", () => {
+    const vectors: { test: string; cards: [number, number][]; handType: number }[] = [
+        // 2c, 5d, 7h, 9s, Jc, Kd, Ah
+        { test: "test_high_card", cards: [[0, 0], [3, 1], [5, 2], [7, 3], [9, 0], [11, 1], [12, 2]], handType: 0 },
+        // 2c, 2d, 5h, 7s, 9c, Jd, Kh
+        { test: "test_one_pair", cards: [[0, 0], [0, 1], [3, 2], [5, 3], [7, 0], [9, 1], [11, 2]], handType: 1 },
+        // 2c, 2d, 5h, 5s, 9c, Jd, Kh
+        { test: "test_two_pair", cards: [[0, 0], [0, 1], [3, 2], [3, 3], [7, 0], [9, 1], [11, 2]], handType: 2 },
+        // 5c, 5d, 5h, 7s, 9c, Jd, Kh
+        { test: "test_three_of_a_kind", cards: [[3, 0], [3, 1], [3, 2], [5, 3], [7, 0], [9, 1], [11, 2]], handType: 3 },
+        // 4c, 5d, 6h, 7s, 8c, Jd, Kh
+        { test: "test_straight", cards: [[2, 0], [3, 1], [4, 2], [5, 3], [6, 0], [9, 1], [11, 2]], handType: 4 },
+        // 2h, 5h, 7h, 9h, Jh, Kd, Ac
+        { test: "test_flush", cards: [[0, 2], [3, 2], [5, 2], [7, 2], [9, 2], [11, 1], [12, 0]], handType: 5 },
+        // 5c, 5d, 5h, Ks, Kc, 2d, 3h
+        { test: "test_full_house", cards: [[3, 0], [3, 1], [3, 2], [11, 3], [11, 0], [0, 1], [1, 2]], handType: 6 },
+        // 9c, 9d, 9h, 9s, Kc, Qd, Jh
+        { test: "test_four_of_a_kind", cards: [[7, 0], [7, 1], [7, 2], [7, 3], [11, 0], [10, 1], [9, 2]], handType: 7 },
+        // 5s, 6s, 7s, 8s, 9s, Kd, Ac
+        { test: "test_straight_flush", cards: [[3, 3], [4, 3], [5, 3], [6, 3], [7, 3], [11, 1], [12, 0]], handType: 8 },
+        // 10s, Js, Qs, Ks, As, 2d, 3c
+        { test: "test_royal_flush", cards: [[8, 3], [9, 3], [10, 3], [11, 3], [12, 3], [0, 1], [1, 0]], handType: 9 },
+    ];
+
+    for (const { test, cards, handType } of vectors) {
+        it(test, () => {
+            expect(evaluateHand(cards.map(([rank, suit]) => makeCard(rank, suit))).handType).toBe(handType);
+        });
+    }
+
+    it("orders the vectors from high card up to royal flush", () => {
+        const hands = vectors.map(({ cards }) => evaluateHand(cards.map(([rank, suit]) => makeCard(rank, suit))));
+        for (let i = 1; i < hands.length; i++) expect(compareHands(hands[i], hands[i - 1])).toBe(1);
+    });
+
+    it("test_wheel_straight", () => {
+        // Ac, 2d, 3h, 4s, 5c, Jd, Kh
+        const cards = [makeCard(12, 0), makeCard(0, 1), makeCard(1, 2), makeCard(2, 3), makeCard(3, 0), makeCard(9, 1), makeCard(11, 2)];
+        // Straight, 5-high
+        expect(evaluateHand(cards)).toEqual({ handType: 4, tiebreaker: 3 });
+    });
+
+    it("test_wrong_card_count_6_cards", () => {
+        expect(() => evaluateHand([0, 1, 2, 3, 4, 5])).toThrow();
+    });
+
+    it("test_wrong_card_count_8_cards", () => {
+        expect(() => evaluateHand([0, 1, 2, 3, 4, 5, 6, 7])).toThrow();
+    });
+
+    it("test_duplicate_cards_fails", () => {
+        expect(() => evaluateHand([0, 0, 1, 2, 3, 4, 5])).toThrow();
+    });
+});
+
+describe("compareHands", () => {
+    it("test_compare_hands", () => {
+        // Royal flush beats straight flush
+        expect(compareHands({ handType: 9, tiebreaker: 0 }, { handType: 8, tiebreaker: 7 })).toBe(1);
+        // Pair of kings beats pair of queens (tiebreaker: rank)
+        expect(compareHands({ handType: 1, tiebreaker: 11 << 24 }, { handType: 1, tiebreaker: 10 << 24 })).toBe(1);
+        // Same hand = tie
+        expect(compareHands({ handType: 5, tiebreaker: 100 }, { handType: 5, tiebreaker: 100 })).toBe(0);
+        // Flush beats straight
+        expect(compareHands({ handType: 5, tiebreaker: 0 }, { handType: 4, tiebreaker: 12 })).toBe(1);
+    });
+});
@@ -0,0 +1,274 @@
+/**
+ * Hand evaluation
+ *
+ * TypeScript port of hand_eval.move. Hand types and tiebreakers are encoded
+ * exactly as the contract does, so results compare equal to what
+ * evaluate_hand produces on chain. findBestHand extends this to partial
+ * boards for the live "current hand" readout.
+ */
+
+import { HAND_RANKINGS } from "../config/contracts";
+
+export interface HandEvaluation {
+    /** Index into HAND_RANKINGS, 0 = High Card ... 9 = Royal Flush */
+    handType: number;
+    /** Ranks in order of importance, one byte each (see encode_* in hand_eval.move) */
+    tiebreaker: number;
+}
+
+// Hand types (hand_eval.move HAND_*)
+const HIGH_CARD = 0;
+const ONE_PAIR = 1;
+const TWO_PAIR = 2;
+const THREE_OF_A_KIND = 3;
+const STRAIGHT = 4;
+const FLUSH = 5;
+const FULL_HOUSE = 6;
+const FOUR_OF_A_KIND = 7;
+const STRAIGHT_FLUSH = 8;
+const ROYAL_FLUSH = 9;
+
+const ACE = 12;
+const NO_RANK = 255;
+
+/** 0 = 2 ... 12 = Ace */
+export function getRank(card: number): number {
+    return card % 13;
+}
+
+/** 0 = Clubs, 1 = Diamonds, 2 = Hearts, 3 = Spades */
+export function getSuit(card: number): number {
+    return Math.floor(card / 13);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function countRanks(cards: number[]): number[] {
+    const counts = new Array<number>(13).fill(0);
+    for (const card of cards) counts[getRank(card)]++;
+    return counts;
+}
+
+function countSuits(cards: number[]): number[] {
+    const counts = new Array<number>(4).fill(0);
+    for (const card of cards) counts[getSuit(card)]++;
+    return counts;
+}
+
+/** Suit with 5+ cards, or null */
+function findFlush(suitCounts: number[]): number | null {
+    const suit = suitCounts.findIndex((count) => count >= 5);
+    return suit >= 0 ? suit : null;
+}
+
+/** High card rank of the best straight, or null. The wheel (A-5) is 5-high. */
+function findStraight(rankCounts: number[]): number | null {
+    if (rankCounts[ACE] >= 1 && rankCounts[0] >= 1 && rankCounts[1] >= 1 && rankCounts[2] >= 1 && rankCounts[3] >= 1) {
+        return 3;
+    }
+    for (let high = ACE; high >= 4; high--) {
+        let consecutive = true;
+        for (let rank = high - 4; rank <= high; rank++) {
+            if (rankCounts[rank] === 0) consecutive = false;
+        }
+        if (consecutive) return high;
+    }
+    return null;
+}
+
+/** Highest rank with at least n cards, or null */
+function findNOfAKind(rankCounts: number[], n: number): number | null {
+    for (let rank = ACE; rank >= 0; rank--) {
+        if (rankCounts[rank] >= n) return rank;
+    }
+    return null;
+}
+
+function findPairExcluding(rankCounts: number[], exclude: number): number | null {
+    for (let rank = ACE; rank >= 0; rank--) {
+        if (rank !== exclude && rankCounts[rank] >= 2) return rank;
+    }
+    return null;
+}
+
+function findHighestKicker(rankCounts: number[], exclude1: number, exclude2: number): number {
+    for (let rank = ACE; rank >= 0; rank--) {
+        if (rank !== exclude1 && rank !== exclude2 && rankCounts[rank] >= 1) return rank;
+    }
+    return 0;
+}
+
+function findTopKickers(rankCounts: number[], exclude1: number, exclude2: number, n: number): number[] {
+    const kickers: number[] = [];
+    for (let rank = ACE; rank >= 0 && kickers.length < n; rank--) {
+        if (rank !== exclude1 && rank !== exclude2 && rankCounts[rank] >= 1) kickers.push(rank);
+    }
+    return kickers;
+}
+
+/** Top n ranks counting duplicates, e.g. [K, K, 9, ...] */
+function findTopNRanks(rankCounts: number[], n: number): number[] {
+    const ranks: number[] = [];
+    for (let rank = ACE; rank >= 0 && ranks.length < n; rank--) {
+        for (let added = 0; added < rankCounts[rank] && ranks.length < n; added++) ranks.push(rank);
+    }
+    return ranks;
+}
+
+// Tiebreakers exceed 32 bits, so bytes are packed with arithmetic rather than shifts
+function packRanks(ranks: number[]): number {
+    return ranks.reduce((result, rank) => result * 256 + rank, 0);
+}
+
+function encodeWithKickers(primary: number, kickers: number[], width: number): number {
+    const padded = Array.from({ length: width }, (_, i) => kickers[i] ?? 0);
+    return packRanks([primary, ...padded]);
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/**
+ * Evaluate the best 5-card hand from 7 cards (2 hole + 5 community).
+ * Throws on a wrong card count or duplicate cards, where the contract aborts.
+ */
+export function evaluateHand(cards: number[]): HandEvaluation {
+    if (cards.length !== 7) throw new Error("evaluateHand needs exactly 7 cards");
+    if (new Set(cards).size !== cards.length) throw new Error("evaluateHand got duplicate cards");
+    return evaluateCards(cards);
+}
+
+// Same logic as evaluate_hand for any card count; with 5 or 6 cards it is the best five
+function evaluateCards(cards: number[]): HandEvaluation {
+    const rankCounts = countRanks(cards);
+    const flushSuit = findFlush(countSuits(cards));
+    const flushCards = flushSuit === null ? [] : cards.filter((card) => getSuit(card) === flushSuit);
+
+    if (flushCards.length >= 5) {
+        const high = findStraight(countRanks(flushCards));
+        if (high !== null) {
+            return high === ACE ? { handType: ROYAL_FLUSH, tiebreaker: 0 } : { handType: STRAIGHT_FLUSH, tiebreaker: high };
+        }
+    }
+
+    const quads = findNOfAKind(rankCounts, 4);
+    if (quads !== null) {
+        return { handType: FOUR_OF_A_KIND, tiebreaker: packRanks([quads, findHighestKicker(rankCounts, quads, NO_RANK)]) };
+    }
+
+    const trips = findNOfAKind(rankCounts, 3);
+    if (trips !== null) {
+        const pair = findPairExcluding(rankCounts, trips);
+        if (pair !== null) return { handType: FULL_HOUSE, tiebreaker: packRanks([trips, pair]) };
+    }
+
+    if (flushSuit !== null) {
+        return { handType: FLUSH, tiebreaker: packRanks(findTopNRanks(countRanks(flushCards), 5)) };
+    }
+
+    const straightHigh = findStraight(rankCounts);
+    if (straightHigh !== null) return { handType: STRAIGHT, tiebreaker: straightHigh };
+
+    if (trips !== null) {
+        return { handType: THREE_OF_A_KIND, tiebreaker: encodeWithKickers(trips, findTopKickers(rankCounts, trips, NO_RANK, 2), 2) };
+    }
+
+    const pair = findNOfAKind(rankCounts, 2);
+    if (pair !== null) {
+        const secondPair = findPairExcluding(rankCounts, pair);
+        if (secondPair !== null) {
+            const highPair = Math.max(pair, secondPair);
+            const lowPair = Math.min(pair, secondPair);
+            const kicker = findHighestKicker(rankCounts, highPair, lowPair);
+            return { handType: TWO_PAIR, tiebreaker: encodeWithKickers(highPair, [lowPair, kicker], 2) };
+        }
+        return { handType: ONE_PAIR, tiebreaker: encodeWithKickers(pair, findTopKickers(rankCounts, pair, NO_RANK, 3), 3) };
+    }
+
+    return { handType: HIGH_CARD, tiebreaker: packRanks(findTopNRanks(rankCounts, 5)) };
+}
+
+/**
+ * Compare two evaluated hands: 1 if a wins, 2 if b wins, 0 on a tie
+ */
+export function compareHands(a: HandEvaluation, b: HandEvaluation): 0 | 1 | 2 {
+    if (a.handType !== b.handType) return a.handType > b.handType ? 1 : 2;
+    if (a.tiebreaker !== b.tiebreaker) return a.tiebreaker > b.tiebreaker ? 1 : 2;
+    return 0;
+}
+
+// ============================================
+// LIVE HAND
+// ============================================
+
+export interface BestHand extends HandEvaluation {
+    /** The five cards that make the hand; all cards while fewer than five are known */
+    cards: number[];
+}
+
+function combinations(cards: number[], size: number): number[][] {
+    if (size === 0) return [[]];
+    if (cards.length < size) return [];
+    const [first, ...rest] = cards;
+    return [...combinations(rest, size - 1).map((combo) => [first, ...combo]), ...combinations(rest, size)];
+}
+
+/**
+ * Current best hand from hole cards plus however much of the board is out
+ * (2 to 7 cards), and which five cards make it
+ */
+export function findBestHand(cards: number[]): BestHand {
+    if (cards.length < 2 || cards.length > 7) throw new Error("findBestHand needs 2 to 7 cards");
+    if (new Set(cards).size !== cards.length) throw new Error("findBestHand got duplicate cards");
+
+    const evaluation = evaluateCards(cards);
+    if (cards.length <= 5) return { ...evaluation, cards: [...cards] };
+
+    const best = combinations(cards, 5).find((combo) => compareHands(evaluateCards(combo), evaluation) === 0);
+    return { ...evaluation, cards: best ?? cards.slice(0, 5) };
+}
+
+const RANK_NAMES = ["Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten", "Jack", "Queen", "King", "Ace"];
+
+function plural(rank: number): string {
+    return rank === 4 ? "Sixes" : `${RANK_NAMES[rank]}s`;
+}
+
+/**
+ * Plain-English name of a hand, e.g. "Two Pair, Kings and Sevens"
+ */
+export function describeHand(hand: BestHand): string {
+    // Ranks grouped by count, most cards first, then highest
+    const counts = countRanks(hand.cards);
+    const groups = counts
+        .map((count, rank) => ({ count, rank }))
+        .filter(({ count }) => count > 0)
+        .sort((a, b) => b.count - a.count || b.rank - a.rank);
+    const [first, second] = groups.map(({ rank }) => rank);
+
+    switch (hand.handType) {
+        case HIGH_CARD:
+            return `${RANK_NAMES[first]} High`;
+        case ONE_PAIR:
+            return `Pair of ${plural(first)}`;
+        case TWO_PAIR:
+            return `Two Pair, ${plural(first)} and ${plural(second)}`;
+        case THREE_OF_A_KIND:
+            return `Three of a Kind, ${plural(first)}`;
+        case STRAIGHT:
+            return `Straight, ${RANK_NAMES[hand.tiebreaker]} High`;
+        case FLUSH:
+            return `Flush, ${RANK_NAMES[first]} High`;
+        case FULL_HOUSE:
+            return `Full House, ${plural(first)} full of ${plural(second)}`;
+        case FOUR_OF_A_KIND:
+            return `Four of a Kind, ${plural(first)}`;
+        case STRAIGHT_FLUSH:
+            return `Straight Flush, ${RANK_NAMES[hand.tiebreaker]} High`;
+        default:
+            return HAND_RANKINGS[hand.handType] ?? "Unknown";
+    }
+}
@@ -0,0 +1,418 @@
+/**
+ * Hand history export
+ *
+ * Formats reconstructed HandHistory records as PokerStars-style text and as
+ * Open Hand History (OHH) JSON so sessions load into standard trackers and
+ * solvers. Amounts are written in CEDRA (chips / CHIPS_PER_CEDRA) or raw chips.
+ */
+
+import { CHIPS_PER_CEDRA, decodeCard, HAND_RANKINGS } from "../config/contracts";
+import type { HandAction, HandHistory, HandHistorySeat, HandStreetPhase } from "../client";
+
+export type ExportUnit = "cedra" | "chips";
+export type ExportFormat = "pokerstars" | "ohh";
+
+export interface ExportOptions {
+    /** Default "cedra" */
+    unit?: ExportUnit;
+    /** Written as the site name; default "Cedra Hold'em" */
+    siteName?: string;
+}
+
+const TABLE_SIZE = 5;
+const OHH_SPEC_VERSION = "1.4.7";
+const DEFAULT_SITE = "Cedra Hold'em";
+
+const SUIT_CODES: Record<string, string> = { "♣": "c", "♦": "d", "♥": "h", "♠": "s" };
+
+const STREET_NAMES: Record<HandStreetPhase, "Preflop" | "Flop" | "Turn" | "River"> = {
+    3: "Preflop",
+    4: "Flop",
+    5: "Turn",
+    6: "River",
+};
+
+// ============================================
+// SHARED HELPERS
+// ============================================
+
+/** Card value -> two-character code, e.g. 48 -> "As", 8 -> "Tc" */
+export function cardCode(value: number): string {
+    const { rank, suit } = decodeCard(value);
+    return `${rank === "10" ? "T" : rank}${SUIT_CODES[suit]}`;
+}
+
+function cardList(cards: number[]): string {
+    return cards.map(cardCode).join(" ");
+}
+
+function toUnit(chips: number, unit: ExportUnit): number {
+    return unit === "cedra" ? chips / CHIPS_PER_CEDRA : chips;
+}
+
+function handTypeName(handType: number | null): string | null {
+    if (handType === null || handType < 0 || handType >= HAND_RANKINGS.length) return null;
+    return HAND_RANKINGS[handType];
+}
+
+function playerName(seat: Pick<HandHistorySeat, "seatIdx" | "player">): string {
+    return seat.player ?? `Seat ${seat.seatIdx + 1}`;
+}
+
+/**
+ * Numeric game id, unique across tables: trackers dedupe on the hand number,
+ * and every table counts its hands from 1.
+ */
+export function gameNumber(hand: HandHistory): string {
+    const tableTag = BigInt(`0x${hand.tableAddr.replace(/^0x/, "").slice(-8) || "0"}`);
+    return `${tableTag}${String(hand.handNumber).padStart(8, "0")}`;
+}
+
+function startDate(hand: HandHistory): Date {
+    return new Date((hand.endedAt ?? Math.floor(Date.now() / 1000)) * 1000);
+}
+
+function stakesOf(hand: HandHistory): { smallBlind: number; bigBlind: number; ante: number } {
+    if (hand.stakes) return hand.stakes;
+    const posted = (kind: string) => hand.posts.find((post) => post.kind === kind)?.amount ?? 0;
+    return { smallBlind: posted("smallBlind"), bigBlind: posted("bigBlind"), ante: posted("ante") };
+}
+
+/** Only finished hands have something to export */
+export function isExportable(hand: HandHistory): boolean {
+    return hand.outcome === "showdown" || hand.outcome === "foldWin";
+}
+
+type BetVerb = "bet" | "raise" | "call";
+
+interface ClassifiedAction {
+    action: HandAction;
+    verb: BetVerb | "fold" | "check";
+    /** Seat's street total after the action, antes excluded */
+    to: number;
+    /** Amount the bet was raised by */
+    raiseBy: number;
+}
+
+/**
+ * Walk a street's actions, tracking bets the way trackers expect: antes are
+ * dead money, so blinds and straddles open the preflop betting.
+ */
+function classifyStreet(hand: HandHistory, phase: HandStreetPhase, actions: HandAction[]): ClassifiedAction[] {
+    const bets = new Map<number, number>();
+    let maxBet = 0;
+    if (phase === 3) {
+        for (const post of hand.posts) {
+            if (post.kind === "ante") continue;
+            const total = (bets.get(post.seatIdx) ?? 0) + post.amount;
+            bets.set(post.seatIdx, total);
+            maxBet = Math.max(maxBet, total);
+        }
+    }
+
+    return actions.map((action) => {
+        if (action.kind === "fold" || action.kind === "timeoutFold") return { action, verb: "fold", to: 0, raiseBy: 0 };
+        if (action.kind === "check") return { action, verb: "check", to: 0, raiseBy: 0 };
+
+        const to = (bets.get(action.seatIdx) ?? 0) + action.amount;
+        bets.set(action.seatIdx, to);
+        // Calls, and all-ins for no more than the current bet
+        if (action.kind === "call" || to <= maxBet) return { action, verb: "call", to, raiseBy: 0 };
+
+        const raiseBy = to - maxBet;
+        const verb = maxBet === 0 ? "bet" : "raise";
+        maxBet = to;
+        return { action, verb, to, raiseBy };
+    });
+}
+
+// ============================================
+// POKERSTARS TEXT
+// ============================================
+
+function formatPsDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return (
+        `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ` +
+        `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} UTC`
+    );
+}
+
+/**
+ * One hand as PokerStars hand history text
+ */
+export function toPokerStars(hand: HandHistory, { unit = "cedra", siteName = DEFAULT_SITE }: ExportOptions = {}): string {
+    const money = (chips: number) => (unit === "cedra" ? `$${toUnit(chips, unit)}` : String(chips));
+    const name = (seatIdx: number) => {
+        const seat = hand.seats.find((s) => s.seatIdx === seatIdx);
+        return seat ? playerName(seat) : `Seat ${seatIdx + 1}`;
+    };
+    const stakes = stakesOf(hand);
+    const currency = unit === "cedra" ? " CEDRA" : "";
+    const lines: string[] = [];
+
+    lines.push(
+        `PokerStars Hand #${gameNumber(hand)}: Hold'em No Limit (${money(stakes.smallBlind)}/${money(stakes.bigBlind)}${currency}) - ${formatPsDate(startDate(hand))}`
+    );
+    lines.push(`Table '${siteName} ${hand.tableAddr.slice(0, 10)}' ${TABLE_SIZE}-max Seat #${hand.dealerSeat + 1} is the button`);
+    for (const seat of hand.seats) {
+        lines.push(`Seat ${seat.seatIdx + 1}: ${playerName(seat)} (${money(seat.startingStack ?? seat.invested)} in chips)`);
+    }
+
+    for (const post of hand.posts) {
+        const label = { ante: "the ante", smallBlind: "small blind", bigBlind: "big blind", straddle: "straddle" }[post.kind];
+        lines.push(`${name(post.seatIdx)}: posts ${label} ${money(post.amount)}`);
+    }
+    lines.push("*** HOLE CARDS ***");
+
+    // Street each folded seat went out on, for the summary
+    const foldedOn = new Map<number, HandStreetPhase>();
+    const board: number[] = [];
+    for (const street of hand.streets) {
+        if (street.phase !== 3) {
+            const header = `*** ${STREET_NAMES[street.phase].toUpperCase()} ***`;
+            lines.push(board.length > 0 ? `${header} [${cardList(board)}] [${cardList(street.cards)}]` : `${header} [${cardList(street.cards)}]`);
+        }
+        board.push(...street.cards);
+
+        for (const { action, verb, to, raiseBy } of classifyStreet(hand, street.phase, street.actions)) {
+            const who = name(action.seatIdx);
+            const allIn = action.allIn ? " and is all-in" : "";
+            if (action.kind === "timeoutFold") lines.push(`${who} has timed out`);
+            if (verb === "fold") {
+                foldedOn.set(action.seatIdx, street.phase);
+                lines.push(`${who}: folds`);
+            } else if (verb === "check") lines.push(`${who}: checks`);
+            else if (verb === "call") lines.push(`${who}: calls ${money(action.amount)}${allIn}`);
+            else if (verb === "bet") lines.push(`${who}: bets ${money(to)}${allIn}`);
+            else lines.push(`${who}: raises ${money(raiseBy)} to ${money(to)}${allIn}`);
+        }
+    }
+
+    const shown = hand.seats.filter((seat) => seat.holeCards && seat.holeCards.length > 0);
+    if (hand.outcome === "showdown") {
+        lines.push("*** SHOW DOWN ***");
+        for (const seat of shown) {
+            const typeName = handTypeName(seat.handType);
+            lines.push(`${playerName(seat)}: shows [${cardList(seat.holeCards!)}]${typeName ? ` (${typeName})` : ""}`);
+        }
+    }
+    for (const award of hand.awards) {
+        lines.push(`${name(award.seatIdx)} collected ${money(award.amount)} from pot`);
+    }
+
+    lines.push("*** SUMMARY ***");
+    lines.push(`Total pot ${money(hand.totalPot ?? 0)} | Rake ${money(hand.totalFees ?? 0)}`);
+    if (hand.board.length > 0) lines.push(`Board [${cardList(hand.board)}]`);
+
+    const sb = hand.posts.find((post) => post.kind === "smallBlind")?.seatIdx;
+    const bb = hand.posts.find((post) => post.kind === "bigBlind")?.seatIdx;
+    for (const seat of hand.seats) {
+        const roles =
+            (seat.seatIdx === hand.dealerSeat ? " (button)" : "") +
+            (seat.seatIdx === sb ? " (small blind)" : "") +
+            (seat.seatIdx === bb ? " (big blind)" : "");
+        const typeName = handTypeName(seat.handType);
+        const withHand = typeName ? ` with ${typeName}` : "";
+        const folded = foldedOn.get(seat.seatIdx);
+
+        let outcome: string;
+        if (seat.holeCards && seat.holeCards.length > 0) {
+            outcome =
+                seat.won > 0
+                    ? `showed [${cardList(seat.holeCards)}] and won (${money(seat.won)})${withHand}`
+                    : `showed [${cardList(seat.holeCards)}] and lost${withHand}`;
+        } else if (folded !== undefined) {
+            outcome = folded === 3 ? "folded before Flop" : `folded on the ${STREET_NAMES[folded]}`;
+        } else if (seat.won > 0) {
+            outcome = `collected (${money(seat.won)})`;
+        } else {
+            outcome = "mucked";
+        }
+        lines.push(`Seat ${seat.seatIdx + 1}: ${playerName(seat)}${roles} ${outcome}`);
+    }
+
+    return lines.join("\n");
+}
+
+// ============================================
+// OPEN HAND HISTORY JSON
+// ============================================
+
+interface OhhAction {
+    action_number: number;
+    player_id: number;
+    action: string;
+    amount?: number;
+    is_allin?: boolean;
+    cards?: string[];
+}
+
+interface OhhRound {
+    id: number;
+    street: "Preflop" | "Flop" | "Turn" | "River" | "Showdown";
+    cards?: string[];
+    actions: OhhAction[];
+}
+
+export interface OpenHandHistory {
+    ohh: {
+        spec_version: string;
+        site_name: string;
+        network_name: string;
+        internal_version: string;
+        tournament: false;
+        game_number: string;
+        start_date_utc: string;
+        table_name: string;
+        table_handle: string;
+        table_size: number;
+        game_type: "Holdem";
+        bet_limit: { bet_type: "NL"; bet_cap: number };
+        currency: string;
+        dealer_seat: number;
+        small_blind_amount: number;
+        big_blind_amount: number;
+        ante_amount: number;
+        flags: string[];
+        players: { id: number; seat: number; name: string; display: string; starting_stack: number }[];
+        rounds: OhhRound[];
+        pots: {
+            number: number;
+            amount: number;
+            rake: number;
+            jackpot: number;
+            player_wins: { player_id: number; win_amount: number; contributed_rake: number }[];
+        }[];
+    };
+}
+
+/**
+ * One hand as an Open Hand History object. Player ids are 1-based seat
+ * numbers; action amounts are the chips added by that action.
+ */
+export function toOpenHandHistory(hand: HandHistory, { unit = "cedra", siteName = DEFAULT_SITE }: ExportOptions = {}): OpenHandHistory {
+    const amount = (chips: number) => toUnit(chips, unit);
+    const playerId = (seatIdx: number) => seatIdx + 1;
+    const stakes = stakesOf(hand);
+
+    let actionNumber = 0;
+    const nextAction = (action: Omit<OhhAction, "action_number">): OhhAction => ({ action_number: ++actionNumber, ...action });
+
+    const rounds: OhhRound[] = [];
+    for (const street of hand.streets) {
+        const actions: OhhAction[] = [];
+        if (street.phase === 3) {
+            for (const post of hand.posts) {
+                const action = { ante: "Post Ante", smallBlind: "Post SB", bigBlind: "Post BB", straddle: "Straddle" }[post.kind];
+                actions.push(nextAction({ player_id: playerId(post.seatIdx), action, amount: amount(post.amount), is_allin: false }));
+            }
+        }
+        for (const { action, verb } of classifyStreet(hand, street.phase, street.actions)) {
+            const name = { fold: "Fold", check: "Check", call: "Call", bet: "Bet", raise: "Raise" }[verb];
+            actions.push(
+                nextAction({
+                    player_id: playerId(action.seatIdx),
+                    action: name,
+                    ...(action.amount > 0 ? { amount: amount(action.amount) } : {}),
+                    is_allin: action.allIn === true,
+                })
+            );
+        }
+        rounds.push({
+            id: rounds.length,
+            street: STREET_NAMES[street.phase],
+            ...(street.cards.length > 0 ? { cards: street.cards.map(cardCode) } : {}),
+            actions,
+        });
+    }
+
+    const shown = hand.seats.filter((seat) => seat.holeCards && seat.holeCards.length > 0);
+    if (hand.outcome === "showdown" && shown.length > 0) {
+        rounds.push({
+            id: rounds.length,
+            street: "Showdown",
+            actions: shown.map((seat) =>
+                nextAction({ player_id: playerId(seat.seatIdx), action: "Shows Cards", cards: seat.holeCards!.map(cardCode) })
+            ),
+        });
+    }
+
+    return {
+        ohh: {
+            spec_version: OHH_SPEC_VERSION,
+            site_name: siteName,
+            network_name: "Cedra",
+            internal_version: "1",
+            tournament: false,
+            game_number: gameNumber(hand),
+            start_date_utc: startDate(hand).toISOString(),
+            table_name: `${siteName} ${hand.tableAddr.slice(0, 10)}`,
+            table_handle: hand.tableAddr,
+            table_size: TABLE_SIZE,
+            game_type: "Holdem",
+            bet_limit: { bet_type: "NL", bet_cap: 0 },
+            currency: unit === "cedra" ? "CEDRA" : "CHIPS",
+            dealer_seat: hand.dealerSeat + 1,
+            small_blind_amount: amount(stakes.smallBlind),
+            big_blind_amount: amount(stakes.bigBlind),
+            ante_amount: amount(stakes.ante),
+            flags: [],
+            players: hand.seats.map((seat) => ({
+                id: playerId(seat.seatIdx),
+                seat: seat.seatIdx + 1,
+                name: playerName(seat),
+                display: playerName(seat),
+                starting_stack: amount(seat.startingStack ?? seat.invested),
+            })),
+            rounds,
+            pots: [
+                {
+                    number: 0,
+                    amount: amount(hand.totalPot ?? 0),
+                    rake: amount(hand.totalFees ?? 0),
+                    jackpot: 0,
+                    player_wins: hand.awards.map((award) => ({
+                        player_id: playerId(award.seatIdx),
+                        win_amount: amount(award.amount),
+                        contributed_rake: amount(award.fee),
+                    })),
+                },
+            ],
+        },
+    };
+}
+
+// ============================================
+// FILES
+// ============================================
+
+/**
+ * Serialize finished hands into one export file. PokerStars hands are
+ * separated by blank lines; OHH files hold one JSON object per hand.
+ */
+export function exportHandHistories(hands: HandHistory[], format: ExportFormat, options?: ExportOptions): string {
+    const finished = hands.filter(isExportable);
+    if (format === "pokerstars") {
+        return finished.map((hand) => toPokerStars(hand, options)).join("\n\n\n") + "\n";
+    }
+    return finished.map((hand) => JSON.stringify(toOpenHandHistory(hand, options), null, 2)).join("\n\n") + "\n";
+}
+
+export function exportFileName(tableAddr: string, format: ExportFormat, handNumber?: number): string {
+    const base = `holdem-${tableAddr.slice(0, 10)}${handNumber !== undefined ? `-hand-${handNumber}` : ""}`;
+    return `${base}.${format === "pokerstars" ? "txt" : "ohh"}`;
+}
+
+/** Save text as a file through a temporary object URL */
+export function downloadTextFile(fileName: string, content: string) {
+    const type = fileName.endsWith(".txt") ? "text/plain" : "application/json";
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
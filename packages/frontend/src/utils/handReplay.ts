@@ -0,0 +1,197 @@
+/**
+ * Hand replay frames
+ *
+ * Turns a reconstructed HandHistory into a sequence of table states that
+ * PokerTable can render, one per posted blind, action, deal, showdown and
+ * award. Street changes get an extra "collect" frame so bets can slide
+ * into the pot before the next cards land.
+ */
+
+import { GAME_PHASES, HAND_RANKINGS, PLAYER_STATUS, decodeCard } from "../config/contracts";
+import type { HandAction, HandHistory, HandStreetPhase } from "../client";
+import type { GamePhase, GameState, PlayerStatus, SeatInfo } from "../types";
+
+const SEAT_COUNT = 5;
+
+export interface ReplayFrame {
+    label: string;
+    seats: (SeatInfo | null)[];
+    game: GameState;
+    /** Hand order, as the contract's players_in_hand */
+    playersInHand: number[];
+    /** Per hand index: placeholder cards for live seats, empty once folded */
+    holeCards: number[][];
+    /** Per seat index: face-up hole cards once shown */
+    revealed: (number[] | null)[];
+    /** Bets on this frame are being swept into the pot */
+    collecting: boolean;
+}
+
+const STREET_LABELS: Record<HandStreetPhase, string> = {
+    3: "Pre-Flop",
+    4: "Flop",
+    5: "Turn",
+    6: "River",
+};
+
+function shortAddress(address: string | null, seatIdx: number): string {
+    return address ? `${address.slice(0, 6)}...${address.slice(-4)}` : `Seat ${seatIdx + 1}`;
+}
+
+function cardsLabel(cards: number[]): string {
+    return cards.map((card) => decodeCard(card).display).join(" ");
+}
+
+function describeAction(action: HandAction, who: string): string {
+    switch (action.kind) {
+        case "fold":
+            return `${who} folds`;
+        case "timeoutFold":
+            return `${who} times out and folds`;
+        case "check":
+            return `${who} checks`;
+        case "call":
+            return `${who} calls ${action.amount.toLocaleString()}`;
+        case "raise":
+            return `${who} raises to ${action.streetTotal.toLocaleString()}`;
+        case "allIn":
+            return `${who} is all-in for ${action.amount.toLocaleString()}`;
+    }
+}
+
+/**
+ * Build the replay for one hand
+ */
+export function buildReplayFrames(hand: HandHistory): ReplayFrame[] {
+    const playersInHand = hand.seats.map((seat) => seat.seatIdx);
+    const seats: (SeatInfo | null)[] = Array.from({ length: SEAT_COUNT }, () => null);
+    for (const seat of hand.seats) {
+        seats[seat.seatIdx] = {
+            player: seat.player,
+            chips: seat.startingStack ?? 0,
+            sittingOut: false,
+            currentBet: 0,
+            status: PLAYER_STATUS.ACTIVE,
+        };
+    }
+    const name = (seatIdx: number) => shortAddress(seats[seatIdx]?.player ?? null, seatIdx);
+
+    let phase: GamePhase = GAME_PHASES.PREFLOP;
+    let pot = 0;
+    let board: number[] = [];
+    let actionOn: number | null = null;
+    const holeCards = playersInHand.map(() => [0, 0]);
+    const invested = playersInHand.map(() => 0);
+    const revealed: (number[] | null)[] = Array.from({ length: SEAT_COUNT }, () => null);
+    const frames: ReplayFrame[] = [];
+
+    const push = (label: string, collecting = false) => {
+        const currentBets = playersInHand.map((seatIdx) => seats[seatIdx]?.currentBet ?? 0);
+        frames.push({
+            label,
+            seats: seats.map((seat) => (seat ? { ...seat } : null)),
+            game: {
+                phase,
+                potSize: pot + currentBets.reduce((sum, bet) => sum + bet, 0),
+                communityCards: [...board],
+                currentBets,
+                totalInvested: [...invested],
+                playerStatuses: playersInHand.map((seatIdx) => seats[seatIdx]?.status ?? PLAYER_STATUS.WAITING) as PlayerStatus[],
+                minRaise: 0,
+                maxCurrentBet: Math.max(0, ...currentBets),
+                lastAggressor: null,
+                actionOn:
+                    actionOn === null ? null : { seatIndex: actionOn, playerAddress: seats[actionOn]?.player ?? "", deadline: 0 },
+            },
+            playersInHand,
+            holeCards: holeCards.map((cards) => [...cards]),
+            revealed: [...revealed],
+            collecting,
+        });
+    };
+
+    const bet = (seatIdx: number, amount: number) => {
+        const seat = seats[seatIdx];
+        if (!seat) return;
+        seat.chips = Math.max(0, seat.chips - amount);
+        seat.currentBet += amount;
+        invested[playersInHand.indexOf(seatIdx)] += amount;
+    };
+
+    const collect = (label: string) => {
+        if (!seats.some((seat) => seat && seat.currentBet > 0)) return;
+        actionOn = null;
+        push(label, true);
+        for (const seat of seats) {
+            if (!seat) continue;
+            pot += seat.currentBet;
+            seat.currentBet = 0;
+        }
+    };
+
+    push(`Hand #${hand.handNumber}: cards dealt`);
+
+    for (const post of hand.posts) {
+        bet(post.seatIdx, post.amount);
+        const label = { ante: "posts the ante", smallBlind: "posts the small blind", bigBlind: "posts the big blind", straddle: "straddles" }[
+            post.kind
+        ];
+        push(`${name(post.seatIdx)} ${label} (${post.amount.toLocaleString()})`);
+    }
+
+    for (const street of hand.streets) {
+        if (street.phase !== GAME_PHASES.PREFLOP) {
+            collect("Bets go to the pot");
+            phase = street.phase;
+            board = [...board, ...street.cards];
+            actionOn = null;
+            push(street.cards.length > 0 ? `${STREET_LABELS[street.phase]}: ${cardsLabel(street.cards)}` : STREET_LABELS[street.phase]);
+        }
+
+        for (const action of street.actions) {
+            const seat = seats[action.seatIdx];
+            actionOn = action.seatIdx;
+            if (seat) {
+                bet(action.seatIdx, action.amount);
+                if (action.kind === "fold" || action.kind === "timeoutFold") {
+                    seat.status = PLAYER_STATUS.FOLDED;
+                    const handIdx = playersInHand.indexOf(action.seatIdx);
+                    if (handIdx >= 0) holeCards[handIdx] = [];
+                } else if (action.allIn) {
+                    seat.status = PLAYER_STATUS.ALL_IN;
+                }
+            }
+            push(describeAction(action, name(action.seatIdx)));
+        }
+    }
+
+    collect("Bets go to the pot");
+    actionOn = null;
+
+    // Hand results only carry a full board when it ran out
+    if (hand.board.length > board.length) {
+        board = [...hand.board];
+    }
+
+    const shown = hand.seats.filter((seat) => seat.holeCards && seat.holeCards.length > 0);
+    if (hand.outcome === "showdown") {
+        phase = GAME_PHASES.SHOWDOWN;
+        for (const seat of shown) revealed[seat.seatIdx] = seat.holeCards;
+        push(`Showdown: ${shown.map((seat) => name(seat.seatIdx)).join(", ") || "no cards shown"}`);
+    }
+
+    for (const award of hand.awards) {
+        const seat = seats[award.seatIdx];
+        if (seat) seat.chips += award.amount;
+        pot = Math.max(0, pot - award.amount - award.fee);
+        const handSeat = shown.find((s) => s.seatIdx === award.seatIdx);
+        const handName = handSeat && handSeat.handType !== null ? HAND_RANKINGS[handSeat.handType] : null;
+        push(`${name(award.seatIdx)} wins ${award.amount.toLocaleString()}${handName ? ` with ${handName}` : ""}`);
+    }
+
+    if (hand.outcome === "aborted") {
+        push("Hand aborted");
+    }
+
+    return frames;
+}
@@ -0,0 +1,138 @@
+/**
+ * The vectors from contracts/tests/pot_manager_tests.move, so the port fails
+ * here whenever it stops agreeing with the contract.
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+    addBet,
+    calculateDistribution,
+    collectBets,
+    createPotState,
+    getCallAmount,
+    getMaxCurrentBet,
+    getTotalPot,
+} from "./potManager";
+
+describe("betting", () => {
+    it("test_new_pot_state", () => {
+        const state = createPotState(3);
+
+        // Initial pot should be empty
+        expect(getTotalPot(state)).toBe(0);
+        expect(getMaxCurrentBet(state)).toBe(0);
+    });
+
+    it("test_add_bet_single_player", () => {
+        const state = createPotState(2);
+
+        // Player 0 bets 100
+        addBet(state, 0, 100);
+
+        expect(state.currentBets[0]).toBe(100);
+        expect(getMaxCurrentBet(state)).toBe(100);
+    });
+
+    it("test_add_bet_multiple_players", () => {
+        const state = createPotState(3);
+
+        // Player 0 bets 50, Player 1 bets 100, Player 2 bets 75
+        addBet(state, 0, 50);
+        addBet(state, 1, 100);
+        addBet(state, 2, 75);
+
+        expect(state.currentBets).toEqual([50, 100, 75]);
+        expect(getMaxCurrentBet(state)).toBe(100);
+    });
+
+    it("test_get_call_amount", () => {
+        const state = createPotState(2);
+
+        addBet(state, 0, 100);
+
+        // Player 1 needs to call 100, player 0 is already at the max
+        expect(getCallAmount(state, 1)).toBe(100);
+        expect(getCallAmount(state, 0)).toBe(0);
+    });
+});
+
+describe("collectBets", () => {
+    it("test_collect_bets_no_side_pots", () => {
+        const state = createPotState(2);
+
+        // Both players bet 100
+        addBet(state, 0, 100);
+        addBet(state, 1, 100);
+        collectBets(state, [true, true]);
+
+        // Total pot should be 200 and current bets reset
+        expect(getTotalPot(state)).toBe(200);
+        expect(getMaxCurrentBet(state)).toBe(0);
+    });
+
+    it("test_collect_bets_with_fold", () => {
+        const state = createPotState(3);
+
+        addBet(state, 0, 50);
+        addBet(state, 1, 100);
+        addBet(state, 2, 100);
+        // Player 0 folded
+        collectBets(state, [false, true, true]);
+
+        // Total pot should include all bets
+        expect(getTotalPot(state)).toBe(250);
+    });
+
+    it("test_all_in_creates_side_pot", () => {
+        const state = createPotState(3);
+
+        // Player 0 goes all-in for 50, players 1 and 2 bet 100 each
+        addBet(state, 0, 50);
+        addBet(state, 1, 100);
+        addBet(state, 2, 100);
+        collectBets(state, [true, true, true]);
+
+        expect(getTotalPot(state)).toBe(250);
+        // Main pot: 150 (50*3) - all 3 eligible
+        // Side pot: 100 (50*2) - only players 1 and 2 eligible
+        expect(state.pots).toEqual([
+            { amount: 150, eligible: [0, 1, 2] },
+            { amount: 100, eligible: [1, 2] },
+        ]);
+    });
+});
+
+describe("calculateDistribution", () => {
+    it("test_distribution_single_winner", () => {
+        const state = createPotState(2);
+        addBet(state, 0, 100);
+        addBet(state, 1, 100);
+        collectBets(state, [true, true]);
+
+        // Player 0 has the flush, player 1 a pair
+        const rankings = [
+            { handType: 5, tiebreaker: 0 },
+            { handType: 1, tiebreaker: 0 },
+        ];
+
+        // Player 0 should win entire pot
+        expect(calculateDistribution(state, rankings, [true, true], 0, 2)).toEqual([{ playerIdx: 0, amount: 200 }]);
+    });
+
+    it("test_distribution_split_pot", () => {
+        const state = createPotState(2);
+        addBet(state, 0, 100);
+        addBet(state, 1, 100);
+        collectBets(state, [true, true]);
+
+        // Both players have the same flush
+        const rankings = [
+            { handType: 5, tiebreaker: 100 },
+            { handType: 5, tiebreaker: 100 },
+        ];
+
+        // Both should split - 100 each
+        const distributions = calculateDistribution(state, rankings, [true, true], 0, 2);
+        expect(distributions.map((dist) => dist.amount)).toEqual([100, 100]);
+    });
+});
@@ -0,0 +1,183 @@
+/**
+ * Pot manager
+ *
+ * TypeScript port of pot_manager.move: per-street bets, collection into a
+ * main pot and side pots, and split-pot distribution with the odd chip going
+ * to the winner closest to the dealer's left. Players are addressed by hand
+ * index, as in the contract. Functions mutate the state they are given.
+ */
+
+import type { HandEvaluation } from "./handEval";
+
+export interface Pot {
+    amount: number;
+    /** Hand indices that can win this pot */
+    eligible: number[];
+}
+
+export interface PotState {
+    /** Index 0 = main pot, the rest are side pots */
+    pots: Pot[];
+    /** Bets this betting round, per hand index */
+    currentBets: number[];
+    /** Bets this hand, per hand index */
+    totalInvested: number[];
+}
+
+export interface PotDistribution {
+    playerIdx: number;
+    amount: number;
+}
+
+export function createPotState(numPlayers: number): PotState {
+    return {
+        pots: [],
+        currentBets: new Array<number>(numPlayers).fill(0),
+        totalInvested: new Array<number>(numPlayers).fill(0),
+    };
+}
+
+// ============================================
+// BETTING
+// ============================================
+
+export function addBet(state: PotState, playerIdx: number, amount: number) {
+    state.currentBets[playerIdx] += amount;
+    state.totalInvested[playerIdx] += amount;
+}
+
+export function getMaxCurrentBet(state: PotState): number {
+    return Math.max(0, ...state.currentBets);
+}
+
+/** Chips a player must add to match the highest bet this round */
+export function getCallAmount(state: PotState, playerIdx: number): number {
+    return Math.max(0, getMaxCurrentBet(state) - state.currentBets[playerIdx]);
+}
+
+/** Collected pots plus bets still in front of players */
+export function getTotalPot(state: PotState): number {
+    const collected = state.pots.reduce((sum, pot) => sum + pot.amount, 0);
+    return state.currentBets.reduce((sum, bet) => sum + bet, collected);
+}
+
+// ============================================
+// COLLECTION
+// ============================================
+
+function sameEligible(a: number[], b: number[]): boolean {
+    return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/**
+ * Sweep this round's bets into pots at the end of a betting round.
+ * Each distinct bet level forms a slice; slices with the same eligible
+ * players merge into an existing pot. Folded chips stay in but cannot win.
+ */
+export function collectBets(state: PotState, nonFolded: boolean[]) {
+    const levels = [...new Set(state.currentBets.filter((bet) => bet > 0))].sort((a, b) => a - b);
+
+    let prevLevel = 0;
+    for (const level of levels) {
+        const increment = level - prevLevel;
+        let amount = 0;
+        const eligible: number[] = [];
+        state.currentBets.forEach((bet, p) => {
+            if (bet < level) return;
+            amount += increment;
+            if (nonFolded[p]) eligible.push(p);
+        });
+
+        const existing = state.pots.find((pot) => sameEligible(pot.eligible, eligible));
+        if (existing) {
+            existing.amount += amount;
+        } else if (amount > 0 && eligible.length > 0) {
+            state.pots.push({ amount, eligible });
+        }
+        prevLevel = level;
+    }
+
+    state.currentBets.fill(0);
+}
+
+/**
+ * Main pot and side pots for a hand from each player's total investment,
+ * as collectBets would leave them if every street were swept at once.
+ * Folded chips stay in but cannot win; a pot only one player is eligible
+ * for is their unmatched excess.
+ */
+export function potsFromInvestments(totalInvested: number[], nonFolded: boolean[]): Pot[] {
+    const state = createPotState(totalInvested.length);
+    totalInvested.forEach((amount, p) => addBet(state, p, amount));
+    collectBets(state, nonFolded);
+    return state.pots;
+}
+
+// ============================================
+// DISTRIBUTION
+// ============================================
+
+function findPotWinners(players: number[], rankings: HandEvaluation[]): number[] {
+    let winners: number[] = [];
+    let bestType = 0;
+    let bestTiebreaker = 0;
+    for (const p of players) {
+        const { handType, tiebreaker } = rankings[p];
+        if (handType > bestType || (handType === bestType && tiebreaker > bestTiebreaker)) {
+            winners = [p];
+            bestType = handType;
+            bestTiebreaker = tiebreaker;
+        } else if (handType === bestType && tiebreaker === bestTiebreaker) {
+            winners.push(p);
+        }
+    }
+    return winners;
+}
+
+/** Position in winners of the player closest to the dealer's left */
+function findFirstToAct(winners: number[], dealerIdx: number, numPlayers: number): number {
+    let best = 0;
+    let bestDistance = numPlayers + 1;
+    winners.forEach((p, w) => {
+        const distance = p > dealerIdx ? p - dealerIdx : numPlayers - dealerIdx + p;
+        if (distance < bestDistance) {
+            bestDistance = distance;
+            best = w;
+        }
+    });
+    return best;
+}
+
+/**
+ * Gross payout per winner across all pots, in first-award order.
+ * rankings and active are per hand index; folded players should be inactive.
+ */
+export function calculateDistribution(
+    state: PotState,
+    rankings: HandEvaluation[],
+    active: boolean[],
+    dealerIdx: number,
+    numPlayers: number
+): PotDistribution[] {
+    const distributions: PotDistribution[] = [];
+    const award = (playerIdx: number, amount: number) => {
+        const entry = distributions.find((dist) => dist.playerIdx === playerIdx);
+        if (entry) entry.amount += amount;
+        else distributions.push({ playerIdx, amount });
+    };
+
+    for (const pot of state.pots) {
+        const contenders = pot.eligible.filter((p) => active[p]);
+        if (contenders.length === 0) continue;
+
+        const winners = findPotWinners(contenders, rankings);
+        if (winners.length === 0) continue;
+
+        const share = Math.floor(pot.amount / winners.length);
+        const remainder = pot.amount % winners.length;
+        const oddChip = findFirstToAct(winners, dealerIdx, numPlayers);
+        winners.forEach((p, w) => award(p, share + (w === oddChip ? remainder : 0)));
+    }
+
+    return distributions;
+}
@@ -0,0 +1,26 @@
+/**
+ * Equity worker
+ *
+ * Runs calculateEquity off the main thread. Each request carries an id that
+ * is echoed back so the caller can drop answers to queries it has moved past.
+ */
+
+import { calculateEquity, type EquityQuery, type EquityResult } from "../utils/equity";
+
+export interface EquityRequest {
+    id: number;
+    query: EquityQuery;
+}
+
+export type EquityResponse = { id: number; result: EquityResult } | { id: number; error: string };
+
+self.addEventListener("message", (event: MessageEvent<EquityRequest>) => {
+    const { id, query } = event.data;
+    let response: EquityResponse;
+    try {
+        response = { id, result: calculateEquity(query) };
+    } catch (err) {
+        response = { id, error: err instanceof Error ? err.message : String(err) };
+    }
+    self.postMessage(response);
+});
@@ -0,0 +1,13 @@
+import { defineConfig } from 'vite'
+
+// Bundles the timeout keeper (keeper/main.ts) for Node
+export default defineConfig({
+  // Nothing in public/ belongs next to a Node bundle
+  publicDir: false,
+  build: {
+    ssr: 'keeper/main.ts',
+    outDir: 'dist-keeper',
+    emptyOutDir: true,
+    target: 'node20',
+  },
+})